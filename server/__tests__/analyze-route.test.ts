@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { app } from '../index';
+
+const pack = {
+  name: 'house-style',
+  types: {
+    house_term: { priority: 'low', message: 'House style term', suggestion: 'Use the house spelling.' },
+  },
+  rules: [{ type: 'house_term', terms: ['e-mail'] }],
+};
+
+describe('POST /api/analyze', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('applies a rule pack sent with the request', async () => {
+    const response = await fetch(`${baseUrl}/api/analyze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        content: 'Please reply to this e-mail by Friday. We read every answer.',
+        rulePacks: [pack],
+      }),
+    });
+    const body = await response.json() as {
+      metadata: { rulePacks: unknown };
+      summary: { highlightTypes: Record<string, unknown> };
+      ranges: Array<{ type: string }>;
+    };
+
+    expect(response.status).toBe(200);
+    expect(body.metadata.rulePacks).toEqual([{ name: 'house-style' }]);
+    expect(body.summary.highlightTypes.house_term).toEqual(pack.types.house_term);
+    expect(body.ranges.some(range => range.type === 'house_term')).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { JobQueue, type JobContext } from '../job-queue';
+
+// Let queued handlers start and settled ones finish
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// A handler that runs until the test settles it
+function controlledHandler() {
+  const runs: Array<{ input: { name?: string }; context: JobContext; resolve: (value: unknown) => void; reject: (error: unknown) => void }> = [];
+  const handler = vi.fn((input: unknown, context: JobContext) => new Promise((resolve, reject) => {
+    runs.push({ input: input as { name?: string }, context, resolve, reject });
+  }));
+  return { handler, runs };
+}
+
+describe('JobQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs a job and keeps its result', async () => {
+    const queue = new JobQueue({ cleanupIntervalMs: 0 }).register('score', async input => ({ scored: (input as { content: string }).content }));
+
+    const submitted = queue.submit('score', { content: 'Hello' });
+    // A free slot starts the job straight away
+    expect(submitted).toMatchObject({ type: 'score', status: 'processing' });
+    await flush();
+
+    expect(await queue.get(submitted.id)).toMatchObject({ status: 'completed', progress: 100, result: { scored: 'Hello' } });
+  });
+
+  it('queues jobs beyond the concurrency limit in submission order', async () => {
+    const { handler, runs } = controlledHandler();
+    const queue = new JobQueue({ concurrency: 2, cleanupIntervalMs: 0 }).register('analyze', handler);
+
+    const [a, b, c] = ['a', 'b', 'c'].map(name => queue.submit('analyze', { name }));
+    await flush();
+
+    expect(runs.map(run => run.input.name)).toEqual(['a', 'b']);
+    expect((await queue.get(c!.id))!.status).toBe('pending');
+    expect(queue.getStats().jobs).toMatchObject({ processing: 2, pending: 1 });
+
+    runs[0]!.resolve('done');
+    await flush();
+
+    expect((await queue.get(a!.id))!.status).toBe('completed');
+    expect(runs.map(run => run.input.name)).toEqual(['a', 'b', 'c']);
+    expect((await queue.get(b!.id))!.status).toBe('processing');
+  });
+
+  it('reports progress forward only and below 100 until done', async () => {
+    const { handler, runs } = controlledHandler();
+    const queue = new JobQueue({ cleanupIntervalMs: 0 }).register('improve', handler);
+    const { id } = queue.submit('improve', {});
+    await flush();
+
+    runs[0]!.context.progress(60, 'Rewriting');
+    runs[0]!.context.progress(40);
+    runs[0]!.context.progress(120);
+
+    expect(await queue.get(id)).toMatchObject({ progress: 99, message: 'Rewriting' });
+  });
+
+  it('records a failed handler as a structured error', async () => {
+    const queue = new JobQueue({ cleanupIntervalMs: 0 }).register('score', async () => {
+      throw new Error('model is down');
+    });
+    const { id } = queue.submit('score', {});
+    await flush();
+
+    expect(await queue.get(id)).toMatchObject({ status: 'failed', error: { message: 'model is down' } });
+  });
+
+  it('never starts a job cancelled while queued', async () => {
+    const { handler, runs } = controlledHandler();
+    const queue = new JobQueue({ concurrency: 1, cleanupIntervalMs: 0 }).register('analyze', handler);
+    queue.submit('analyze', { name: 'a' });
+    const queued = queue.submit('analyze', { name: 'b' });
+
+    expect(queue.cancel(queued.id)).toMatchObject({ status: 'cancelled' });
+    runs[0]!.resolve('done');
+    await flush();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts a running job but keeps its slot until the handler settles', async () => {
+    const { handler, runs } = controlledHandler();
+    const queue = new JobQueue({ concurrency: 1, cleanupIntervalMs: 0 }).register('analyze', handler);
+    const running = queue.submit('analyze', { name: 'a' });
+    const next = queue.submit('analyze', { name: 'b' });
+    await flush();
+
+    expect(queue.cancel(running.id)).toMatchObject({ status: 'cancelled' });
+    expect(runs[0]!.context.signal.aborted).toBe(true);
+    await flush();
+    // The cancelled handler is still running, so b waits
+    expect(runs).toHaveLength(1);
+    expect((await queue.get(next.id))!.status).toBe('pending');
+
+    runs[0]!.resolve('late result');
+    await flush();
+
+    // Its result is dropped and b gets the slot
+    const cancelled = await queue.get(running.id);
+    expect(cancelled!.status).toBe('cancelled');
+    expect(cancelled).not.toHaveProperty('result');
+    expect(runs.map(run => run.input.name)).toEqual(['a', 'b']);
+  });
+
+  it('sweeps finished jobs once their TTL has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const queue = new JobQueue({ ttlMs: 1000, cleanupIntervalMs: 0 }).register('score', async () => 'done');
+    const { id } = queue.submit('score', {});
+    await flush();
+
+    vi.advanceTimersByTime(999);
+    expect(queue.cleanup()).toBe(0);
+    vi.advanceTimersByTime(2);
+    expect(queue.cleanup()).toBe(1);
+    expect(await queue.get(id)).toBeNull();
+  });
+
+  it('writes job records through to the store and reads them back', async () => {
+    const records = new Map<string, unknown>();
+    const store = {
+      set: vi.fn(async (key: string, value: unknown) => records.set(key, value)),
+      get: vi.fn(async (key: string) => records.get(key) ?? null),
+    };
+    const queue = new JobQueue({ store, ttlMs: 5000, cleanupIntervalMs: 0 }).register('score', async () => 'done');
+    const { id } = queue.submit('score', { content: 'secret draft' });
+    await flush();
+
+    expect(store.set).toHaveBeenLastCalledWith(`job:${id}`, expect.objectContaining({ status: 'completed' }), 5000);
+    // Another instance sees the job through the store
+    const other = new JobQueue({ store, cleanupIntervalMs: 0 });
+    expect(await other.get(id)).toMatchObject({ id, status: 'completed', result: 'done' });
+    expect(JSON.stringify([...records.values()])).not.toContain('secret draft');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker, withRetry } from '../retry-logic';
+import { AIModelError, classifyError } from '../error-handler';
+
+const fail = () => Promise.reject(new Error('model is down'));
+// No waiting between attempts and no per-attempt timer left behind
+const retryNow = { maxRetries: 2, baseDelay: 0, jitter: false, timeout: 0, retryCondition: () => true };
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after the failure threshold and stops calling through', async () => {
+    const breaker = new CircuitBreaker(3, 30000, 1, 'scoring');
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow('model is down');
+    }
+
+    const fn = vi.fn(fail);
+    const error = await breaker.execute(fn).catch((e: unknown) => e);
+
+    expect(fn).not.toHaveBeenCalled();
+    expect(error).toBeInstanceOf(AIModelError);
+    expect(error).toMatchObject({ statusCode: 503, message: 'Circuit breaker scoring is OPEN - service unavailable' });
+    expect(classifyError(error)).toMatchObject({ type: 'AI_MODEL', retryable: true });
+    expect(breaker.getState()).toMatchObject({ name: 'scoring', state: 'OPEN', failures: 3 });
+  });
+
+  it('lets one trial call through after the recovery timeout and closes on success', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const breaker = new CircuitBreaker(1, 30000, 1, 'rewriting');
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    expect(breaker.getState().nextAttemptTime).toEqual(new Date(Date.now() + 30000));
+
+    vi.advanceTimersByTime(30001);
+    await expect(breaker.execute(async () => 'rewritten')).resolves.toBe('rewritten');
+
+    expect(breaker.getState()).toMatchObject({ state: 'CLOSED', failures: 0, nextAttemptTime: null });
+  });
+
+  it('reopens when the trial call fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const breaker = new CircuitBreaker(1, 30000, 1, 'scoring');
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(30001);
+    await expect(breaker.execute(fail)).rejects.toThrow('model is down');
+
+    expect(breaker.getState().state).toBe('OPEN');
+    await expect(breaker.execute(async () => 'too soon')).rejects.toBeInstanceOf(AIModelError);
+  });
+
+  it('does not count a cancelled call as a failure', async () => {
+    const breaker = new CircuitBreaker(1, 30000, 1, 'scoring');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(breaker.execute(fail, controller.signal)).rejects.toThrow('model is down');
+
+    expect(breaker.getState()).toMatchObject({ state: 'CLOSED', failures: 0 });
+  });
+
+  it('counts a retried call as one failure when it wraps withRetry', async () => {
+    const breaker = new CircuitBreaker(2, 30000, 1, 'scoring');
+    const fn = vi.fn(fail);
+
+    await expect(breaker.execute(() => withRetry(fn, retryNow))).rejects.toThrow('model is down');
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(breaker.getState()).toMatchObject({ state: 'CLOSED', failures: 1 });
+  });
+
+  it('resets the failure count when a retry succeeds', async () => {
+    const breaker = new CircuitBreaker(2, 30000, 1, 'scoring');
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    const fn = vi.fn().mockRejectedValueOnce(new Error('blip')).mockResolvedValue('scored');
+
+    await expect(breaker.execute(() => withRetry(fn, retryNow))).resolves.toBe('scored');
+
+    expect(breaker.getState()).toMatchObject({ state: 'CLOSED', failures: 0 });
+  });
+});
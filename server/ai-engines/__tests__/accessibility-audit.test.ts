@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { auditAccessibility, accessibilityWrappers } from '../accessibility-audit.js';
+import { analyzeContent } from '../content-tagger.engine.js';
+
+const newsletter = [
+  '<html><body><h1>News</h1><h3>Details</h3>',
+  '<img src="hero.png"><a href="/shop"><img src="btn.png"></a><img src="/open.gif" width="1" height="1"><img src="divider.png" alt="">',
+  '<p style="color:#999">Grey words here</p><p style="color:#fff">White words</p>',
+  '<p>Read <a href="/more" style="text-decoration:none">more news</a> today.</p>',
+  '<p><a href="/button" style="text-decoration:none">Standalone</a></p>',
+  '<table><tr><td>x</td></tr></table><table role="presentation"><tr><td>y</td></tr></table>',
+  '</body></html>',
+].join('');
+
+describe('accessibility audit', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('reports each finding with its severity, most severe first', () => {
+    const report = auditAccessibility(newsletter, { language: 'en' });
+
+    expect(report.findings.map(f => [f.code, f.severity, f.start === undefined ? null : newsletter.slice(f.start, f.end)])).toEqual([
+      ['linked_image_missing_alt', 'critical', '<img src="btn.png">'],
+      ['low_contrast', 'critical', 'White words'],
+      ['missing_alt', 'high', '<img src="hero.png">'],
+      ['low_contrast', 'high', 'Grey words here'],
+      ['missing_lang', 'medium', '<html>'],
+      ['skipped_heading_level', 'medium', 'Details'],
+      ['color_only_link', 'medium', 'more news'],
+      ['layout_table_role', 'low', '<table>'],
+    ]);
+    expect(report.severityCounts).toEqual({ critical: 2, high: 2, medium: 3, low: 1 });
+    expect(report.issueCounts.low_contrast).toBe(2);
+  });
+
+  it('explains the finding in its message', () => {
+    const messages = auditAccessibility(newsletter, { language: 'en' }).findings.map(f => f.message);
+
+    expect(messages).toContain('Text contrast is below WCAG AA: 2.85:1 (#999999 on #ffffff, needs 4.5:1) “Grey words here”');
+    expect(messages).toContain('Heading level skipped: h1 → h3');
+    expect(messages).toContain('The <html> element has no lang attribute: add lang="en"');
+  });
+
+  it('holds large text to the lower contrast ratio', () => {
+    expect(auditAccessibility('<p style="font-size:24px;color:#888">Big grey heading</p>').findings).toEqual([]);
+    expect(auditAccessibility('<p style="color:#888">Small grey text</p>').findings.map(f => [f.code, f.severity])).toEqual([
+      ['low_contrast', 'medium'],
+    ]);
+  });
+
+  it('passes accessible content', () => {
+    expect(auditAccessibility('<html lang="fr"><h2>Bonjour</h2><h3>Nouvelles</h3><img src="a.png" alt="Jardin"></html>')).toEqual({
+      lang: 'fr',
+      findings: [],
+      issueCounts: {},
+      severityCounts: { critical: 0, high: 0, medium: 0, low: 0 },
+    });
+  });
+
+  it('wraps only findings a reader sees, without overlaps', () => {
+    const wrapped = accessibilityWrappers(auditAccessibility(newsletter)).map(w => newsletter.slice(w.start, w.end));
+
+    expect(wrapped).toEqual(['<img src="btn.png">', 'White words', '<img src="hero.png">', 'Grey words here', 'Details', 'more news']);
+    expect(accessibilityWrappers(null)).toEqual([]);
+  });
+
+  it('marks findings in the annotated content', () => {
+    const { annotated, report } = analyzeContent('<p>Hello <img src="x.png"> world, this is the spring update.</p>', { grammar: { enabled: false } });
+
+    expect(annotated).toBe('<p>Hello <accessibility><img src="x.png"></accessibility> world, this is the spring update.</p>');
+    expect(report.accessibility.issueCounts).toEqual({ missing_alt: 1 });
+  });
+});
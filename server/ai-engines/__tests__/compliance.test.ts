@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { checkCompliance } from '../compliance.js';
+import { auditLinks } from '../link-auditor.js';
+
+const check = (content: string) => checkCompliance(content, { linkAudit: auditLinks(content) });
+const tags = (content: string) => check(content).map(flag => flag.tag);
+
+const footer = '<footer><p>© 2026 Acme Garden Co.</p><p>123 Main Street, Springfield, IL 62701</p>'
+  + '<p><a href="https://acme.test/unsubscribe">Unsubscribe</a></p></footer>';
+
+describe('compliance checks', () => {
+  it('passes a newsletter with an unsubscribe link, address and sender', () => {
+    expect(check(`<p>Spring planting tips for your beds.</p>${footer}`)).toEqual([]);
+  });
+
+  it('flags the legally required items as blocking', () => {
+    const flags = check('<p>Spring planting tips.</p>');
+
+    expect(flags.map(flag => [flag.tag, flag.reasons.severity, flag.reasons.regulations])).toEqual([
+      ['missing_unsubscribe', 'blocking', ['CAN-SPAM', 'GDPR']],
+      ['missing_postal_address', 'blocking', ['CAN-SPAM']],
+      ['unclear_sender', 'warning', ['CAN-SPAM', 'GDPR']],
+    ]);
+    expect(flags.every(flag => flag.reasons.category === 'compliance')).toBe(true);
+  });
+
+  it('says when unsubscribe is mentioned but not linked, or the address is outside the footer', () => {
+    const content = `<p>To unsubscribe, reply STOP.</p><p>123 Main Street, Springfield</p><p>${'Spring tips. '.repeat(60)}</p>`;
+    const [unsubscribe, address] = check(content);
+
+    expect(unsubscribe!.reasons).toMatchObject({
+      message: 'No unsubscribe link or unsubscribe merge tag: unsubscribe is mentioned but not linked',
+      mentionedWithoutLink: true,
+    });
+    expect(address!.reasons).toMatchObject({ foundOutsideFooter: true });
+  });
+
+  it('accepts ESP merge tags for the unsubscribe link, address and sender', () => {
+    expect(tags('<p>Tips.</p><p>*|LIST:ADDRESS|* *|UNSUB|* *|LIST:COMPANY|*</p>')).toEqual([]);
+  });
+
+  it('recognizes Spanish footers', () => {
+    const content = '<p>Consejos.</p><footer><p>Recibes este correo porque te suscribiste.</p>'
+      + '<p>Calle Mayor 5, Madrid</p><p><a href="https://acme.test/baja">Darte de baja</a></p></footer>';
+
+    expect(tags(content)).toEqual([]);
+  });
+
+  it('asks for disclosure text next to promotional claims', () => {
+    const [flag] = check(`<p>Get 20% off and free shipping this week!</p>${footer}`);
+
+    expect(flag).toMatchObject({ tag: 'missing_disclosure', reasons: { severity: 'warning', claims: ['20% off', 'free shipping'] } });
+    expect(tags(`<p>Get 20% off and free shipping this week! Offer ends Sunday.</p>${footer}`)).toEqual([]);
+  });
+
+  it('asks for a label on affiliate links and partner sections', () => {
+    const [flag] = check(`<p>From our partners: <a href="https://amzn.to/abc">seed kit</a></p>${footer}`);
+
+    expect(flag!.reasons).toMatchObject({
+      message: 'Affiliate links or partner content are not labeled: 1 affiliate link',
+      affiliateLinks: ['https://amzn.to/abc'],
+      sponsorSection: 'From our partners',
+    });
+    expect(tags(`<p>Sponsored: <a href="https://amzn.to/abc">seed kit</a></p>${footer}`)).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { analyzeContent } from '../content-tagger.engine.js';
+import { ContentTagger } from '../content-tagger';
+
+// Spelling findings would add noise to every fixture
+const options = { grammar: { enabled: false } };
+
+const sentences = (content: string, overrides = {}) =>
+  analyzeContent(content, { ...options, ...overrides }).report.perSentence;
+
+describe('content tagger engine', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('phrase spans', () => {
+    it('reports each matched phrase with its offsets in the sentence', () => {
+      const [first] = sentences('Act now for this free gift, a risk-free deal. Plain words here.');
+
+      expect(first!.tags).toEqual(['spam_words']);
+      expect(first!.spans.spam_words).toEqual([
+        { start: 0, end: 7, text: 'Act now' },
+        { start: 30, end: 39, text: 'risk-free' },
+        { start: 40, end: 44, text: 'deal' },
+      ]);
+      for (const span of first!.spans.spam_words) {
+        expect(first!.sentence.slice(span.start, span.end)).toBe(span.text);
+      }
+    });
+
+    it('drops spans that sit inside a longer match', () => {
+      const [first] = sentences('Start your free trial, act now.');
+
+      expect(first!.reasons.spam_words.phrases).toEqual(['act now', 'trial', 'free trial']);
+      expect(first!.spans.spam_words.map((span: { text: string }) => span.text)).toEqual(['free trial', 'act now']);
+    });
+
+    it('only matches whole words', () => {
+      const [first] = sentences('The winery offers dealers a discounted tasting.');
+
+      expect(first!.tags).toEqual([]);
+      expect(first!.spans).toEqual({});
+    });
+
+    it('spans the whole sentence for sentence-level findings', () => {
+      const long = 'We wrote this update for everyone on the list because there is a lot of news to share with you about the product and the team this month.';
+      const [first] = sentences(long);
+
+      expect(first!.tags).toContain('hard_to_read');
+      expect(first!.spans.hard_to_read).toEqual([{ start: 0, end: long.length, text: long }]);
+    });
+
+    it('still wraps the whole sentence in the annotated content', () => {
+      const { annotated } = analyzeContent('Act now for this risk-free deal. Plain words here.', options);
+
+      expect(annotated).toBe('<spam_words>Act now for this risk-free deal.</spam_words> Plain words here.');
+    });
+  });
+
+  describe('jargon, passive voice, all-caps and punctuation checks', () => {
+    it('tags one heavy jargon phrase, or two mild ones', () => {
+      const [heavy, oneMild, twoMild] = sentences('It is a seamless integration. We will leverage this. We will leverage our roadmap.');
+
+      expect(heavy!.spans.jargon).toEqual([{ start: 8, end: 28, text: 'seamless integration' }]);
+      expect(oneMild!.tags).toEqual([]);
+      expect(twoMild!.reasons.jargon).toEqual({ mild: 2, heavy: 0, terms: ['leverage', 'roadmap'] });
+    });
+
+    it('marks the passive phrase unless passive voice is turned off', () => {
+      const content = 'The report was written by the team.';
+
+      expect(sentences(content)[0]!.spans.passive_voice).toEqual([{ start: 11, end: 22, text: 'was written' }]);
+      expect(sentences(content, { passiveVoice: { enabled: false } })[0]!.tags).toEqual([]);
+    });
+
+    it('tags more than the allowed number of all-caps words', () => {
+      const [twoWords, threeWords] = sentences('Big NEWS from the TEAM. Big NEWS from the TEAM and ACME.');
+
+      expect(twoWords!.tags).toEqual([]);
+      expect(threeWords!.reasons.all_caps).toEqual({ caps: 3, words: ['NEWS', 'TEAM', 'ACME'] });
+      expect(threeWords!.spans.all_caps.map((span: { text: string }) => span.text)).toEqual(['NEWS', 'TEAM', 'ACME']);
+      expect(sentences('Big NEWS from the TEAM and ACME.', { allCaps: { maxAllowed: 3 } })[0]!.tags).toEqual([]);
+    });
+
+    it('marks runs of exclamation and question marks', () => {
+      const [shout, ask, calm] = sentences('Join us today!!! Really?! See you there!');
+
+      expect(shout!.spans.excessive_punctuation).toEqual([{ start: 13, end: 16, text: '!!!' }]);
+      expect(ask!.reasons.excessive_punctuation).toEqual({ exclamations: 1, runs: ['?!'] });
+      expect(calm!.tags).toEqual([]);
+    });
+
+    it('counts the new types as highlight types', async () => {
+      const tagger = new ContentTagger();
+      const content = 'Big NEWS from the TEAM and ACME!!! The report was written by the team.';
+      const result = await tagger.analyzeNewsletter(content);
+
+      expect(tagger.getAnalysisSummary(result).issueCountsByType).toMatchObject({ all_caps: 1, excessive_punctuation: 1, passive_voice: 1 });
+      expect(tagger.extractHighlightRanges(content, result).map(range => range.type)).toEqual(
+        expect.arrayContaining(['all_caps', 'excessive_punctuation', 'passive_voice'])
+      );
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { inspectDeliverability, applyDeliverabilityPenalty, GMAIL_CLIP_BYTES } from '../deliverability.js';
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+const codes = (content: string) => inspectDeliverability(content).findings.map(f => f.code);
+
+describe('deliverability inspection', () => {
+  it('flags HTML near and over the Gmail clipping limit', () => {
+    const clipped = inspectDeliverability(`<p>${'x'.repeat(GMAIL_CLIP_BYTES)}</p>`);
+
+    expect(clipped).toMatchObject({ clipped: true, spamRiskPenalty: 15 });
+    expect(clipped.findings[0]!.message).toBe('HTML is larger than Gmail’s 102KB limit, so Gmail will clip the message: 102.0KB');
+    expect(codes(`<p>${'x'.repeat(80 * 1024)}</p>`)).toEqual(['near_gmail_clipping']);
+    expect(codes(`<p>${words(60)}</p>`)).toEqual([]);
+  });
+
+  it('counts tracking pixels apart from content images', () => {
+    const content = '<p>Hi</p><img src="hero.png"><img src="/open.gif" width="1" height="1">';
+    const report = inspectDeliverability(content);
+    const [pixel] = report.findings;
+
+    expect(report.images).toEqual({ total: 2, content: 1, trackingPixels: 1 });
+    expect(report.findings.map(f => f.code)).toEqual(['tracking_pixel', 'image_only']);
+    expect(content.slice(pixel!.start, pixel!.end)).toBe('<img src="/open.gif" width="1" height="1">');
+  });
+
+  it('flags few words per image', () => {
+    const report = inspectDeliverability(`<p>${words(60)}</p><img src="a.png"><img src="b.png">`);
+
+    expect(report.wordsPerImage).toBe(30);
+    expect(report.findings.map(f => f.code)).toEqual(['image_heavy']);
+    expect(codes(`<p>${words(60)}</p><img src="a.png">`)).toEqual([]);
+  });
+
+  it('flags hidden, tiny and invisible text at its offsets', () => {
+    const content = '<p>Hello there friend.</p><p style="display:none">cheap pills</p><p style="font-size:6px">fine print</p>'
+      + '<div style="background:#fff"><p style="color:#fefefe">invisible words</p></div>';
+    const report = inspectDeliverability(content);
+
+    expect(report.findings.map(f => [f.code, content.slice(f.start, f.end)])).toEqual([
+      ['hidden_text', 'cheap pills'],
+      ['tiny_font', 'fine print'],
+      ['invisible_text', 'invisible words'],
+    ]);
+    expect(report.spamRiskPenalty).toBe(55);
+  });
+
+  it('treats a short hidden block before the body as the preheader', () => {
+    const report = inspectDeliverability(`<div style="display:none">Your spring guide is here</div><p>${words(60)}</p>`);
+
+    expect(report).toMatchObject({ preheader: 'Your spring guide is here', findings: [], spamRiskPenalty: 0 });
+  });
+
+  it('flags markup email clients strip, and weighs repeats at a third', () => {
+    const report = inspectDeliverability(
+      '<link rel="stylesheet" href="x.css"><style>@import url("y.css");</style><form></form><script>x</script>'
+      + '<a href="javascript:void(0)" onclick="go()">a</a><p>text</p>'
+    );
+
+    expect(report.issueCounts).toEqual({ external_css: 2, form: 1, active_content: 2 });
+    // 5 + 5/3 for the stylesheets, 10 for the form, 25 + 25/3 for the script and handler
+    expect(report.spamRiskPenalty).toBe(50);
+  });
+
+  it('adds the penalty to a spam risk, up to 100', () => {
+    const report = inspectDeliverability('<p>Plain text</p>');
+
+    expect(applyDeliverabilityPenalty(70, { ...report, spamRiskPenalty: 45 })).toBe(100);
+    expect(applyDeliverabilityPenalty(20, report)).toBe(20);
+    expect(applyDeliverabilityPenalty(20, undefined)).toBe(20);
+  });
+});
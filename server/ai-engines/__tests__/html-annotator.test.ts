@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { annotateHTML } from '../html-annotator.js';
+import { buildSourceMap } from '../source-map';
+
+const wrapIn = (tag: string) => (text: string) => `<${tag}>${text}</${tag}>`;
+
+const annotate = (html: string, ranges: Array<[number, number, string]>) =>
+  annotateHTML(html, buildSourceMap(html), ranges.map(([start, end, tag]) => ({ start, end, wrap: wrapIn(tag) })));
+
+// Every tag closes in the order it was opened
+function isBalanced(html: string) {
+  const open: string[] = [];
+  for (const [, closing, name] of html.matchAll(/<(\/?)([a-z_]+)[^>]*>/g)) {
+    if (['br', 'img', 'hr'].includes(name!)) continue;
+    if (!closing) open.push(name!);
+    else if (open.pop() !== name) return false;
+  }
+  return open.length === 0;
+}
+
+const html = '<p>Read <a href="/news?a=1&amp;b=2">our <strong>big</strong> news</a> &amp; more.</p><p>Second one.</p>';
+
+describe('html annotator', () => {
+  it('splits a sentence at inline elements and wraps each piece', () => {
+    const annotated = annotate(html, [[0, 25, 'x']]);
+
+    expect(annotated).toBe(
+      '<p><x>Read </x><a href="/news?a=1&amp;b=2"><x>our </x><strong><x>big</x></strong><x> news</x></a><x> &amp; more.</x></p><p>Second one.</p>'
+    );
+    expect(isBalanced(annotated)).toBe(true);
+  });
+
+  it('leaves the markup untouched', () => {
+    const annotated = annotate(html, [[0, 25, 'x'], [27, 38, 'y']]);
+
+    expect(annotated.replace(/<\/?[xy]>/g, '')).toBe(html);
+    expect(annotate(html, [])).toBe(html);
+  });
+
+  it('wraps entities whole', () => {
+    const ampersand = 'Read our big news & more.'.indexOf('&');
+
+    expect(annotate(html, [[ampersand, ampersand + 1, 'x']])).toContain('</a> <x>&amp;</x> more.');
+  });
+
+  it('keeps the first of two overlapping annotations', () => {
+    const annotated = annotate(html, [[0, 10, 'x'], [5, 20, 'y']]);
+
+    expect(annotated).toBe(
+      '<p><x>Read </x><a href="/news?a=1&amp;b=2"><x>our </x><strong><x>b</x>ig</strong><y> news</y></a><y> &amp; </y>more.</p><p>Second one.</p>'
+    );
+    expect(isBalanced(annotated)).toBe(true);
+  });
+
+  it('skips layout whitespace, comments and style blocks', () => {
+    const list = '<ul>\n  <li>One</li>\n  <li>Two</li>\n</ul><!-- {{ note }} --><style>p { margin: 0 }</style>';
+
+    expect(annotate(list, [[0, 8, 'x']])).toBe(
+      '<ul>\n  <li><x>One</x></li>\n  <li><x>Two</x></li>\n</ul><!-- {{ note }} --><style>p { margin: 0 }</style>'
+    );
+  });
+
+  describe('wrappers', () => {
+    const linked = '<p>Read <a href="/news">our news</a> today.</p>';
+    const map = buildSourceMap(linked);
+    const link = { start: linked.indexOf('<a'), end: linked.indexOf('</a>') + 4 };
+    const linkText = { start: linked.indexOf('our'), end: linked.indexOf('</a>') };
+    const sentence = [{ start: 0, end: map.text.length, wrap: wrapIn('x') }];
+
+    it('wraps whole elements outside the text annotations inside them', () => {
+      const annotated = annotateHTML(linked, map, sentence, [{ ...link, tag: 'link_issue' }]);
+
+      expect(annotated).toBe('<p><x>Read </x><link_issue><a href="/news"><x>our news</x></a></link_issue><x> today.</x></p>');
+      expect(isBalanced(annotated)).toBe(true);
+    });
+
+    it('opens nested wrappers outermost first', () => {
+      const annotated = annotateHTML(linked, map, [], [{ ...linkText, tag: 'inner' }, { ...link, tag: 'outer' }]);
+
+      expect(annotated).toBe('<p>Read <outer><a href="/news"><inner>our news</inner></a></outer> today.</p>');
+    });
+
+    it('drops a wrapper that would cut through a text annotation', () => {
+      const cutting = { start: linked.indexOf('our news') + 4, end: linkText.end, tag: 'link_issue' };
+
+      expect(annotateHTML(linked, map, sentence, [cutting])).toBe(annotate(linked, [[0, map.text.length, 'x']]));
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, languageInstruction } from '../languages.js';
+import { ContentTagger, resolveContentLanguage } from '../content-tagger';
+import { ValidationError } from '../../error-handler';
+
+describe('language detection', () => {
+  it.each([
+    ['en', 'Thanks for reading our newsletter. This week we have news about the team and the product.'],
+    ['es', 'Gracias por leer nuestro boletín. Esta semana hay muchas novedades sobre el equipo y los productos.'],
+    ['de', 'Danke, dass Sie unseren Newsletter lesen. Diese Woche gibt es Neuigkeiten über das Team und die Produkte.'],
+    ['fr', "Merci de lire notre lettre. Cette semaine, nous avons des nouvelles sur l'équipe et les produits."],
+  ])('detects %s', (language, text) => {
+    expect(detectLanguage(text)).toMatchObject({ language, reliable: true });
+    expect(detectLanguage(text).confidence).toBeGreaterThan(0.8);
+  });
+
+  it('falls back to English when there is too little to go on', () => {
+    expect(detectLanguage('Hello!')).toEqual({ language: 'en', confidence: 0, reliable: false });
+    expect(detectLanguage('')).toEqual({ language: 'en', confidence: 0, reliable: false });
+  });
+
+  it('is not reliable for evenly mixed text', () => {
+    const mixed = 'The team and the product. El equipo y los productos. Das Team und die Produkte.';
+
+    expect(detectLanguage(mixed).reliable).toBe(false);
+  });
+
+  it('asks LLMs to answer in the detected language', () => {
+    expect(languageInstruction('de')).toBe('The newsletter is written in German. Write all of your output in German; do not translate it.');
+    expect(languageInstruction('xx')).toContain('written in English');
+  });
+});
+
+describe('content language resolution', () => {
+  it('uses a requested language as is', () => {
+    expect(resolveContentLanguage('fr', 'Thanks for reading our newsletter, we have news for you.')).toEqual({
+      code: 'fr', name: 'French', source: 'request', confidence: 1,
+    });
+  });
+
+  it('detects the language from the text of HTML content', () => {
+    const html = '<p class="the and the">Gracias por leer <strong>nuestro</strong> boletín.</p><p>Hay novedades sobre el equipo y los productos.</p>';
+
+    expect(resolveContentLanguage('auto', html)).toMatchObject({ code: 'es', name: 'Spanish', source: 'detected' });
+    expect(resolveContentLanguage(undefined, html).code).toBe('es');
+  });
+
+  it('rejects unsupported languages', () => {
+    expect(() => resolveContentLanguage('it', 'Ciao')).toThrow(ValidationError);
+  });
+
+  it('analyzes with the word lists of the language', async () => {
+    const content = 'Oferta exclusiva con descuento para ti.';
+    const english = new ContentTagger();
+    const spanish = english.forLanguage('es');
+
+    expect(english.forLanguage('en')).toBe(english);
+    expect(spanish.getOptions().language).toBe('es');
+    expect(english.getOptions().language ?? 'en').toBe('en');
+    expect((await spanish.analyzeNewsletter(content)).report.perSentence[0]!.tags).toContain('spam_words');
+    expect((await english.analyzeNewsletter(content)).report.perSentence[0]!.tags).not.toContain('spam_words');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { auditLinks, linkWrappers } from '../link-auditor';
+import { ContentTagger } from '../content-tagger';
+
+const codes = (content: string) => auditLinks(content).findings.map(f => f.code);
+
+describe('link auditor', () => {
+  it('finds nothing wrong with a descriptive, tracked link', () => {
+    const audit = auditLinks('<p>Read the <a href="https://example.com/guide?utm_source=news&utm_medium=email&utm_campaign=may">pricing guide</a>.</p>');
+
+    expect(audit.findings).toEqual([]);
+    expect(audit.links[0]).toMatchObject({ kind: 'anchor', text: 'pricing guide', host: 'example.com', scheme: 'https' });
+  });
+
+  it('flags missing destinations and link text', () => {
+    expect(codes('<a href="#">Pricing guide</a>')).toEqual(['missing_href']);
+    expect(codes('<a href="https://example.com/a"><img src="logo.png"></a>')).toEqual(['empty_link_text']);
+    // Image alt text counts as link text
+    expect(codes('<a href="https://example.com/a"><img src="logo.png" alt="Example home"></a>')).toEqual([]);
+  });
+
+  it('flags link text that does not describe the destination', () => {
+    expect(codes('<a href="https://example.com/a">Click here</a>')).toEqual(['non_descriptive_text']);
+    expect(codes('<a href="https://example.com/a">Hier klicken</a>')).toEqual(['non_descriptive_text']);
+  });
+
+  it('flags bare URLs shown as link text or pasted as text', () => {
+    const audit = auditLinks('<p>See <a href="https://example.com/a">https://example.com/a</a> or www.example.org/b today.</p>');
+
+    expect(audit.findings.map(f => [f.code, f.text])).toEqual([
+      ['bare_url', 'https://example.com/a'],
+      ['bare_url', 'www.example.org/b'],
+    ]);
+    expect(audit.links.map(link => link.kind)).toEqual(['anchor', 'text']);
+  });
+
+  it('flags URL shorteners and duplicate destinations', () => {
+    const audit = auditLinks(
+      '<a href="https://bit.ly/abc">Spring sale</a> <a href="https://example.com/a#top">Guide</a> <a href="https://example.com/a/">Our guide</a>'
+    );
+
+    expect(audit.findings.map(f => [f.code, f.linkIndex])).toEqual([
+      ['url_shortener', 0],
+      ['duplicate_destination', 2],
+    ]);
+    expect(audit.summary.duplicates).toEqual([{ destination: 'https://example.com/a', count: 2, linkIndexes: [1, 2] }]);
+  });
+
+  it('checks UTM parameters against the other tracked links', () => {
+    const audit = auditLinks([
+      '<a href="https://example.com/1?utm_source=news&utm_medium=email&utm_campaign=may">One</a>',
+      '<a href="https://example.com/2?utm_source=news&utm_medium=email&utm_campaign=may">Two</a>',
+      '<a href="https://example.com/3?utm_source=news&utm_medium=email">Three</a>',
+      '<a href="https://example.com/4?utm_source=ads&utm_medium=email&utm_campaign=may">Four</a>',
+      '<a href="https://example.com/5">Five</a>',
+    ].join(' '));
+
+    expect(audit.findings.map(f => [f.code, f.linkIndex])).toEqual([
+      ['utm_incomplete', 2],
+      ['utm_inconsistent', 3],
+      ['utm_missing', 4],
+    ]);
+    expect(audit.summary.utm).toEqual({
+      tracked: 4,
+      untracked: 1,
+      expected: { utm_source: 'news', utm_medium: 'email', utm_campaign: 'may' },
+    });
+  });
+
+  it('does not ask for UTM parameters when no link is tracked', () => {
+    expect(codes('<a href="https://example.com/1">One</a> <a href="https://example.com/2">Two</a>')).toEqual([]);
+  });
+
+  it('validates mailto: and tel: links', () => {
+    expect(codes('<a href="mailto:team@example.com?subject=Hi">Email us</a>')).toEqual([]);
+    expect(codes('<a href="mailto:team-at-example">Email us</a>')).toEqual(['invalid_mailto']);
+    expect(codes('<a href="mailto:team@example.com?reply=1">Email us</a>')).toEqual(['invalid_mailto']);
+    expect(codes('<a href="tel:+14155550100">Call us</a>')).toEqual([]);
+    expect(codes('<a href="tel:call-me">Call us</a>')).toEqual(['invalid_tel']);
+    expect(codes('<a href="tel:4155550100">Call us</a>')).toEqual(['tel_without_country_code']);
+  });
+
+  it('points findings at the link text in the submitted content', () => {
+    const content = '<p>Read it <a href="https://bit.ly/x"><strong>here</strong></a>.</p>';
+    const [shortener] = auditLinks(content).findings.filter(f => f.code === 'url_shortener');
+
+    expect(content.slice(shortener!.start, shortener!.end)).toBe('<strong>here</strong>');
+  });
+
+  it('wraps each link with findings once', () => {
+    const audit = auditLinks('<a href="https://bit.ly/x">here</a>');
+
+    expect(audit.findings).toHaveLength(2);
+    expect(linkWrappers(audit)).toEqual([{ start: 27, end: 31, tag: 'link_issue' }]);
+  });
+
+  it('marks links with findings in the annotated content and counts them', async () => {
+    const tagger = new ContentTagger();
+    const result = await tagger.analyzeNewsletter('<p>Our spring update is out. Read it <a href="https://bit.ly/x">here</a>.</p>');
+
+    expect(result.annotated).toContain('<a href="https://bit.ly/x"><link_issue>here</link_issue></a>');
+    expect(tagger.getAnalysisSummary(result).issueCountsByType.link_issue).toBe(1);
+    expect(tagger.extractHighlightRanges('', result).filter(range => range.type === 'link_issue')).toHaveLength(2);
+  });
+});
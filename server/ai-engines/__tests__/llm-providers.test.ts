@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LLMRouter, LocalProvider, createLLMRouter, type ChatMessage, type ChatOptions, type ChatResult, type LLMProvider } from '../llm-providers';
+import { rewriteWithLlama31 } from '../rewriteWithLlama31.js';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'Hello' }];
+
+// Streams `partial` and then throws, like a hosted provider dropping mid-reply
+class FailingProvider implements LLMProvider {
+  readonly model = 'failing-1';
+  calls = 0;
+
+  constructor(readonly name: string, private partial = '') {}
+
+  isConfigured() {
+    return true;
+  }
+
+  async chat(_messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    this.calls++;
+    if (this.partial) options.onDelta?.(this.partial);
+    throw new Error(`${this.name} is down`);
+  }
+}
+
+describe('LLMRouter', () => {
+  it('falls back to the next provider when the primary throws', async () => {
+    const primary = new FailingProvider('primary');
+    const router = new LLMRouter([primary, new LocalProvider()]);
+
+    const result = await router.chat(messages);
+
+    expect(primary.calls).toBe(1);
+    expect(result).toMatchObject({ content: 'OK', provider: 'local' });
+  });
+
+  it('tries providers in order and reports every failure', async () => {
+    const first = new FailingProvider('first');
+    const second = new FailingProvider('second');
+
+    await expect(new LLMRouter([first, second]).chat(messages)).rejects.toThrow(
+      'All LLM providers failed (first: first is down; second: second is down)'
+    );
+    expect([first.calls, second.calls]).toEqual([1, 1]);
+  });
+
+  it('resets the stream before the fallback writes its reply', async () => {
+    const events: string[] = [];
+    const router = new LLMRouter([new FailingProvider('primary', 'Half a'), new LocalProvider()]);
+
+    await router.chat(messages, {
+      onDelta: text => events.push(text),
+      onReset: () => events.push('<reset>'),
+    });
+
+    expect(events).toEqual(['Half a', '<reset>', 'OK']);
+  });
+
+  it('does not reset when the failed provider streamed nothing', async () => {
+    const onReset = vi.fn();
+    const router = new LLMRouter([new FailingProvider('primary'), new LocalProvider()]);
+
+    await router.chat(messages, { onDelta: () => {}, onReset });
+
+    expect(onReset).not.toHaveBeenCalled();
+  });
+
+  it('does not hand a cancelled request to the fallback', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fallback = new FailingProvider('fallback');
+
+    await expect(new LLMRouter([new FailingProvider('primary'), fallback]).chat(messages, { signal: controller.signal })).rejects.toThrow('primary is down');
+    expect(fallback.calls).toBe(0);
+  });
+
+  it('orders fallbacks by priority after the primary', () => {
+    const router = createLLMRouter({
+      primary: { provider: 'groq' },
+      fallbacks: [{ provider: 'openai', priority: 2 }, { provider: 'local', priority: 1 }],
+    });
+
+    expect(router.providers.map(provider => provider.name)).toEqual(['groq', 'local', 'openai']);
+  });
+});
+
+describe('rewriteWithLlama31', () => {
+  it('rewrites through the router it is given', async () => {
+    const router = new LLMRouter([new FailingProvider('groq'), new LocalProvider()]);
+
+    const result = await rewriteWithLlama31({ originalText: 'Hi {{first_name}}, this is REALLY big news!!!', llm: router });
+
+    expect(result.provider).toBe('local');
+    expect(result.rewritten).toContain('{{first_name}}');
+  });
+
+  it('refuses to run without a router', async () => {
+    await expect(rewriteWithLlama31({ originalText: 'Hello there.' })).rejects.toThrow('No LLM provider configured.');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { scoreNewsletterLocally } from '../local-scorer';
+import { scoreSpamRisk } from '../spam-scorer';
+import { ContentTagger, type ContentAnalysisResult } from '../content-tagger';
+
+const tagger = new ContentTagger();
+
+describe('local scorer', () => {
+  it('scores a clean draft from the rule-based report', async () => {
+    const analysis = await tagger.analyzeNewsletter(
+      'Our March update covers three new features. Each one saves your team time. Read the full notes on our blog today.'
+    );
+    const score = scoreNewsletterLocally(analysis);
+
+    expect(score.unavailable).toEqual([]);
+    expect(score.tone).toBe(100);
+    // Every score is its base plus the adjustments it reports
+    const { base, adjustments } = score.breakdown.clarity;
+    expect(score.clarity).toBe(Math.round(adjustments.reduce((total, a) => total + a.points, base)));
+  });
+
+  it('takes points off tone for capitals and exclamation runs', async () => {
+    const analysis = await tagger.analyzeNewsletter('THIS IS A HUGE ANNOUNCEMENT FOR EVERYONE. Sign up now!!! We will see you there.');
+    const score = scoreNewsletterLocally(analysis);
+
+    expect(score.tone).toBeLessThan(100);
+    expect(score.breakdown.tone.adjustments.map(a => a.label)).toEqual(expect.arrayContaining(['ALL CAPS', 'Exclamation runs']));
+  });
+
+  it('takes spam risk from the spam report, ten points per rule point', async () => {
+    const content = 'ACT NOW!!! Click here for FREE MONEY!!! Limited time offer, 100% guaranteed!!!';
+    const spam = scoreSpamRisk(content);
+    const score = scoreNewsletterLocally(await tagger.analyzeNewsletter(content), { spam });
+
+    expect(score.spamRisk).toBe(spam.spamRisk);
+    expect(score.breakdown.spamRisk.adjustments).toHaveLength(spam.rules.length);
+  });
+
+  it('marks the report-based scores unavailable for a placeholder report', () => {
+    const content = 'Sign up today for FREE!!!';
+    // What /api/analyze stands in when the tagger fails
+    const placeholder = { annotated: content, report: { perSentence: [], global: { wordCount: 5 } } } as unknown as ContentAnalysisResult;
+    const spam = scoreSpamRisk(content);
+    const score = scoreNewsletterLocally(placeholder, { spam });
+
+    expect(score.unavailable).toEqual(['audienceFit', 'tone', 'clarity', 'engagement']);
+    // Stand-ins, not perfect scores
+    expect([score.audienceFit, score.tone, score.clarity, score.engagement]).toEqual([50, 50, 50, 50]);
+    expect(score.spamRisk).toBe(spam.spamRisk);
+  });
+});
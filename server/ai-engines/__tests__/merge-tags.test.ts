@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { scanMergeTags, maskMergeTags, protectMergeTags, restoreMergeTags, mergeTagWrappers, MASK_CHAR } from '../merge-tags';
+import { buildSourceMap } from '../source-map';
+import { ContentTagger } from '../content-tagger';
+import { rewriteWithLlama31 } from '../rewriteWithLlama31.js';
+
+const codes = (content: string) => scanMergeTags(content).findings.map(f => f.code);
+
+// Answers each request with the next reply, the way LLMRouter.chat does
+function scriptedLLM(...replies: Array<(prompt: string) => string>) {
+  const requests: Array<Array<{ role: string; content: string }>> = [];
+  return {
+    requests,
+    isConfigured: () => true,
+    async chat(messages: Array<{ role: string; content: string }>) {
+      requests.push([...messages]);
+      const reply = replies[requests.length - 1]!;
+      // The protected draft is the last section of the first user prompt
+      const draft = messages[1]!.content.split('ORIGINAL TEXT\n')[1]!;
+      return { content: reply(draft), provider: 'mock', model: 'mock-1' };
+    },
+  };
+}
+
+describe('merge-tag scanner', () => {
+  it('recognizes the tag syntax of each ESP', () => {
+    const content = [
+      'Hi {{ first_name | default: "there" }},',
+      '*|FNAME|* %%FirstName%% %FIRSTNAME% [firstname,fallback=friend]',
+      '{% if vip %}VIP{% endif %} *|IF:FNAME|*yes*|END:IF|* %%=v(@offer)=%%',
+    ].join('\n');
+    const { tokens, summary } = scanMergeTags(content);
+
+    expect(tokens.map(t => [t.syntax, t.kind, t.name])).toEqual([
+      ['mustache', 'variable', 'first_name'],
+      ['mailchimp', 'variable', 'FNAME'],
+      ['ampscript', 'variable', 'FirstName'],
+      ['activecampaign', 'variable', 'FIRSTNAME'],
+      ['campaign_monitor', 'variable', 'firstname'],
+      ['liquid', 'open', 'if'],
+      ['liquid', 'close', 'if'],
+      ['mailchimp', 'open', 'if'],
+      ['mailchimp', 'close', 'if'],
+      ['ampscript', 'expression', 'v(@offer)'],
+    ]);
+    expect(tokens.every(t => content.slice(t.start, t.end) === t.raw)).toBe(true);
+    expect(summary).toMatchObject({ total: 10, variables: 5, blocks: 2, bySyntax: { mailchimp: 3, liquid: 2, ampscript: 2 } });
+  });
+
+  it('leaves ordinary brackets, percentages and code alone', () => {
+    const content = 'Save 20% [see terms] today. <style>a{color:red}</style><script>var t = "{{x";</script>';
+
+    expect(scanMergeTags(content)).toMatchObject({ tokens: [], findings: [] });
+  });
+
+  it('accepts balanced and nested blocks', () => {
+    expect(codes('{% if vip %}{% for item in items %}{{ item.name }}{% endfor %}{% else %}Hi{% endif %}')).toEqual([]);
+    expect(codes('{{#if first_name}}Hi {{first_name}}{{else}}Hi{{/if}}')).toEqual([]);
+    expect(codes('%%[ IF @vip == "yes" THEN ]%%VIP%%[ ENDIF ]%%')).toEqual([]);
+    expect(codes('{% comment %}{{ broken {% endcomment %}')).toEqual([]);
+  });
+
+  it('flags tags and blocks that are not well-formed', () => {
+    expect(codes('Hi {{ first_name, welcome')).toEqual(['unclosed_tag']);
+    expect(codes('Hi first_name}} and {{}}')).toEqual(['stray_delimiter', 'empty_tag']);
+    expect(codes('{% if vip %}VIP')).toEqual(['unclosed_block']);
+    expect(codes('VIP{% endif %}')).toEqual(['unexpected_block_end']);
+    expect(codes('{% if vip %}{% for x in xs %}{% endif %}')).toEqual(['mismatched_block']);
+    // A close in another syntax leaves the open block to its own close
+    expect(codes('*|IF:FNAME|*yes{% endif %}*|END:IF|*')).toEqual(['mismatched_block']);
+    expect(codes('Hi{% else %}there')).toEqual(['orphan_branch']);
+  });
+
+  it('rates broken templates above missing fallbacks', () => {
+    const { findings, summary } = scanMergeTags('{% if vip %}Hi {{ first_name }}');
+
+    expect(findings.map(f => [f.code, f.severity])).toEqual([['unclosed_block', 'high']]);
+    expect(summary.errors).toBe(1);
+  });
+
+  it('warns about personal fields printed without a fallback', () => {
+    const { findings, summary } = scanMergeTags('Hi {{ first_name }} and *|FNAME|* at %%Company%%');
+
+    expect(findings.map(f => [f.code, f.severity, f.text])).toEqual([
+      ['missing_fallback', 'low', '{{ first_name }}'],
+      ['missing_fallback', 'low', '*|FNAME|*'],
+    ]);
+    expect(summary.missingFallbacks).toBe(2);
+  });
+
+  it('does not ask for a fallback on guarded, defaulted or system fields', () => {
+    expect(codes('Hi {{ first_name | default: "there" }} and [firstname,fallback=friend]')).toEqual([]);
+    expect(codes('{% if first_name %}Hi {{ first_name }}{% endif %}')).toEqual([]);
+    expect(codes('*|UNSUB|* *|LIST:ADDRESS|* {{ unsubscribe_url }}')).toEqual([]);
+  });
+
+  it('masks each tag at the same offsets', () => {
+    const text = 'Hi {{first_name}}, see *|ARCHIVE|*.';
+    const masked = maskMergeTags(text);
+
+    expect(masked).toHaveLength(text.length);
+    expect(masked).toBe(`Hi ${MASK_CHAR.repeat(14)}, see ${MASK_CHAR.repeat(11)}.`);
+  });
+});
+
+describe('merge-tag protection', () => {
+  const original = 'Hi {{ first_name | default: "there" }},\n{% if vip %}Your *|FNAME|* offer{% endif %} ends %%=Format(@end, "d")=%%.';
+
+  it('swaps tags for placeholders and restores them byte for byte', () => {
+    const { text, tokens } = protectMergeTags(original);
+
+    expect(text).toBe('Hi ⟦T0⟧,\n⟦T1⟧Your ⟦T2⟧ offer⟦T3⟧ ends ⟦T4⟧.');
+    expect(restoreMergeTags(text, tokens)).toEqual({ text: original, missing: [], unknown: [] });
+  });
+
+  it('reports placeholders that were dropped, repeated or invented', () => {
+    const { tokens } = protectMergeTags('Hi {{name}} and {{city}}');
+
+    expect(restoreMergeTags('Hi ⟦T0⟧ and ⟦T0⟧ ⟦T7⟧', tokens)).toEqual({
+      text: 'Hi {{name}} and {{name}} ⟦T7⟧',
+      missing: ['{{name}}', '{{city}}'],
+      unknown: ['⟦T7⟧'],
+    });
+  });
+});
+
+describe('merge-tag wrappers', () => {
+  it('wraps findings in text and skips those inside attributes', () => {
+    const content = '<p>Hi {{ first_name }}</p><a href="{{ url">Shop</a>';
+    const report = scanMergeTags(content);
+
+    expect(report.findings.map(f => f.code)).toEqual(['missing_fallback', 'unclosed_tag']);
+    expect(mergeTagWrappers(report, buildSourceMap(content))).toEqual([{ start: 6, end: 22, tag: 'merge_tag' }]);
+  });
+
+  it('marks broken tags in the annotated content and counts them', async () => {
+    const tagger = new ContentTagger();
+    const result = await tagger.analyzeNewsletter('<p>Our spring update is out.</p><p>Thanks, {{ first_name }}</p>');
+
+    expect(result.annotated).toContain('<p>Thanks, <merge_tag>{{ first_name }}</merge_tag></p>');
+    expect(tagger.getAnalysisSummary(result).issueCountsByType.merge_tag).toBe(1);
+    expect(tagger.extractHighlightRanges('', result).filter(range => range.type === 'merge_tag')).toHaveLength(1);
+  });
+});
+
+describe('rewriteWithLlama31 merge tags', () => {
+  const originalText = 'Hi {{ first_name | default: "there" }}, your *|FNAME|* code is %%=v(@code)=%%. {% if vip %}VIP{% endif %}';
+
+  it('sends placeholders and restores the tags byte for byte', async () => {
+    const llm = scriptedLLM(draft => draft.replace('Hi', 'Hello'));
+
+    const result = await rewriteWithLlama31({ originalText, llm });
+
+    expect(llm.requests[0]![1]!.content).not.toContain('{{');
+    expect(result.rewritten).toBe(originalText.replace('Hi', 'Hello'));
+    expect(result).toMatchObject({ mergeTags: 5, provider: 'mock', model: 'mock-1' });
+  });
+
+  it('asks again when the model mangles or drops a placeholder', async () => {
+    const llm = scriptedLLM(
+      draft => draft.replace('⟦T1⟧', '⟦T 1⟧').replace('⟦T2⟧', ''),
+      draft => draft,
+    );
+
+    const result = await rewriteWithLlama31({ originalText, llm });
+
+    expect(llm.requests).toHaveLength(2);
+    expect(llm.requests[1]![3]!.content).toContain('Your draft lost or changed these placeholders: ⟦T1⟧, ⟦T2⟧.');
+    expect(result.rewritten).toBe(originalText);
+  });
+
+  it('throws rather than return a draft with broken personalization', async () => {
+    const dropFirst = (draft: string) => draft.replace('⟦T0⟧', 'friend');
+    const llm = scriptedLLM(dropFirst, dropFirst);
+
+    await expect(rewriteWithLlama31({ originalText, llm })).rejects.toThrow(
+      'Rewrite did not keep merge tags intact: {{ first_name | default: "there" }}'
+    );
+  });
+});
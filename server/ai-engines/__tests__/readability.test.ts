@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { countSyllables, paragraphReadability, readabilityScores, splitReadabilitySentences } from '../readability.js';
+
+const simple = 'The cat sat on the mat.';
+const dense = 'Organizational transformation necessitates comprehensive communication. Administrative responsibilities accumulate unexpectedly.';
+
+describe('readability', () => {
+  it('counts syllables, including words the vowel rules get wrong', () => {
+    expect(['the', 'table', 'little', 'walked', 'boxes', 'created', 'education'].map(word => countSyllables(word)))
+      .toEqual([1, 2, 2, 1, 2, 3, 4]);
+    expect(['every', 'business', 'beautiful'].map(word => countSyllables(word))).toEqual([2, 2, 3]);
+    expect(countSyllables('2024')).toBe(0);
+  });
+
+  it('ends sentences at line breaks as well as punctuation', () => {
+    expect(splitReadabilitySentences('Spring update\nFirst one. Second?! ...')).toEqual(['Spring update', 'First one.', ' Second?!']);
+  });
+
+  it('matches the published formulas for a one-syllable sentence', () => {
+    // 6 words, 1 sentence, 6 syllables, 17 letters, no complex words
+    expect(readabilityScores(simple)).toMatchObject({
+      wordCount: 6,
+      sentenceCount: 1,
+      fleschReadingEase: 116.15,
+      fleschKincaidGrade: -1.45,
+      smogIndex: 3.13,
+      gunningFog: 2.4,
+      colemanLiauIndex: -4.07,
+      automatedReadabilityIndex: -5.09,
+      averageGrade: -1.02,
+    });
+  });
+
+  it('grades dense, polysyllabic text far higher', () => {
+    // 9 words, 2 sentences, 43 syllables, 7 complex words
+    expect(readabilityScores(dense)).toMatchObject({
+      wordCount: 9,
+      sentenceCount: 2,
+      fleschReadingEase: -201.93,
+      fleschKincaidGrade: 42.54,
+      smogIndex: 15.25,
+      gunningFog: 32.91,
+    });
+  });
+
+  it('scores empty text as zero', () => {
+    expect(readabilityScores(' ... ')).toMatchObject({ wordCount: 0, sentenceCount: 0, fleschReadingEase: 0, averageGrade: 0 });
+  });
+
+  it('scores each paragraph on its own', () => {
+    const paragraphs = paragraphReadability(`${simple}\nIt slept.\n\n${dense}`);
+
+    expect(paragraphs.map(p => [p.index, p.offset, p.sentenceCount])).toEqual([[0, 0, 2], [1, 35, 2]]);
+    expect(paragraphs[1]!.excerpt).toBe('Organizational transformation necessitates comprehensive communication. Admin…');
+    expect(paragraphs[1]!.averageGrade).toBe(readabilityScores(dense).averageGrade);
+  });
+});
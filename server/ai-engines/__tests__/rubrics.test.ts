@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { validateRubric, parseRubric, resolveRubric, listRubrics } from '../rubrics';
+import { DEFAULT_RUBRIC, gradeNewsletter } from '../grading-rubric.js';
+import { ValidationError } from '../../error-handler';
+
+const rubric = {
+  id: 'house',
+  name: 'House rubric',
+  dimensions: [{ key: 'spamRisk', weight: 2 }, { key: 'clarity', weight: 1, label: 'Plain English' }],
+};
+
+const thrown = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    return error as ValidationError;
+  }
+  throw new Error('expected a ValidationError');
+};
+
+describe('rubric validation', () => {
+  it('fills in dimension labels, directions and default cutoffs', () => {
+    expect(validateRubric(rubric)).toEqual({
+      id: 'house',
+      name: 'House rubric',
+      dimensions: [
+        { key: 'spamRisk', label: 'Spam Risk', weight: 2, inverted: true },
+        { key: 'clarity', label: 'Plain English', weight: 1 },
+      ],
+      gradeCutoffs: DEFAULT_RUBRIC.gradeCutoffs,
+      countInformationalTags: false,
+    });
+  });
+
+  it('lists every problem at once', () => {
+    const invalid = {
+      id: 'Bad Id',
+      name: '',
+      dimensions: [{ key: 'tone', weight: 0 }, { key: 'tone', weight: 1 }, { key: 'voice', weight: 1 }],
+      gradeCutoffs: { A: 80, B: 90, C: 70, D: 60 },
+      countInformationalTags: 'yes',
+    };
+
+    const error = thrown(() => validateRubric(invalid));
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Invalid rubric: id must be lowercase letters, digits, - or _ (at most 64 characters) (and 6 more)');
+    expect(error.suggestions).toEqual([
+      'id must be lowercase letters, digits, - or _ (at most 64 characters)',
+      'name must be a non-empty string of at most 100 characters',
+      'dimensions[0].weight must be a number above 0 and at most 100',
+      'dimensions[1].key "tone" is listed twice',
+      'dimensions[2].key must be one of: audienceFit, tone, clarity, engagement, spamRisk, writingIssues',
+      'gradeCutoffs must decrease from A to D',
+      'countInformationalTags must be a boolean',
+    ]);
+  });
+
+  it('reserves the id of the built-in rubric', () => {
+    expect(() => validateRubric({ ...rubric, id: DEFAULT_RUBRIC.id })).toThrow(`id "${DEFAULT_RUBRIC.id}" is reserved for the built-in rubric`);
+  });
+
+  it('parses YAML and JSON, and names the file that failed', () => {
+    expect(parseRubric(JSON.stringify(rubric)).id).toBe('house');
+    expect(parseRubric('id: house\nname: House\ndimensions:\n  - key: tone\n    weight: 1\n').dimensions).toEqual([
+      { key: 'tone', label: 'Tone', weight: 1 },
+    ]);
+    expect(() => parseRubric('id: [unclosed', 'acme/house.yaml')).toThrow('Invalid acme/house.yaml: could not parse as JSON or YAML');
+  });
+});
+
+describe('rubric resolution', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('selects the built-in rubric without an id', () => {
+    expect(resolveRubric(undefined, undefined)).toBe(DEFAULT_RUBRIC);
+    expect(resolveRubric('example', 'default')).toBe(DEFAULT_RUBRIC);
+    expect(listRubrics(undefined)).toEqual([DEFAULT_RUBRIC]);
+  });
+
+  it('loads a workspace rubric by id and grades with its cutoffs', () => {
+    const selected = resolveRubric('example', 'deliverability-first');
+    const result = gradeNewsletter({ spamRisk: 10, clarity: 90, engagement: 80, writingIssues: 90 }, selected);
+
+    expect(selected.dimensions.map(d => [d.key, d.label, d.weight])).toEqual([
+      ['spamRisk', 'Spam Risk', 3],
+      ['clarity', 'Clarity', 2],
+      ['engagement', 'Engagement', 1],
+      ['writingIssues', 'House style', 1],
+    ]);
+    expect(result).toMatchObject({ rubric: 'deliverability-first', score: 89, grade: 'B' });
+  });
+
+  it('rejects unknown rubrics, bad ids and bad workspaces', () => {
+    const unknown = thrown(() => resolveRubric('example', 'missing'));
+
+    expect(unknown.message).toBe('Unknown rubric "missing"');
+    expect(unknown.suggestions).toEqual(['Available rubrics: default, deliverability-first']);
+    expect(() => resolveRubric('example', 5)).toThrow('rubric must be a rubric id');
+    expect(() => resolveRubric('../example', 'deliverability-first')).toThrow('Invalid workspaceId');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { compileRulePacks, parseRequestRulePacks, parseRulePack } from '../rule-packs';
+import { ContentTagger } from '../content-tagger';
+
+const hostilePack = {
+  name: 'hostile',
+  rules: [{ type: 'spam_words', patterns: ['^(\\w+\\s?)+$'] }],
+};
+
+describe('rule packs', () => {
+  it('rejects regex patterns in packs sent with a request', () => {
+    expect(() => parseRequestRulePacks(hostilePack)).toThrow(/patterns is only allowed in workspace packs/);
+  });
+
+  it('still accepts patterns in workspace packs', () => {
+    const pack = parseRulePack('name: house\nrules:\n  - type: vague_number\n    patterns: [\'\\bsome\\s+\\d+\\b\']', 'example/house.yaml');
+
+    expect(compileRulePacks([pack]).rules[0]!.patterns).toHaveLength(1);
+  });
+
+  it('matches request terms literally', async () => {
+    const [pack] = parseRequestRulePacks({
+      name: 'literal',
+      rules: [{ type: 'spam_words', terms: ['(a+)+', 'c.o'] }],
+    });
+    const tagger = new ContentTagger().withRulePacks([pack!]);
+
+    const plain = await tagger.analyzeNewsletter('Our cool offer is here. The (a+)+ sale starts today.');
+    const tagged = plain.report.perSentence.filter(s => s.tags.includes('spam_words'));
+
+    // "c.o" is not a wildcard, so "cool" is not tagged
+    expect(tagged.map(s => s.sentence)).toEqual(['The (a+)+ sale starts today.']);
+  });
+});
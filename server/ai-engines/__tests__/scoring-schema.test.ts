@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { buildRepairPrompt, completeScoringOutput, validateScoringOutput } from '../scoring-schema';
+import { GemmaAPIService } from '../gemma-api';
+import { LLMRouter, type ChatMessage, type LLMProvider } from '../llm-providers';
+
+const valid = {
+  audienceFit: 80,
+  tone: 75,
+  clarity: 90,
+  engagement: 65,
+  spamRisk: 10,
+  summary: ['Clear and specific.', 'The opening is slow.'],
+  improvements: ['Lead with the news.'],
+};
+
+// Replies with the scripted texts in order and keeps every conversation it was sent
+class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly model = 'scripted-1';
+  readonly calls: ChatMessage[][] = [];
+
+  constructor(private replies: string[]) {}
+
+  isConfigured() {
+    return true;
+  }
+
+  async chat(messages: ChatMessage[]) {
+    this.calls.push([...messages]);
+    return { content: this.replies.shift() ?? '', provider: this.name, model: this.model };
+  }
+}
+
+describe('scoring schema', () => {
+  it('accepts a reply that matches the schema', () => {
+    expect(validateScoringOutput(JSON.stringify(valid))).toEqual({ value: valid, errors: [] });
+  });
+
+  it('finds the JSON object inside code fences and prose', () => {
+    const reply = `Here are the scores:\n\`\`\`json\n${JSON.stringify(valid)}\n\`\`\`\nHope this helps.`;
+
+    expect(validateScoringOutput(reply).errors).toEqual([]);
+  });
+
+  it('keeps the valid fields and explains the invalid ones', () => {
+    const { value, errors } = validateScoringOutput(JSON.stringify({ ...valid, tone: 'good', clarity: 140, improvements: [] }));
+
+    expect(value).toEqual({ audienceFit: 80, engagement: 65, spamRisk: 10, summary: valid.summary });
+    expect(errors).toEqual([
+      'tone must be an integer between 0 and 100',
+      'clarity must be between 0 and 100 (got 140)',
+      'improvements must have at least 1 item',
+    ]);
+  });
+
+  it('rejects a reply that is not a JSON object', () => {
+    expect(validateScoringOutput('Tone: 80, clarity: 90')).toEqual({ value: {}, errors: ['the reply must be a single JSON object'] });
+  });
+
+  it('lists each error in the repair prompt', () => {
+    expect(buildRepairPrompt(['tone must be an integer between 0 and 100'])).toBe([
+      'Your reply did not match the required JSON Schema:',
+      '- tone must be an integer between 0 and 100',
+      'Reply again with the corrected JSON object only.',
+    ].join('\n'));
+  });
+
+  it('merges attempts and reports the fields it had to default', () => {
+    const { output, defaulted } = completeScoringOutput([{ tone: 40, clarity: 70 }, { tone: 60 }]);
+
+    expect(output).toMatchObject({ tone: 60, clarity: 70, audienceFit: 50, summary: [] });
+    expect(defaulted).toEqual(['audienceFit', 'engagement', 'spamRisk', 'summary', 'improvements']);
+  });
+});
+
+describe('scoring repair round', () => {
+  it('sends the validation errors back and uses the repaired reply', async () => {
+    const provider = new ScriptedProvider([
+      '{"audienceFit": 80, "tone": "warm", "clarity": 90',
+      JSON.stringify(valid),
+    ]);
+    const service = new GemmaAPIService(new LLMRouter([provider]));
+
+    const analysis = await service.analyzeNewsletter('Our March update covers three new features.');
+
+    expect(provider.calls).toHaveLength(2);
+    const repair = provider.calls[1]!;
+    expect(repair[2]).toEqual({ role: 'assistant', content: '{"audienceFit": 80, "tone": "warm", "clarity": 90' });
+    expect(repair[3]!.content).toContain('- the reply must be a single JSON object');
+    expect(analysis).toMatchObject({ ...valid, defaulted: [], repairAttempts: 1, provider: 'scripted' });
+  });
+
+  it('defaults what is still invalid after the repair', async () => {
+    const provider = new ScriptedProvider([
+      JSON.stringify({ ...valid, tone: 'warm' }),
+      JSON.stringify({ ...valid, tone: 'still warm', engagement: undefined }),
+    ]);
+    const service = new GemmaAPIService(new LLMRouter([provider]));
+
+    const analysis = await service.analyzeNewsletter('Our March update covers three new features.');
+
+    expect(provider.calls).toHaveLength(2);
+    // Engagement was valid in the first reply, so only tone is a stand-in
+    expect(analysis.defaulted).toEqual(['tone']);
+    expect(analysis.engagement).toBe(65);
+  });
+
+  it('fails when no score ever validates', async () => {
+    const service = new GemmaAPIService(new LLMRouter([new ScriptedProvider(['not json', 'still not json'])]));
+
+    await expect(service.analyzeNewsletter('Our March update.')).rejects.toThrow('Gemma returned no valid scores');
+  });
+});
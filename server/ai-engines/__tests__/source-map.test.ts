@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildSourceMap, locateSentences, sourceSegments, sourceToText, textToSource } from '../source-map';
+
+const html = '<p>Fish &amp; chips <b>today</b>.</p>\n\n<p>Hello   <a href="#">there</a><br>again</p><script>var x = "<p>";</script>';
+const map = buildSourceMap(html);
+const pieces = (start: number, end: number) => sourceSegments(map, start, end).map(s => html.slice(s.start, s.end));
+
+describe('source map', () => {
+  it('builds the plain text the tagger analyzes', () => {
+    expect(map.text).toBe('Fish & chips today.\n\nHello there\nagain');
+    expect(map.starts).toHaveLength(map.text.length);
+    expect(map.ends).toHaveLength(map.text.length);
+  });
+
+  it('maps each character back to the HTML it came from', () => {
+    const amp = map.text.indexOf('&');
+    const space = map.text.indexOf('Hello') + 5;
+
+    expect(html.slice(map.starts[amp], map.ends[amp])).toBe('&amp;');
+    expect(html.slice(map.starts[space], map.ends[space])).toBe('   ');
+    // Block and line breaks have no source of their own
+    expect(map.starts[map.text.indexOf('\n')]).toBe(map.ends[map.text.indexOf('\n')]);
+  });
+
+  it('converts ranges between text and HTML offsets', () => {
+    const today = map.text.indexOf('today');
+
+    expect(textToSource(map, 0, 19)).toEqual({ start: 3, end: html.indexOf('</p>') });
+    expect(textToSource(map, 5, 5)).toBeNull();
+    expect(textToSource(map, 100, 120)).toBeNull();
+    expect(sourceToText(map, html.indexOf('today'))).toBe(today);
+    // An offset inside markup maps to the next character of text
+    expect(sourceToText(map, html.indexOf('<b>') + 1)).toBe(today);
+  });
+
+  it('splits a range into runs of text that never cross a tag', () => {
+    expect(pieces(0, 19)).toEqual(['Fish &amp; chips ', 'today', '.']);
+    expect(pieces(map.text.indexOf('Hello'), map.text.length)).toEqual(['Hello   ', 'there', 'again']);
+  });
+
+  it('locates repeated sentences at their own occurrence', () => {
+    expect(locateSentences('Hi. Hi. Bye.', ['Hi.', 'Hi.', 'Gone.', 'Bye.'])).toEqual([0, 4, -1, 8]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { scoreSpamRisk, REQUIRED_SCORE } from '../spam-scorer';
+
+const rule = (report: ReturnType<typeof scoreSpamRisk>, id: string) => report.rules.find(r => r.id === id);
+
+describe('spam scorer', () => {
+  it('fires nothing for a plain update', () => {
+    const report = scoreSpamRisk('Our March update covers three new features. Each one saves your team time.');
+
+    expect(report.rules).toEqual([]);
+    expect(report.spamRisk).toBe(0);
+  });
+
+  it('weighs each rule and adds the points up', () => {
+    const report = scoreSpamRisk('Act now!!! This is risk-free, so reply today!!');
+
+    expect(rule(report, 'SPAM_PHRASE')).toMatchObject({ points: 1.6, evidence: ['act now', 'risk-free'] });
+    expect(rule(report, 'EXCLAMATION_RUN')).toMatchObject({ points: 1.2, evidence: ['!!!', '!!'] });
+    const total = report.rules.reduce((sum, r) => sum + r.points, 0);
+    expect(report.score).toBeCloseTo(total, 2);
+    expect(report.spamRisk).toBe(Math.min(100, Math.round(report.score * 10)));
+  });
+
+  it('caps a rule at its maximum', () => {
+    const report = scoreSpamRisk('Hi!! Wow!! Yes!! Go!! Now!! Again!! More!! Stop!!');
+
+    expect(rule(report, 'EXCLAMATION_RUN')!.points).toBe(2.4);
+  });
+
+  it('lists rules with the most points first and flags spam at the required score', () => {
+    const report = scoreSpamRisk('FREE MONEY!!! Act now, risk-free, 100% guaranteed!!! Click here for $$$ cash bonus!!!', {
+      subject: 'RE: URGENT: YOU WON!!!'
+    });
+
+    const points = report.rules.map(r => r.points);
+    expect(points).toEqual([...points].sort((a, b) => b - a));
+    expect(report.score).toBeGreaterThanOrEqual(REQUIRED_SCORE);
+    expect(report.isSpam).toBe(true);
+    expect(rule(report, 'SUBJ_FAKE_REPLY')).toBeDefined();
+  });
+
+  it('records the shortener host, not the anchor text, as evidence', () => {
+    const report = scoreSpamRisk(
+      '<p>Read the <a href="https://bit.ly/3xYz">launch notes</a> and <a href="https://tinyurl.com/abc">pricing</a> for our update this week.</p>'
+    );
+
+    expect(rule(report, 'URL_SHORTENER')).toMatchObject({ points: 1.5, evidence: ['bit.ly', 'tinyurl.com'] });
+  });
+});
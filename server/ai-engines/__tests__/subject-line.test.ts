@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSubjectLine, type SubjectLineReport } from '../subject-line';
+
+const failing = (report: SubjectLineReport) =>
+  report.checks.filter(check => check.status !== 'pass').map(check => [check.id, check.status, check.penalty]);
+
+const preheader = 'What changes for your beds in May, and which seeds to start indoors now.';
+
+describe('subject line analyzer', () => {
+  it('passes a clear subject with a preheader that matches the body', () => {
+    const report = analyzeSubjectLine({
+      subject: 'Our spring gardening changes',
+      preheader,
+      content: '<p>Gardens <strong>change</strong> in spring.</p>',
+    });
+
+    expect(report).toMatchObject({ score: 100, grade: 'A', spamWords: [], emojiCount: 0 });
+    expect(report.bodyMatch).toEqual({ score: 100, matchedTerms: ['spring', 'gardening', 'changes'], missingTerms: [] });
+  });
+
+  it('adds up the penalty of every failed check', () => {
+    const report = analyzeSubjectLine({ subject: 'FREE MONEY!!! ACT NOW 💰💰' });
+
+    expect(failing(report)).toEqual([
+      ['spam_words', 'warning', 12],
+      ['all_caps', 'fail', 20],
+      ['punctuation', 'warning', 10],
+      ['emoji', 'warning', 5],
+      ['preheader', 'warning', 10],
+    ]);
+    expect(report).toMatchObject({ score: 43, grade: 'F', spamWords: ['act now'], emojiCount: 2 });
+  });
+
+  it('previews where mobile and desktop inboxes cut the subject off', () => {
+    const report = analyzeSubjectLine({ subject: 'Everything you wanted to know about composting in small city apartments', preheader });
+
+    expect(report.subject).toMatchObject({
+      length: 71,
+      mobilePreview: 'Everything you wanted to know about comp…',
+      mobileTruncated: true,
+      desktopTruncated: true,
+    });
+    expect(failing(report)).toEqual([['subject_length', 'fail', 20]]);
+  });
+
+  it('measures personalization tokens as a filled-in name', () => {
+    const report = analyzeSubjectLine({ subject: '{{first_name}}, your spring guide', preheader });
+
+    expect(report.subject).toMatchObject({ length: 28, mobilePreview: 'Alexandra, your spring guide' });
+    expect(report.personalizationTokens).toEqual(['{{first_name}}']);
+    expect(failing(report)).toEqual([]);
+  });
+
+  it('fails merge tags that are not closed', () => {
+    const report = analyzeSubjectLine({ subject: 'Hi {{first_name, your gardening tips are here', preheader: 'Hi' });
+
+    expect(failing(report)).toEqual([
+      ['subject_length', 'warning', 5],
+      ['personalization', 'fail', 25],
+      ['preheader', 'warning', 4],
+    ]);
+  });
+
+  it('fails a subject the body never mentions', () => {
+    const report = analyzeSubjectLine({ subject: 'Your spring guide', preheader, content: 'Gardening tools for beginners.' });
+
+    expect(report.bodyMatch).toEqual({ score: 0, matchedTerms: [], missingTerms: ['spring', 'guide'] });
+    expect(failing(report)).toEqual([['body_match', 'fail', 20]]);
+  });
+});
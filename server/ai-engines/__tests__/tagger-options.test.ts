@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseRequestTaggerOptions } from '../tagger-options';
+import { ContentTagger, contentTagger } from '../content-tagger';
+import { ValidationError } from '../../error-handler';
+
+const parseError = (value: unknown) => {
+  try {
+    parseRequestTaggerOptions(value);
+  } catch (error) {
+    return error as ValidationError;
+  }
+  throw new Error('expected the options to be rejected');
+};
+
+describe('tagger options', () => {
+  it('accepts no options and returns valid overrides unchanged', () => {
+    const options = { sentenceLength: { maxLength: 30 }, thresholds: { spamWords: 3 }, maxLinksPer100Words: 1.5 };
+
+    expect(parseRequestTaggerOptions(undefined)).toEqual({});
+    expect(parseRequestTaggerOptions(null)).toEqual({});
+    expect(parseRequestTaggerOptions(options)).toBe(options);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(() => parseRequestTaggerOptions([])).toThrow('Invalid options: expected an object');
+    expect(() => parseRequestTaggerOptions('strict')).toThrow(ValidationError);
+  });
+
+  it('rejects unknown options and fields', () => {
+    expect(() => parseRequestTaggerOptions({ spamWords: ['free'] })).toThrow(/options.spamWords is not a supported option/);
+    expect(() => parseRequestTaggerOptions({ thresholds: { fluff: 1 } })).toThrow(/options.thresholds.fluff is not a supported option \(use one of: fluffPhrases, mildJargon, heavyJargon, spamWords\)/);
+    expect(() => parseRequestTaggerOptions({ thresholds: 2 })).toThrow('options.thresholds must be an object');
+  });
+
+  it('checks types and bounds', () => {
+    expect(() => parseRequestTaggerOptions({ passiveVoice: { enabled: 'no' } })).toThrow('options.passiveVoice.enabled must be a boolean');
+    expect(() => parseRequestTaggerOptions({ allCaps: { maxAllowed: 1.5 } })).toThrow('options.allCaps.maxAllowed must be an integer');
+    expect(() => parseRequestTaggerOptions({ maxLinksPer100Words: Infinity })).toThrow('options.maxLinksPer100Words must be a number');
+    expect(() => parseRequestTaggerOptions({ sentenceLength: { maxLength: 4 } })).toThrow('options.sentenceLength.maxLength must be between 5 and 100');
+  });
+
+  it('lists every problem at once', () => {
+    const error = parseError({ allCaps: { maxAllowed: -1 }, grammar: { enabled: 1 }, tone: 'fun' });
+
+    expect(error.message).toBe('Invalid options: options.allCaps.maxAllowed must be between 0 and 50 (and 2 more)');
+    expect(error.suggestions).toEqual([
+      'options.allCaps.maxAllowed must be between 0 and 50',
+      'options.grammar.enabled must be a boolean',
+      expect.stringMatching(/^options.tone is not a supported option/),
+    ]);
+  });
+
+  it('merges grouped options field by field', () => {
+    const tagger = new ContentTagger().withOptions(parseRequestTaggerOptions({ thresholds: { spamWords: 5 } }));
+
+    expect(tagger.getOptions().thresholds).toEqual({ fluffPhrases: 2, mildJargon: 2, heavyJargon: 1, spamWords: 5 });
+    expect(tagger.getOptions().allCaps).toEqual({ maxAllowed: 2 });
+  });
+
+  it('does not mutate the shared tagger', async () => {
+    const before = contentTagger.getOptions();
+    const strict = contentTagger.withOptions({ allCaps: { maxAllowed: 0 }, passiveVoice: { enabled: false } });
+    const content = 'Big NEWS from our team. The report was written by the team.';
+
+    expect(contentTagger.withOptions({})).toBe(contentTagger);
+    expect(contentTagger.getOptions()).toEqual(before);
+    const shared = await contentTagger.analyzeNewsletter(content);
+    const tuned = await strict.analyzeNewsletter(content);
+    const [sharedCaps, sharedPassive] = shared.report.perSentence;
+    const [tunedCaps, tunedPassive] = tuned.report.perSentence;
+    expect(sharedCaps!.tags).not.toContain('all_caps');
+    expect(sharedPassive!.tags).toContain('passive_voice');
+    expect(tunedCaps!.tags).toContain('all_caps');
+    expect(tunedPassive!.tags).not.toContain('passive_voice');
+  });
+});
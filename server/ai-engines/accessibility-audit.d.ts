@@ -0,0 +1,40 @@
+/**
+ * Type declarations for the accessibility audit
+ */
+
+export type AccessibilityIssueCode =
+  | 'missing_alt'
+  | 'linked_image_missing_alt'
+  | 'skipped_heading_level'
+  | 'low_contrast'
+  | 'color_only_link'
+  | 'layout_table_role'
+  | 'missing_lang';
+
+/** Same levels as the client's StructuredError severity */
+export type AccessibilitySeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface AccessibilityFinding {
+  code: AccessibilityIssueCode;
+  severity: AccessibilitySeverity;
+  message: string;
+  suggestion: string;
+  /** Range in the submitted content, when the finding has a location */
+  start?: number;
+  end?: number;
+  text?: string;
+}
+
+export interface AccessibilityReport {
+  /** lang attribute of the <html> element, if any */
+  lang: string | null;
+  /** Most severe first */
+  findings: AccessibilityFinding[];
+  issueCounts: Partial<Record<AccessibilityIssueCode, number>>;
+  severityCounts: Record<AccessibilitySeverity, number>;
+}
+
+export const ANNOTATION_TAG: 'accessibility';
+export const SEVERITY_PRIORITY: Record<AccessibilitySeverity, 'high' | 'medium' | 'low'>;
+export function auditAccessibility(content?: string, options?: { language?: string }): AccessibilityReport;
+export function accessibilityWrappers(report: AccessibilityReport | null | undefined): Array<{ start: number; end: number; tag: string }>;
@@ -0,0 +1,217 @@
+// accessibility-audit.js
+
+/**
+ * Accessibility checks on raw newsletter HTML
+ * - Images without alt text (critical when the image is the whole link)
+ * - Skipped heading levels (h1 → h3)
+ * - Text below WCAG AA contrast, from inline colors and bgcolor
+ * - Links in body text distinguished only by color (underline removed)
+ * - Layout tables without role="presentation"
+ * - <html> without a lang attribute
+ *
+ * Severities follow StructuredError (low | medium | high | critical); images,
+ * headings, low-contrast text and links are wrapped in <accessibility> tags
+ * in the annotated HTML so they render as highlights.
+ */
+
+import { buildSourceMap } from './source-map.js';
+import { walkStyledHTML, contrastRatio, formatColor, dimension } from './html-styles.js';
+
+// WCAG 2.1 AA: 4.5:1 for body text, 3:1 for large text
+const MIN_CONTRAST = 4.5;
+const MIN_CONTRAST_LARGE = 3;
+// Large text is 18pt (24px), or 14pt (18.66px) when bold
+const LARGE_TEXT_PX = 24;
+const LARGE_BOLD_TEXT_PX = 18.66;
+
+export const ANNOTATION_TAG = 'accessibility';
+
+// Highlight priority for each severity (highlights have no "critical")
+export const SEVERITY_PRIORITY = { critical: 'high', high: 'high', medium: 'medium', low: 'low' };
+
+const SEVERITY_ORDER = ['critical', 'high', 'medium', 'low'];
+const BLOCK_TAGS = new Set(['p', 'div', 'td', 'th', 'li', 'blockquote', 'body', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+// Default severity and copy for each finding code
+const ISSUES = {
+  missing_alt: {
+    severity: 'high',
+    message: 'Image has no alt text',
+    suggestion: 'Describe the image in alt="…", or use alt="" if it is only decoration',
+  },
+  linked_image_missing_alt: {
+    severity: 'critical',
+    message: 'Linked image has no alt text, so screen readers cannot name the link',
+    suggestion: 'Give the image alt text that says where the link goes',
+  },
+  skipped_heading_level: {
+    severity: 'medium',
+    message: 'Heading level skipped',
+    suggestion: 'Use heading levels in order so screen reader users can follow the outline',
+  },
+  low_contrast: {
+    severity: 'high',
+    message: 'Text contrast is below WCAG AA',
+    suggestion: `Use at least ${MIN_CONTRAST}:1 contrast for body text and ${MIN_CONTRAST_LARGE}:1 for large text`,
+  },
+  color_only_link: {
+    severity: 'medium',
+    message: 'Link is distinguished from the text around it only by color',
+    suggestion: 'Keep the underline (or make the link bold) so it stands out without color',
+  },
+  layout_table_role: {
+    severity: 'low',
+    message: 'Layout table is missing role="presentation"',
+    suggestion: 'Add role="presentation" so screen readers do not announce rows and columns',
+  },
+  missing_lang: {
+    severity: 'medium',
+    message: 'The <html> element has no lang attribute',
+    suggestion: 'Set lang on <html> so screen readers use the right pronunciation',
+  },
+};
+
+const textOf = (raw) => buildSourceMap(raw).text.replace(/\s+/g, ' ').trim();
+const excerpt = (text) => (text.length > 60 ? `${text.slice(0, 57).trimEnd()}…` : text);
+
+const ancestorIds = (state) => {
+  const ids = new Set();
+  for (let s = state; s; s = s.parent) ids.add(s.id);
+  return ids;
+};
+
+/**
+ * Audit `content` (the HTML as it will be sent). Findings carry offsets into
+ * `content` where they have a location; `language` is suggested for a
+ * missing lang attribute.
+ */
+export function auditAccessibility(content = '', { language } = {}) {
+  const { elements, texts } = walkStyledHTML(content);
+  const findings = [];
+  const add = (code, { detail, severity, start, end, text } = {}) => {
+    const issue = ISSUES[code];
+    findings.push({
+      code,
+      severity: severity || issue.severity,
+      message: detail ? `${issue.message}: ${detail}` : issue.message,
+      suggestion: issue.suggestion,
+      ...(start !== undefined ? { start, end } : {}),
+      ...(text ? { text } : {}),
+    });
+  };
+  const inner = (el) => (el.innerEnd === null ? { start: el.start, end: el.end } : { start: el.innerStart, end: el.innerEnd });
+  const innerText = (el) => (el.innerEnd === null ? '' : textOf(content.slice(el.innerStart, el.innerEnd)));
+  const within = (outer) => (el) => el.start >= outer.end && (outer.innerEnd === null || el.start < outer.innerEnd);
+
+  // Document language
+  const html = elements.find(el => el.name === 'html');
+  if (html && !html.attrs.lang?.trim()) {
+    add('missing_lang', { detail: language ? `add lang="${language}"` : undefined, start: html.start, end: html.end });
+  }
+
+  // Images without alt; tracking pixels and hidden images are not read out
+  for (const img of elements.filter(el => el.name === 'img' && !('alt' in el.attrs) && !el.state.hidden)) {
+    const width = dimension(img.attrs.width) ?? dimension(img.state.style.width);
+    const height = dimension(img.attrs.height) ?? dimension(img.state.style.height);
+    if (width !== null && height !== null && width <= 1 && height <= 1) continue;
+    const linked = elements.some(el => el.name === 'a' && el.attrs.href !== undefined && within(el)(img) && !innerText(el));
+    add(linked ? 'linked_image_missing_alt' : 'missing_alt', {
+      detail: img.attrs.src ? excerpt(img.attrs.src) : undefined,
+      start: img.start,
+      end: img.end,
+    });
+  }
+
+  // Heading outline; the first heading may start at any level
+  let previousLevel = null;
+  for (const heading of elements.filter(el => /^h[1-6]$/.test(el.name))) {
+    const level = Number(heading.name[1]);
+    if (previousLevel !== null && level > previousLevel + 1) {
+      const text = innerText(heading);
+      add('skipped_heading_level', { detail: `h${previousLevel} → h${level}`, ...inner(heading), text });
+    }
+    previousLevel = level;
+  }
+
+  // Contrast of visible text against its (inherited) background
+  for (const run of texts) {
+    const { state } = run;
+    if (state.hidden || state.fontSize <= 0) continue;
+    const text = textOf(run.raw);
+    if (!text) continue;
+    const ratio = contrastRatio(state.color, state.background);
+    const large = state.fontSize >= LARGE_TEXT_PX || (state.bold && state.fontSize >= LARGE_BOLD_TEXT_PX);
+    const required = large ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+    if (ratio >= required) continue;
+    add('low_contrast', {
+      detail: `${ratio.toFixed(2)}:1 (${formatColor(state.color)} on ${formatColor(state.background)}, needs ${required}:1) “${excerpt(text)}”`,
+      severity: ratio < 1.5 ? 'critical' : ratio < MIN_CONTRAST_LARGE ? 'high' : 'medium',
+      start: run.start,
+      end: run.end,
+      text,
+    });
+  }
+
+  // Links inside running text that lose their underline and get no other cue
+  for (const link of elements.filter(el => el.name === 'a' && el.attrs.href !== undefined && el.innerEnd !== null)) {
+    const { state } = link;
+    if (state.hidden || state.underline || state.border || (state.bold && !state.parent.bold)) continue;
+    const text = innerText(link);
+    if (!text) continue;
+    let block = state.parent;
+    while (block && block.parent && !BLOCK_TAGS.has(block.tag)) block = block.parent;
+    const inProse = texts.some(run => {
+      if (run.start >= link.innerStart && run.end <= link.innerEnd) return false;
+      const ids = ancestorIds(run.state);
+      return ids.has(block.id) && !ids.has(state.id) && /[\p{L}\p{N}]/u.test(run.raw);
+    });
+    if (!inProse) continue; // buttons and standalone links are not competing with body text
+    const ratio = contrastRatio(state.color, state.parent.color);
+    add('color_only_link', {
+      detail: `${ratio.toFixed(2)}:1 against the surrounding text “${excerpt(text)}”`,
+      ...inner(link),
+      text,
+    });
+  }
+
+  // Tables without header cells or a caption are layout tables
+  for (const table of elements.filter(el => el.name === 'table')) {
+    if (/^(presentation|none)$/i.test(table.attrs.role?.trim() || '')) continue;
+    const cells = elements.filter(within(table));
+    if (cells.some(el => el.name === 'th' || el.name === 'caption')) continue;
+    add('layout_table_role', { start: table.start, end: table.end });
+  }
+
+  const issueCounts = {};
+  const severityCounts = { critical: 0, high: 0, medium: 0, low: 0 };
+  for (const finding of findings) {
+    issueCounts[finding.code] = (issueCounts[finding.code] || 0) + 1;
+    severityCounts[finding.severity]++;
+  }
+  findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  return {
+    lang: html?.attrs.lang?.trim() || null,
+    findings,
+    issueCounts,
+    severityCounts,
+  };
+}
+
+// Findings on content a reader sees; the rest (lang, layout tables) are listed only
+const HIGHLIGHTED_CODES = new Set(['missing_alt', 'linked_image_missing_alt', 'skipped_heading_level', 'low_contrast', 'color_only_link']);
+
+/**
+ * annotateHTML wrappers that mark the highlighted findings. Wrappers never
+ * overlap (the client pairs <accessibility> tags without nesting), so the
+ * more severe of two overlapping findings is the one marked.
+ */
+export const accessibilityWrappers = (report) => {
+  const kept = [];
+  for (const { code, start, end } of report?.findings || []) {
+    if (!HIGHLIGHTED_CODES.has(code) || start === undefined) continue;
+    if (kept.some(w => w.start < end && start < w.end)) continue;
+    kept.push({ start, end, tag: ANNOTATION_TAG });
+  }
+  return kept;
+};
@@ -0,0 +1,30 @@
+/**
+ * Type declarations for the compliance checks
+ */
+
+import type { LinkAudit } from './link-auditor.js';
+
+export type ComplianceFlagTag =
+  | 'missing_unsubscribe'
+  | 'missing_postal_address'
+  | 'unclear_sender'
+  | 'missing_disclosure'
+  | 'unlabeled_sponsored';
+
+/** 'blocking' items are legal requirements to fix before sending */
+export type ComplianceSeverity = 'blocking' | 'warning';
+
+export interface ComplianceFlag {
+  tag: ComplianceFlagTag;
+  reasons: {
+    category: 'compliance';
+    severity: ComplianceSeverity;
+    regulations: string[];
+    message: string;
+    suggestion: string;
+    /** Evidence for the flag (claims found, affiliate links, ...) */
+    [key: string]: unknown;
+  };
+}
+
+export function checkCompliance(content?: string, options?: { linkAudit?: LinkAudit }): ComplianceFlag[];
@@ -0,0 +1,178 @@
+// compliance.js
+
+/**
+ * CAN-SPAM / GDPR compliance checks on newsletter HTML
+ * - An unsubscribe link, or an ESP unsubscribe merge tag (*|UNSUB|*, {{unsubscribe_url}}, ...)
+ * - A physical postal address in the footer (or an ESP address merge tag)
+ * - Clear sender identification (company, copyright line, sign-off, "you are receiving this because")
+ * - Disclosure text next to promotional claims (% off, free, guaranteed, giveaways)
+ * - Labels on affiliate links and sponsored sections
+ *
+ * Findings are returned as global flags ({ tag, reasons }) with
+ * reasons.category === 'compliance' and reasons.severity 'blocking' (legally
+ * required, should be fixed before sending) or 'warning'.
+ * English, Spanish, German and French wording is recognised.
+ */
+
+import { buildSourceMap } from './source-map.js';
+import { walkStyledHTML } from './html-styles.js';
+
+// Without a <footer> (or class/id "footer") element, the last part of the text is the footer
+const FOOTER_SHARE = 0.3;
+const FOOTER_MIN_CHARS = 400;
+
+const UNSUBSCRIBE_TEXT = /unsubscribe|opt[\s-]?out|(?:manage|update) (?:your )?(?:email )?(?:preferences|subscription)|email preferences|darte de baja|darse de baja|cancelar (?:la |tu |su )?suscripci[oó]n|abmelden|abbestellen|se d[ée]sabonner|d[ée]sinscri\w*|d[ée]sabonnement/i;
+const UNSUBSCRIBE_HREF = /unsub|opt-?out|preferences|abmeld|desabonn|d%C3%A9sabonn|baja/i;
+const UNSUBSCRIBE_MERGE_TAG = /\*\|\s*(?:UNSUB\w*|UPDATE_PROFILE)\s*\|\*|\{\{[^{}]*unsub[^{}]*\}\}|\{%[^%]*unsub[^%]*%\}|\[\s*unsub[^\]]*\]|%%?\s*unsub\w*\s*%%?|<%[^%]*unsub[^%]*%>|\$unsub\w*\$|<unsubscribe\b/i;
+
+const ADDRESS_PATTERNS = [
+  // 123 Main Street, 500 5th Ave
+  /\b\d{1,6}\s+(?:[\p{L}\d][\p{L}\d.'-]*\s+){1,5}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|way|court|ct|place|pl|parkway|pkwy|highway|hwy|square|sq|terrace|suite|ste)\b/iu,
+  /\bp\.?\s?o\.?\s+box\s+\d+/i,
+  // US state + ZIP, UK postcode, EU postcode + city
+  /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/,
+  /\b[A-Z]{1,2}\d[A-Z\d]?\s+\d[A-Z]{2}\b/,
+  /\b\d{4,5}\s+\p{Lu}\p{Ll}{2,}/u,
+  // Musterstraße 12, 12 rue de Rivoli, Calle Mayor 5
+  /\p{L}+(?:straße|strasse|str\.|weg|platz|allee|gasse)\s+\d+/iu,
+  /\b\d{1,4},?\s+(?:rue|avenue|boulevard|bd|place|all[ée]e|chemin|quai)\s/iu,
+  /\b(?:calle|c\/|avenida|avda\.?|plaza|paseo|carrer)\s+[\p{L}\s]+,?\s*\d+/iu,
+];
+const ADDRESS_MERGE_TAG = /\*\|\s*(?:LIST:ADDRESS\w*|HTML:LIST_ADDRESS\w*)\s*\|\*|(?:\{\{|\{%|\[|%%?)\s*[\w.:\s]*(?:sender|company|organi[sz]ation|org|list|physical|postal|mailing|business|office|account)[\w.:\s]*address[\w.:\s]*(?:\}\}|%\}|\]|%%?)/i;
+
+const SENDER_SIGNALS = {
+  copyright: /(?:©|\(c\)|copyright)\s*(?:\d{4}\s*)?[\p{L}\d]/iu,
+  sentBy: /\b(?:sent (?:to you )?by|this (?:e-?mail|message|newsletter) was sent|enviado por|gesendet von|envoy[ée] par)\b/iu,
+  signOff: /\b(?:regards|best|cheers|sincerely|thanks|thank you|warmly|saludos|atentamente|grüße|gruß|cordialement|amicalement)[,!.]?\s*\n+\s*\p{Lu}/u,
+  mergeTag: /\*\|\s*(?:LIST:COMPANY|LIST:DESCRIPTION|FROM_NAME)\s*\|\*|\{\{[^{}]*(?:company|sender|organi[sz]ation|from_name)[^{}]*\}\}/i,
+};
+const PERMISSION_REMINDER = /(?:you(?:'re| are) receiving this|you (?:signed up|subscribed|opted in)|recibes este (?:correo|mensaje)|te suscribiste|sie erhalten diese|sie haben sich angemeldet|vous recevez cet(?:te)? (?:e-?mail|message|newsletter)|vous êtes inscrit)/i;
+
+const PROMO_CLAIM = /\b\d{1,3}\s?%\s?(?:off|discount|de descuento|rabatt|de r[ée]duction)|\bsave\s+(?:up\s+to\s+)?[$€£]?\s?\d|\bfree\s+(?:shipping|trial|gift|delivery)\b|\b(?:lowest|best)\s+prices?\b|\bguarantee[ds]?\b|\bmoney[-\s]back\b|\b(?:giveaway|sweepstakes?|contest|prize)\b|\bbuy\s+one,?\s+get\b|\bbogo\b|\bonly\s+[$€£]\s?\d|\benv[ií]o gratis|\bgratis versand|\blivraison gratuite|\bgarantizad[oa]|\bgarantiert\b|\bgaranti(?:e|s)?\b/iu;
+const DISCLOSURE_TEXT = /terms (?:and|&) conditions|(?:terms|conditions|restrictions|exclusions) apply|\bt\s?&\s?cs?\b|see (?:site|store|website )?(?:for )?details|no purchase necessary|while supplies last|offer (?:valid|ends|expires)|valid (?:until|through|thru)|\bexpires?\b|results (?:may|will) vary|not valid with|\bexcludes\b|limit one|(?:^|\n)\s*\*\s*\p{L}[^\n]{10,}|se aplican condiciones|t[ée]rminos y condiciones|es gelten (?:die )?bedingungen|teilnahmebedingungen|voir conditions|conditions g[ée]n[ée]rales|sous r[ée]serve/iu;
+
+const AFFILIATE_HOSTS = /(?:^|\.)(?:amzn\.to|shareasale\.com|awin1\.com|anrdoezrs\.net|dpbolvw\.net|jdoqocy\.com|kqzyfj\.com|tkqlhce\.com|linksynergy\.com|skimresources\.com|rstyle\.me|shop-links\.co|clickbank\.net|pxf\.io|sjv\.io|prf\.hn|avantlink\.com|refersion\.com)$/i;
+const AFFILIATE_PARAMS = /[?&](?:aff(?:iliate)?(?:_?id)?|affid|irclickid|partner_?id|subid)=/i;
+const SPONSOR_SECTION = /\b(?:from|with|thanks to) our (?:partners?|friends)\b|\bpartner spotlight\b|\bour friends at\b|\ba word from\b|\btogether with\b|\bnuestros socios\b|\bunsere partner\b|\bnos partenaires\b/iu;
+const SPONSOR_LABEL = /\bsponsor(?:ed)?\b|\badvertisement\b|\badvertorial\b|\bpaid (?:partnership|promotion|post)\b|#ad\b|\bad:|\baffiliate\b|\bcommission\b|\bpatrocinad[oa]\b|\bpublicidad\b|\banzeige\b|\bwerbung\b|\bgesponsert\b|\bsponsoris[ée]e?\b|\bpublicit[ée]\b|\bpartenariat r[ée]mun[ée]r[ée]\b/iu;
+
+// Severity, regulation and copy for each compliance flag
+const ISSUES = {
+  missing_unsubscribe: {
+    severity: 'blocking',
+    regulations: ['CAN-SPAM', 'GDPR'],
+    message: 'No unsubscribe link or unsubscribe merge tag',
+    suggestion: 'Add a visible unsubscribe link (or your ESP’s unsubscribe merge tag) to the footer',
+  },
+  missing_postal_address: {
+    severity: 'blocking',
+    regulations: ['CAN-SPAM'],
+    message: 'No physical postal address in the footer',
+    suggestion: 'Add your postal address (street or P.O. box) to the footer, or your ESP’s address merge tag',
+  },
+  unclear_sender: {
+    severity: 'warning',
+    regulations: ['CAN-SPAM', 'GDPR'],
+    message: 'The sender is not clearly identified',
+    suggestion: 'Name your company in the footer and say why the reader is receiving this email',
+  },
+  missing_disclosure: {
+    severity: 'warning',
+    regulations: ['FTC'],
+    message: 'Promotional claims have no disclosure or terms text',
+    suggestion: 'Add the offer terms (validity, exclusions, "no purchase necessary") near the claim or in a footnote',
+  },
+  unlabeled_sponsored: {
+    severity: 'warning',
+    regulations: ['CAN-SPAM', 'FTC'],
+    message: 'Affiliate links or partner content are not labeled',
+    suggestion: 'Label the section "Sponsored" or add an affiliate disclosure',
+  },
+};
+
+const hostOf = (href) => {
+  try {
+    return new URL(href).hostname;
+  } catch {
+    return null;
+  }
+};
+
+// Plain text of the footer: <footer> / class or id "footer" elements, else the end of the email
+function footerText(content, text) {
+  const { elements } = walkStyledHTML(content);
+  const footers = elements.filter(el =>
+    el.innerEnd !== null && (el.name === 'footer' || /footer/i.test(`${el.attrs.class || ''} ${el.attrs.id || ''}`))
+  );
+  if (footers.length) {
+    return footers.map(el => buildSourceMap(content.slice(el.innerStart, el.innerEnd)).text).join('\n');
+  }
+  const length = Math.max(FOOTER_MIN_CHARS, Math.round(text.length * FOOTER_SHARE));
+  return text.slice(-length);
+}
+
+/**
+ * Check `content` against the compliance rules. `linkAudit` is the link
+ * auditor's report for the same content. Returns global flags.
+ */
+export function checkCompliance(content = '', { linkAudit } = {}) {
+  const text = buildSourceMap(content).text;
+  const footer = footerText(content, text);
+  const anchors = (linkAudit?.links || []).filter(link => link.kind === 'anchor');
+  const flags = [];
+  const flag = (code, reasons = {}, detail) => {
+    const { message, ...issue } = ISSUES[code];
+    flags.push({
+      tag: code,
+      reasons: { category: 'compliance', ...issue, message: detail ? `${message}: ${detail}` : message, ...reasons },
+    });
+  };
+
+  // Unsubscribe mechanism
+  const unsubscribeLink = anchors.some(link => UNSUBSCRIBE_TEXT.test(link.text) || UNSUBSCRIBE_HREF.test(link.href));
+  const unsubscribeMergeTag = UNSUBSCRIBE_MERGE_TAG.test(content);
+  if (!unsubscribeLink && !unsubscribeMergeTag) {
+    const mentioned = UNSUBSCRIBE_TEXT.test(text);
+    flag('missing_unsubscribe', { mentionedWithoutLink: mentioned }, mentioned ? 'unsubscribe is mentioned but not linked' : undefined);
+  }
+
+  // Postal address
+  if (!ADDRESS_MERGE_TAG.test(content) && !ADDRESS_PATTERNS.some(re => re.test(footer))) {
+    const elsewhere = ADDRESS_PATTERNS.some(re => re.test(text));
+    flag('missing_postal_address', { foundOutsideFooter: elsewhere }, elsewhere ? 'an address appears outside the footer' : undefined);
+  }
+
+  // Sender identification
+  const signals = Object.entries(SENDER_SIGNALS)
+    .filter(([name, re]) => re.test(name === 'mergeTag' ? content : name === 'signOff' ? text : footer))
+    .map(([name]) => name);
+  const permissionReminder = PERMISSION_REMINDER.test(text);
+  if (!signals.length && !permissionReminder) {
+    flag('unclear_sender', { signals, permissionReminder });
+  }
+
+  // Promotional claims need disclosure text
+  const claims = [...new Set((text.match(new RegExp(PROMO_CLAIM.source, 'giu')) || []).map(m => m.trim().toLowerCase()))];
+  if (claims.length && !DISCLOSURE_TEXT.test(text)) {
+    flag('missing_disclosure', { claims: claims.slice(0, 5) }, claims.slice(0, 3).map(c => `“${c}”`).join(', '));
+  }
+
+  // Affiliate links and partner sections need a label
+  const affiliateLinks = anchors
+    .filter(link => {
+      const host = hostOf(link.href);
+      return (host && (AFFILIATE_HOSTS.test(host) || (/(?:^|\.)amazon\./i.test(host) && /[?&]tag=/i.test(link.href))))
+        || AFFILIATE_PARAMS.test(link.href);
+    })
+    .map(link => link.href);
+  const sponsorSection = (text.match(SPONSOR_SECTION) || [])[0] || null;
+  if ((affiliateLinks.length || sponsorSection) && !SPONSOR_LABEL.test(text)) {
+    flag(
+      'unlabeled_sponsored',
+      { affiliateLinks: affiliateLinks.slice(0, 5), sponsorSection },
+      affiliateLinks.length ? `${affiliateLinks.length} affiliate link${affiliateLinks.length > 1 ? 's' : ''}` : `“${sponsorSection}”`
+    );
+  }
+
+  return flags;
+}
@@ -5,14 +5,28 @@
  * - Weighted jargon + thresholds
  * - Fluff density detection
  * - Spam stacking + formatting signals
- * - Passive voice (configurable)
+ * - Passive voice, ALL CAPS and excessive punctuation as their own tags
  * - Newsletter-specific checks (CTA, dates, claims, vagueness)
- * - Formatting issues, redundant sentences, readability grade (FK)
+ * - Formatting issues, redundant sentences, readability indices per document and paragraph
+ * - Spanish, German and French word lists and readability via languages.js
+ * - Link audit (link text, shorteners, duplicates, UTM, mailto/tel) via link-auditor.js
+ * - Deliverability inspection of the raw HTML via deliverability.js
+ * - Accessibility audit (alt text, headings, contrast, links, tables, lang) via accessibility-audit.js
+ * - CAN-SPAM / GDPR compliance flags (unsubscribe, postal address, sender, disclosures) via compliance.js
  * - NEW: grammar_spelling using write-good library for professional grammar checking
- * - Outputs annotated HTML + structured JSON report
+ * - Outputs annotated HTML + structured JSON report (with exact match spans per tag)
  */
 
 import writeGood from 'write-good';
+import { buildSourceMap, textToSource, locateSentences } from './source-map.js';
+import { annotateHTML } from './html-annotator.js';
+import { readabilityScores, paragraphReadability } from './readability.js';
+import { DEFAULT_LANGUAGE } from './languages.js';
+import { auditLinks, linkWrappers } from './link-auditor.js';
+import { inspectDeliverability } from './deliverability.js';
+import { auditAccessibility, accessibilityWrappers } from './accessibility-audit.js';
+import { checkCompliance } from './compliance.js';
+import { scanMergeTags, maskMergeTags, mergeTagWrappers, MASK_CHAR } from './merge-tags.js';
 
 // ---------------- Configuration ----------------
 
@@ -50,6 +64,9 @@ export const DEFAULT_OPTIONS = {
   readability: {
     gradeThreshold: 9                    // flag if FK grade > 9
   },
+  compliance: {
+    enabled: true                        // CAN-SPAM / GDPR flags; off for one-to-one emails
+  },
 
   // NEW: Grammar/Spelling (less aggressive for newsletter content)
   grammar: {
@@ -66,6 +83,16 @@ export const DEFAULT_OPTIONS = {
     maxMisspellingsListed: 3
   },
 
+  // Rule packs: extra { type, terms, patterns, minMatches } rules, plus optional
+  // spamWords / fluffPhrases / intensifiers / jargon overrides of the lists below
+  // and a tagOrder covering custom types (defaults to TAG_PRIORITY)
+  customRules: [],
+
+  // Language of the content. Other languages replace the word lists, clause
+  // words and passive pattern (see languages.js); grammar_spelling is English-only
+  language: 'en',
+  conjunctions: ['and', 'or', 'but', 'which', 'that'],
+
   annotate: true                         // wrap offending sentences in <tags>
 };
 
@@ -116,12 +143,53 @@ export const INTENSIFIERS = [
 // ---------------- Utils ----------------
 
 const splitSentences = (t) => (t.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || []).map(t=>t.trim());
-const wordCount = (t) => (t.match(/\b\w+\b/g) || []).length;
+const wordCount = (t) => (t.match(/[\p{L}\p{N}]+/gu) || []).length;
 const lower = (t) => t.toLowerCase();
 const countIncludes = (t, list) => list.reduce((c, p) => c + (lower(t).includes(p) ? 1 : 0), 0);
 const countRegex = (t, re) => (t.match(re) || []).length;
 const hasRegex = (t, re) => re.test(t);
 const unique = (arr) => Array.from(new Set(arr));
+const escapeRegex = (t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ---------------- Span helpers ----------------
+// Spans are { start, end, text } offsets relative to the analyzed sentence
+
+// Every whole-word occurrence of each phrase in the list
+function findPhrases(t, list) {
+  const spans = [];
+  for (const phrase of list) {
+    const re = new RegExp(`(?<![\\w'’-])${escapeRegex(phrase)}(?![\\w'’-])`, 'gi');
+    for (const m of t.matchAll(re)) {
+      spans.push({ start: m.index, end: m.index + m[0].length, text: m[0], term: phrase });
+    }
+  }
+  return spans;
+}
+
+// Every match of a regex (a global copy is used so the caller's flags don't matter)
+function findRegex(t, re) {
+  const flags = re.flags.includes('g') ? re.flags : re.flags + 'g';
+  return [...t.matchAll(new RegExp(re.source, flags))]
+    .filter(m => m[0].length > 0)
+    .map(m => ({ start: m.index, end: m.index + m[0].length, text: m[0] }));
+}
+
+// Number of distinct list entries matched (mirrors the old includes-based counting)
+const countTerms = (spans) => new Set(spans.map(s => lower(s.term))).size;
+
+const wholeSentence = (t) => ({ start: 0, end: t.length, text: t });
+
+// Sort spans and drop any that sit entirely inside an earlier one
+function mergeSpans(spans) {
+  const sorted = [...spans].sort((a, b) => a.start - b.start || b.end - a.end);
+  const out = [];
+  for (const s of sorted) {
+    const last = out[out.length - 1];
+    if (last && s.start >= last.start && s.end <= last.end) continue;
+    out.push({ start: s.start, end: s.end, text: s.text });
+  }
+  return out;
+}
 
 // Regexes
 const passiveRegex = /\b(is|are|was|were|be|been|being)\s+\w+(?:ed|en)\b/i;
@@ -133,93 +201,155 @@ const numberRegex = /\b\d+(?:\.\d+)?\b/g;
 // ---------------- Per-sentence checks ----------------
 
 function checkFluff(sentence, opts) {
-  const fp = countIncludes(sentence, FLUFF_PHRASES);
-  const intens = countIncludes(sentence, INTENSIFIERS);
-  const vagueVerbObj = /\b(improve|boost|enhance|increase|elevate)\s+(your|the|our)\s+\w+/i.test(sentence);
+  const fluffSpans = findPhrases(sentence, opts.fluffPhrases ?? FLUFF_PHRASES);
+  const intensSpans = findPhrases(sentence, opts.intensifiers ?? INTENSIFIERS);
+  const vagueSpans = findRegex(sentence, /\b(improve|boost|enhance|increase|elevate)\s+(your|the|our)\s+\w+/i);
+  const fp = countTerms(fluffSpans);
+  const intens = countTerms(intensSpans);
+  const vagueVerbObj = vagueSpans.length > 0;
   const fluffy = (fp >= opts.thresholds.fluffPhrases) || (fp >= 1 && intens >= 1) || vagueVerbObj;
-  return fluffy ? { tag: 'fluff', reasons: { fp, intens, vagueVerbObj } } : null;
+  return fluffy
+    ? { tag: 'fluff', reasons: { fp, intens, vagueVerbObj }, spans: mergeSpans([...fluffSpans, ...intensSpans, ...vagueSpans]) }
+    : null;
 }
 
-function checkJargon(sentence, opts) {
-  const mild = countIncludes(sentence, JARGON.mild);
-  const heavy = countIncludes(sentence, JARGON.heavy);
+function checkHardToRead(sentence, opts) {
   const tooLong = wordCount(sentence) > opts.sentenceLength.maxLength;
-  const passive = opts.passiveVoice.enabled && passiveRegex.test(sentence);
   const commas = countRegex(sentence, /,/g);
-  const conj = countRegex(sentence, /\b(and|or|but|which|that)\b/gi);
+  const conj = findPhrases(sentence, opts.conjunctions).length;
 
-  const jargonHit = (heavy >= opts.thresholds.heavyJargon) || (mild >= opts.thresholds.mildJargon);
-  
-  // Simple structure detection - flag genuinely complex sentences
-  const hardStructure = tooLong || (commas >= 3) || conj >= 2 || passive;
-
-  // Flag if there's jargon OR complex structure
-  if (jargonHit || hardStructure) {
+  // Length and clause structure are properties of the whole sentence, not of any one word
+  if (tooLong || commas >= 3 || conj >= 2) {
     return {
       tag: 'hard_to_read',
-      reasons: { mild, heavy, tooLong, passive, commas, conj }
+      reasons: { tooLong, commas, conj },
+      spans: [wholeSentence(sentence)]
     };
   }
   return null;
 }
 
+function checkJargon(sentence, opts) {
+  const jargon = opts.jargon ?? JARGON;
+  const mildSpans = findPhrases(sentence, jargon.mild);
+  const heavySpans = findPhrases(sentence, jargon.heavy);
+  const mild = countTerms(mildSpans);
+  const heavy = countTerms(heavySpans);
+
+  if (heavy >= opts.thresholds.heavyJargon || mild >= opts.thresholds.mildJargon) {
+    const spans = mergeSpans([...heavySpans, ...mildSpans]);
+    return { tag: 'jargon', reasons: { mild, heavy, terms: unique(spans.map(s => lower(s.text))) }, spans };
+  }
+  return null;
+}
+
+function checkPassiveVoice(sentence, opts) {
+  if (!opts.passiveVoice.enabled) return null;
+  const spans = findRegex(sentence, opts.passivePattern ?? passiveRegex);
+  return spans.length
+    ? { tag: 'passive_voice', reasons: { phrases: spans.map(s => s.text) }, spans }
+    : null;
+}
+
 function checkSpam(sentence, opts) {
-  const spamCount = countIncludes(sentence, SPAM_WORDS);
-  const exclam = countRegex(sentence, /!/g);
-  const caps = (sentence.match(capsWordRegex) || []).length;
+  const spans = findPhrases(sentence, opts.spamWords ?? SPAM_WORDS);
+  const spamCount = countTerms(spans);
+  return spamCount >= opts.thresholds.spamWords
+    ? { tag: 'spam_words', reasons: { spamCount, phrases: unique(spans.map(s => lower(s.term))) }, spans: mergeSpans(spans) }
+    : null;
+}
+
+function checkAllCaps(sentence, opts) {
+  const spans = findRegex(sentence, capsWordRegex);
+  return spans.length > opts.allCaps.maxAllowed
+    ? { tag: 'all_caps', reasons: { caps: spans.length, words: spans.map(s => s.text) }, spans }
+    : null;
+}
 
-  if (spamCount >= opts.thresholds.spamWords ||
-      exclam > opts.excessivePunctuation.maxExclamations ||
-      caps > opts.allCaps.maxAllowed) {
-    return { tag: 'spam_words', reasons: { spamCount, exclam, caps } };
+function checkExcessivePunctuation(sentence, opts) {
+  const exclam = countRegex(sentence, /!/g);
+  const runSpans = findRegex(sentence, /[!?]{2,}/g);              // "!!", "?!", "???"
+  const tooManyExclamations = exclam > opts.excessivePunctuation.maxExclamations;
+
+  if (tooManyExclamations || runSpans.length) {
+    const spans = [
+      ...runSpans,
+      ...(tooManyExclamations ? findRegex(sentence, /!+/g) : [])
+    ];
+    return {
+      tag: 'excessive_punctuation',
+      reasons: { exclamations: exclam, runs: runSpans.map(s => s.text) },
+      spans: mergeSpans(spans)
+    };
   }
   return null;
 }
 
 function checkEmojiExcess(sentence, opts) {
-  const emojis = (sentence.match(emojiRegex) || []).length;
-  return emojis > opts.maxEmojiPerSentence ? { tag: 'emoji_excess', reasons: { emojis } } : null;
+  const emojiSpans = findRegex(sentence, emojiRegex);
+  const emojis = emojiSpans.length;
+  return emojis > opts.maxEmojiPerSentence
+    ? { tag: 'emoji_excess', reasons: { emojis }, spans: emojiSpans }
+    : null;
 }
 
 function checkCTAPresence(sentence, opts) {
-  const ctas = opts.ctaPhrases.filter(p => lower(sentence).includes(p));
-  return ctas.length ? { tag: 'cta', reasons: { phrases: ctas } } : null;
+  const spans = findPhrases(sentence, opts.ctaPhrases);
+  const ctas = unique(spans.map(s => s.term));
+  return ctas.length ? { tag: 'cta', reasons: { phrases: ctas }, spans: mergeSpans(spans) } : null;
 }
 
 function checkHedging(sentence, opts) {
-  const hedges = opts.hedgeWords.filter(w => new RegExp(`\\b${w}\\b`, 'i').test(sentence));
-  return hedges.length ? { tag: 'hedging', reasons: { hedges } } : null;
+  const spans = findPhrases(sentence, opts.hedgeWords);
+  const hedges = unique(spans.map(s => s.term));
+  return hedges.length ? { tag: 'hedging', reasons: { hedges }, spans: mergeSpans(spans) } : null;
 }
 
 function checkVagueDates(sentence, opts) {
-  const hits = opts.vagueDates.filter(w => lower(sentence).includes(w));
-  return hits.length ? { tag: 'vague_date', reasons: { hits } } : null;
+  const spans = findPhrases(sentence, opts.vagueDates);
+  const hits = unique(spans.map(s => s.term));
+  return hits.length ? { tag: 'vague_date', reasons: { hits }, spans: mergeSpans(spans) } : null;
 }
 
 function checkVagueNumbers(sentence) {
   // number without unit or context ("increased by 20" vs "20% MoM" or "$20")
-  const numbers = sentence.match(numberRegex) || [];
+  const numberSpans = findRegex(sentence, numberRegex);
+  const numbers = numberSpans.map(s => s.text);
   const hasUnit = /[%$€£¥]|(per\s+\w+|users|subs|subscribers|customers|orders|impressions|clicks|hrs?|hours?|mins?|minutes?|days?|weeks?|months?|yrs?|years?|kg|km|mb|gb|tb|percent|percentage|dollars?|cents?|image|word|article|post)\b/i.test(sentence);
   
   // Skip if numbers are clearly contextual (dates, versions, IDs, etc.)
   const isContextual = /\b(version|v\d|model|gpt-\w+|\d{4}|\d+\.\d+\.\d+)\b/i.test(sentence);
   
   if (numbers.length && !hasUnit && !isContextual) {
-    return { tag: 'vague_number', reasons: { numbers } };
+    return { tag: 'vague_number', reasons: { numbers }, spans: numberSpans };
   }
   return null;
 }
 
 function checkBaldClaims(sentence, opts) {
-  const claimVerb = opts.baldClaimVerbs.some(v => new RegExp(`\\b${v}\\b`, 'i').test(sentence));
+  const claimSpans = findPhrases(sentence, opts.baldClaimVerbs);
+  const claimVerb = claimSpans.length > 0;
   const hasQuant = /(\d+%|\$\d+|\b\d+\b)/.test(sentence);
   const hasSource = /\b(source|study|report|citation|according to|data)\b/i.test(sentence) || urlRegex.test(sentence);
   if (claimVerb && (hasQuant || /guarantee|prove|ensure/i.test(sentence)) && !hasSource) {
-    return { tag: 'claim_without_evidence', reasons: { claimVerb, hasQuant, hasSource } };
+    return { tag: 'claim_without_evidence', reasons: { claimVerb, hasQuant, hasSource }, spans: mergeSpans(claimSpans) };
   }
   return null;
 }
 
+// Rules supplied by rule packs: { type, terms, patterns, minMatches }
+function checkCustomRules(sentence, opts) {
+  return (opts.customRules || []).map((rule) => {
+    const spans = [
+      ...findPhrases(sentence, rule.terms),
+      ...rule.patterns.flatMap(re => findRegex(sentence, re))
+    ];
+    return spans.length >= rule.minMatches
+      ? { tag: rule.type, reasons: { matches: unique(spans.map(s => s.text)) }, spans: mergeSpans(spans) }
+      : null;
+  });
+}
+
 // ---------------- NEW: Grammar & Spelling (lightweight) ----------------
 
 // Expanded dictionary to reduce false positives for newsletter/business content
@@ -308,13 +438,16 @@ function buildDictionary(opts) {
 }
 
 function checkGrammarSpelling(sentence, opts) {
-  if (!opts.grammar?.enabled) return null;
+  // write-good and the dictionary below only know English
+  if (!opts.grammar?.enabled || (opts.language ?? DEFAULT_LANGUAGE) !== 'en') return null;
 
   const dict = buildDictionary(opts);
-  const words = sentence.match(/\b[A-Za-z][A-Za-z'\-]*\b/g) || [];
+  const words = [...sentence.matchAll(/\b[A-Za-z][A-Za-z'\-]*\b/g)];
   const misspelled = [];
+  const spans = [];
 
-  for (const w of words) {
+  for (const m of words) {
+    const w = m[0];
     if (w.length < opts.grammar.minWordLength) continue;
     if (shouldSkipToken(w, opts.grammar)) continue;
     const base = w.toLowerCase();
@@ -323,21 +456,28 @@ function checkGrammarSpelling(sentence, opts) {
     const norm = base.replace(/’/g, "'").replace(/'s$/,'').replace(/-+/g,'');
     if (!dict.has(norm) && !dict.has(base)) {
       misspelled.push(w);
+      spans.push({ start: m.index, end: m.index + w.length, text: w });
       if (misspelled.length >= opts.grammar.maxMisspellingsListed) break;
     }
   }
 
   // Grammar pattern checks
-  const doubleWord = DOUBLE_WORD_RE.test(sentence);
-  const badAgreement = BAD_AGREEMENT_RE.test(sentence);
-  const badAAn = (() => {
-    const badA = [...sentence.matchAll(A_AN_RE)].some(m => m[1].toLowerCase() === 'a');    // "a apple"
-    const badAn = [...sentence.matchAll(AN_A_RE)].length > 0;                               // "an user"
-    return badA || badAn;
-  })();
-  const confusedIts = ITS_IT_S_RE.test(sentence);      // heuristic signal only
-  const punctSpace = PUNCT_SPACE_RE.test(sentence);
-  const missingSpaceAfterComma = MISSING_SPACE_AFTER_COMMA_RE.test(sentence);
+  const doubleWordSpans = findRegex(sentence, DOUBLE_WORD_RE);
+  const badAgreementSpans = findRegex(sentence, BAD_AGREEMENT_RE);
+  const badASpans = [...sentence.matchAll(A_AN_RE)]
+    .filter(m => m[1].toLowerCase() === 'a')                                              // "a apple"
+    .map(m => ({ start: m.index, end: m.index + m[0].length, text: m[0] }));
+  const badAnSpans = findRegex(sentence, AN_A_RE);                                        // "an user"
+  const itsSpans = findRegex(sentence, ITS_IT_S_RE);                                      // heuristic signal only
+  const punctSpaceSpans = findRegex(sentence, PUNCT_SPACE_RE);
+  const missingSpaceSpans = findRegex(sentence, MISSING_SPACE_AFTER_COMMA_RE);
+
+  const doubleWord = doubleWordSpans.length > 0;
+  const badAgreement = badAgreementSpans.length > 0;
+  const badAAn = badASpans.length > 0 || badAnSpans.length > 0;
+  const confusedIts = itsSpans.length > 0;
+  const punctSpace = punctSpaceSpans.length > 0;
+  const missingSpaceAfterComma = missingSpaceSpans.length > 0;
 
   if (misspelled.length || doubleWord || badAgreement || badAAn || confusedIts || punctSpace || missingSpaceAfterComma) {
     return {
@@ -350,7 +490,17 @@ function checkGrammarSpelling(sentence, opts) {
         possibleItsError: confusedIts,
         spaceBeforePunctuation: punctSpace,
         missingSpaceAfterComma
-      }
+      },
+      spans: mergeSpans([
+        ...spans,
+        ...doubleWordSpans,
+        ...badAgreementSpans,
+        ...badASpans,
+        ...badAnSpans,
+        ...itsSpans,
+        ...punctSpaceSpans,
+        ...missingSpaceSpans
+      ])
     };
   }
   return null;
@@ -434,29 +584,15 @@ function findRedundantSentences(sentences, opts) {
   return pairs.length ? { tag: 'redundant_sentences', reasons: { pairs } } : null;
 }
 
-// Readability (Flesch–Kincaid Grade)
-function countSyllables(word) {
-  const w = word.toLowerCase().replace(/[^a-z]/g, '');
-  if (!w) return 0;
-  let syl = (w.match(/[aeiouy]+/g) || []).length;
-  if (w.endsWith('e')) syl--;
-  return Math.max(1, syl);
-}
-function fleschKincaidGrade(text) {
-  const sentences = (text.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || []);
-  const words = (text.match(/\b[^\s]+\b/g) || []);
-  const syllables = words.reduce((n, w) => n + countSyllables(w), 0);
-  const S = Math.max(1, sentences.length);
-  const W = Math.max(1, words.length);
-  const grade = 0.39 * (W / S) + 11.8 * (syllables / W) - 15.59;
-  return +grade.toFixed(2);
-}
-
 // priority order (include grammar_spelling high up)
-const TAG_PRIORITY = [
+export const TAG_PRIORITY = [
   'spam_words',
   'grammar_spelling',
+  'all_caps',
+  'excessive_punctuation',
   'hard_to_read',
+  'jargon',
+  'passive_voice',
   'fluff',
   'emoji_excess',
   'cta',
@@ -466,53 +602,30 @@ const TAG_PRIORITY = [
   'claim_without_evidence'
 ];
 
-function tagSentence(sentence, checks) {
-  if (!checks || checks.length === 0) return sentence;
-  
-  // Apply only the highest priority tag (one tag per sentence)
-  const sortedChecks = checks
-    .filter(c => c && c.tag)
-    .sort((a, b) => {
-      const aPriority = TAG_PRIORITY.indexOf(a.tag);
-      const bPriority = TAG_PRIORITY.indexOf(b.tag);
-      return aPriority - bPriority; // Lower index = higher priority
-    });
-  
-  if (sortedChecks.length > 0) {
-    const topCheck = sortedChecks[0];
-    return `<${topCheck.tag}>${sentence}</${topCheck.tag}>`;
+// Sort findings by tag priority (lower index = higher priority), one entry per tag.
+// Findings that share a tag (a built-in check plus a rule-pack rule) are merged.
+function sortByPriority(checks, order = TAG_PRIORITY) {
+  const byTag = new Map();
+  for (const c of checks) {
+    if (!c || !c.tag) continue;
+    const prev = byTag.get(c.tag);
+    byTag.set(c.tag, prev
+      ? { tag: c.tag, reasons: { ...prev.reasons, ...c.reasons }, spans: mergeSpans([...(prev.spans || []), ...(c.spans || [])]) }
+      : c);
   }
-  
-  return sentence;
+  const rank = (tag) => (order.includes(tag) ? order.indexOf(tag) : order.length);
+  return [...byTag.values()].sort((a, b) => rank(a.tag) - rank(b.tag));
 }
 
-// ---------------- HTML Cleaning Utilities ----------------
-
-function stripHTMLTags(html) {
-  // Remove HTML tags but preserve the text content and structure
-  return html
-    // Replace block elements with proper line breaks
-    .replace(/<\/p>/gi, '\n\n')
-    .replace(/<\/div>/gi, '\n\n')
-    .replace(/<\/h[1-6]>/gi, '\n\n')
-    .replace(/<br\s*\/?>/gi, '\n')
-    .replace(/<p[^>]*>/gi, '')
-    .replace(/<div[^>]*>/gi, '')
-    .replace(/<h[1-6][^>]*>/gi, '')
-    // Remove all other HTML tags but keep the text
-    .replace(/<[^>]*>/g, '')
-    // Decode HTML entities
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    // Clean up whitespace while preserving paragraph breaks
-    .replace(/\n{3,}/g, '\n\n') // Multiple line breaks to double
-    .replace(/[ \t]+/g, ' ') // Multiple spaces to single
-    .replace(/\n /g, '\n') // Remove spaces at start of lines
-    .trim();
+function tagSentence(sentence, checks) {
+  if (!checks || checks.length === 0) return sentence;
+  
+  // Stack every finding as nested tags, highest priority outermost:
+  // <spam_words><hedging>sentence</hedging></spam_words>
+  return checks.reduceRight(
+    (inner, check) => `<${check.tag}>${inner}</${check.tag}>`,
+    sentence
+  );
 }
 
 // ---------------- Main API ----------------
@@ -520,73 +633,88 @@ function stripHTMLTags(html) {
 export function analyzeContent(content, options = {}) {
   const opts = { ...DEFAULT_OPTIONS, ...options };
   
-  // Clean HTML content for analysis only - preserve original for output
-  const cleanContent = stripHTMLTags(content);
+  // Clean HTML content for analysis only - preserve original for output.
+  // The source map ties every plain-text offset back to its HTML position.
+  const sourceMap = buildSourceMap(content);
+  const cleanContent = sourceMap.text;
   console.log('🧹 Cleaned content for analysis:', cleanContent.substring(0, 100) + '...');
-  
-  const sentences = splitSentences(cleanContent);
+
+  // Merge tags ({{first_name}}, *|FNAME|*, {% if %}) are template code, not prose:
+  // the checks read a copy with each tag masked at the same offsets
+  const proseContent = maskMergeTags(cleanContent);
+  const sentences = splitSentences(proseContent).filter(s => s.replaceAll(MASK_CHAR, '').trim());
+  const offsets = locateSentences(proseContent, sentences);
 
   const perSentence = [];
-  let annotated = content; // Use original content to preserve formatting
-  const seen = new Set();
+  const edits = [];
 
-  sentences.forEach((s) => {
+  sentences.forEach((s, index) => {
+    // Cancelled jobs stop here rather than tag the rest of the draft
+    opts.signal?.throwIfAborted();
     if (!s) return;
-    const key = s; if (seen.has(key)) return;
 
-    const findings = [
+    const checks = [
       checkSpam(s, opts),
       checkGrammarSpelling(s, opts),  // NEW: grammar & spelling
+      checkAllCaps(s, opts),
+      checkExcessivePunctuation(s, opts),
+      checkHardToRead(s, opts),
       checkJargon(s, opts),
+      checkPassiveVoice(s, opts),
       checkFluff(s, opts),
       checkEmojiExcess(s, opts),
       checkCTAPresence(s, opts),
       checkHedging(s, opts),
       checkVagueDates(s, opts),
       checkVagueNumbers(s),
-      checkBaldClaims(s, opts)
-    ].filter(Boolean);
-
-    const tags = unique(findings.map(f => f.tag));
-
-    if (opts.annotate && tags.length) {
-      // Smart replacement: try to find the sentence in original content
-      // This handles cases where HTML formatting might slightly change the text
-      const cleanSentence = s.trim();
-      const escapedSentence = cleanSentence.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      
-      // Try exact match first
-      if (annotated.includes(cleanSentence)) {
-        annotated = annotated.replace(cleanSentence, tagSentence(cleanSentence, findings));
-        seen.add(key);
-      } else {
-        // Try fuzzy match by looking for the sentence content within HTML
-        const words = cleanSentence.split(/\s+/).filter(w => w.length > 2);
-        if (words.length >= 3) {
-          // Look for a pattern with the first and last few words
-          const firstWords = words.slice(0, 2).join('\\s+');
-          const lastWords = words.slice(-2).join('\\s+');
-          const fuzzyPattern = new RegExp(`${firstWords}[\\s\\S]*?${lastWords}`, 'i');
-          
-          const match = annotated.match(fuzzyPattern);
-          if (match) {
-            annotated = annotated.replace(match[0], tagSentence(match[0], findings));
-            seen.add(key);
-          }
-        }
-      }
+      checkBaldClaims(s, opts),
+      ...checkCustomRules(s, opts)
+    ];
+
+    const findings = sortByPriority(checks, opts.tagOrder);
+    const tags = findings.map(f => f.tag);
+    const offset = offsets[index];
+    const source = offset === -1 ? null : textToSource(sourceMap, offset, offset + s.length);
+    // Report the sentence and spans with their merge tags restored
+    const original = (start, end) => offset === -1 ? s.slice(start, end) : cleanContent.slice(offset + start, offset + end);
+
+    if (opts.annotate && tags.length && source) {
+      // Wrap this exact occurrence of the sentence in the original markup
+      edits.push({
+        start: offset,
+        end: offset + s.length,
+        wrap: (text) => tagSentence(text, findings)
+      });
     }
 
     perSentence.push({
-      sentence: s,
+      sentence: original(0, s.length),
       tags,
-      reasons: findings.reduce((acc, f) => ({ ...acc, [f.tag]: f.reasons }), {})
+      reasons: findings.reduce((acc, f) => ({ ...acc, [f.tag]: f.reasons }), {}),
+      // exact matched spans per tag, offsets relative to `sentence`
+      spans: findings.reduce((acc, f) => ({
+        ...acc,
+        [f.tag]: (f.spans || []).map(span => ({ ...span, text: original(span.start, span.end) }))
+      }), {}),
+      // position of the sentence in the analyzed plain text and in `content`
+      offset,
+      source
     });
   });
 
+  // Wrap text nodes only, so annotations never straddle markup; accessibility
+  // findings wrap whole images, headings and links around them, link
+  // findings wrap the link text and merge-tag findings wrap the tag
+  const accessibility = auditAccessibility(content, { language: opts.language });
+  const linkAudit = auditLinks(content); // Anchors plus URLs pasted as text
+  const mergeTags = scanMergeTags(content);
+  const annotated = annotateHTML(content, sourceMap, edits, opts.annotate
+    ? [...accessibilityWrappers(accessibility), ...linkWrappers(linkAudit), ...mergeTagWrappers(mergeTags, sourceMap)]
+    : []);
+
   // Global metrics - use original content for link analysis, cleaned content for word count
-  const words = wordCount(cleanContent); // Use cleaned content for accurate word count
-  const links = (content.match(urlRegex) || []).length; // Use original content to detect links
+  const words = wordCount(proseContent); // Plain text without markup or merge tags
+  const links = linkAudit.summary.total;
   const linkDensity = +(((links / Math.max(words,1)) * 100).toFixed(2));
 
   const longParas = (content.split(/\n{2,}/g) || [])
@@ -603,7 +731,9 @@ export function analyzeContent(content, options = {}) {
 
   const formattingIssues = detectFormattingIssues(content);
   const redundancyFinding = findRedundantSentences(sentences, opts);
-  const fkGrade = fleschKincaidGrade(content);
+  // Readability indices on the plain text (markup and merge tags would skew the counts)
+  const documentReadability = readabilityScores(proseContent, opts.language);
+  const fkGrade = documentReadability.fleschKincaidGrade;
   const readabilityFinding = fkGrade > opts.readability.gradeThreshold
     ? { tag: 'readability_grade', reasons: { grade: fkGrade, threshold: opts.readability.gradeThreshold } }
     : null;
@@ -612,7 +742,8 @@ export function analyzeContent(content, options = {}) {
     linkDensityFinding,
     formattingIssues,
     redundancyFinding,
-    readabilityFinding
+    readabilityFinding,
+    ...(opts.compliance?.enabled === false ? [] : checkCompliance(content, { linkAudit }))
   ].filter(Boolean);
 
   const global = {
@@ -621,7 +752,15 @@ export function analyzeContent(content, options = {}) {
     linkCount: links,
     linkDensityPer100Words: linkDensity,
     longParagraphs: longParas.map(p => p.words),
-    readability: { fleschKincaidGrade: fkGrade, threshold: opts.readability.gradeThreshold },
+    readability: {
+      ...documentReadability,
+      threshold: opts.readability.gradeThreshold,
+      // Excerpts are cut from the masked text; show them with their merge tags
+      paragraphs: paragraphReadability(proseContent, opts.language).map(p => {
+        const length = p.excerpt.endsWith('…') ? p.excerpt.length - 1 : p.excerpt.length;
+        return { ...p, excerpt: cleanContent.slice(p.offset, p.offset + length) + p.excerpt.slice(length) };
+      })
+    },
     flags: globalFlags
   };
 
@@ -629,7 +768,11 @@ export function analyzeContent(content, options = {}) {
     annotated,
     report: {
       perSentence,
-      global
+      global,
+      links: linkAudit,
+      deliverability: inspectDeliverability(content),
+      accessibility,
+      mergeTags
     }
   };
 }
@@ -4,6 +4,27 @@
  */
 
 import * as contentTaggerJsModule from './content-tagger.engine.js';
+import { buildSourceMap, textToSource, type SourceRange } from './source-map.js';
+import type { LinkAudit } from './link-auditor.js';
+import type { DeliverabilityReport } from './deliverability.js';
+import { SEVERITY_PRIORITY, type AccessibilityReport } from './accessibility-audit.js';
+import type { MergeTagReport } from './merge-tags.js';
+import { issueDensityScore, scoreToGrade } from './grading-rubric.js';
+import {
+  LANGUAGE_NAMES,
+  LANGUAGE_PROFILES,
+  detectLanguage,
+  isSupportedLanguage,
+  type SupportedLanguage,
+} from './languages.js';
+import { ValidationError } from '../error-handler.js';
+import {
+  compileRulePacks,
+  type HighlightPriority,
+  type HighlightTypeDefinition,
+  type CompiledRule,
+  type RulePack,
+} from './rule-packs.js';
 
 // Define types locally to avoid import issues
 export interface ContentAnalysisResult {
@@ -11,13 +32,57 @@ export interface ContentAnalysisResult {
   report: {
     perSentence: SentenceAnalysis[];
     global: GlobalAnalysis;
+    /** Every link with its problems; findings become link_issue ranges */
+    links?: LinkAudit;
+    /** Technical deliverability checks on the raw HTML */
+    deliverability?: DeliverabilityReport;
+    /** Accessibility findings; those on visible content are wrapped in <accessibility> */
+    accessibility?: AccessibilityReport;
+    /** ESP merge tags (skipped by the prose checks); findings become merge_tag ranges */
+    mergeTags?: MergeTagReport;
   };
 }
 
 export interface SentenceAnalysis {
   sentence: string;
+  /** Every finding on the sentence, highest priority first */
   tags: HighlightType[];
   reasons: Record<string, any>;
+  /** Exact matched spans per tag, with offsets relative to `sentence` */
+  spans?: Partial<Record<HighlightType, TextSpan[]>>;
+  /** Offset of the sentence in the analyzed plain text (-1 if it could not be located) */
+  offset?: number;
+  /** Range of the sentence in the submitted content, markup included */
+  source?: SourceRange | null;
+}
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Readability indices for a block of text; grade levels are US school grades */
+export interface ReadabilityScores {
+  wordCount: number;
+  sentenceCount: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  smogIndex: number;
+  gunningFog: number;
+  colemanLiauIndex: number;
+  automatedReadabilityIndex: number;
+  /** Mean of the five grade-level indices */
+  averageGrade: number;
+  /** Reading-ease formula used for fleschReadingEase (Flesch, Fernández-Huerta, Amstad, Kandel–Moles) */
+  readingEaseFormula: string;
+}
+
+export interface ParagraphReadability extends ReadabilityScores {
+  index: number;
+  /** Offset of the paragraph in the analyzed plain text */
+  offset: number;
+  excerpt: string;
 }
 
 export interface GlobalAnalysis {
@@ -26,10 +91,11 @@ export interface GlobalAnalysis {
   linkCount: number;
   linkDensityPer100Words: number;
   longParagraphs: number[];
-  readability: {
-    fleschKincaidGrade: number;
+  readability: ReadabilityScores & {
     threshold: number;
+    paragraphs: ParagraphReadability[];
   };
+  /** Document-level flags: link_density_high, readability_grade, compliance flags, ... */
   flags: Array<{
     tag: string;
     reasons: Record<string, any>;
@@ -37,84 +103,148 @@ export interface GlobalAnalysis {
 }
 
 export interface HighlightRange {
+  /** Offsets into the submitted content (HTML positions when HTML was submitted) */
   start: number;
   end: number;
   type: HighlightType;
   priority: HighlightPriority;
   message?: string;
   suggestion?: string;
+  /** The matched term or phrase this range covers */
+  text?: string;
+  /** Stack position among the findings on the same sentence (0 = highest priority) */
+  layer?: number;
 }
 
-export type HighlightType =
+export type BuiltInHighlightType =
   | 'spam_words'
   | 'grammar_spelling'
+  | 'all_caps'
+  | 'excessive_punctuation'
   | 'hard_to_read'
+  | 'jargon'
+  | 'passive_voice'
   | 'fluff'
   | 'emoji_excess'
   | 'cta'
   | 'hedging'
   | 'vague_date'
   | 'vague_number'
-  | 'claim_without_evidence';
-
-export type HighlightPriority = 'high' | 'medium' | 'low' | 'info';
-
-// Priority mapping for highlight types
-const HIGHLIGHT_PRIORITIES: Record<HighlightType, HighlightPriority> = {
-  spam_words: 'high',
-  grammar_spelling: 'high',
-  claim_without_evidence: 'high',
-  hard_to_read: 'medium',
-  fluff: 'medium',
-  hedging: 'medium',
-  vague_date: 'medium',
-  vague_number: 'medium',
-  emoji_excess: 'low',
-  cta: 'info',
-};
-
-// Tooltip messages for each highlight type
-const HIGHLIGHT_MESSAGES: Record<HighlightType, { message: string; suggestion: string }> = {
+  | 'claim_without_evidence'
+  | 'link_issue'
+  | 'accessibility'
+  | 'merge_tag';
+
+/** Built-in types plus any registered by rule packs */
+export type HighlightType = BuiltInHighlightType | (string & {});
+
+export type { HighlightPriority, HighlightTypeDefinition, RulePack } from './rule-packs.js';
+export type { AuditedLink, LinkAudit, LinkFinding, LinkIssueCode } from './link-auditor.js';
+export type { DeliverabilityFinding, DeliverabilityIssueCode, DeliverabilityReport } from './deliverability.js';
+export type { ComplianceFlag, ComplianceFlagTag, ComplianceSeverity } from './compliance.js';
+export type {
+  AccessibilityFinding,
+  AccessibilityIssueCode,
+  AccessibilityReport,
+  AccessibilitySeverity,
+} from './accessibility-audit.js';
+export type {
+  MergeTagFinding,
+  MergeTagIssueCode,
+  MergeTagKind,
+  MergeTagReport,
+  MergeTagSyntax,
+  MergeToken,
+} from './merge-tags.js';
+
+// Priority and tooltip copy for the built-in highlight types; rule packs add to
+// or override these per tagger instance
+export const BUILT_IN_HIGHLIGHT_TYPES: Record<BuiltInHighlightType, HighlightTypeDefinition> = {
   spam_words: {
+    priority: 'high',
     message: 'Contains spam-like language that may trigger email filters',
     suggestion: 'Use more natural, conversational language'
   },
   grammar_spelling: {
+    priority: 'high',
     message: 'Grammar or spelling issue detected',
     suggestion: 'Review and correct the grammar or spelling'
   },
+  all_caps: {
+    priority: 'medium',
+    message: 'Words in ALL CAPS read as shouting and can trigger spam filters',
+    suggestion: 'Use sentence case and save emphasis for a word or two'
+  },
+  excessive_punctuation: {
+    priority: 'medium',
+    message: 'Repeated exclamation or question marks look spammy',
+    suggestion: 'Use a single punctuation mark and let the words carry the emphasis'
+  },
   hard_to_read: {
+    priority: 'medium',
     message: 'This sentence is complex and may be hard to read',
     suggestion: 'Break into shorter sentences or simplify the language'
   },
+  jargon: {
+    priority: 'medium',
+    message: 'Business jargon makes the message vague and impersonal',
+    suggestion: 'Replace jargon with plain, concrete words'
+  },
+  passive_voice: {
+    priority: 'low',
+    message: 'Passive voice hides who is doing what',
+    suggestion: 'Rewrite in active voice so the subject performs the action'
+  },
   fluff: {
+    priority: 'medium',
     message: 'Contains unnecessary filler words or phrases',
     suggestion: 'Remove filler words to make the message more direct'
   },
   emoji_excess: {
+    priority: 'low',
     message: 'Too many emojis may appear unprofessional',
     suggestion: 'Use emojis sparingly for better impact'
   },
   cta: {
+    priority: 'info',
     message: 'Call-to-action detected',
     suggestion: 'Ensure your CTA is clear and compelling'
   },
   hedging: {
+    priority: 'medium',
     message: 'Uncertain language weakens your message',
     suggestion: 'Use more confident, direct language'
   },
   vague_date: {
+    priority: 'medium',
     message: 'Vague time reference may confuse readers',
     suggestion: 'Use specific dates or timeframes'
   },
   vague_number: {
+    priority: 'medium',
     message: 'Number lacks context or units',
     suggestion: 'Add units, percentages, or context to numbers'
   },
   claim_without_evidence: {
+    priority: 'high',
     message: 'Strong claim without supporting evidence',
     suggestion: 'Add data, sources, or examples to support your claim'
   },
+  link_issue: {
+    priority: 'medium',
+    message: 'Problem with this link',
+    suggestion: 'Check the link text and destination'
+  },
+  accessibility: {
+    priority: 'high',
+    message: 'Accessibility problem for screen reader or low-vision readers',
+    suggestion: 'Add alt text, fix the heading order, raise the contrast or underline the link'
+  },
+  merge_tag: {
+    priority: 'high',
+    message: 'Broken merge tag or personal field without a fallback',
+    suggestion: 'Close every tag and block, and give personal fields a default value'
+  },
 };
 
 export interface ContentTaggerOptions {
@@ -141,6 +271,10 @@ export interface ContentTaggerOptions {
   readability?: {
     gradeThreshold: number;
   };
+  /** CAN-SPAM / GDPR flags in GlobalAnalysis.flags (on by default) */
+  compliance?: {
+    enabled: boolean;
+  };
   grammar?: {
     enabled: boolean;
     dictionary?: Set<string> | string[];
@@ -150,12 +284,59 @@ export interface ContentTaggerOptions {
     maxMisspellingsListed: number;
   };
   annotate?: boolean;
+  // Word list overrides and extra rules, normally produced from rule packs
+  spamWords?: string[];
+  fluffPhrases?: string[];
+  intensifiers?: string[];
+  jargon?: { mild: string[]; heavy: string[] };
+  customRules?: CompiledRule[];
+  tagOrder?: string[];
+  // Language profile (set through forLanguage)
+  language?: SupportedLanguage;
+  conjunctions?: string[];
+  passivePattern?: RegExp;
+}
+
+export interface LanguageResolution {
+  code: SupportedLanguage;
+  name: string;
+  /** 'request' when the caller named the language, 'detected' otherwise */
+  source: 'request' | 'detected';
+  confidence: number;
 }
 
+/**
+ * Work out which language to analyze `content` in: the `language` the caller
+ * sent (a supported code), or detection when it is missing or 'auto'.
+ */
+export function resolveContentLanguage(requested: unknown, content: string): LanguageResolution {
+  if (requested !== undefined && requested !== null && requested !== 'auto') {
+    if (!isSupportedLanguage(requested)) {
+      throw new ValidationError(
+        'Unsupported language',
+        { language: requested },
+        [`Use one of: auto, ${Object.keys(LANGUAGE_NAMES).join(', ')}`]
+      );
+    }
+    return { code: requested, name: LANGUAGE_NAMES[requested], source: 'request', confidence: 1 };
+  }
+
+  const { language, confidence } = detectLanguage(buildSourceMap(content).text);
+  return { code: language, name: LANGUAGE_NAMES[language], source: 'detected', confidence };
+}
+
+// Stacking order for types that are not in the engine's TAG_PRIORITY
+const PRIORITY_RANK: Record<HighlightPriority, number> = { high: 0, medium: 1, low: 2, info: 3 };
+
 export class ContentTagger {
   private options: ContentTaggerOptions;
+  private highlightTypes: Record<string, HighlightTypeDefinition>;
 
-  constructor(options: Partial<ContentTaggerOptions> = {}) {
+  constructor(
+    options: Partial<ContentTaggerOptions> = {},
+    highlightTypes: Record<string, HighlightTypeDefinition> = BUILT_IN_HIGHLIGHT_TYPES
+  ) {
+    this.highlightTypes = { ...highlightTypes };
     // Initialize with default options optimized for newsletter content
     this.options = {
       sentenceLength: { maxLength: 22 },
@@ -184,9 +365,10 @@ export class ContentTagger {
   }
 
   /**
-   * Analyze newsletter content and return structured results
+   * Analyze newsletter content and return structured results. An aborted
+   * `signal` stops the analysis between sentences.
    */
-  public analyzeNewsletter(content: string): ContentAnalysisResult {
+  public analyzeNewsletter(content: string, { signal }: { signal?: AbortSignal } = {}): ContentAnalysisResult {
     if (!contentTaggerJsModule.analyzeContent) {
       throw new Error('Content tagger analyzeContent function not available');
     }
@@ -196,7 +378,86 @@ export class ContentTagger {
       this.options = { ...contentTaggerJsModule.DEFAULT_OPTIONS, ...this.options };
     }
 
-    return contentTaggerJsModule.analyzeContent(content, this.options);
+    return contentTaggerJsModule.analyzeContent(content, signal ? { ...this.options, signal } : this.options);
+  }
+
+  /**
+   * Create a tagger for content in another language: its word lists, clause
+   * words and passive pattern replace the English ones. Call this before
+   * withRulePacks so packs extend the language's lists.
+   */
+  public forLanguage(language: SupportedLanguage): ContentTagger {
+    if ((this.options.language ?? 'en') === language) return this;
+    if (language !== 'en') {
+      return new ContentTagger({ ...this.options, ...LANGUAGE_PROFILES[language], language }, this.highlightTypes);
+    }
+
+    // Back to English: drop the profile so the engine's own lists apply
+    const options: Record<string, unknown> = { ...this.options, language };
+    for (const key of Object.keys(LANGUAGE_PROFILES.es)) delete options[key];
+    return new ContentTagger(options as ContentTaggerOptions, this.highlightTypes);
+  }
+
+  /**
+   * Create a tagger that also applies the given rule packs. The receiver is
+   * left untouched, so the shared singleton can serve per-request packs.
+   */
+  public withRulePacks(packs: RulePack[]): ContentTagger {
+    if (packs.length === 0) return this;
+
+    const { terms, types, rules } = compileRulePacks(packs);
+    const defaults = contentTaggerJsModule.DEFAULT_OPTIONS || {};
+    const extend = (base: string[] | undefined, extra: string[] | undefined) =>
+      extra?.length ? [...(base || []), ...extra] : base;
+    const jargon = this.options.jargon || contentTaggerJsModule.JARGON;
+
+    const highlightTypes = { ...this.highlightTypes, ...types };
+    const builtInOrder: string[] = contentTaggerJsModule.TAG_PRIORITY;
+    const customOrder = Object.keys(highlightTypes)
+      .filter(type => !builtInOrder.includes(type))
+      .sort((a, b) => PRIORITY_RANK[highlightTypes[a]!.priority] - PRIORITY_RANK[highlightTypes[b]!.priority]);
+
+    return new ContentTagger(
+      {
+        ...this.options,
+        spamWords: extend(this.options.spamWords || contentTaggerJsModule.SPAM_WORDS, terms.spam_words),
+        fluffPhrases: extend(this.options.fluffPhrases || contentTaggerJsModule.FLUFF_PHRASES, terms.fluff),
+        intensifiers: extend(this.options.intensifiers || contentTaggerJsModule.INTENSIFIERS, terms.intensifiers),
+        jargon: {
+          mild: extend(jargon.mild, terms.jargon_mild) || [],
+          heavy: extend(jargon.heavy, terms.jargon_heavy) || [],
+        },
+        ctaPhrases: extend(this.options.ctaPhrases || defaults.ctaPhrases, terms.cta),
+        hedgeWords: extend(this.options.hedgeWords || defaults.hedgeWords, terms.hedging),
+        vagueDates: extend(this.options.vagueDates || defaults.vagueDates, terms.vague_date),
+        baldClaimVerbs: extend(this.options.baldClaimVerbs || defaults.baldClaimVerbs, terms.claim_without_evidence),
+        customRules: [...(this.options.customRules || []), ...rules],
+        tagOrder: [...builtInOrder, ...customOrder],
+      },
+      highlightTypes
+    );
+  }
+
+  /**
+   * Create a tagger with some options overridden for one request. Grouped
+   * options (thresholds, grammar, ...) are merged field by field, and the
+   * receiver is left untouched, unlike updateOptions.
+   */
+  public withOptions(overrides: Partial<ContentTaggerOptions>): ContentTagger {
+    const keys = Object.keys(overrides) as Array<keyof ContentTaggerOptions>;
+    if (keys.length === 0) return this;
+
+    const base: Record<string, unknown> = { ...(contentTaggerJsModule.DEFAULT_OPTIONS || {}), ...this.options };
+    const merged: Record<string, unknown> = { ...base };
+    for (const key of keys) {
+      const value = overrides[key];
+      const current = base[key];
+      merged[key] = value && current && typeof value === 'object' && typeof current === 'object' && !Array.isArray(value)
+        ? { ...current, ...value }
+        : value;
+    }
+
+    return new ContentTagger(merged as ContentTaggerOptions, this.highlightTypes);
   }
 
   /**
@@ -204,38 +465,95 @@ export class ContentTagger {
    */
   public extractHighlightRanges(content: string, analysisResult: ContentAnalysisResult): HighlightRange[] {
     const ranges: HighlightRange[] = [];
+    const sourceMap = buildSourceMap(content);
 
     // Process sentence-level highlights
     for (const sentenceData of analysisResult.report.perSentence) {
       if (sentenceData.tags.length === 0) continue;
 
-      const sentence = sentenceData.sentence.trim();
-      if (!sentence) continue;
+      const sentence = sentenceData.sentence;
+      const offset = sentenceData.offset ?? -1;
+      if (!sentence || offset === -1) continue;
 
-      // Find the sentence position in the original content
-      const sentenceStart = content.indexOf(sentence);
-      if (sentenceStart === -1) continue;
-
-      const sentenceEnd = sentenceStart + sentence.length;
-
-      // Create highlight ranges for each tag type found in this sentence
+      // Create highlight ranges for each matched term, falling back to the
+      // whole sentence for findings that carry no spans
+      const stack = sentenceData.tags.filter(tag => this.isValidHighlightType(tag));
       for (const tag of sentenceData.tags) {
         if (this.isValidHighlightType(tag)) {
-          const priority = HIGHLIGHT_PRIORITIES[tag];
-          const messages = HIGHLIGHT_MESSAGES[tag];
-
-          ranges.push({
-            start: sentenceStart,
-            end: sentenceEnd,
-            type: tag,
-            priority,
-            message: messages.message,
-            suggestion: messages.suggestion,
-          });
+          const { priority, message, suggestion } = this.highlightTypes[tag]!;
+          const spans = sentenceData.spans?.[tag]?.length
+            ? sentenceData.spans[tag]!
+            : [{ start: 0, end: sentence.length, text: sentence }];
+
+          for (const span of spans) {
+            // Map plain-text offsets back to positions in the submitted content
+            const source = textToSource(sourceMap, offset + span.start, offset + span.end);
+            if (!source) continue;
+
+            ranges.push({
+              start: source.start,
+              end: source.end,
+              type: tag,
+              priority,
+              message,
+              suggestion,
+              text: span.text,
+              layer: stack.indexOf(tag),
+            });
+          }
         }
       }
     }
 
+    // Link audit findings already carry offsets into the submitted content
+    if (this.isValidHighlightType('link_issue')) {
+      for (const finding of analysisResult.report.links?.findings || []) {
+        ranges.push({
+          start: finding.start,
+          end: finding.end,
+          type: 'link_issue',
+          priority: finding.severity,
+          message: finding.message,
+          suggestion: finding.suggestion,
+          text: finding.text,
+          layer: 0,
+        });
+      }
+    }
+
+    // Accessibility findings with a location, ranked by their StructuredError severity
+    if (this.isValidHighlightType('accessibility')) {
+      for (const finding of analysisResult.report.accessibility?.findings || []) {
+        if (finding.start === undefined || finding.end === undefined) continue;
+        ranges.push({
+          start: finding.start,
+          end: finding.end,
+          type: 'accessibility',
+          priority: SEVERITY_PRIORITY[finding.severity],
+          message: finding.message,
+          suggestion: finding.suggestion,
+          text: finding.text,
+          layer: 0,
+        });
+      }
+    }
+
+    // Merge-tag findings carry offsets into the submitted content, like link findings
+    if (this.isValidHighlightType('merge_tag')) {
+      for (const finding of analysisResult.report.mergeTags?.findings || []) {
+        ranges.push({
+          start: finding.start,
+          end: finding.end,
+          type: 'merge_tag',
+          priority: finding.severity,
+          message: finding.message,
+          suggestion: finding.suggestion,
+          text: finding.text,
+          layer: 0,
+        });
+      }
+    }
+
     return ranges;
   }
 
@@ -254,26 +572,52 @@ export class ContentTagger {
     };
 
     const issueTypes = new Set<HighlightType>();
+    const issueCountsByType: Partial<Record<HighlightType, number>> = {};
 
     for (const sentence of perSentence) {
       for (const tag of sentence.tags) {
         if (this.isValidHighlightType(tag)) {
           issueTypes.add(tag);
-          const priority = HIGHLIGHT_PRIORITIES[tag];
-          issueCounts[priority]++;
+          issueCountsByType[tag] = (issueCountsByType[tag] || 0) + 1;
+          issueCounts[this.highlightTypes[tag]!.priority]++;
         }
       }
     }
 
-    // Calculate overall score (A-F scale)
+    // Link, accessibility and merge-tag highlights wrap elements rather than sentences;
+    // they are counted for filtering but do not change the writing score
+    const linkHighlights = (analysisResult.annotated.match(/<link_issue>/g) || []).length;
+    if (linkHighlights && this.isValidHighlightType('link_issue')) {
+      issueTypes.add('link_issue');
+      issueCountsByType.link_issue = linkHighlights;
+    }
+
+    const accessibilityHighlights = (analysisResult.annotated.match(/<accessibility>/g) || []).length;
+    if (accessibilityHighlights && this.isValidHighlightType('accessibility')) {
+      issueTypes.add('accessibility');
+      issueCountsByType.accessibility = accessibilityHighlights;
+    }
+
+    const mergeTagHighlights = (analysisResult.annotated.match(/<merge_tag>/g) || []).length;
+    if (mergeTagHighlights && this.isValidHighlightType('merge_tag')) {
+      issueTypes.add('merge_tag');
+      issueCountsByType.merge_tag = mergeTagHighlights;
+    }
+
+    // Writing score from issues per 100 words; /api/analyze folds it into the rubric grade
     const totalIssues = issueCounts.high + issueCounts.medium + issueCounts.low;
-    const score = this.calculateOverallScore(totalIssues, global.wordCount);
+    const score = issueDensityScore(totalIssues, global.wordCount);
 
     return {
       score,
-      grade: this.scoreToGrade(score),
+      grade: scoreToGrade(score),
       issueCounts,
+      issueCountsByType,
       issueTypes: Array.from(issueTypes),
+      // Definitions for the types found, so clients can render rule-pack types
+      highlightTypes: Object.fromEntries(
+        Array.from(issueTypes, type => [type, this.highlightTypes[type]])
+      ),
       metrics: {
         wordCount: global.wordCount,
         sentenceCount: global.sentenceCount,
@@ -298,44 +642,15 @@ export class ContentTagger {
     return { ...this.options };
   }
 
-  private isValidHighlightType(tag: string): tag is HighlightType {
-    return [
-      'spam_words',
-      'grammar_spelling',
-      'hard_to_read',
-      'fluff',
-      'emoji_excess',
-      'cta',
-      'hedging',
-      'vague_date',
-      'vague_number',
-      'claim_without_evidence'
-    ].includes(tag);
-  }
-
-  private calculateOverallScore(totalIssues: number, wordCount: number): number {
-    // Score based on issues per 100 words
-    const issuesPerHundred = (totalIssues / Math.max(wordCount, 1)) * 100;
-
-    // Scale: 0-2 issues per 100 words = A (90-100)
-    //        2-4 issues per 100 words = B (80-89)
-    //        4-6 issues per 100 words = C (70-79)
-    //        6-8 issues per 100 words = D (60-69)
-    //        8+ issues per 100 words = F (0-59)
-
-    if (issuesPerHundred <= 2) return Math.max(90, 100 - issuesPerHundred * 5);
-    if (issuesPerHundred <= 4) return Math.max(80, 90 - (issuesPerHundred - 2) * 5);
-    if (issuesPerHundred <= 6) return Math.max(70, 80 - (issuesPerHundred - 4) * 5);
-    if (issuesPerHundred <= 8) return Math.max(60, 70 - (issuesPerHundred - 6) * 5);
-    return Math.max(0, 60 - (issuesPerHundred - 8) * 2);
+  /**
+   * Get the highlight types this tagger knows about (built-in plus rule packs)
+   */
+  public getHighlightTypes(): Record<string, HighlightTypeDefinition> {
+    return { ...this.highlightTypes };
   }
 
-  private scoreToGrade(score: number): string {
-    if (score >= 90) return 'A';
-    if (score >= 80) return 'B';
-    if (score >= 70) return 'C';
-    if (score >= 60) return 'D';
-    return 'F';
+  public isValidHighlightType(tag: string): tag is HighlightType {
+    return Object.prototype.hasOwnProperty.call(this.highlightTypes, tag);
   }
 }
 
@@ -0,0 +1,55 @@
+/**
+ * Type declarations for the deliverability inspector
+ */
+
+export type DeliverabilityIssueCode =
+  | 'gmail_clipping'
+  | 'near_gmail_clipping'
+  | 'image_only'
+  | 'image_heavy'
+  | 'hidden_text'
+  | 'tiny_font'
+  | 'invisible_text'
+  | 'external_css'
+  | 'form'
+  | 'active_content'
+  | 'tracking_pixel';
+
+export interface DeliverabilityFinding {
+  code: DeliverabilityIssueCode;
+  severity: 'high' | 'medium' | 'low' | 'info';
+  /** Spam-risk points this kind of finding is worth */
+  weight: number;
+  message: string;
+  suggestion: string;
+  /** Range in the submitted content, when the finding has a location */
+  start?: number;
+  end?: number;
+  text?: string;
+}
+
+export interface DeliverabilityReport {
+  sizeBytes: number;
+  clipThresholdBytes: number;
+  clipped: boolean;
+  wordCount: number;
+  images: {
+    total: number;
+    /** Visible images other than tracking pixels */
+    content: number;
+    trackingPixels: number;
+  };
+  /** Words of text per content image (null without images) */
+  wordsPerImage: number | null;
+  /** Hidden preview text at the top of the email, which is not flagged */
+  preheader: string | null;
+  findings: DeliverabilityFinding[];
+  issueCounts: Partial<Record<DeliverabilityIssueCode, number>>;
+  /** Points added to the scored spam risk (capped at 60) */
+  spamRiskPenalty: number;
+}
+
+export const GMAIL_CLIP_BYTES: number;
+export function contrastRatio(foreground: number[], background: number[]): number;
+export function inspectDeliverability(content?: string): DeliverabilityReport;
+export function applyDeliverabilityPenalty(spamRisk: number, report: DeliverabilityReport | null | undefined): number;
@@ -0,0 +1,224 @@
+// deliverability.js
+
+/**
+ * Technical deliverability checks on raw newsletter HTML
+ * - Size against Gmail's 102KB clipping threshold
+ * - Image-to-text ratio, with 1×1 tracking pixels counted separately
+ * - Hidden or zero-size text, tiny fonts, text colored like its background
+ *   (inline styles and bgcolor, inherited down the element tree)
+ * - External stylesheets, forms, scripts and other active content
+ *
+ * Each finding has a spam-risk weight; spamRiskPenalty (their sum, capped at
+ * MAX_SPAM_RISK_PENALTY) can be added to a scored spam risk:
+ *   spamRisk = min(100, scoredSpamRisk + spamRiskPenalty)
+ * The weighted spam model (spam-scorer.js) counts the same findings as rules.
+ */
+
+import { buildSourceMap } from './source-map.js';
+import { walkStyledHTML, contrastRatio, parseStyle, dimension } from './html-styles.js';
+
+export { contrastRatio };
+
+// Gmail clips messages whose HTML is larger than 102KB ("[Message clipped]")
+export const GMAIL_CLIP_BYTES = 102 * 1024;
+// ESPs add tracking and wrapper markup, so warn well before the limit
+const CLIP_WARNING_RATIO = 0.75;
+
+// Fewer words than this per content image reads as an image-heavy mailing
+const MIN_WORDS_PER_IMAGE = 50;
+// Below this many words an email with images is treated as image-only
+const IMAGE_ONLY_MAX_WORDS = 20;
+// Smallest font size (px) filters and readers accept
+const MIN_FONT_PX = 8;
+// Contrast ratio below which text is effectively invisible on its background
+const INVISIBLE_CONTRAST = 1.5;
+// A hidden block this short at the top of the email is treated as the preheader
+const PREHEADER_MAX_CHARS = 200;
+const MAX_SPAM_RISK_PENALTY = 60;
+
+const ACTIVE_TAGS = new Set(['script', 'iframe', 'embed', 'object', 'applet']);
+
+// Spam-risk weight, severity (highlight priority) and copy for each finding code
+const ISSUES = {
+  gmail_clipping: {
+    weight: 15, severity: 'high',
+    message: 'HTML is larger than Gmail’s 102KB limit, so Gmail will clip the message',
+    suggestion: 'Remove unused CSS, comments and repeated inline styles, or shorten the email',
+  },
+  near_gmail_clipping: {
+    weight: 5, severity: 'medium',
+    message: 'HTML is close to Gmail’s 102KB clipping limit once your ESP adds tracking',
+    suggestion: 'Trim unused markup to leave headroom for ESP link tracking',
+  },
+  image_only: {
+    weight: 25, severity: 'high',
+    message: 'Email is mostly images with almost no text',
+    suggestion: 'Put the message in live text; filters treat image-only mail as spam and many clients block images',
+  },
+  image_heavy: {
+    weight: 10, severity: 'medium',
+    message: 'Few words per image',
+    suggestion: `Aim for at least ${MIN_WORDS_PER_IMAGE} words of text per image`,
+  },
+  hidden_text: {
+    weight: 20, severity: 'high',
+    message: 'Text is hidden from readers',
+    suggestion: 'Remove hidden text; filters read it as keyword stuffing',
+  },
+  tiny_font: {
+    weight: 10, severity: 'medium',
+    message: 'Text is too small to read',
+    suggestion: `Use at least ${MIN_FONT_PX}px (14px or more for body text)`,
+  },
+  invisible_text: {
+    weight: 25, severity: 'high',
+    message: 'Text color matches its background',
+    suggestion: 'Give the text a color that contrasts with its background',
+  },
+  external_css: {
+    weight: 5, severity: 'low',
+    message: 'External stylesheets are stripped by most email clients',
+    suggestion: 'Inline the styles or use an embedded <style> block',
+  },
+  form: {
+    weight: 10, severity: 'medium',
+    message: 'Forms are disabled or flagged by most email clients',
+    suggestion: 'Link to a form on your website instead',
+  },
+  active_content: {
+    weight: 25, severity: 'high',
+    message: 'Scripts, iframes, embeds and event handlers are blocked and trip spam filters',
+    suggestion: 'Remove active content; link to a web page for anything interactive',
+  },
+  tracking_pixel: {
+    weight: 5, severity: 'low',
+    message: 'Tracking pixel in the pasted HTML',
+    suggestion: 'Let your ESP add open tracking; extra pixels from other senders hurt reputation',
+  },
+};
+
+const textOf = (raw) => buildSourceMap(raw).text.replace(/\s+/g, ' ').trim();
+const excerpt = (text) => (text.length > 60 ? `${text.slice(0, 57).trimEnd()}…` : text);
+
+/**
+ * Inspect `content` (the HTML as it will be sent). Returns sizes, image
+ * counts, findings (with offsets into `content` where they apply) and the
+ * spam-risk penalty.
+ */
+export function inspectDeliverability(content = '') {
+  const findings = [];
+  const add = (code, detail, range) => {
+    const issue = ISSUES[code];
+    findings.push({
+      code,
+      severity: issue.severity,
+      weight: issue.weight,
+      message: detail ? `${issue.message}: ${detail}` : issue.message,
+      suggestion: issue.suggestion,
+      ...(range || {}),
+    });
+  };
+
+  const hiddenRuns = [];
+  const tinyRuns = [];
+  const invisibleRuns = [];
+  let firstVisibleText = Infinity;
+
+  const { elements: tags, texts } = walkStyledHTML(content);
+  for (const { raw, state, start, end } of texts) {
+    const text = textOf(raw);
+    if (!text) continue;
+    const run = { start, end, text };
+    if (state.hidden || state.fontSize <= 0) {
+      hiddenRuns.push(run);
+      continue;
+    }
+    firstVisibleText = Math.min(firstVisibleText, start);
+    if (state.fontSize < MIN_FONT_PX) tinyRuns.push({ ...run, size: state.fontSize });
+    if (contrastRatio(state.color, state.background) < INVISIBLE_CONTRAST) invisibleRuns.push(run);
+  }
+
+  // Size and clipping
+  const sizeBytes = Buffer.byteLength(content, 'utf8');
+  const sizeKB = (sizeBytes / 1024).toFixed(1);
+  if (sizeBytes > GMAIL_CLIP_BYTES) add('gmail_clipping', `${sizeKB}KB`);
+  else if (sizeBytes > GMAIL_CLIP_BYTES * CLIP_WARNING_RATIO) add('near_gmail_clipping', `${sizeKB}KB`);
+
+  // Images and tracking pixels
+  const images = tags.filter(t => t.name === 'img');
+  const isPixel = ({ attrs }) => {
+    const style = parseStyle(attrs.style);
+    const width = dimension(attrs.width) ?? dimension(style.width);
+    const height = dimension(attrs.height) ?? dimension(style.height);
+    return width !== null && height !== null && width <= 1 && height <= 1;
+  };
+  const pixels = images.filter(isPixel);
+  const contentImages = images.filter(img => !isPixel(img) && !img.state.hidden);
+  for (const pixel of pixels) add('tracking_pixel', pixel.attrs.src ? excerpt(pixel.attrs.src) : undefined, { start: pixel.start, end: pixel.end });
+
+  const wordCount = (buildSourceMap(content).text.match(/[\p{L}\p{N}]+/gu) || []).length;
+  const wordsPerImage = contentImages.length ? +(wordCount / contentImages.length).toFixed(1) : null;
+  if (contentImages.length > 0 && wordCount < IMAGE_ONLY_MAX_WORDS) {
+    add('image_only', `${contentImages.length} image${contentImages.length > 1 ? 's' : ''}, ${wordCount} words`);
+  } else if (wordsPerImage !== null && wordsPerImage < MIN_WORDS_PER_IMAGE) {
+    add('image_heavy', `${wordsPerImage} words per image`);
+  }
+
+  // Hidden text, except a short preheader block before any visible text
+  const preheader = hiddenRuns.find(run => run.start < firstVisibleText && run.text.length <= PREHEADER_MAX_CHARS);
+  for (const run of hiddenRuns) {
+    if (run === preheader) continue;
+    add('hidden_text', `“${excerpt(run.text)}”`, run);
+  }
+  for (const run of tinyRuns) add('tiny_font', `${+run.size.toFixed(1)}px “${excerpt(run.text)}”`, run);
+  for (const run of invisibleRuns) add('invisible_text', `“${excerpt(run.text)}”`, run);
+
+  // Markup email clients strip or distrust
+  for (const tag of tags) {
+    const range = { start: tag.start, end: tag.end };
+    if (tag.name === 'link' && /stylesheet/i.test(tag.attrs.rel || '')) add('external_css', tag.attrs.href, range);
+    else if (tag.name === 'form') add('form', undefined, range);
+    else if (ACTIVE_TAGS.has(tag.name)) add('active_content', `<${tag.name}>`, range);
+    else {
+      const handler = Object.keys(tag.attrs).find(attr => /^on[a-z]+$/.test(attr));
+      if (handler) add('active_content', `${handler} handler`, range);
+      else if (/^\s*javascript:/i.test(tag.attrs.href || '')) add('active_content', 'javascript: link', range);
+    }
+  }
+  for (const m of content.matchAll(/@import\s+(?:url\()?\s*["']?([^"')\s;]+)/gi)) {
+    add('external_css', `@import ${m[1]}`, { start: m.index, end: m.index + m[0].length });
+  }
+
+  // Each code counts once at full weight, repeats add a third of it
+  const seen = new Set();
+  let penalty = 0;
+  for (const finding of findings) {
+    penalty += seen.has(finding.code) ? finding.weight / 3 : finding.weight;
+    seen.add(finding.code);
+  }
+  const spamRiskPenalty = Math.min(MAX_SPAM_RISK_PENALTY, Math.round(penalty));
+
+  const issueCounts = {};
+  for (const finding of findings) issueCounts[finding.code] = (issueCounts[finding.code] || 0) + 1;
+
+  return {
+    sizeBytes,
+    clipThresholdBytes: GMAIL_CLIP_BYTES,
+    clipped: sizeBytes > GMAIL_CLIP_BYTES,
+    wordCount,
+    images: {
+      total: images.length,
+      content: contentImages.length,
+      trackingPixels: pixels.length,
+    },
+    wordsPerImage,
+    preheader: preheader ? preheader.text : null,
+    findings,
+    issueCounts,
+    spamRiskPenalty,
+  };
+}
+
+/** Apply the deliverability penalty to a scored spam risk (0–100) */
+export const applyDeliverabilityPenalty = (spamRisk, report) =>
+  Math.min(100, Math.round(spamRisk + (report?.spamRiskPenalty || 0)));
@@ -5,6 +5,7 @@ export function buildEditorSystemPrompt({
   toneLabel = "Friendly & conversational",
   targetGradeLow = 6,
   targetGradeHigh = 9,
+  languageName = "English",
 } = {}) {
   return `
 ROLE
@@ -17,6 +18,7 @@ NON-NEGOTIABLES
 4) Use short paragraphs. Use bullets only for lists.
 5) No hype, no fluff, no clichés, no buzzwords.
 6) Return ONLY the fully rewritten draft. No preface, no notes.
+7) Write in ${languageName}, the language of the draft. Never translate.
 
 STYLE RULES
 • Be specific. Prefer examples, numbers, and plain words.
@@ -26,7 +28,7 @@ STYLE RULES
 • Replace vague claims with concrete statements (only if implied by the draft—no inventions).
 • Jargon → simple language (Feynman test: a 15-year-old can follow it).
 
-SPAM/BAD PHRASES (never use)
+SPAM/BAD PHRASES (never use, nor their equivalents in ${languageName})
 free, unlock, win, exclusive offer, act now, risk-free, limited time, bonus, miracle, guaranteed, secret, instant, amazing, once-in-a-lifetime, congratulations, game-changer, supercharge, transform, boost.
 
 NOVELTY / VALUE CHECK
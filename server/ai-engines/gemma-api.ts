@@ -1,7 +1,18 @@
-import Groq from 'groq-sdk';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import { languageInstruction } from './languages.js';
+import { gradeNewsletter } from './grading-rubric.js';
+import { llmRouter, type ChatMessage, type LLMRouter } from './llm-providers.js';
+import {
+  SCORE_FIELDS,
+  SCORING_OUTPUT_INSTRUCTIONS,
+  buildRepairPrompt,
+  completeScoringOutput,
+  validateScoringOutput,
+  type ScoringField,
+  type ScoringOutput,
+} from './scoring-schema.js';
 
 // Load environment variables
 dotenv.config({ path: '.env.development' });
@@ -19,9 +30,32 @@ export interface NewsletterAnalysis {
   summary: string[];
   improvements: string[];
   overallGrade: 'A' | 'B' | 'C' | 'D' | 'F';
+  /** Fields the model never returned validly; their values are stand-ins, not scores */
+  defaulted?: ScoringField[];
+  /** Repair rounds needed before the reply matched the schema */
+  repairAttempts?: number;
+  /** Provider and model that produced the scores */
+  provider?: string;
+  model?: string;
 }
 
-// Groq API configuration
+/**
+ * Overall grade from the five scores on the default rubric; shared with the offline scorer
+ */
+export function calculateOverallGrade(
+  audienceFit: number,
+  tone: number,
+  clarity: number,
+  engagement: number,
+  spamRisk: number
+): NewsletterAnalysis['overallGrade'] {
+  return gradeNewsletter({ audienceFit, tone, clarity, engagement, spamRisk }).grade;
+}
+
+// Repair rounds after a reply fails schema validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Request settings; `model` applies when Groq serves the request
 interface GroqConfig {
   model: string;
   temperature: number;
@@ -30,18 +64,14 @@ interface GroqConfig {
 }
 
 export class GemmaAPIService {
-  private groq: Groq | null = null;
+  private llm: LLMRouter;
   private systemPrompt: string = '';
   private config: GroqConfig;
 
-  constructor() {
-    // Initialize Groq client only if API key is available
-    if (process.env.GROQ_API_KEY) {
-      this.groq = new Groq({
-        apiKey: process.env.GROQ_API_KEY,
-      });
-    } else {
-      console.warn('⚠️  GROQ_API_KEY not configured - Gemma API service will be unavailable');
+  constructor(llm: LLMRouter = llmRouter) {
+    this.llm = llm;
+    if (!this.llm.isConfigured()) {
+      console.warn('⚠️  No LLM provider configured - Gemma API service will be unavailable');
     }
 
     // Default configuration
@@ -62,7 +92,7 @@ export class GemmaAPIService {
       this.systemPrompt = fs.readFileSync(
         path.join(process.cwd(), 'server', 'ai-engines', 'gemma-system-prompt.txt'),
         'utf8'
-      );
+      ).trim();
       console.log('✅ Gemma system prompt loaded successfully.');
     } catch (error) {
       console.error('❌ Error loading Gemma system prompt:', error);
@@ -79,36 +109,30 @@ Rules
 * Prefer specifics over platitudes.
 * If a category had several issues, the score should reflect that.
 * Spam risk: higher % = more spammy.
-* Be balanced: one sentence on strengths, one on weaknesses, then 2–3 action bullets.
-
-Output EXACTLY this:
-Audience Fit: XX%
-Tone: XX%
-Clarity: XX%
-Engagement: XX%
-Spam Risk: XX%
-
-Summary:
-- [1–2 sentences: overall, mention audience]
-- [1–2 sentences: key weaknesses]
-
-Improve Next:
-- [bullet 1: specific action]
-- [bullet 2: specific action]
-- [bullet 3: specific action]`;
+* Be balanced: one sentence on strengths, one on weaknesses, then 2–3 actions.`;
     }
+    // The output format comes from the schema module so prompt and validation agree
+    this.systemPrompt = `${this.systemPrompt}\n\n${SCORING_OUTPUT_INSTRUCTIONS}`;
   }
 
   /**
-   * Analyze newsletter content using Groq Gemma API
+   * Analyze newsletter content with the configured LLM providers (Gemma on
+   * Groq first by default).
+   * `language` (a code such as 'es') keeps the summary and improvements in
+   * the newsletter's language; `signal` cancels the request.
    */
-  async analyzeNewsletter(content: string, context?: { intendedAudience?: string; goal?: string }): Promise<NewsletterAnalysis> {
+  async analyzeNewsletter(
+    content: string,
+    context?: { intendedAudience?: string; goal?: string },
+    language = 'en',
+    signal?: AbortSignal
+  ): Promise<NewsletterAnalysis> {
     if (!content || content.trim().length === 0) {
       throw new Error('Content cannot be empty');
     }
 
-    if (!process.env.GROQ_API_KEY || !this.groq) {
-      throw new Error('GROQ_API_KEY environment variable is not set');
+    if (!this.llm.isConfigured()) {
+      throw new Error('No LLM provider configured');
     }
 
     try {
@@ -126,169 +150,87 @@ Improve Next:
         }
         userMessage = `${contextInfo.join('\n')}\n\nNewsletter Content:\n${content}`;
       }
-
-      const chatCompletion = await this.groq.chat.completions.create({
-        messages: [
-          {
-            role: 'system',
-            content: this.systemPrompt,
-          },
-          {
-            role: 'user',
-            content: userMessage,
-          },
-        ],
-        model: this.config.model,
-        temperature: this.config.temperature,
-        max_tokens: this.config.maxTokens,
-        top_p: this.config.topP,
-        stream: false,
-        stop: null,
-      });
-
-      const response = chatCompletion.choices[0]?.message?.content;
-      if (!response) {
-        throw new Error('No response from Gemma model');
+      if (language !== 'en') {
+        userMessage = `${languageInstruction(language)}\n\n${userMessage}`;
       }
 
-      console.log('✅ Gemma analysis completed');
-      return this.parseAnalysisResponse(response);
-    } catch (error) {
-      console.error('❌ Error analyzing newsletter with Gemma:', error);
-      throw new Error(`Gemma analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Parse the structured response from Gemma into our interface
-   */
-  private parseAnalysisResponse(response: string): NewsletterAnalysis {
-    try {
-      const lines = response.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-
-      // Extract scores
-      const audienceFit = this.extractScore(lines, 'Audience Fit');
-      const tone = this.extractScore(lines, 'Tone');
-      const clarity = this.extractScore(lines, 'Clarity');
-      const engagement = this.extractScore(lines, 'Engagement');
-      const spamRisk = this.extractScore(lines, 'Spam Risk');
+      const messages: ChatMessage[] = [
+        { role: 'system', content: this.systemPrompt },
+        { role: 'user', content: userMessage },
+      ];
+      const attempts: Array<Partial<ScoringOutput>> = [];
+      let repairAttempts = 0;
+      let served = { provider: '', model: '' };
+
+      // Ask, validate, and send the validation errors back until the reply
+      // matches the schema or the repair budget is spent
+      for (;;) {
+        const { content: response, provider, model } = await this.llm.chat(messages, {
+          task: 'scoring',
+          models: { groq: this.config.model },
+          temperature: this.config.temperature,
+          maxTokens: this.config.maxTokens,
+          topP: this.config.topP,
+          json: true,
+          signal,
+        });
+        served = { provider, model };
+
+        const validation = validateScoringOutput(response);
+        attempts.push(validation.value);
+        if (validation.errors.length === 0 || repairAttempts >= MAX_REPAIR_ATTEMPTS) {
+          if (validation.errors.length > 0) {
+            console.warn('⚠️ Gemma reply still invalid after repair:', validation.errors);
+          }
+          break;
+        }
 
-      // Extract summary and improvements
-      const summary = this.extractSection(lines, 'Summary:');
-      const improvements = this.extractSection(lines, 'Improve Next:');
+        repairAttempts++;
+        console.warn(`🔧 Gemma reply failed schema validation, repairing (${validation.errors.length} problems)`);
+        messages.push(
+          { role: 'assistant', content: response },
+          { role: 'user', content: buildRepairPrompt(validation.errors) }
+        );
+      }
 
-      // Calculate overall grade
-      const overallGrade = this.calculateOverallGrade(audienceFit, tone, clarity, engagement, spamRisk);
+      const { output, defaulted } = completeScoringOutput(attempts);
+      if (SCORE_FIELDS.every(field => defaulted.includes(field))) {
+        throw new Error('Gemma returned no valid scores');
+      }
 
+      console.log(`✅ Gemma analysis completed by ${served.provider}/${served.model}${defaulted.length ? ` (defaulted: ${defaulted.join(', ')})` : ''}`);
       return {
-        audienceFit,
-        tone,
-        clarity,
-        engagement,
-        spamRisk,
-        summary,
-        improvements,
-        overallGrade,
+        ...output,
+        // Defaulted scores are left out of the grade rather than counted as 50
+        overallGrade: gradeNewsletter(Object.fromEntries(
+          SCORE_FIELDS.filter(field => !defaulted.includes(field)).map(field => [field, output[field]])
+        )).grade,
+        defaulted,
+        repairAttempts,
+        ...served,
       };
     } catch (error) {
-      console.error('❌ Error parsing Gemma response:', error);
-      throw new Error('Failed to parse analysis response');
-    }
-  }
-
-  /**
-   * Extract score from response lines
-   */
-  private extractScore(lines: string[], category: string): number {
-    const line = lines.find(l => l.startsWith(category));
-    if (!line) {
-      console.warn(`⚠️ Could not find score for ${category}, defaulting to 50`);
-      return 50;
-    }
-
-    const match = line.match(/(\d+)%/);
-    if (!match || !match[1]) {
-      console.warn(`⚠️ Could not parse score for ${category}, defaulting to 50`);
-      return 50;
-    }
-
-    return parseInt(match[1], 10);
-  }
-
-  /**
-   * Extract section content (summary or improvements)
-   */
-  private extractSection(lines: string[], sectionHeader: string): string[] {
-    const startIndex = lines.findIndex(line => line.includes(sectionHeader));
-    if (startIndex === -1) {
-      console.warn(`⚠️ Could not find section ${sectionHeader}`);
-      return [];
-    }
-
-    const section: string[] = [];
-    for (let i = startIndex + 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line) continue;
-
-      // Stop if we hit another section header
-      if (line.includes(':') && !line.startsWith('-')) {
-        break;
-      }
-
-      // Add bullet points
-      if (line.startsWith('-')) {
-        section.push(line.substring(1).trim());
-      }
+      console.error('❌ Error analyzing newsletter with Gemma:', error);
+      throw new Error(`Gemma analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-
-    return section;
-  }
-
-  /**
-   * Calculate overall grade based on scores
-   */
-  private calculateOverallGrade(
-    audienceFit: number,
-    tone: number,
-    clarity: number,
-    engagement: number,
-    spamRisk: number
-  ): 'A' | 'B' | 'C' | 'D' | 'F' {
-    // Calculate weighted average (spam risk is inverted - lower is better)
-    const invertedSpamRisk = 100 - spamRisk;
-    const average = (audienceFit + tone + clarity + engagement + invertedSpamRisk) / 5;
-
-    if (average >= 90) return 'A';
-    if (average >= 80) return 'B';
-    if (average >= 70) return 'C';
-    if (average >= 60) return 'D';
-    return 'F';
   }
 
   /**
-   * Test the connection to Groq API
+   * Send a short request through the provider chain
    */
   async testConnection(): Promise<boolean> {
-    if (!this.groq) {
+    if (!this.llm.isConfigured()) {
       return false;
     }
 
     try {
-      const testResponse = await this.groq.chat.completions.create({
-        messages: [
-          {
-            role: 'user',
-            content: 'Hello, this is a test message.',
-          },
-        ],
-        model: this.config.model,
-        temperature: 0.1,
-        max_tokens: 50,
-      });
-
-      return !!testResponse.choices[0]?.message?.content;
+      const testResponse = await this.llm.chat(
+        [{ role: 'user', content: 'Hello, this is a test message.' }],
+        { models: { groq: this.config.model }, temperature: 0.1, maxTokens: 50 }
+      );
+      return !!testResponse.content;
     } catch (error) {
-      console.error('❌ Groq API connection test failed:', error);
+      console.error('❌ LLM provider connection test failed:', error);
       return false;
     }
   }
@@ -300,14 +242,16 @@ Improve Next:
     status: 'healthy' | 'unhealthy';
     model: string;
     apiKeyConfigured: boolean;
+    providers: ReturnType<LLMRouter['describe']>;
   }> {
-    const apiKeyConfigured = !!process.env.GROQ_API_KEY;
+    const apiKeyConfigured = this.llm.isConfigured();
     const connectionWorking = apiKeyConfigured ? await this.testConnection() : false;
 
     return {
       status: connectionWorking ? 'healthy' : 'unhealthy',
       model: this.config.model,
       apiKeyConfigured,
+      providers: this.llm.describe(),
     };
   }
 }
@@ -0,0 +1,73 @@
+/**
+ * Type declarations for the shared grading rubric
+ */
+
+export type LetterGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface RubricDimension {
+  /** Score key, e.g. 'clarity' or 'spamRisk' */
+  key: string;
+  label: string;
+  /** Relative weight; weights are normalised over the dimensions that have a score */
+  weight: number;
+  /** Lower is better (spam risk) */
+  inverted?: boolean;
+}
+
+export interface GradingRubric {
+  id: string;
+  name: string;
+  description?: string;
+  dimensions: RubricDimension[];
+  /** Lowest score for each grade; anything below D is an F */
+  gradeCutoffs: Record<'A' | 'B' | 'C' | 'D', number>;
+  /** Count informational tags (cta, ...) as writing issues */
+  countInformationalTags?: boolean;
+}
+
+export type RubricDimensionKey =
+  | 'audienceFit'
+  | 'tone'
+  | 'clarity'
+  | 'engagement'
+  | 'spamRisk'
+  | 'writingIssues';
+
+export interface GradeBreakdownItem {
+  key: string;
+  label: string;
+  /** The dimension score, 0–100 */
+  value: number;
+  inverted: boolean;
+  /** Share of the total weight, in percent */
+  weight: number;
+  /** Points this dimension adds to the overall score */
+  contribution: number;
+  /** Points this dimension costs against a perfect 100 */
+  pointsLost: number;
+}
+
+export interface GradeResult {
+  /** Rubric id */
+  rubric: string;
+  rubricName: string;
+  gradeCutoffs: GradingRubric['gradeCutoffs'];
+  score: number;
+  grade: LetterGrade;
+  breakdown: GradeBreakdownItem[];
+  /** Rubric dimensions that had no score and were left out */
+  skipped: string[];
+}
+
+export const RUBRIC_DIMENSIONS: Record<RubricDimensionKey, { label: string; inverted: boolean }>;
+export const DEFAULT_RUBRIC: GradingRubric;
+
+export function scoreToGrade(score: number, cutoffs?: GradingRubric['gradeCutoffs']): LetterGrade;
+export function issueDensityScore(issueCount: number, wordCount: number): number;
+export function writingIssuesScore(
+  issueCounts: { high?: number; medium?: number; low?: number; info?: number } | undefined,
+  wordCount: number,
+  rubric?: GradingRubric
+): number;
+export function gradeNewsletter(scores?: Partial<Record<string, number | undefined>>, rubric?: GradingRubric): GradeResult;
+export function rubricFromGrade(grading: GradeResult): GradingRubric;
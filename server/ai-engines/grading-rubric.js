@@ -0,0 +1,141 @@
+// grading-rubric.js
+
+/**
+ * Grading rubric shared by the server and the client
+ * The overall grade is a weighted average of dimension scores (0–100):
+ *   score = Σ weightᵢ · effectiveᵢ / Σ weightᵢ
+ * where effective is the score itself, or 100 − score for inverted
+ * dimensions such as spam risk (lower is better). Dimensions without a score
+ * are left out and the remaining weights renormalised, so a rubric still
+ * grades when one system (AI scoring, rule-based checks) is unavailable.
+ *
+ * The breakdown lists, per dimension, its share of the weight, its
+ * contribution to the score and the points it cost against a perfect 100;
+ * the points lost add up to 100 − score.
+ */
+
+// Scores a rubric can weigh, with their display label and direction
+export const RUBRIC_DIMENSIONS = {
+  audienceFit: { label: 'Audience Fit', inverted: false },
+  tone: { label: 'Tone', inverted: false },
+  clarity: { label: 'Clarity', inverted: false },
+  engagement: { label: 'Engagement', inverted: false },
+  spamRisk: { label: 'Spam Risk', inverted: true },
+  // Rule-based issue density (see writingIssuesScore)
+  writingIssues: { label: 'Writing Issues', inverted: false },
+};
+
+export const DEFAULT_RUBRIC = {
+  id: 'default',
+  name: 'Balanced',
+  dimensions: Object.entries(RUBRIC_DIMENSIONS).map(([key, { label, inverted }]) => ({
+    key,
+    label,
+    weight: 1,
+    ...(inverted ? { inverted } : {}),
+  })),
+  // Lowest score for each grade; anything below D is an F
+  gradeCutoffs: { A: 90, B: 80, C: 70, D: 60 },
+  // Informational tags (cta, ...) mark what a draft does, not what is wrong with it
+  countInformationalTags: false,
+};
+
+const GRADES = ['A', 'B', 'C', 'D'];
+const round1 = (n) => Math.round(n * 10) / 10;
+const clampScore = (n) => Math.max(0, Math.min(100, n));
+
+/**
+ * Letter grade for a 0–100 score
+ */
+export function scoreToGrade(score, cutoffs = DEFAULT_RUBRIC.gradeCutoffs) {
+  return GRADES.find(grade => score >= cutoffs[grade]) ?? 'F';
+}
+
+/**
+ * Score from the rule-based issue count: issues per 100 words, where
+ * 0–2 = A (90–100), 2–4 = B, 4–6 = C, 6–8 = D and more than 8 = F
+ */
+export function issueDensityScore(issueCount, wordCount) {
+  const issuesPerHundred = (issueCount / Math.max(wordCount, 1)) * 100;
+
+  if (issuesPerHundred <= 2) return Math.max(90, 100 - issuesPerHundred * 5);
+  if (issuesPerHundred <= 4) return Math.max(80, 90 - (issuesPerHundred - 2) * 5);
+  if (issuesPerHundred <= 6) return Math.max(70, 80 - (issuesPerHundred - 4) * 5);
+  if (issuesPerHundred <= 8) return Math.max(60, 70 - (issuesPerHundred - 6) * 5);
+  return Math.max(0, 60 - (issuesPerHundred - 8) * 2);
+}
+
+/**
+ * The writingIssues score from the rule-based issue counts by priority.
+ * Informational tags count as issues only when the rubric says so.
+ */
+export function writingIssuesScore(issueCounts, wordCount, rubric = DEFAULT_RUBRIC) {
+  const { high = 0, medium = 0, low = 0, info = 0 } = issueCounts || {};
+  return issueDensityScore(high + medium + low + (rubric.countInformationalTags ? info : 0), wordCount);
+}
+
+/**
+ * Grade dimension scores against a rubric. `scores` maps dimension keys to
+ * 0–100 values; missing or non-numeric values are skipped.
+ */
+export function gradeNewsletter(scores = {}, rubric = DEFAULT_RUBRIC) {
+  const scored = [];
+  const skipped = [];
+  for (const dimension of rubric.dimensions) {
+    const value = scores[dimension.key];
+    if (typeof value === 'number' && Number.isFinite(value) && dimension.weight > 0) {
+      scored.push({ dimension, value: clampScore(value) });
+    } else {
+      skipped.push(dimension.key);
+    }
+  }
+
+  const totalWeight = scored.reduce((total, { dimension }) => total + dimension.weight, 0);
+  const breakdown = scored.map(({ dimension, value }) => {
+    const share = dimension.weight / totalWeight;
+    const effective = dimension.inverted ? 100 - value : value;
+    return {
+      key: dimension.key,
+      label: dimension.label,
+      value,
+      inverted: Boolean(dimension.inverted),
+      weight: round1(share * 100),
+      contribution: round1(share * effective),
+      pointsLost: round1(share * (100 - effective)),
+    };
+  });
+
+  // Nothing to grade on: report a neutral middle score rather than an F
+  const score = totalWeight > 0
+    ? Math.round(scored.reduce((total, { dimension, value }) =>
+      total + (dimension.weight / totalWeight) * (dimension.inverted ? 100 - value : value), 0))
+    : 75;
+
+  return {
+    rubric: rubric.id,
+    rubricName: rubric.name,
+    gradeCutoffs: rubric.gradeCutoffs,
+    score,
+    grade: scoreToGrade(score, rubric.gradeCutoffs),
+    breakdown,
+    skipped,
+  };
+}
+
+/**
+ * Rebuild the rubric a grade was computed with, to grade another version of
+ * the draft the same way. Dimensions the grade skipped are not recovered.
+ */
+export function rubricFromGrade(grading) {
+  return {
+    id: grading.rubric,
+    name: grading.rubricName ?? grading.rubric,
+    dimensions: grading.breakdown.map(({ key, label, weight, inverted }) => ({
+      key,
+      label,
+      weight,
+      ...(inverted ? { inverted } : {}),
+    })),
+    gradeCutoffs: grading.gradeCutoffs ?? DEFAULT_RUBRIC.gradeCutoffs,
+  };
+}
@@ -0,0 +1,72 @@
+// html-annotator.js
+
+/**
+ * DOM-aware annotator
+ * - Uses the source map's view of the document: markup, comments and
+ *   script/style bodies are structure, everything else sits in text nodes
+ * - A sentence that crosses <a>, <strong> or block boundaries is split at
+ *   those boundaries and each text-node piece is wrapped on its own
+ * - Never touches tags or attributes and never splits an entity, so the
+ *   annotated output is as well-formed as the input
+ */
+
+import { sourceSegments } from './source-map.js';
+
+/**
+ * Wrap text ranges of `html` using the source map built from it.
+ * Each annotation is { start, end, wrap } where start/end are plain-text
+ * offsets and wrap(text) returns the annotated text for one text-node piece.
+ *
+ * `wrappers` ({ start, end, tag } in source offsets) put <tag>…</tag> around
+ * whole elements or element contents, outside any text annotations inside
+ * them. They must start and end on markup boundaries; a wrapper that would
+ * cut through a text annotation or cross an earlier wrapper is dropped.
+ */
+export function annotateHTML(html, map, annotations, wrappers = []) {
+  const candidates = annotations
+    .flatMap(({ start, end, wrap }) =>
+      sourceSegments(map, start, end).map(segment => ({ ...segment, wrap }))
+    )
+    // Whitespace between blocks is layout, not content
+    .filter(piece => html.slice(piece.start, piece.end).trim())
+    .sort((a, b) => a.start - b.start);
+
+  const pieces = [];
+  let cursor = 0;
+  for (const piece of candidates) {
+    if (piece.start < cursor) continue; // overlapping annotation: first one wins
+    pieces.push(piece);
+    cursor = piece.end;
+  }
+
+  const cuts = (pos) => pieces.some(piece => piece.start < pos && pos < piece.end);
+  const events = pieces.map(piece => ({ pos: piece.start, order: 2, piece }));
+  const kept = [];
+  for (const { start, end, tag } of wrappers) {
+    if (start >= end || cuts(start) || cuts(end)) continue;
+    // Wrappers may nest but not cross; the earlier one wins
+    if (kept.some(w => (w.start < start && start < w.end && w.end < end) || (start < w.start && w.start < end && end < w.end))) continue;
+    kept.push({ start, end });
+    // At one position: closing tags, then opening tags (outermost first), then text
+    events.push({ pos: start, order: 1, span: end - start, text: `<${tag}>` });
+    events.push({ pos: end, order: 0, span: end - start, text: `</${tag}>` });
+  }
+  events.sort((a, b) =>
+    a.pos - b.pos || a.order - b.order || (a.order === 1 ? b.span - a.span : a.span - b.span)
+  );
+
+  let annotated = '';
+  cursor = 0;
+  for (const event of events) {
+    annotated += html.slice(cursor, event.pos);
+    if (event.piece) {
+      annotated += event.piece.wrap(html.slice(event.piece.start, event.piece.end));
+      cursor = event.piece.end;
+    } else {
+      annotated += event.text;
+      cursor = event.pos;
+    }
+  }
+
+  return annotated + html.slice(cursor);
+}
@@ -0,0 +1,210 @@
+// html-styles.js
+
+/**
+ * Inline-style view of newsletter HTML
+ * - Tokenizes the markup into elements and text runs (no DOM needed)
+ * - Gives every element the visibility, font size, weight, decoration and
+ *   colors it ends up with from its own attributes/inline style and its
+ *   ancestors' (bgcolor, <font>, style="...")
+ * - Shared by the deliverability and accessibility checks
+ */
+
+const TOKEN_RE = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w:-]*)\b((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+const ATTR_RE = /([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'title', 'textarea']);
+const BOLD_TAGS = new Set(['b', 'strong', 'th']);
+const UNDERLINE_TAGS = new Set(['u', 'ins']);
+const HEADING_SIZES = { h1: 32, h2: 24, h3: 18.72, h4: 16, h5: 13.28, h6: 10.72 };
+
+const NAMED_COLORS = {
+  white: [255, 255, 255], black: [0, 0, 0], red: [255, 0, 0], green: [0, 128, 0], blue: [0, 0, 255],
+  yellow: [255, 255, 0], gray: [128, 128, 128], grey: [128, 128, 128], silver: [192, 192, 192],
+  whitesmoke: [245, 245, 245], snow: [255, 250, 250], ivory: [255, 255, 240], navy: [0, 0, 128],
+  orange: [255, 165, 0], purple: [128, 0, 128], lightgray: [211, 211, 211], lightgrey: [211, 211, 211],
+  darkgray: [169, 169, 169], darkgrey: [169, 169, 169],
+};
+
+export function parseAttributes(attrs) {
+  const out = {};
+  for (const m of attrs.matchAll(ATTR_RE)) {
+    const name = m[1].toLowerCase();
+    if (!(name in out)) out[name] = m[2] ?? m[3] ?? m[4] ?? '';
+  }
+  return out;
+}
+
+export function parseStyle(style = '') {
+  const out = {};
+  for (const declaration of style.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    if (property) out[property] = declaration.slice(colon + 1).replace(/!important/i, '').trim().toLowerCase();
+  }
+  return out;
+}
+
+/** [r, g, b] for a CSS color, or null for transparent/unknown values */
+export function parseColor(value) {
+  if (!value) return null;
+  const v = value.trim().toLowerCase();
+  if (v === 'transparent' || v === 'inherit' || v === 'initial' || v === 'currentcolor') return null;
+  if (NAMED_COLORS[v]) return NAMED_COLORS[v];
+  let m = /^#([0-9a-f]{3,4})$/.exec(v);
+  if (m) return m[1].slice(0, 3).split('').map(h => parseInt(h + h, 16));
+  m = /^#([0-9a-f]{6})(?:[0-9a-f]{2})?$/.exec(v);
+  if (m) return [0, 2, 4].map(i => parseInt(m[1].slice(i, i + 2), 16));
+  m = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+%?))?\s*\)$/.exec(v);
+  if (m) {
+    const alpha = m[4] === undefined ? 1 : m[4].endsWith('%') ? parseFloat(m[4]) / 100 : parseFloat(m[4]);
+    return alpha === 0 ? null : [m[1], m[2], m[3]].map(Number);
+  }
+  return null;
+}
+
+// WCAG relative luminance and contrast ratio
+function luminance([r, g, b]) {
+  const [R, G, B] = [r, g, b].map(c => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+}
+
+export function contrastRatio(foreground, background) {
+  const [a, b] = [luminance(foreground), luminance(background)].sort((x, y) => y - x);
+  return (a + 0.05) / (b + 0.05);
+}
+
+export const formatColor = ([r, g, b]) =>
+  `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+// Font size in px relative to the inherited size; null when it can't be read
+function fontSizePx(value, inherited) {
+  const m = /^(-?[\d.]+)(px|pt|em|rem|%)?$/.exec(value || '');
+  if (!m) return null;
+  const n = parseFloat(m[1]);
+  switch (m[2]) {
+    case 'pt': return n * (4 / 3);
+    case 'em': return n * inherited;
+    case 'rem': return n * 16;
+    case '%': return (n / 100) * inherited;
+    default: return n;
+  }
+}
+
+/** Pixel value of a width/height attribute or style ("1", "1px"), else null */
+export const dimension = (value) => {
+  const m = /^\s*([\d.]+)\s*(px)?\s*$/i.exec(value || '');
+  return m ? parseFloat(m[1]) : null;
+};
+
+function isHidden(attrs, style) {
+  if ('hidden' in attrs) return true;
+  if (style.display === 'none' || style.visibility === 'hidden' || style['mso-hide'] === 'all') return true;
+  if (style.opacity !== undefined && parseFloat(style.opacity) === 0) return true;
+  const zero = (v) => v !== undefined && /^0(?:px|pt|em|rem|%)?$/.test(v);
+  if ((zero(style['max-height']) || zero(style.height)) && /hidden/.test(style.overflow || '')) return true;
+  return false;
+}
+
+// Computed state of an element from its parent's state and its own attributes
+function childState(parent, tag, attrs, id) {
+  const style = parseStyle(attrs.style);
+  const state = { ...parent, id, tag, parent, style };
+  if (isHidden(attrs, style)) state.hidden = true;
+
+  if (HEADING_SIZES[tag]) {
+    state.fontSize = HEADING_SIZES[tag];
+    state.bold = true;
+  }
+  const size = fontSizePx(style['font-size'], parent.fontSize);
+  if (size !== null) state.fontSize = size;
+  if (tag === 'font' && attrs.size && /^[1-7]$/.test(attrs.size)) {
+    state.fontSize = [10, 13, 16, 18, 24, 32, 48][Number(attrs.size) - 1];
+  }
+
+  if (BOLD_TAGS.has(tag)) state.bold = true;
+  if (style['font-weight']) state.bold = /bold|[6-9]00/.test(style['font-weight']);
+
+  // Links are underlined unless their style says otherwise
+  if (tag === 'a' || UNDERLINE_TAGS.has(tag)) state.underline = true;
+  const decoration = style['text-decoration'] ?? style['text-decoration-line'];
+  if (decoration !== undefined) state.underline = /underline/.test(decoration);
+  if (/^(?!none|0)/.test(style['border-bottom'] || 'none')) state.border = true;
+
+  const color = parseColor(style.color) || (tag === 'font' ? parseColor(attrs.color) : null);
+  if (color) state.color = color;
+  const background = parseColor(style['background-color'])
+    || parseColor((/^(#[0-9a-f]{3,8}|[a-z]+|rgba?\([^)]*\))/i.exec(style.background || '') || [])[1])
+    || parseColor(attrs.bgcolor);
+  if (background) state.background = background;
+  return state;
+}
+
+/**
+ * Walk the HTML and return { elements, texts }.
+ * elements: { name, attrs, state, start, end, innerStart, innerEnd } where
+ *   state is the element's computed style (state.parent is its parent's) and
+ *   innerEnd is null for void or unclosed elements.
+ * texts: { raw, start, end, state } for every non-blank run of text, with the
+ *   state of the element it sits in.
+ */
+export function walkStyledHTML(html = '') {
+  const root = {
+    id: 0, tag: '#root', parent: null, style: {}, hidden: false, fontSize: 16, bold: false,
+    underline: false, border: false, color: [0, 0, 0], background: [255, 255, 255],
+  };
+  const stack = [{ state: root, element: null }];
+  const elements = [];
+  const texts = [];
+  let last = 0;
+  let rawUntil = null;
+
+  const top = () => stack[stack.length - 1];
+  const flushText = (end) => {
+    if (rawUntil || end <= last) return;
+    const raw = html.slice(last, end);
+    if (/\S/.test(raw)) texts.push({ raw, start: last, end, state: top().state });
+  };
+
+  for (const m of html.matchAll(TOKEN_RE)) {
+    const [token, closing, rawName = '', rawAttrs = ''] = m;
+    const name = rawName.toLowerCase();
+
+    if (rawUntil) {
+      if (closing && name === rawUntil) {
+        rawUntil = null;
+        last = m.index + token.length;
+        stack.pop().element.innerEnd = m.index;
+      }
+      continue;
+    }
+
+    flushText(m.index);
+    last = m.index + token.length;
+    if (!name) continue; // comment
+
+    if (closing) {
+      const at = stack.map(entry => entry.state.tag).lastIndexOf(name);
+      if (at > 0) {
+        stack[at].element.innerEnd = m.index;
+        stack.length = at;
+      }
+      continue;
+    }
+
+    const attrs = parseAttributes(rawAttrs);
+    const state = childState(top().state, name, attrs, elements.length + 1);
+    const element = { name, attrs, state, start: m.index, end: m.index + token.length, innerStart: m.index + token.length, innerEnd: null };
+    elements.push(element);
+    if (VOID_TAGS.has(name) || token.endsWith('/>')) continue;
+
+    stack.push({ state, element });
+    if (RAW_TEXT_TAGS.has(name)) rawUntil = name;
+  }
+  flushText(html.length);
+
+  return { elements, texts };
+}
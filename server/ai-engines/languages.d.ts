@@ -0,0 +1,35 @@
+/**
+ * Type declarations for language detection and language profiles
+ */
+
+export type SupportedLanguage = 'en' | 'es' | 'de' | 'fr';
+
+export interface LanguageDetection {
+  language: SupportedLanguage;
+  /** Share of the language evidence that points at `language` (0–1) */
+  confidence: number;
+  /** False when the text was too short or too mixed to tell */
+  reliable: boolean;
+}
+
+export interface LanguageProfile {
+  spamWords: string[];
+  fluffPhrases: string[];
+  intensifiers: string[];
+  jargon: { mild: string[]; heavy: string[] };
+  ctaPhrases: string[];
+  hedgeWords: string[];
+  vagueDates: string[];
+  baldClaimVerbs: string[];
+  conjunctions: string[];
+  passivePattern: RegExp;
+}
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[];
+export const LANGUAGE_NAMES: Record<SupportedLanguage, string>;
+export const DEFAULT_LANGUAGE: SupportedLanguage;
+export const LANGUAGE_PROFILES: Record<Exclude<SupportedLanguage, 'en'>, LanguageProfile>;
+
+export function detectLanguage(text: string): LanguageDetection;
+export function isSupportedLanguage(language: unknown): language is SupportedLanguage;
+export function languageInstruction(language: string): string;
@@ -0,0 +1,213 @@
+// languages.js
+
+/**
+ * Language support for the tagger
+ * - Detects the language of a newsletter from stopword and letter hints
+ * - Language profiles: the word lists, clause words and passive-voice pattern
+ *   the tagger uses instead of the English defaults
+ * - English keeps the lists defined in the engine itself
+ */
+
+export const SUPPORTED_LANGUAGES = ['en', 'es', 'de', 'fr'];
+
+export const LANGUAGE_NAMES = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  fr: 'French',
+};
+
+export const DEFAULT_LANGUAGE = 'en';
+
+// High-frequency function words; nearly every sentence contains a few
+const STOPWORDS = {
+  en: [
+    'the', 'and', 'is', 'are', 'was', 'were', 'of', 'to', 'in', 'that', 'it', 'for', 'you', 'with',
+    'this', 'on', 'be', 'have', 'has', 'not', 'but', 'we', 'our', 'your', 'they', 'will', 'from',
+    'at', 'by', 'or', 'an', 'what', 'which', 'can', 'all', 'would', 'there', 'their', 'been', 'if',
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'para', 'con',
+    'no', 'se', 'su', 'sus', 'al', 'lo', 'como', 'más', 'pero', 'este', 'esta', 'son', 'está', 'muy',
+    'también', 'nuestro', 'nuestra', 'tu', 'tus', 'hay', 'ya', 'sin', 'sobre', 'todo', 'cuando',
+  ],
+  de: [
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'dem', 'mit', 'sich',
+    'auf', 'für', 'von', 'im', 'auch', 'es', 'an', 'wir', 'sie', 'ihr', 'ihre', 'werden', 'wird',
+    'sind', 'bei', 'oder', 'aber', 'noch', 'nach', 'wie', 'über', 'unser', 'unsere', 'dass', 'kann',
+  ],
+  fr: [
+    'le', 'la', 'les', 'de', 'des', 'du', 'et', 'est', 'un', 'une', 'en', 'que', 'qui', 'dans', 'pour',
+    'pas', 'sur', 'au', 'aux', 'avec', 'ce', 'cette', 'ne', 'se', 'plus', 'nous', 'vous', 'votre',
+    'vos', 'notre', 'nos', 'sont', 'mais', 'ou', 'très', 'aussi', 'leur', 'être', 'été', 'il', 'elle',
+  ],
+};
+
+// Letters and punctuation that only (or mostly) occur in one language
+const LETTER_HINTS = {
+  es: /[ñ¿¡]/g,
+  de: /[ßäöü]/g,
+  fr: /[çœàâêèëîïôûù]/g,
+};
+
+const STOPWORD_SETS = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([language, words]) => [language, new Set(words)])
+);
+
+// Below this many stopword hits the sample is too small to tell
+const MIN_EVIDENCE = 3;
+
+/**
+ * Detect the language of plain text.
+ * Returns { language, confidence (0–1), reliable } and falls back to English
+ * when there is not enough evidence.
+ */
+export function detectLanguage(text) {
+  const words = (text.toLowerCase().match(/\p{L}+/gu) || []).slice(0, 2000);
+  const scores = Object.fromEntries(SUPPORTED_LANGUAGES.map(language => [language, 0]));
+
+  for (const word of words) {
+    for (const language of SUPPORTED_LANGUAGES) {
+      if (STOPWORD_SETS[language].has(word)) scores[language]++;
+    }
+  }
+  for (const [language, re] of Object.entries(LETTER_HINTS)) {
+    scores[language] += Math.min((text.toLowerCase().match(re) || []).length, words.length) * 0.5;
+  }
+
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [best, bestScore] = ranked[0];
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+
+  if (bestScore < MIN_EVIDENCE) {
+    return { language: DEFAULT_LANGUAGE, confidence: 0, reliable: false };
+  }
+
+  const confidence = +(bestScore / total).toFixed(2);
+  return { language: best, confidence, reliable: confidence >= 0.5 };
+}
+
+export const isSupportedLanguage = (language) => SUPPORTED_LANGUAGES.includes(language);
+
+/**
+ * One line for LLM prompts so scoring and rewrites stay in the newsletter's language.
+ */
+export function languageInstruction(language) {
+  const name = LANGUAGE_NAMES[language] || LANGUAGE_NAMES[DEFAULT_LANGUAGE];
+  return `The newsletter is written in ${name}. Write all of your output in ${name}; do not translate it.`;
+}
+
+// Word lists per language, keyed like the engine options they replace
+export const LANGUAGE_PROFILES = {
+  es: {
+    spamWords: [
+      'gratis', 'oferta', 'oferta exclusiva', 'descuento', 'promoción', 'urgente', 'garantizado',
+      'sin riesgo', 'compra ya', 'compre ahora', 'haz clic aquí', 'haga clic aquí', 'última oportunidad',
+      'por tiempo limitado', 'increíble', 'ganador', 'premio', 'dinero fácil', 'gana dinero', 'bono',
+      'regalo', 'sin costo', 'sin compromiso', 'precio más bajo', 'ahorra', 'exclusivo', 'milagro',
+      'secreto', 'no te lo pierdas', 'actúa ya', 'oportunidad única', 'felicidades',
+    ],
+    fluffPhrases: [
+      'hoy en día', 'a fin de cuentas', 'cabe destacar que', 'es importante señalar que',
+      'no hace falta decir que', 'en este sentido', 'pensar fuera de la caja', 'dar lo mejor de ti',
+      'llevar al siguiente nivel', 'el cielo es el límite',
+    ],
+    intensifiers: [
+      'absolutamente', 'realmente', 'básicamente', 'totalmente', 'completamente', 'definitivamente',
+      'literalmente', 'obviamente', 'simplemente', 'muy', 'súper', 'extremadamente',
+    ],
+    jargon: {
+      mild: [
+        'optimizar', 'apalancar', 'priorizar', 'facilitar', 'metodología', 'escalable', 'innovador',
+        'alineación', 'visibilidad', 'sinergia', 'hoja de ruta', 'entregables', 'stakeholders',
+      ],
+      heavy: [
+        'cambio de paradigma', 'transformación digital', 'propuesta de valor', 'omnicanal',
+        'integración perfecta', 'liderazgo de pensamiento', 'competencia central',
+      ],
+    },
+    ctaPhrases: [
+      'leer más', 'más información', 'suscríbete', 'regístrate', 'descarga', 'empieza ahora',
+      'pruébalo gratis', 'reserva una demo', 'únete', 'ver más',
+    ],
+    hedgeWords: ['quizás', 'quizá', 'tal vez', 'podría', 'parece', 'probablemente', 'posiblemente', 'puede que'],
+    vagueDates: ['pronto', 'recientemente', 'hoy en día', 'últimamente', 'en breve', 'en un futuro cercano'],
+    baldClaimVerbs: ['garantiza', 'garantizamos', 'demuestra', 'asegura', 'duplica', 'triplica'],
+    conjunctions: ['y', 'o', 'pero', 'que', 'cual', 'aunque', 'porque'],
+    passivePattern: /(?<!\p{L})(?:fue|fueron|es|son|será|serán|era|eran|ha sido|han sido|había sido)\s+\p{L}+(?:ado|ada|ados|adas|ido|ida|idos|idas)(?!\p{L})/giu,
+  },
+  de: {
+    spamWords: [
+      'kostenlos', 'gratis', 'angebot', 'exklusives angebot', 'rabatt', 'sonderangebot', 'dringend',
+      'garantiert', 'ohne risiko', 'risikofrei', 'jetzt kaufen', 'jetzt bestellen', 'hier klicken',
+      'letzte chance', 'nur für kurze zeit', 'unglaublich', 'gewinner', 'gewinnen', 'preis', 'bonus',
+      'geschenk', 'ohne kosten', 'unverbindlich', 'tiefstpreis', 'sparen', 'exklusiv', 'wunder',
+      'geheimnis', 'nicht verpassen', 'einmalige gelegenheit', 'herzlichen glückwunsch',
+    ],
+    fluffPhrases: [
+      'heutzutage', 'am ende des tages', 'es versteht sich von selbst', 'es ist wichtig zu beachten',
+      'über den tellerrand schauen', 'auf das nächste level', 'der himmel ist die grenze',
+      'an dieser stelle', 'im großen und ganzen',
+    ],
+    intensifiers: [
+      'absolut', 'wirklich', 'eigentlich', 'grundsätzlich', 'total', 'komplett', 'definitiv',
+      'buchstäblich', 'offensichtlich', 'einfach', 'sehr', 'extrem', 'super',
+    ],
+    jargon: {
+      mild: [
+        'optimieren', 'priorisieren', 'skalierbar', 'innovativ', 'methodik', 'synergie', 'roadmap',
+        'stakeholder', 'deliverables', 'alignment', 'sichtbarkeit', 'ermöglichen', 'hebeln',
+      ],
+      heavy: [
+        'paradigmenwechsel', 'digitale transformation', 'wertversprechen', 'omnichannel',
+        'nahtlose integration', 'thought leadership', 'kernkompetenz',
+      ],
+    },
+    ctaPhrases: [
+      'weiterlesen', 'mehr erfahren', 'jetzt anmelden', 'abonnieren', 'registrieren', 'herunterladen',
+      'jetzt starten', 'kostenlos testen', 'demo buchen', 'mehr lesen',
+    ],
+    hedgeWords: ['vielleicht', 'könnte', 'möglicherweise', 'scheint', 'wahrscheinlich', 'eventuell', 'eher'],
+    vagueDates: ['bald', 'demnächst', 'kürzlich', 'neulich', 'heutzutage', 'in naher zukunft', 'in kürze'],
+    baldClaimVerbs: ['garantiert', 'garantieren', 'beweist', 'sichert', 'verdoppelt', 'verdreifacht'],
+    conjunctions: ['und', 'oder', 'aber', 'dass', 'welche', 'welcher', 'weil', 'obwohl'],
+    passivePattern: /(?<!\p{L})(?:wird|werden|wurde|wurden|worden)\s+(?:\p{L}+\s+){0,4}?ge\p{L}+(?:t|en)(?!\p{L})/giu,
+  },
+  fr: {
+    spamWords: [
+      'gratuit', 'offre', 'offre exclusive', 'remise', 'promotion', 'urgent', 'garanti', 'sans risque',
+      'achetez maintenant', 'commandez maintenant', 'cliquez ici', 'dernière chance',
+      'durée limitée', 'incroyable', 'gagnant', 'gagnez', 'prix', 'bonus', 'cadeau', 'sans frais',
+      'sans engagement', 'meilleur prix', 'économisez', 'exclusif', 'miracle', 'secret',
+      'ne manquez pas', 'opportunité unique', 'félicitations',
+    ],
+    fluffPhrases: [
+      'de nos jours', 'en fin de compte', 'il va sans dire', 'il est important de noter que',
+      'sortir des sentiers battus', 'passer au niveau supérieur', 'le ciel est la limite',
+      'à vrai dire', 'dans ce contexte',
+    ],
+    intensifiers: [
+      'absolument', 'vraiment', 'essentiellement', 'totalement', 'complètement', 'définitivement',
+      'littéralement', 'évidemment', 'simplement', 'très', 'extrêmement', 'super',
+    ],
+    jargon: {
+      mild: [
+        'optimiser', 'prioriser', 'faciliter', 'méthodologie', 'évolutif', 'innovant', 'alignement',
+        'visibilité', 'synergie', 'feuille de route', 'livrables', 'parties prenantes', 'levier',
+      ],
+      heavy: [
+        'changement de paradigme', 'transformation digitale', 'transformation numérique',
+        'proposition de valeur', 'omnicanal', 'intégration transparente', 'cœur de métier',
+      ],
+    },
+    ctaPhrases: [
+      'lire la suite', 'en savoir plus', 'abonnez-vous', 'inscrivez-vous', 'télécharger',
+      'commencer', 'essai gratuit', 'réserver une démo', 'rejoignez-nous', 'voir plus',
+    ],
+    hedgeWords: ['peut-être', 'pourrait', 'semble', 'probablement', 'éventuellement', 'il se peut'],
+    vagueDates: ['bientôt', 'récemment', 'de nos jours', 'ces jours-ci', 'prochainement', 'dans un avenir proche'],
+    baldClaimVerbs: ['garantit', 'garantissons', 'prouve', 'assure', 'double', 'triple'],
+    conjunctions: ['et', 'ou', 'mais', 'que', 'qui', 'lequel', 'laquelle', 'parce', 'bien'],
+    passivePattern: /(?<!\p{L})(?:est|sont|était|étaient|sera|seront|fut|furent|a été|ont été|avait été)\s+\p{L}+(?:é|ée|és|ées|is|ise|ises|it|ite|its|ites|u|ue|us|ues)(?!\p{L})/giu,
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * Type declarations for the link auditor
+ */
+
+export type LinkIssueCode =
+  | 'missing_href'
+  | 'empty_link_text'
+  | 'non_descriptive_text'
+  | 'bare_url'
+  | 'url_shortener'
+  | 'duplicate_destination'
+  | 'utm_missing'
+  | 'utm_incomplete'
+  | 'utm_inconsistent'
+  | 'invalid_mailto'
+  | 'invalid_tel'
+  | 'tel_without_country_code';
+
+export interface AuditedLink {
+  index: number;
+  /** 'anchor' for <a> elements, 'text' for URLs pasted as plain text */
+  kind: 'anchor' | 'text';
+  href: string;
+  /** Visible link text, or the image alt text for image-only links */
+  text: string;
+  image: boolean;
+  scheme: 'http' | 'https' | 'mailto' | 'tel' | 'relative' | 'other' | 'none';
+  host: string | null;
+  /** Destination without fragment and UTM parameters (null without an href) */
+  destination: string | null;
+  utm: Record<string, string> | null;
+  /** Range of the link text (or the whole anchor) in the submitted content */
+  source: { start: number; end: number };
+  issues: LinkIssueCode[];
+}
+
+export interface LinkFinding {
+  code: LinkIssueCode;
+  severity: 'high' | 'medium' | 'low' | 'info';
+  message: string;
+  suggestion: string;
+  linkIndex: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface LinkAudit {
+  links: AuditedLink[];
+  findings: LinkFinding[];
+  summary: {
+    total: number;
+    anchors: number;
+    bareUrls: number;
+    uniqueDestinations: number;
+    duplicates: Array<{ destination: string; count: number; linkIndexes: number[] }>;
+    utm: {
+      tracked: number;
+      untracked: number;
+      /** Most common utm_source/utm_medium/utm_campaign values */
+      expected: Record<string, string>;
+    };
+    issueCounts: Partial<Record<LinkIssueCode, number>>;
+  };
+}
+
+export function auditLinks(content?: string): LinkAudit;
+export function linkWrappers(audit: LinkAudit | null | undefined): Array<{ start: number; end: number; tag: string }>;
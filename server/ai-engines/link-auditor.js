@@ -0,0 +1,379 @@
+// link-auditor.js
+
+/**
+ * Link audit for newsletter HTML (or plain text)
+ * - Every anchor with its destination and visible text (image alt text for
+ *   image links), plus URLs pasted as plain text
+ * - Non-descriptive or empty link text, bare URLs, URL shorteners
+ * - Duplicate destinations (ignoring UTM parameters and fragments)
+ * - Missing, incomplete or inconsistent UTM parameters
+ * - Malformed mailto: and tel: links
+ * Findings carry offsets into the submitted content so they can be returned
+ * as highlight ranges.
+ */
+
+import { buildSourceMap, textToSource } from './source-map.js';
+
+const ANCHOR_RE = /<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi;
+const ATTR_RE = /([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const IMG_RE = /<img\b([^>]*)>/gi;
+const TEXT_URL_RE = /\b(?:https?:\/\/|www\.)[^\s<>"')\]]+[^\s<>"')\].,;:!?]/gi;
+const LOOKS_LIKE_URL = /^(?:https?:\/\/|www\.)\S+$/i;
+
+// Link text that says nothing about where the link goes
+const NON_DESCRIPTIVE_TEXT = new Set([
+  'click here', 'click', 'here', 'tap here', 'this', 'this link', 'link', 'read more', 'more',
+  'learn more', 'see more', 'find out more', 'go', 'continue', 'details', 'more info', 'info',
+  'haz clic aquí', 'haga clic aquí', 'pulsa aquí', 'aquí', 'leer más', 'más',
+  'hier klicken', 'klicken sie hier', 'hier', 'mehr', 'weiterlesen', 'mehr erfahren',
+  'cliquez ici', 'ici', 'en savoir plus', 'lire la suite', 'plus',
+]);
+
+const URL_SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'rebrand.ly',
+  'cutt.ly', 'shorturl.at', 'tiny.cc', 'rb.gy', 'bl.ink', 'lnkd.in', 'soo.gd', 's.id', 'v.gd',
+  'shorte.st', 'adf.ly', 't.ly', 'clck.ru',
+]);
+
+// UTM parameters every tracked link should carry
+const REQUIRED_UTM = ['utm_source', 'utm_medium', 'utm_campaign'];
+
+const EMAIL_RE = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]{2,}$/;
+const MAILTO_PARAMS = new Set(['subject', 'body', 'cc', 'bcc', 'to']);
+const TEL_CHARS_RE = /^\+?[\d\s().-]+$/;
+
+// Severity (highlight priority), message and suggestion for each finding code
+const ISSUES = {
+  missing_href: {
+    severity: 'high',
+    message: 'Link has no destination',
+    suggestion: 'Point the link at a real URL or remove it',
+  },
+  empty_link_text: {
+    severity: 'high',
+    message: 'Link has no text and no image alt text',
+    suggestion: 'Give the link visible text, or alt text on its image, that names the destination',
+  },
+  non_descriptive_text: {
+    severity: 'medium',
+    message: 'Link text does not say where the link goes',
+    suggestion: 'Use text that describes the destination, e.g. "Read the pricing guide"',
+  },
+  bare_url: {
+    severity: 'low',
+    message: 'Raw URL shown as text',
+    suggestion: 'Link a short, descriptive phrase instead of showing the URL',
+  },
+  url_shortener: {
+    severity: 'high',
+    message: 'URL shorteners hide the destination and are a common spam signal',
+    suggestion: 'Link to the full URL on your own domain',
+  },
+  duplicate_destination: {
+    severity: 'info',
+    message: 'Another link already points to this destination',
+    suggestion: 'Keep repeated links intentional, such as a CTA that appears twice',
+  },
+  utm_missing: {
+    severity: 'low',
+    message: 'Link has no UTM parameters while other links are tracked',
+    suggestion: 'Add utm_source, utm_medium and utm_campaign like the other links',
+  },
+  utm_incomplete: {
+    severity: 'medium',
+    message: 'Link is missing some UTM parameters',
+    suggestion: 'Tracked links need utm_source, utm_medium and utm_campaign',
+  },
+  utm_inconsistent: {
+    severity: 'medium',
+    message: 'UTM values differ from the other links in this email',
+    suggestion: 'Use the same utm_source, utm_medium and utm_campaign on every link',
+  },
+  invalid_mailto: {
+    severity: 'high',
+    message: 'mailto: link is malformed',
+    suggestion: 'Use mailto:name@example.com, with subject/body values URL-encoded',
+  },
+  invalid_tel: {
+    severity: 'high',
+    message: 'tel: link is not a valid phone number',
+    suggestion: 'Use digits only with an optional leading +, e.g. tel:+14155550100',
+  },
+  tel_without_country_code: {
+    severity: 'low',
+    message: 'Phone link has no country code',
+    suggestion: 'Start the number with + and the country code so it dials from anywhere',
+  },
+};
+
+const collapse = (text) => text.replace(/\s+/g, ' ').trim();
+
+function parseAttributes(attrs) {
+  const out = {};
+  for (const m of attrs.matchAll(ATTR_RE)) {
+    const name = m[1].toLowerCase();
+    if (!(name in out)) out[name] = m[2] ?? m[3] ?? m[4] ?? '';
+  }
+  return out;
+}
+
+// Attribute values may contain entities (&amp; in query strings)
+const decodeValue = (value) => collapse(buildSourceMap(value).text);
+
+function parseUrl(href) {
+  try {
+    return new URL(/^www\./i.test(href) ? `https://${href}` : href);
+  } catch {
+    return null;
+  }
+}
+
+function schemeOf(href) {
+  if (!href) return 'none';
+  const m = /^([a-z][a-z0-9+.-]*):/i.exec(href);
+  if (!m) return /^www\./i.test(href) ? 'https' : 'relative';
+  const scheme = m[1].toLowerCase();
+  return ['http', 'https', 'mailto', 'tel'].includes(scheme) ? scheme : 'other';
+}
+
+function utmOf(url) {
+  if (!url) return null;
+  const utm = {};
+  for (const [key, value] of url.searchParams) {
+    if (key.toLowerCase().startsWith('utm_')) utm[key.toLowerCase()] = value;
+  }
+  return Object.keys(utm).length ? utm : null;
+}
+
+// Destination used to spot duplicates: no fragment, no UTM, no trailing slash
+function destinationOf(link) {
+  const url = new URL(link.url.href);
+  url.hash = '';
+  for (const key of [...url.searchParams.keys()]) {
+    if (key.toLowerCase().startsWith('utm_')) url.searchParams.delete(key);
+  }
+  return url.href.replace(/\/(?=$|\?)/, '').toLowerCase();
+}
+
+function checkMailto(href) {
+  const [addressPart, query = ''] = href.slice('mailto:'.length).split('?');
+  let addresses;
+  try {
+    addresses = decodeURIComponent(addressPart).split(',').map(a => a.trim()).filter(Boolean);
+  } catch {
+    return 'Address is not valid URL encoding';
+  }
+  if (/\s/.test(href)) return 'Contains unencoded spaces';
+  if (addresses.length === 0 && !/(^|&)to=/i.test(query)) return 'No email address';
+  const invalid = addresses.find(a => !EMAIL_RE.test(a));
+  if (invalid) return `“${invalid}” is not an email address`;
+  for (const pair of query.split('&').filter(Boolean)) {
+    const key = pair.split('=')[0].toLowerCase();
+    if (!MAILTO_PARAMS.has(key)) return `Unknown mailto parameter “${key}”`;
+  }
+  return null;
+}
+
+function checkTel(href) {
+  let number;
+  try {
+    number = decodeURIComponent(href.slice('tel:'.length)).trim();
+  } catch {
+    return { code: 'invalid_tel', detail: 'Number is not valid URL encoding' };
+  }
+  if (!TEL_CHARS_RE.test(number)) return { code: 'invalid_tel', detail: 'Contains letters or symbols' };
+  const digits = number.replace(/\D/g, '').length;
+  if (digits < 3 || digits > 15) return { code: 'invalid_tel', detail: `${digits} digits` };
+  if (!number.startsWith('+') && digits > 6) return { code: 'tel_without_country_code' };
+  return null;
+}
+
+function imageAltText(html) {
+  const alts = [];
+  for (const m of html.matchAll(IMG_RE)) {
+    const alt = parseAttributes(m[1]).alt;
+    if (alt && alt.trim()) alts.push(decodeValue(alt));
+  }
+  return alts.join(' ');
+}
+
+// Most common value of each required UTM parameter across tracked links
+function dominantUtm(links) {
+  const result = {};
+  for (const key of REQUIRED_UTM) {
+    const counts = new Map();
+    for (const link of links) {
+      const value = link.utm?.[key];
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    const [best] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    if (best) result[key] = best[0];
+  }
+  return result;
+}
+
+/**
+ * Audit every link in `content`. Returns { links, findings, summary }; offsets
+ * (link.source, finding.start/end) point into `content` itself.
+ */
+export function auditLinks(content = '') {
+  const links = [];
+  const anchorSpans = [];
+
+  for (const m of content.matchAll(ANCHOR_RE)) {
+    const attrs = parseAttributes(m[1]);
+    const innerStart = m.index + m[0].indexOf('>') + 1;
+    const inner = m[2];
+    const href = attrs.href === undefined ? '' : decodeValue(attrs.href);
+    const visibleText = collapse(buildSourceMap(inner).text);
+    const altText = visibleText ? '' : imageAltText(inner);
+
+    anchorSpans.push({ start: m.index, end: m.index + m[0].length });
+    links.push({
+      kind: 'anchor',
+      href,
+      text: visibleText || altText,
+      image: !visibleText && /<img\b/i.test(inner),
+      // The link text in the submitted markup; the whole anchor when it has none
+      source: visibleText
+        ? { start: innerStart, end: innerStart + inner.length }
+        : { start: m.index, end: m.index + m[0].length },
+    });
+  }
+
+  // URLs in the text that are not inside an anchor
+  const sourceMap = buildSourceMap(content);
+  for (const m of sourceMap.text.matchAll(TEXT_URL_RE)) {
+    const source = textToSource(sourceMap, m.index, m.index + m[0].length);
+    if (!source || anchorSpans.some(a => source.start >= a.start && source.end <= a.end)) continue;
+    links.push({ kind: 'text', href: m[0], text: m[0], image: false, source });
+  }
+
+  links.sort((a, b) => a.source.start - b.source.start);
+
+  const findings = [];
+  const report = (link, index, code, detail) => {
+    const issue = ISSUES[code];
+    link.issues.push(code);
+    findings.push({
+      code,
+      severity: issue.severity,
+      message: detail ? `${issue.message}: ${detail}` : issue.message,
+      suggestion: issue.suggestion,
+      linkIndex: index,
+      start: link.source.start,
+      end: link.source.end,
+      text: link.text,
+    });
+  };
+
+  links.forEach((link, index) => {
+    link.index = index;
+    link.scheme = schemeOf(link.href);
+    link.url = link.scheme === 'http' || link.scheme === 'https' ? parseUrl(link.href) : null;
+    link.host = link.url ? link.url.hostname.replace(/^www\./, '').toLowerCase() : null;
+    link.utm = utmOf(link.url);
+    link.issues = [];
+  });
+
+  const webLinks = links.filter(link => link.url && link.kind === 'anchor');
+  const trackedLinks = webLinks.filter(link => link.utm);
+  const expectedUtm = dominantUtm(trackedLinks);
+  const seenDestinations = new Map();
+
+  for (const link of links) {
+    const { index } = link;
+    const lowerText = link.text.toLowerCase().replace(/[.!?:→»›>…\s]+$/u, '');
+
+    if (link.kind === 'anchor') {
+      if (link.scheme === 'none' || link.href === '#' || /^javascript:/i.test(link.href)) {
+        report(link, index, 'missing_href', link.href || undefined);
+      }
+      if (!link.text) report(link, index, 'empty_link_text');
+      else if (NON_DESCRIPTIVE_TEXT.has(lowerText)) report(link, index, 'non_descriptive_text', `“${link.text}”`);
+      else if (LOOKS_LIKE_URL.test(link.text)) report(link, index, 'bare_url');
+    } else {
+      report(link, index, 'bare_url', 'the URL is not linked');
+    }
+
+    if (link.host && URL_SHORTENERS.has(link.host)) report(link, index, 'url_shortener', link.host);
+
+    if (link.scheme === 'mailto') {
+      const problem = checkMailto(link.href);
+      if (problem) report(link, index, 'invalid_mailto', problem);
+    } else if (link.scheme === 'tel') {
+      const problem = checkTel(link.href);
+      if (problem) report(link, index, problem.code, problem.detail);
+    }
+
+    if (link.url) {
+      const destination = destinationOf(link);
+      link.destination = destination;
+      if (seenDestinations.has(destination)) {
+        report(link, index, 'duplicate_destination', `same as link ${seenDestinations.get(destination) + 1}`);
+      } else {
+        seenDestinations.set(destination, index);
+      }
+
+      // UTM checks only apply to real links, once the email tracks at least one
+      if (link.kind === 'anchor' && trackedLinks.length > 0) {
+        if (!link.utm) {
+          report(link, index, 'utm_missing');
+        } else {
+          const missing = REQUIRED_UTM.filter(key => !link.utm[key]);
+          if (missing.length) report(link, index, 'utm_incomplete', missing.join(', '));
+          const differing = REQUIRED_UTM.filter(key => link.utm[key] && expectedUtm[key] && link.utm[key] !== expectedUtm[key]);
+          if (differing.length) {
+            report(link, index, 'utm_inconsistent', differing.map(key => `${key}=${link.utm[key]} (others use ${expectedUtm[key]})`).join(', '));
+          }
+        }
+      }
+    } else {
+      link.destination = link.href ? link.href.toLowerCase() : null;
+    }
+  }
+
+  const duplicateGroups = new Map();
+  for (const link of links) {
+    if (!link.url) continue;
+    const group = duplicateGroups.get(link.destination) || [];
+    group.push(link.index);
+    duplicateGroups.set(link.destination, group);
+  }
+
+  const issueCounts = {};
+  for (const finding of findings) issueCounts[finding.code] = (issueCounts[finding.code] || 0) + 1;
+
+  return {
+    links: links.map(({ url, ...link }) => link),
+    findings,
+    summary: {
+      total: links.length,
+      anchors: links.filter(link => link.kind === 'anchor').length,
+      bareUrls: links.filter(link => link.issues.includes('bare_url')).length,
+      uniqueDestinations: new Set(links.map(link => link.destination).filter(Boolean)).size,
+      duplicates: [...duplicateGroups.entries()]
+        .filter(([, indexes]) => indexes.length > 1)
+        .map(([destination, indexes]) => ({ destination, count: indexes.length, linkIndexes: indexes })),
+      utm: {
+        tracked: trackedLinks.length,
+        untracked: webLinks.length - trackedLinks.length,
+        expected: expectedUtm,
+      },
+      issueCounts,
+    },
+  };
+}
+
+/**
+ * annotateHTML wrappers that mark each link with findings. A link is marked
+ * once however many findings it has; the client lists them from the ranges.
+ */
+export const linkWrappers = (audit) => {
+  const kept = [];
+  for (const { start, end } of audit?.findings || []) {
+    if (kept.some(w => w.start < end && start < w.end)) continue;
+    kept.push({ start, end, tag: 'link_issue' });
+  }
+  return kept;
+};
@@ -0,0 +1,413 @@
+/**
+ * LLM provider layer
+ * Scoring and rewriting send chat messages to an LLMRouter instead of a
+ * vendor SDK. The router holds providers in order — the primary from
+ * ProductionConfig.aiServices, then its fallbacks by priority — and tries
+ * each configured one until a reply comes back.
+ *
+ * Providers
+ * - groq:   Groq SDK (GROQ_API_KEY)
+ * - openai: any OpenAI-compatible endpoint (OPENAI_API_KEY, OPENAI_BASE_URL)
+ * - local:  deterministic stand-in that needs no key or network; same input,
+ *           same reply. Only used when named (LLM_PROVIDER=local or in
+ *           LLM_FALLBACKS), so it never passes itself off as a model.
+ *
+ * The chain comes from the PRODUCTION_CONFIGS entry named by
+ * PRODUCTION_CONFIG, otherwise from LLM_PROVIDER (default groq) and the
+ * comma-separated LLM_FALLBACKS (default openai).
+ */
+
+import Groq from 'groq-sdk';
+import OpenAI from 'openai';
+import { PRODUCTION_CONFIGS } from '../production-config.js';
+import { SCORE_FIELDS, type ScoringOutput } from './scoring-schema.js';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+/** What a request is for; the local provider answers each one differently */
+export type ChatTask = 'scoring' | 'rewrite' | 'chat';
+
+export interface ChatOptions {
+  task?: ChatTask;
+  /** Model per provider name for this request; other providers use their configured model */
+  models?: Record<string, string | undefined>;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  /** Ask for a single JSON object (JSON mode where the provider has one) */
+  json?: boolean;
+  /** Stream the reply: called with each piece of text as it arrives */
+  onDelta?: (text: string) => void;
+  /** Called when streamed text is void because the request moves to the next provider */
+  onReset?: () => void;
+  /** Cancels the request; a cancelled request is not handed to a fallback */
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  /** Has what it needs to send a request (an API key, for hosted providers) */
+  isConfigured(): boolean;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
+}
+
+/** One entry of ProductionConfig.aiServices (primary or fallback) */
+export interface ProviderSettings {
+  provider: string;
+  apiKey?: string;
+  model?: string;
+  baseURL?: string;
+}
+
+/** The provider chain of ProductionConfig.aiServices */
+export interface AIServicesConfig {
+  primary: ProviderSettings;
+  fallbacks: Array<ProviderSettings & { priority: number }>;
+}
+
+const DEFAULT_MODELS: Record<string, string> = {
+  groq: 'gemma2-9b-it',
+  openai: 'gpt-4o-mini',
+  local: 'local-deterministic',
+};
+
+const modelFor = (provider: LLMProvider, options: ChatOptions) =>
+  options.models?.[provider.name] || provider.model;
+
+type CompletionChunk = { choices: Array<{ delta?: { content?: string | null } }> };
+
+// Collect a streamed completion, passing each piece on as it arrives
+async function collectStream(stream: AsyncIterable<CompletionChunk>, onDelta: (text: string) => void): Promise<string> {
+  let content = '';
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onDelta(delta);
+    }
+  }
+  return content;
+}
+
+export class GroqProvider implements LLMProvider {
+  readonly name = 'groq';
+  readonly model: string;
+  private client: Groq | null;
+
+  constructor(settings: ProviderSettings) {
+    this.model = settings.model || DEFAULT_MODELS.groq!;
+    this.client = settings.apiKey ? new Groq({ apiKey: settings.apiKey }) : null;
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    if (!this.client) throw new Error('GROQ_API_KEY is not set');
+    const model = modelFor(this, options);
+    const params = {
+      messages,
+      model,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+      ...(options.json ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+    if (options.onDelta) {
+      const stream = await this.client.chat.completions.create({ ...params, stream: true }, { signal: options.signal });
+      return { content: await collectStream(stream, options.onDelta), provider: this.name, model };
+    }
+    const completion = await this.client.chat.completions.create({ ...params, stream: false }, { signal: options.signal });
+    return { content: completion.choices[0]?.message?.content ?? '', provider: this.name, model };
+  }
+}
+
+/**
+ * OpenAI or any server speaking its chat completions API (vLLM, Ollama,
+ * Together, ...) via baseURL.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI | null;
+
+  constructor(settings: ProviderSettings) {
+    this.name = settings.provider;
+    this.model = settings.model || DEFAULT_MODELS.openai!;
+    this.client = settings.apiKey
+      ? new OpenAI({ apiKey: settings.apiKey, ...(settings.baseURL ? { baseURL: settings.baseURL } : {}) })
+      : null;
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    if (!this.client) throw new Error(`No API key for provider ${this.name}`);
+    const model = modelFor(this, options);
+    const params = {
+      messages,
+      model,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+      ...(options.json ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+    if (options.onDelta) {
+      const stream = await this.client.chat.completions.create({ ...params, stream: true }, { signal: options.signal });
+      return { content: await collectStream(stream, options.onDelta), provider: this.name, model };
+    }
+    const completion = await this.client.chat.completions.create(params, { signal: options.signal });
+    return { content: completion.choices[0]?.message?.content ?? '', provider: this.name, model };
+  }
+}
+
+// Text the local provider works on: the newsletter inside the first user message
+function draftFrom(messages: ChatMessage[]): string {
+  const prompt = messages.find(message => message.role === 'user')?.content ?? '';
+  for (const marker of ['ORIGINAL TEXT\n', 'Newsletter Content:\n']) {
+    const at = prompt.lastIndexOf(marker);
+    if (at !== -1) return prompt.slice(at + marker.length).trim();
+  }
+  return prompt.trim();
+}
+
+const FILLER_RE = /\b(very|really|just|actually|basically|literally|totally)\s+/gi;
+const HYPE_RE = /\b(free|guarantee[d]?|act now|limited time|risk[- ]free|winner|urgent|100%)\b/gi;
+const clampScore = (n: number) => Math.max(0, Math.min(100, Math.round(n)));
+
+/**
+ * Stand-in scores from surface features of the draft: sentence length,
+ * exclamation runs, capitals, hype terms, questions and numbers.
+ */
+function localScores(draft: string): ScoringOutput {
+  const sentences = draft.split(/(?<=[.!?])\s+/).filter(s => /\p{L}/u.test(s));
+  const words = draft.match(/[\p{L}\p{N}]+/gu) || [];
+  const avgSentence = words.length / Math.max(sentences.length, 1);
+  const shouts = (draft.match(/!{2,}/g) || []).length;
+  const capitals = words.filter(word => word.length >= 4 && word === word.toUpperCase() && /\p{L}/u.test(word)).length;
+  const hype = (draft.match(HYPE_RE) || []).length;
+  const fillers = (draft.match(FILLER_RE) || []).length;
+
+  const scores = {
+    audienceFit: clampScore(85 - 2 * Math.max(0, avgSentence - 20) - (words.length < 50 ? 10 : 0)),
+    tone: clampScore(90 - 8 * shouts - 5 * capitals - 3 * fillers),
+    clarity: clampScore(95 - 2.5 * Math.max(0, avgSentence - 15) - 2 * fillers),
+    engagement: clampScore(60 + Math.min(15, 5 * (draft.match(/\?/g) || []).length) + (/\d/.test(draft) ? 10 : 0) - 5 * shouts),
+    spamRisk: clampScore(5 + 10 * hype + 8 * shouts + 5 * capitals),
+  };
+
+  const improvements = [
+    avgSentence > 20 && 'Shorten sentences to under 20 words on average.',
+    (shouts > 0 || capitals > 0) && 'Drop exclamation runs and words in capitals.',
+    hype > 0 && 'Replace hype terms with concrete facts.',
+    fillers > 0 && 'Cut filler words such as "very" and "really".',
+    !/\d/.test(draft) && 'Back up the main point with a specific number or example.',
+  ].filter((item): item is string => Boolean(item));
+
+  return {
+    ...scores,
+    summary: [
+      `Scored by the local stand-in provider from ${words.length} words in ${sentences.length} sentences.`,
+      `Spam risk is ${scores.spamRisk}% and clarity ${scores.clarity}.`,
+    ],
+    improvements: improvements.length ? improvements.slice(0, 5) : ['Keep the current structure and tighten the opening line.'],
+  };
+}
+
+/**
+ * Stand-in rewrite: the same draft with filler words, exclamation runs and
+ * shouted words toned down. Merge-tag placeholders (⟦T0⟧) pass through.
+ */
+function localRewrite(draft: string): string {
+  return draft
+    .replace(FILLER_RE, '')
+    .replace(/!{2,}/g, '!')
+    .replace(/\b\p{Lu}{4,}\b/gu, word => word.toLowerCase())
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local';
+  readonly model: string;
+
+  constructor(settings: Partial<ProviderSettings> = {}) {
+    this.model = settings.model || DEFAULT_MODELS.local!;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    const draft = draftFrom(messages);
+    let content: string;
+    if (options.task === 'scoring') {
+      const scores = localScores(draft);
+      // Key order follows the schema so replies are byte-for-byte stable
+      content = JSON.stringify(Object.fromEntries(
+        [...SCORE_FIELDS, 'summary', 'improvements'].map(field => [field, scores[field as keyof ScoringOutput]])
+      ));
+    } else if (options.task === 'rewrite') {
+      content = localRewrite(draft);
+    } else {
+      content = options.json ? '{"ok":true}' : 'OK';
+    }
+    // Streamed word by word, like a hosted model would
+    if (options.onDelta) {
+      for (const piece of content.match(/\s*\S+/g) || []) {
+        if (options.signal?.aborted) throw new Error('Request was cancelled');
+        options.onDelta(piece);
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+    return { content, provider: this.name, model: modelFor(this, options) };
+  }
+}
+
+/**
+ * Build a provider from one aiServices entry. Providers without a client
+ * here (anthropic) are reported and left out of the chain.
+ */
+export function createProvider(settings: ProviderSettings): LLMProvider | null {
+  switch (settings.provider) {
+    case 'groq':
+      return new GroqProvider(settings);
+    case 'local':
+      return new LocalProvider(settings);
+    case 'openai':
+      return new OpenAICompatibleProvider(settings);
+    default:
+      // Named OpenAI-compatible endpoints (e.g. an Ollama server) need a baseURL
+      if (settings.baseURL) return new OpenAICompatibleProvider(settings);
+      console.warn(`⚠️  LLM provider "${settings.provider}" is not supported - skipping it`);
+      return null;
+  }
+}
+
+export class LLMRouter {
+  readonly providers: LLMProvider[];
+
+  constructor(providers: LLMProvider[]) {
+    this.providers = providers;
+  }
+
+  /** Providers that can take a request, in fallback order */
+  available(): LLMProvider[] {
+    return this.providers.filter(provider => provider.isConfigured());
+  }
+
+  isConfigured(): boolean {
+    return this.available().length > 0;
+  }
+
+  /**
+   * Send the messages to the first provider that answers; a provider that
+   * throws or replies empty hands the request to the next one. When
+   * streaming, onReset tells the caller to drop what the failed provider sent.
+   */
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    const providers = this.available();
+    if (providers.length === 0) {
+      throw new Error('No LLM provider configured (set GROQ_API_KEY or OPENAI_API_KEY, or LLM_PROVIDER=local to work offline)');
+    }
+
+    const failures: string[] = [];
+    for (const [i, provider] of providers.entries()) {
+      let streamed = false;
+      const onDelta = options.onDelta;
+      try {
+        const result = await provider.chat(messages, onDelta
+          ? { ...options, onDelta: text => { streamed = true; onDelta(text); } }
+          : options);
+        if (!result.content.trim()) throw new Error('empty reply');
+        return result;
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${provider.name}: ${message}`);
+        const next = providers[i + 1];
+        if (next) {
+          console.warn(`⚠️ LLM provider ${provider.name} failed (${message}), falling back to ${next.name}`);
+          if (streamed) options.onReset?.();
+        }
+      }
+    }
+    throw new Error(`All LLM providers failed (${failures.join('; ')})`);
+  }
+
+  describe(): Array<{ provider: string; model: string; configured: boolean }> {
+    return this.providers.map(provider => ({
+      provider: provider.name,
+      model: provider.model,
+      configured: provider.isConfigured(),
+    }));
+  }
+}
+
+/**
+ * Build a router from aiServices: the primary first, then fallbacks by
+ * ascending priority.
+ */
+export function createLLMRouter(aiServices: AIServicesConfig): LLMRouter {
+  const ordered: ProviderSettings[] = [
+    aiServices.primary,
+    ...[...aiServices.fallbacks].sort((a, b) => a.priority - b.priority),
+  ];
+  const providers = ordered
+    .map(createProvider)
+    .filter((provider): provider is LLMProvider => provider !== null);
+  return new LLMRouter(providers);
+}
+
+const API_KEY_ENV: Record<string, string> = {
+  groq: 'GROQ_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+function providerFromEnv(provider: string, env: NodeJS.ProcessEnv): ProviderSettings {
+  const upper = provider.toUpperCase().replace(/\W/g, '_');
+  return {
+    provider,
+    apiKey: env[API_KEY_ENV[provider] ?? `${upper}_API_KEY`],
+    model: env[`${upper}_MODEL`],
+    baseURL: env[`${upper}_BASE_URL`],
+  };
+}
+
+/**
+ * The aiServices for this process: a PRODUCTION_CONFIGS entry when
+ * PRODUCTION_CONFIG names one, otherwise LLM_PROVIDER and LLM_FALLBACKS.
+ */
+export function resolveAIServices(env: NodeJS.ProcessEnv = process.env): AIServicesConfig {
+  const preset = env.PRODUCTION_CONFIG ? PRODUCTION_CONFIGS[env.PRODUCTION_CONFIG] : undefined;
+  if (preset) return preset.aiServices;
+
+  const primary = providerFromEnv(env.LLM_PROVIDER || 'groq', env);
+  const fallbacks = (env.LLM_FALLBACKS ?? 'openai')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name && name !== primary.provider)
+    .map((name, i) => ({ ...providerFromEnv(name, env), priority: i + 1 }));
+
+  return { primary, fallbacks };
+}
+
+// Shared by scoring and rewriting
+export const llmRouter = createLLMRouter(resolveAIServices());
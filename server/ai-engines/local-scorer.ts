@@ -0,0 +1,208 @@
+/**
+ * Deterministic newsletter scorer
+ * Derives the same five scores Gemma returns from the rule-based report, so
+ * /api/analyze has meaningful metrics without network access. Every score
+ * starts at a base and moves by documented adjustments; the adjustments are
+ * returned with the scores so the result can be explained.
+ *
+ * Inputs (from ContentAnalysisResult.report)
+ * - grade: Flesch-Kincaid grade of the whole draft (8 when unavailable)
+ * - ease: Flesch reading ease, 0–100
+ * - density(tag): share of sentences carrying the tag, 0–1
+ * - variety: coefficient of variation of sentence lengths (stdev / mean), 0.5 = 1
+ * - spamTerms: spam phrases matched across spam_words sentences
+ *
+ * Formulas (each score is clamped to 0–100 and rounded)
+ * - clarity     = 100 − 4·max(0, grade − 9) − 40·density(hard_to_read) − 30·density(grammar_spelling)
+ *                     − 20·density(passive_voice) − 20·density(jargon)
+ * - tone        = 100 − 40·density(all_caps) − 40·density(excessive_punctuation) − 35·density(fluff)
+ *                     − 30·density(hedging) − 20·density(emoji_excess)
+ * - engagement  = 60 − 20·[no CTA] + 25·min(1, variety / 0.5) + 15·ease / 100
+ *                     − 35·density(vague_date, vague_number, claim_without_evidence)
+ * - audienceFit = 100 − 5·max(0, |grade − 8| − 2) − 40·density(jargon) − 20·density(hard_to_read)
+ *                     − 10·[fewer than 50 or more than 1000 words]
+ * - spamRisk    = 10 × the weighted spam model's score (spam-scorer.js), one adjustment per fired rule;
+ *                 without a spam report: 5 + 8·spamTerms + 10·(all_caps sentences)
+ *                     + 6·(excessive_punctuation sentences) + 10·[link density flag]
+ * The overall grade uses the same average as Gemma scores (spam risk inverted).
+ *
+ * A report without sentences (the placeholder used when the tagger failed)
+ * has nothing to score: the four report-based scores are then stand-ins,
+ * listed in `unavailable`, and only spam risk is real.
+ */
+
+import type { ContentAnalysisResult } from './content-tagger.js';
+import { calculateOverallGrade, type NewsletterAnalysis } from './gemma-api.js';
+import type { SpamReport } from './spam-scorer.js';
+
+export type ScoreDimension = 'audienceFit' | 'tone' | 'clarity' | 'engagement' | 'spamRisk';
+
+/** One term of a score formula: points added (positive) or taken off (negative) */
+export interface ScoreAdjustment {
+  label: string;
+  points: number;
+  /** What to change to win the points back (deductions only) */
+  improvement?: string;
+}
+
+export interface LocalScore extends NewsletterAnalysis {
+  breakdown: Record<ScoreDimension, { base: number; adjustments: ScoreAdjustment[] }>;
+  /** Scores that could not be computed; their values are stand-ins */
+  unavailable: ScoreDimension[];
+}
+
+// Scores read off the tagged sentences, as opposed to spam risk
+const REPORT_DIMENSIONS: ScoreDimension[] = ['audienceFit', 'tone', 'clarity', 'engagement'];
+// Same stand-in the scoring schema uses for fields the model never returned
+const STAND_IN = 50;
+
+const TARGET_GRADE = 8;
+const WORD_RANGE = { min: 50, max: 1000 };
+
+const clamp = (n: number) => Math.max(0, Math.min(100, Math.round(n)));
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const countWords = (text: string) => (text.match(/[\p{L}\p{N}]+/gu) || []).length;
+
+/**
+ * Score a draft from its rule-based analysis. Pass the spam model's report to
+ * take spam risk from its rules instead of the tagged sentences.
+ */
+export function scoreNewsletterLocally(analysis: ContentAnalysisResult, options: { spam?: SpamReport | null } = {}): LocalScore {
+  const { perSentence = [], global } = analysis.report;
+  const sentenceCount = Math.max(perSentence.length, 1);
+  const grade = global?.readability?.fleschKincaidGrade ?? TARGET_GRADE;
+  const ease = global?.readability?.fleschReadingEase ?? 60;
+  const words = global?.wordCount ?? 0;
+
+  const tagged = (...tags: string[]) => perSentence.filter(s => s.tags.some(tag => tags.includes(tag))).length;
+  const density = (...tags: string[]) => tagged(...tags) / sentenceCount;
+
+  // Sentence-length variety: a mix of short and long sentences reads better than a drone
+  const lengths = perSentence.map(s => countWords(s.sentence)).filter(n => n > 0);
+  const mean = lengths.reduce((a, b) => a + b, 0) / Math.max(lengths.length, 1);
+  const stdev = Math.sqrt(lengths.reduce((a, n) => a + (n - mean) ** 2, 0) / Math.max(lengths.length, 1));
+  const variety = lengths.length >= 3 && mean > 0 ? stdev / mean : 0.25;
+
+  const spamTerms = perSentence.reduce((n, s) => n + (Number(s.reasons.spam_words?.spamCount) || 0), 0);
+  const hasCta = tagged('cta') > 0;
+  const linkDensityFlag = (global?.flags || []).some(flag => flag.tag === 'link_density_high');
+
+  // Adjustments worth less than half a point are left out of the breakdown
+  const adjust = (points: number, label: string, improvement?: string): ScoreAdjustment[] =>
+    Math.abs(points) >= 0.5 ? [{ label, points: round1(points), ...(improvement ? { improvement } : {}) }] : [];
+
+  const breakdown: LocalScore['breakdown'] = {
+    clarity: {
+      base: 100,
+      adjustments: [
+        ...adjust(-4 * Math.max(0, grade - 9), `Reading grade ${round1(grade)}`, 'Use shorter sentences and everyday words to lower the reading grade'),
+        ...adjust(-40 * density('hard_to_read'), 'Hard-to-read sentences', 'Split long, complex sentences'),
+        ...adjust(-30 * density('grammar_spelling'), 'Grammar and spelling', 'Fix the grammar and spelling issues'),
+        ...adjust(-20 * density('passive_voice'), 'Passive voice', 'Rewrite passive sentences in the active voice'),
+        ...adjust(-20 * density('jargon'), 'Jargon', 'Replace jargon with plain words'),
+      ],
+    },
+    tone: {
+      base: 100,
+      adjustments: [
+        ...adjust(-40 * density('all_caps'), 'ALL CAPS', 'Use sentence case instead of capitals'),
+        ...adjust(-40 * density('excessive_punctuation'), 'Exclamation runs', 'Use one punctuation mark at a time'),
+        ...adjust(-35 * density('fluff'), 'Filler phrases', 'Cut filler words and intensifiers'),
+        ...adjust(-30 * density('hedging'), 'Hedging', 'State points with confidence instead of hedging'),
+        ...adjust(-20 * density('emoji_excess'), 'Emoji overuse', 'Keep emoji to one or two per section'),
+      ],
+    },
+    engagement: {
+      base: 60,
+      adjustments: [
+        ...adjust(hasCta ? 0 : -20, 'No call to action', 'Add a clear call to action'),
+        ...adjust(25 * Math.min(1, variety / 0.5), 'Sentence variety'),
+        ...adjust(15 * Math.max(0, Math.min(100, ease)) / 100, `Reading ease ${round1(ease)}`),
+        ...adjust(-35 * density('vague_date', 'vague_number', 'claim_without_evidence'), 'Vague dates, numbers and claims', 'Give exact dates, numbers and evidence'),
+      ],
+    },
+    audienceFit: {
+      base: 100,
+      adjustments: [
+        ...adjust(-5 * Math.max(0, Math.abs(grade - TARGET_GRADE) - 2), `Reading grade ${round1(grade)} vs. target ${TARGET_GRADE}`, `Aim for a reading grade between ${TARGET_GRADE - 2} and ${TARGET_GRADE + 2}`),
+        ...adjust(-40 * density('jargon'), 'Jargon', 'Explain or drop terms your readers may not know'),
+        ...adjust(-20 * density('hard_to_read'), 'Hard-to-read sentences', 'Simplify the hardest sentences'),
+        ...adjust(words < WORD_RANGE.min || words > WORD_RANGE.max ? -10 : 0, `${words} words`, words < WORD_RANGE.min ? 'Add enough detail to be worth opening' : 'Trim the draft or split it into several emails'),
+      ],
+    },
+    spamRisk: options.spam ? {
+      base: 0,
+      adjustments: options.spam.rules.map(rule => ({ label: rule.description, points: round1(rule.points * 10), improvement: rule.suggestion })),
+    } : {
+      base: 5,
+      adjustments: [
+        ...adjust(8 * spamTerms, `${spamTerms} spam trigger phrases`, 'Replace spam trigger phrases with plain wording'),
+        ...adjust(10 * tagged('all_caps'), 'Sentences in ALL CAPS', 'Drop the capitals'),
+        ...adjust(6 * tagged('excessive_punctuation'), 'Exclamation runs', 'Remove repeated exclamation marks'),
+        ...adjust(linkDensityFlag ? 10 : 0, 'High link density', 'Keep fewer links per paragraph'),
+      ],
+    },
+  };
+
+  const unavailable = perSentence.length === 0 ? [...REPORT_DIMENSIONS] : [];
+  for (const dimension of unavailable) {
+    breakdown[dimension] = { base: STAND_IN, adjustments: [] };
+  }
+
+  const score = (dimension: ScoreDimension) => {
+    const { base, adjustments } = breakdown[dimension];
+    return clamp(adjustments.reduce((total, a) => total + a.points, base));
+  };
+  const audienceFit = score('audienceFit');
+  const tone = score('tone');
+  const clarity = score('clarity');
+  const engagement = score('engagement');
+  const spamRisk = score('spamRisk');
+
+  // The biggest deductions become the improvements (spam points count against the reader too)
+  const improvements = (Object.entries(breakdown) as Array<[ScoreDimension, LocalScore['breakdown'][ScoreDimension]]>)
+    .flatMap(([dimension, { adjustments }]) => adjustments
+      .filter(a => a.improvement)
+      .map(a => ({ improvement: a.improvement!, cost: dimension === 'spamRisk' ? a.points : -a.points })))
+    .sort((a, b) => b.cost - a.cost)
+    .map(a => a.improvement)
+    .filter((improvement, i, all) => all.indexOf(improvement) === i)
+    .slice(0, 3);
+
+  const scores: Array<[string, number]> = [['audience fit', audienceFit], ['tone', tone], ['clarity', clarity], ['engagement', engagement]];
+  const strongest = scores.reduce((a, b) => (b[1] > a[1] ? b : a));
+  const weakest = scores.reduce((a, b) => (b[1] < a[1] ? b : a));
+
+  if (unavailable.length > 0) {
+    return {
+      audienceFit,
+      tone,
+      clarity,
+      engagement,
+      spamRisk,
+      overallGrade: calculateOverallGrade(audienceFit, tone, clarity, engagement, spamRisk),
+      summary: [`No rule-based report to score offline; only spam risk (${spamRisk}%) is available.`],
+      improvements,
+      breakdown,
+      unavailable,
+    };
+  }
+
+  return {
+    audienceFit,
+    tone,
+    clarity,
+    engagement,
+    spamRisk,
+    overallGrade: calculateOverallGrade(audienceFit, tone, clarity, engagement, spamRisk),
+    summary: [
+      `Scored offline from the rule-based analysis: ${words} words, ${perSentence.length} sentences, reading grade ${round1(grade)}.`,
+      strongest[0] === weakest[0]
+        ? `All scores are even at ${strongest[1]}; spam risk is ${spamRisk}%.`
+        : `Strongest on ${strongest[0]} (${strongest[1]}), weakest on ${weakest[0]} (${weakest[1]}); spam risk is ${spamRisk}%.`,
+    ],
+    improvements,
+    breakdown,
+    unavailable,
+  };
+}
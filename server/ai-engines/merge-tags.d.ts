@@ -0,0 +1,83 @@
+/**
+ * Type declarations for the merge-tag scanner
+ */
+
+import type { SourceMap } from './source-map.js';
+
+export type MergeTagSyntax =
+  | 'mustache'
+  | 'liquid'
+  | 'mailchimp'
+  | 'ampscript'
+  | 'activecampaign'
+  | 'campaign_monitor';
+
+export type MergeTagKind =
+  | 'variable'
+  | 'open'
+  | 'branch'
+  | 'close'
+  | 'statement'
+  | 'expression'
+  | 'comment'
+  | 'raw'
+  | 'empty';
+
+export type MergeTagIssueCode =
+  | 'unclosed_tag'
+  | 'stray_delimiter'
+  | 'empty_tag'
+  | 'unclosed_block'
+  | 'unexpected_block_end'
+  | 'mismatched_block'
+  | 'orphan_branch'
+  | 'missing_fallback';
+
+export interface MergeToken {
+  syntax: MergeTagSyntax;
+  kind: MergeTagKind;
+  /** Field name for variables, block name (if, for, ...) for blocks */
+  name: string;
+  /** The token exactly as written */
+  raw: string;
+  start: number;
+  end: number;
+  /** The variable has an inline fallback (| default:, fallback=, ...) */
+  fallback: boolean;
+  /** The ESP always fills the field (unsubscribe URL, list address, ...) */
+  system: boolean;
+  /** The variable sits inside a conditional or loop block */
+  guarded: boolean;
+}
+
+export interface MergeTagFinding {
+  code: MergeTagIssueCode;
+  severity: 'high' | 'medium' | 'low';
+  message: string;
+  suggestion: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface MergeTagReport {
+  tokens: MergeToken[];
+  findings: MergeTagFinding[];
+  summary: {
+    total: number;
+    bySyntax: Partial<Record<MergeTagSyntax, number>>;
+    variables: number;
+    blocks: number;
+    missingFallbacks: number;
+    /** High-severity findings: the template will not render as written */
+    errors: number;
+  };
+}
+
+export const MASK_CHAR: string;
+
+export function scanMergeTags(content?: string): MergeTagReport;
+export function maskMergeTags(text?: string, tokens?: MergeToken[]): string;
+export function protectMergeTags(text?: string): { text: string; tokens: string[] };
+export function restoreMergeTags(text?: string, tokens?: string[]): { text: string; missing: string[]; unknown: string[] };
+export function mergeTagWrappers(report: MergeTagReport | null | undefined, map: SourceMap): Array<{ start: number; end: number; tag: string }>;
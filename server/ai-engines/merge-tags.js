@@ -0,0 +1,388 @@
+// merge-tags.js
+
+/**
+ * Merge-tag and personalization token scanner
+ * - Handlebars / Liquid / Jinja / HubL output tags: {{ first_name }}, {{{ body }}}, {{#if}}…{{/if}}
+ * - Liquid / Jinja statements: {% if %}…{% elsif %}…{% endif %}, {% for %}, {% comment %}, {% raw %}
+ * - Mailchimp: *|FNAME|*, *|IF:FNAME|*…*|ELSE:|*…*|END:IF|*
+ * - Salesforce AMPscript: %%FirstName%%, %%=v(@name)=%%, %%[ IF … THEN ]%%…%%[ ENDIF ]%%
+ * - ActiveCampaign: %FIRSTNAME%
+ * - Campaign Monitor: [firstname,fallback=there]
+ *
+ * The scanner returns every token with its offsets, plus findings for broken
+ * templates: delimiters that are never closed, stray closing delimiters, empty
+ * tags, unbalanced or mismatched blocks, else branches outside a block, and
+ * personal fields printed without a fallback. The tagger masks tokens before
+ * its prose checks and the rewriter swaps them for placeholders, so neither
+ * treats template code as words.
+ */
+
+import { sourceToText, sourceSegments } from './source-map.js';
+
+// Same-length stand-in for a token in the analyzed text: not a letter, digit,
+// space or sentence terminator, so it never reads as a word or splits a sentence
+export const MASK_CHAR = '\uFFFC';
+
+// Campaign Monitor brackets are only read as tags for these fields (or with a
+// fallback), so ordinary [bracketed] prose is left alone
+const CAMPAIGN_MONITOR_FIELDS = new Set(['firstname', 'lastname', 'fullname', 'email']);
+
+// Fields the ESP always fills in (unsubscribe links, list address, dates, ...)
+const SYSTEM_FIELD = /unsub|opt_?out|preferences|update_profile|profile_center|forward|archive|web_?version|view_?(?:in_browser|online|email)|list[:_]|address|addr|company|sender|from_name|mc:|date|year|month|rewards|email|subject|url|link|member_|^xt|account|campaign|sendid|jobid/i;
+
+// Inline fallbacks: | default: "x", |default("x"), or "x", fallback=x, "default=x", IIF/Empty guards
+const FALLBACK = /\|\s*(?:default|fallback)\b|\bor\s+["'\w]|\bfallback\s*=|\bdefault\s*=|\bdefault\s+\S+\s+\S|\b(?:iif|empty)\s*\(/i;
+
+const LIQUID_OPEN = new Set(['if', 'unless', 'case', 'for', 'capture', 'tablerow', 'block', 'macro', 'with', 'filter', 'call', 'paginate', 'form', 'each']);
+const LIQUID_BRANCH = new Set(['else', 'elsif', 'elif', 'when', 'empty']);
+const MAILCHIMP_OPEN = /^(IF|IFNOT|INTERESTED|FEEDBLOCK|FEEDITEMS|RSSITEMS|RSSBLOCK)\s*:/i;
+
+// Copy for each finding
+const ISSUES = {
+  unclosed_tag: {
+    severity: 'high',
+    message: (t) => `Merge tag is never closed: ${t}`,
+    suggestion: 'Close the tag with the matching delimiter or the field prints as raw code',
+  },
+  stray_delimiter: {
+    severity: 'medium',
+    message: (t) => `Closing delimiter without an opening one: ${t}`,
+    suggestion: 'Add the missing opening delimiter or remove the stray characters',
+  },
+  empty_tag: {
+    severity: 'medium',
+    message: (t) => `Empty merge tag: ${t}`,
+    suggestion: 'Put a field name in the tag or remove it',
+  },
+  unclosed_block: {
+    severity: 'high',
+    message: (t) => `Block is never closed: ${t}`,
+    suggestion: 'Close the block (endif, /if, END:IF, ...) or everything after it may disappear',
+  },
+  unexpected_block_end: {
+    severity: 'high',
+    message: (t) => `Block end without a matching opening tag: ${t}`,
+    suggestion: 'Remove the closing tag or add the block it belongs to',
+  },
+  mismatched_block: {
+    severity: 'high',
+    message: (t) => `Block end does not match the open block: ${t}`,
+    suggestion: 'Close the innermost block first, with the same template syntax it was opened in',
+  },
+  orphan_branch: {
+    severity: 'high',
+    message: (t) => `Else branch outside a conditional block: ${t}`,
+    suggestion: 'Move the branch inside an if block or remove it',
+  },
+  missing_fallback: {
+    severity: 'low',
+    message: (t) => `Personal field has no fallback: ${t}`,
+    suggestion: 'Add a default (e.g. {{ first_name | default: "there" }}) or wrap it in a conditional so empty fields do not leave gaps',
+  },
+};
+
+const finding = (code, start, end, text) => ({
+  code,
+  severity: ISSUES[code].severity,
+  message: ISSUES[code].message(text.length > 60 ? `${text.slice(0, 57)}...` : text),
+  suggestion: ISSUES[code].suggestion,
+  start,
+  end,
+  text,
+});
+
+// ---------------- Token readers ----------------
+// Each reader gets the content and the opener position and returns a token
+// ({ syntax, kind, name, end }), { unclosed: delimiterLength } or null when
+// the text is not a tag at all
+
+// End of `close` after `from`, unless another `opener` comes first
+function findClose(content, from, close, opener) {
+  const end = content.indexOf(close, from);
+  if (end === -1) return -1;
+  const next = opener ? content.indexOf(opener, from) : -1;
+  return next !== -1 && next < end ? -1 : end + close.length;
+}
+
+function readMustache(content, pos) {
+  const triple = content.startsWith('{{{', pos);
+  const end = findClose(content, pos + (triple ? 3 : 2), triple ? '}}}' : '}}', '{{');
+  if (end === -1) return { unclosed: triple ? 3 : 2 };
+
+  const inner = content.slice(pos + (triple ? 3 : 2), end - (triple ? 3 : 2)).replace(/^[~-]|[~-]$/g, '').trim();
+  const base = { syntax: 'mustache', end };
+  if (inner.startsWith('!')) {
+    // {{!-- long comment --}} may contain }}
+    if (inner.startsWith('!--') && !inner.endsWith('--')) {
+      const close = content.indexOf('--}}', pos);
+      if (close === -1) return { unclosed: 2 };
+      return { ...base, kind: 'comment', name: '', end: close + 4 };
+    }
+    return { ...base, kind: 'comment', name: '' };
+  }
+  if (!inner) return { ...base, kind: 'empty', name: '' };
+  if (/^[#^]/.test(inner)) {
+    const name = inner.slice(1).trim().split(/\s/)[0].toLowerCase();
+    return name ? { ...base, kind: 'open', name } : { ...base, kind: 'branch', name: 'else' };
+  }
+  if (inner.startsWith('/')) return { ...base, kind: 'close', name: inner.slice(1).trim().toLowerCase() };
+  if (/^else\b/i.test(inner)) return { ...base, kind: 'branch', name: 'else' };
+  if (/^[>&]/.test(inner)) return { ...base, kind: 'statement', name: inner.slice(1).trim() };
+  return { ...base, kind: 'variable', name: inner.split(/[\s|(]/)[0], fallback: FALLBACK.test(inner) };
+}
+
+function readLiquid(content, pos) {
+  const end = findClose(content, pos + 2, '%}', '{%');
+  if (end === -1) return { unclosed: 2 };
+
+  const inner = content.slice(pos + 2, end - 2).replace(/^-|-$/g, '').trim();
+  const keyword = (inner.match(/^\w+/)?.[0] || '').toLowerCase();
+  const base = { syntax: 'liquid', end };
+  if (!keyword) return { ...base, kind: 'empty', name: '' };
+
+  // Comment and raw bodies are template text, not template code
+  if (keyword === 'comment' || keyword === 'raw') {
+    const close = content.slice(end).match(new RegExp(`\\{%-?\\s*end${keyword}\\s*-?%\\}`));
+    if (!close) return { ...base, kind: 'open', name: keyword };
+    return { ...base, kind: keyword === 'comment' ? 'comment' : 'raw', name: keyword, end: end + close.index + close[0].length };
+  }
+  if (LIQUID_OPEN.has(keyword)) return { ...base, kind: 'open', name: keyword };
+  if (LIQUID_BRANCH.has(keyword)) return { ...base, kind: 'branch', name: keyword };
+  if (keyword.startsWith('end')) return { ...base, kind: 'close', name: keyword.slice(3) };
+  return { ...base, kind: 'statement', name: keyword };
+}
+
+function readMailchimp(content, pos) {
+  const end = findClose(content, pos + 2, '|*', '*|');
+  if (end === -1 || content.slice(pos, end).includes('\n')) return { unclosed: 2 };
+
+  const inner = content.slice(pos + 2, end - 2).trim();
+  const base = { syntax: 'mailchimp', end };
+  if (!inner) return { ...base, kind: 'empty', name: '' };
+
+  const open = inner.match(MAILCHIMP_OPEN);
+  if (open) {
+    const name = open[1].toUpperCase() === 'IFNOT' ? 'if' : open[1].toLowerCase();
+    return { ...base, kind: 'open', name };
+  }
+  if (/^(?:ELSE|ELSEIF)\s*:/i.test(inner)) return { ...base, kind: 'branch', name: 'else' };
+  const close = inner.match(/^END\s*:\s*(\w+)/i);
+  if (close) return { ...base, kind: 'close', name: close[1].toLowerCase() };
+  return { ...base, kind: 'variable', name: inner };
+}
+
+function readAmpscript(content, pos) {
+  if (content.startsWith('%%[', pos)) {
+    const end = findClose(content, pos + 3, ']%%');
+    if (end === -1) return { unclosed: 3 };
+
+    // Code blocks can open and close IF statements across the template text
+    const code = content.slice(pos + 3, end - 3).trim();
+    const base = { syntax: 'ampscript', end, name: 'if' };
+    const opens = (code.match(/\bIF\b[\s\S]*?\bTHEN\b/gi) || []).length;
+    const closes = (code.match(/\bENDIF\b/gi) || []).length;
+    if (opens > closes) return { ...base, kind: 'open' };
+    if (closes > opens) return { ...base, kind: 'close' };
+    if (!opens && /^ELSE(?:IF)?\b/i.test(code)) return { ...base, kind: 'branch', name: 'else' };
+    return { ...base, kind: 'statement', name: '' };
+  }
+  if (content.startsWith('%%=', pos)) {
+    const end = findClose(content, pos + 3, '=%%');
+    if (end === -1) return { unclosed: 3 };
+    return { syntax: 'ampscript', kind: 'expression', name: content.slice(pos + 3, end - 3).trim(), end };
+  }
+  const field = content.slice(pos).match(/^%%([A-Za-z_][\w.-]*)%%/);
+  if (!field) return null;
+  return { syntax: 'ampscript', kind: 'variable', name: field[1], end: pos + field[0].length };
+}
+
+function readActiveCampaign(content, pos) {
+  const field = content.slice(pos, pos + 64).match(/^%([A-Z][A-Z0-9_-]+)%/);
+  if (!field) return null;
+  return { syntax: 'activecampaign', kind: 'variable', name: field[1], end: pos + field[0].length };
+}
+
+function readCampaignMonitor(content, pos) {
+  const field = content.slice(pos, pos + 200).match(/^\[([A-Za-z][\w-]*)(?:,\s*fallback=([^\]\n]*))?\]/);
+  if (!field || (field[2] === undefined && !CAMPAIGN_MONITOR_FIELDS.has(field[1].toLowerCase()))) return null;
+  return { syntax: 'campaign_monitor', kind: 'variable', name: field[1], end: pos + field[0].length, fallback: field[2] !== undefined };
+}
+
+const OPENER = /\{\{|\{%|\*\||%%|%(?=[A-Z][A-Z0-9_-]+%)|\[(?=[A-Za-z])/g;
+
+function readToken(content, pos, opener) {
+  if (opener === '{{') return readMustache(content, pos);
+  if (opener === '{%') return readLiquid(content, pos);
+  if (opener === '*|') return readMailchimp(content, pos);
+  if (opener === '%%') return readAmpscript(content, pos);
+  if (opener === '%') return readActiveCampaign(content, pos);
+  return readCampaignMonitor(content, pos);
+}
+
+// <style> and <script> bodies use braces of their own
+function codeRanges(content) {
+  return [...content.matchAll(/<(style|script)\b[^>]*>[\s\S]*?<\/\1\s*>/gi)]
+    .map(m => ({ start: m.index, end: m.index + m[0].length }));
+}
+
+// ---------------- Main API ----------------
+
+/**
+ * Scan content (HTML or plain text) for merge tags.
+ * Offsets are positions in `content`.
+ */
+export function scanMergeTags(content = '') {
+  const tokens = [];
+  const findings = [];
+  const skip = codeRanges(content);
+  const inCode = (pos) => skip.some(r => pos >= r.start && pos < r.end);
+
+  OPENER.lastIndex = 0;
+  let m;
+  while ((m = OPENER.exec(content))) {
+    if (inCode(m.index)) continue;
+    const read = readToken(content, m.index, m[0]);
+    if (!read) continue;
+    if (read.unclosed) {
+      const lineEnd = content.indexOf('\n', m.index);
+      const text = content.slice(m.index, Math.min(lineEnd === -1 ? content.length : lineEnd, m.index + 40)).trim();
+      findings.push(finding('unclosed_tag', m.index, m.index + read.unclosed, text));
+      OPENER.lastIndex = m.index + read.unclosed;
+      continue;
+    }
+    tokens.push({
+      syntax: read.syntax,
+      kind: read.kind,
+      name: read.name,
+      raw: content.slice(m.index, read.end),
+      start: m.index,
+      end: read.end,
+      fallback: read.fallback ?? false,
+      system: read.kind === 'variable' && SYSTEM_FIELD.test(read.name),
+      guarded: false,
+    });
+    OPENER.lastIndex = read.end;
+  }
+
+  // Block structure; anything printed inside a block (if, for, each) counts as guarded
+  const stack = [];
+  for (const token of tokens) {
+    if (token.kind === 'empty') {
+      findings.push(finding('empty_tag', token.start, token.end, token.raw));
+    } else if (token.kind === 'open') {
+      stack.push(token);
+    } else if (token.kind === 'branch') {
+      if (!stack.some(t => t.syntax === token.syntax)) findings.push(finding('orphan_branch', token.start, token.end, token.raw));
+    } else if (token.kind === 'close') {
+      const top = stack[stack.length - 1];
+      if (!top) {
+        findings.push(finding('unexpected_block_end', token.start, token.end, token.raw));
+      } else if (top.syntax !== token.syntax || (token.name && top.name !== token.name)) {
+        findings.push(finding('mismatched_block', token.start, token.end, token.raw));
+        // Recover when the close belongs to an outer block
+        const outer = stack.findLastIndex(t => t.syntax === token.syntax && (!token.name || t.name === token.name));
+        if (outer !== -1) stack.length = outer;
+      } else {
+        stack.pop();
+      }
+    } else if (token.kind === 'variable') {
+      token.guarded = stack.length > 0;
+      if (!token.fallback && !token.system && !token.guarded) {
+        findings.push(finding('missing_fallback', token.start, token.end, token.raw));
+      }
+    }
+  }
+  for (const open of stack) findings.push(finding('unclosed_block', open.start, open.end, open.raw));
+
+  // Closing delimiters left in the text outside any token
+  const covered = [...skip, ...tokens];
+  const STRAY = /\}\}|%\}|\|\*/g;
+  for (const s of content.matchAll(STRAY)) {
+    if (covered.some(r => s.index >= r.start && s.index < r.end)) continue;
+    const word = content.slice(Math.max(0, s.index - 30), s.index).match(/\S*$/)[0];
+    findings.push(finding('stray_delimiter', s.index - word.length, s.index + s[0].length, word + s[0]));
+  }
+
+  findings.sort((a, b) => a.start - b.start);
+
+  const bySyntax = {};
+  for (const token of tokens) bySyntax[token.syntax] = (bySyntax[token.syntax] || 0) + 1;
+
+  return {
+    tokens,
+    findings,
+    summary: {
+      total: tokens.length,
+      bySyntax,
+      variables: tokens.filter(t => t.kind === 'variable').length,
+      blocks: tokens.filter(t => t.kind === 'open').length,
+      missingFallbacks: findings.filter(f => f.code === 'missing_fallback').length,
+      errors: findings.filter(f => f.severity === 'high').length,
+    },
+  };
+}
+
+/**
+ * Replace every merge tag with MASK_CHAR runs of the same length, so offsets
+ * stay valid while prose checks skip the template code.
+ */
+export function maskMergeTags(text = '', tokens = scanMergeTags(text).tokens) {
+  let out = '';
+  let last = 0;
+  for (const token of tokens) {
+    out += text.slice(last, token.start) + MASK_CHAR.repeat(token.end - token.start);
+    last = token.end;
+  }
+  return out + text.slice(last);
+}
+
+/**
+ * Swap every merge tag for a numbered placeholder (⟦T0⟧, ⟦T1⟧, ...) that an
+ * LLM is told to keep; restoreMergeTags puts the original bytes back.
+ */
+export function protectMergeTags(text = '') {
+  const { tokens } = scanMergeTags(text);
+  let out = '';
+  let last = 0;
+  tokens.forEach((token, i) => {
+    out += text.slice(last, token.start) + placeholder(i);
+    last = token.end;
+  });
+  return { text: out + text.slice(last), tokens: tokens.map(t => t.raw) };
+}
+
+const placeholder = (i) => `⟦T${i}⟧`;
+
+/**
+ * Restore the tokens saved by protectMergeTags. `missing` lists the tokens
+ * whose placeholder the model dropped or repeated, so callers can retry
+ * rather than ship a draft with broken personalization.
+ */
+export function restoreMergeTags(text = '', tokens = []) {
+  const missing = [];
+  let out = text;
+  tokens.forEach((raw, i) => {
+    const count = out.split(placeholder(i)).length - 1;
+    if (count !== 1) missing.push(raw);
+    out = out.split(placeholder(i)).join(raw);
+  });
+  // Placeholders the model invented or altered
+  const unknown = out.match(/⟦T\d+⟧/g) || [];
+  return { text: out, missing, unknown };
+}
+
+/**
+ * annotateHTML wrappers that mark each finding sitting in a single run of text.
+ * Tags inside attributes (href="{{ url }}") or across markup cannot be wrapped
+ * without breaking the HTML; the client lists them from the ranges.
+ */
+export const mergeTagWrappers = (report, map) => {
+  const kept = [];
+  for (const { start, end } of report?.findings || []) {
+    const [run, ...rest] = sourceSegments(map, sourceToText(map, start), sourceToText(map, end));
+    if (!run || rest.length || run.start !== start || run.end !== end) continue;
+    if (kept.some(w => w.start < end && start < w.end)) continue;
+    kept.push({ start, end, tag: 'merge_tag' });
+  }
+  return kept;
+};
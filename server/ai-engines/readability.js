@@ -0,0 +1,214 @@
+// readability.js
+
+/**
+ * Readability indices for newsletter text
+ * - Syllable counter: vowel groups plus suffix/diphthong corrections and an
+ *   exceptions dictionary for common words the rules get wrong
+ * - Flesch Reading Ease, Flesch–Kincaid Grade, SMOG, Gunning Fog,
+ *   Coleman–Liau and Automated Readability Index
+ * - Scores for the whole document and for each paragraph, so the paragraph
+ *   that drags the grade up can be pointed out
+ * - Spanish, German and French use their own syllable rules and reading-ease
+ *   formula (Fernández-Huerta, Amstad, Kandel–Moles); the grade-level indices
+ *   are English-calibrated and only indicative for those languages
+ */
+
+// Common words the rules below miscount
+const SYLLABLE_EXCEPTIONS = {
+  every: 2, everything: 3, everyone: 3, different: 3, business: 2, family: 3,
+  interest: 3, interesting: 4, evening: 2, several: 3, general: 3, camera: 3,
+  chocolate: 3, favorite: 3, area: 3, idea: 3, ideas: 3, create: 2, created: 3,
+  creates: 2, creating: 3, creative: 3, creation: 3, react: 2, real: 1, really: 2,
+  being: 2, seeing: 2, doing: 2, going: 2, poem: 2, poet: 2, quiet: 2, science: 2,
+  client: 2, clients: 2, diet: 2, video: 3, videos: 3, recipe: 3, recipes: 3,
+  simile: 3, apostrophe: 4, cafe: 2, naive: 2, people: 2, hour: 1, hours: 1,
+  our: 1, fire: 1, tired: 1, orange: 2, something: 2, sometimes: 2, someone: 2,
+  somewhere: 2, whatever: 3, however: 3, toward: 1, towards: 1, iron: 2,
+  email: 2, emails: 2, online: 2, update: 2, updates: 2,
+  lifetime: 2, likely: 2, homepage: 2, forever: 3, are: 1, were: 1, there: 1,
+  where: 1, here: 1, one: 1, once: 1, done: 1, gone: 1, none: 1, whole: 1,
+  some: 1, come: 1, came: 1, beauty: 2, beautiful: 3,
+};
+
+// Patterns that add or remove a syllable from the vowel-group count
+// (after the final "e" has been dropped)
+const ADD_SYLLABLE = [
+  /ia/, /riet/, /dien/, /iu/, /io/, /ii/, /[aeiou]{3}/, /^mc/, /ism$/,
+  /[^l]lien/, /^coa[dglx]./, /[^gq]ua[^auieo]/, /dnt$/,
+];
+const SUB_SYLLABLE = [
+  /cial/, /tia/, /cius/, /cious/, /giu/, /ion/, /iou/, /sia$/, /.ely$/,
+  /[^aeiouytd]ed$/, /[^aeiouysxzcgl]es$/, /[aeiouy]les$/,
+];
+
+const normalizeWord = (word) =>
+  word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+
+// Spanish: vowel groups, where two strong vowels or an accented í/ú form a hiatus
+const ES_STRONG = 'aeoáéó';
+function countSpanishSyllables(word) {
+  const w = word.toLowerCase().replace(/(?<=[qg])u(?=[eéií])/g, '').replace(/y$/, 'i');
+  const groups = w.match(/[aeiouáéíóúü]+/g) || [];
+  let count = 0;
+  for (const group of groups) {
+    count++;
+    for (let i = 1; i < group.length; i++) {
+      const a = group[i - 1];
+      const b = group[i];
+      if ((ES_STRONG.includes(a) && ES_STRONG.includes(b)) || 'íú'.includes(a) || 'íú'.includes(b)) count++;
+    }
+  }
+  return Math.max(1, count);
+}
+
+// German: vowel groups (diphthongs ei/ie/au/eu/äu stay one syllable)
+function countGermanSyllables(word) {
+  const groups = word.toLowerCase().match(/[aeiouyäöü]+/g) || [];
+  return Math.max(1, groups.length);
+}
+
+// French: vowel groups, ignoring the silent final e/es and the u of qu/gu
+function countFrenchSyllables(word) {
+  const w = word.toLowerCase().replace(/(?<=[qg])u/g, '');
+  const groups = w.match(/[aeiouyàâäéèêëîïôöùûüœæ]+/g) || [];
+  const silentEnding = groups.length > 1 && /[^aeiouyàâäéèêëîïôöùûüœæ]es?$/.test(w);
+  return Math.max(1, groups.length - (silentEnding ? 1 : 0));
+}
+
+const SYLLABLE_COUNTERS = {
+  es: countSpanishSyllables,
+  de: countGermanSyllables,
+  fr: countFrenchSyllables,
+};
+
+export function countSyllables(word, language = 'en') {
+  if (SYLLABLE_COUNTERS[language]) {
+    return /\p{L}/u.test(word) ? SYLLABLE_COUNTERS[language](word) : 0;
+  }
+
+  const w = normalizeWord(word);
+  if (!w) return 0;
+  if (SYLLABLE_EXCEPTIONS[w] !== undefined) return SYLLABLE_EXCEPTIONS[w];
+  if (w.length <= 3) return 1;
+
+  // consonant + "le" (table, simple, little) is a syllable of its own
+  const consonantLe = /[^aeiouy]le$/.test(w);
+  const stem = w.replace(/e$/, '');
+
+  let count = stem.split(/[^aeiouy]+/).filter(Boolean).length;
+  for (const re of ADD_SYLLABLE) if (re.test(stem)) count++;
+  for (const re of SUB_SYLLABLE) if (re.test(stem)) count--;
+  if (consonantLe) count++;
+
+  return Math.max(1, count);
+}
+
+// Gunning Fog ignores proper nouns, hyphenated compounds and words that only
+// reach three syllables through -es/-ed/-ing
+function isComplexWord(word, language) {
+  // German capitalizes every noun, so capitals only mark proper nouns elsewhere
+  if ((language !== 'de' && /^\p{Lu}/u.test(word)) || word.includes('-')) return false;
+  const syllables = countSyllables(word, language);
+  if (syllables < 3) return false;
+  if (language !== 'en') return true;
+  const stem = word.replace(/(?:es|ed|ing)$/i, '');
+  return stem === word || countSyllables(stem) >= 3;
+}
+
+// Reading ease (0–100, higher is easier) from words per sentence and
+// syllables per word, using each language's adaptation of Flesch
+const READING_EASE = {
+  en: { formula: 'Flesch', score: (asl, asw) => 206.835 - 1.015 * asl - 84.6 * asw },
+  es: { formula: 'Fernández-Huerta', score: (asl, asw) => 206.84 - 0.6 * (asw * 100) - 1.02 * asl },
+  de: { formula: 'Amstad', score: (asl, asw) => 180 - asl - 58.5 * asw },
+  fr: { formula: 'Kandel–Moles', score: (asl, asw) => 207 - 1.015 * asl - 73.6 * asw },
+};
+
+const round = (n) => +n.toFixed(2);
+
+export function splitReadabilitySentences(text) {
+  // Line breaks end sentences too, so headings and list items without
+  // punctuation don't run into the next line
+  return (text.match(/[^.!?\n]+(?:[.!?]+|$)/gm) || []).filter(s => /[\p{L}\p{N}]/u.test(s));
+}
+
+const matchWords = (text) => text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || [];
+
+/**
+ * Every index for one block of text. Grade-level indices are US school
+ * grades; fleschReadingEase is roughly 0–100 (higher is easier) and uses the
+ * formula named in readingEaseFormula.
+ */
+export function readabilityScores(text, language = 'en') {
+  const readingEase = READING_EASE[language] || READING_EASE.en;
+  const words = matchWords(text);
+  const sentenceCount = Math.max(1, splitReadabilitySentences(text).length);
+  const wordCount = words.length;
+
+  if (wordCount === 0) {
+    return {
+      wordCount: 0,
+      sentenceCount: 0,
+      fleschReadingEase: 0,
+      readingEaseFormula: readingEase.formula,
+      fleschKincaidGrade: 0,
+      smogIndex: 0,
+      gunningFog: 0,
+      colemanLiauIndex: 0,
+      automatedReadabilityIndex: 0,
+      averageGrade: 0,
+    };
+  }
+
+  const syllableCounts = words.map(word => countSyllables(word, language));
+  const syllables = syllableCounts.reduce((a, b) => a + b, 0);
+  const polysyllables = syllableCounts.filter(n => n >= 3).length;
+  const complexWords = words.filter(word => isComplexWord(word, language)).length;
+  const letters = words.reduce((n, w) => n + (w.match(/\p{L}/gu) || []).length, 0);
+  const characters = words.reduce((n, w) => n + (w.match(/[\p{L}\p{N}]/gu) || []).length, 0);
+
+  const wordsPerSentence = wordCount / sentenceCount;
+  const syllablesPerWord = syllables / wordCount;
+
+  const fleschReadingEase = readingEase.score(wordsPerSentence, syllablesPerWord);
+  const fleschKincaidGrade = 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59;
+  const smogIndex = 1.043 * Math.sqrt(polysyllables * (30 / sentenceCount)) + 3.1291;
+  const gunningFog = 0.4 * (wordsPerSentence + 100 * (complexWords / wordCount));
+  const colemanLiauIndex = 0.0588 * (letters / wordCount) * 100 - 0.296 * (sentenceCount / wordCount) * 100 - 15.8;
+  const automatedReadabilityIndex = 4.71 * (characters / wordCount) + 0.5 * wordsPerSentence - 21.43;
+
+  const grades = [fleschKincaidGrade, smogIndex, gunningFog, colemanLiauIndex, automatedReadabilityIndex];
+
+  return {
+    wordCount,
+    sentenceCount,
+    fleschReadingEase: round(fleschReadingEase),
+    readingEaseFormula: readingEase.formula,
+    fleschKincaidGrade: round(fleschKincaidGrade),
+    smogIndex: round(smogIndex),
+    gunningFog: round(gunningFog),
+    colemanLiauIndex: round(colemanLiauIndex),
+    automatedReadabilityIndex: round(automatedReadabilityIndex),
+    averageGrade: round(grades.reduce((a, b) => a + b, 0) / grades.length),
+  };
+}
+
+/**
+ * Scores per paragraph (blank-line separated blocks of the plain text).
+ * `offset` is the paragraph's position in the text, `excerpt` its opening words.
+ */
+export function paragraphReadability(text, language = 'en') {
+  const paragraphs = [];
+  const re = /[^\n]+(?:\n(?!\n)[^\n]*)*/g;
+  for (const m of text.matchAll(re)) {
+    const body = m[0].trim();
+    if (!matchWords(body).length) continue;
+    paragraphs.push({
+      index: paragraphs.length,
+      offset: m.index + m[0].indexOf(body),
+      excerpt: body.length > 80 ? `${body.slice(0, 77).trimEnd()}…` : body,
+      ...readabilityScores(body, language),
+    });
+  }
+  return paragraphs;
+}
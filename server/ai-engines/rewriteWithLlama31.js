@@ -2,15 +2,17 @@
 // npm i groq-sdk diff
 // package.json: { "type": "module" }
 
-import Groq from "groq-sdk";
 import { buildEditorSystemPrompt } from "./editorSystemPrompt.js";
 import { mapDrafts } from "./diffMap.js";
+import { LANGUAGE_NAMES } from "./languages.js";
+import { protectMergeTags, restoreMergeTags } from "./merge-tags.js";
 
-const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
-
-// Choose a valid Groq model slug available to your account
+// Choose a valid Groq model slug available to your account (used when Groq serves the rewrite)
 const DEFAULT_MODEL = process.env.GROQ_LLM_MODEL || "llama-3.1-8b-instant";
 
+// Extra requests when the model drops or alters a merge-tag placeholder
+const MERGE_TAG_RETRIES = 1;
+
 // Tone presets for your dropdown
 export const TONES = {
   professional: "Professional & formal",
@@ -20,7 +22,7 @@ export const TONES = {
   storytelling: "Storytelling with light anecdotes",
 };
 
-function buildUserPrompt({ originalText, analysis = {}, suggestions = [] }) {
+function buildUserPrompt({ originalText, analysis = {}, suggestions = [], mergeTagCount = 0 }) {
   const { readabilityGrade, audienceFit, toneScore, clarity, engagement, spamRisk } = analysis;
 
   const stats = [
@@ -54,7 +56,11 @@ ${tips}
 INSTRUCTIONS
 - Apply the tips above.
 - Lower the reading level to middle-school range.
-- Preserve factual details.
+- Preserve factual details.${
+    mergeTagCount
+      ? "\n- Keep every placeholder like ⟦T0⟧ exactly as written, once each. They are merge tags filled in per reader."
+      : ""
+  }
 - Return ONLY the fully rewritten draft. No commentary.
 
 ORIGINAL TEXT
@@ -63,17 +69,56 @@ ${originalText}
 }
 
 /**
- * Main entry: rewrite using Llama 3.1 on Groq.
- * Returns both the rewritten draft and a mapping for UI diff.
+ * Pass streamed text on with merge tags restored. A placeholder is held back
+ * until it has arrived whole, so the reader never sees ⟦T0⟧ or half of one.
+ */
+function mergeTagStream(tokens, onDelta) {
+  let raw = "";
+  let sent = "";
+  return {
+    push(delta) {
+      raw += delta;
+      const open = raw.lastIndexOf("⟦");
+      const ready = open !== -1 && raw.indexOf("⟧", open) === -1 ? raw.slice(0, open) : raw;
+      const text = restoreMergeTags(ready, tokens).text;
+      if (text.length > sent.length && text.startsWith(sent)) {
+        onDelta(text.slice(sent.length));
+        sent = text;
+      }
+    },
+    reset() {
+      raw = "";
+      sent = "";
+    },
+  };
+}
+
+/**
+ * Main entry: rewrite using Llama 3.1 on Groq, or the next provider in the
+ * LLM chain when Groq is unavailable. `llm` is the LLMRouter to send the
+ * request through (llm-providers.ts); the server passes its shared router.
+ * `language` is the draft's language code; the rewrite stays in it.
+ * Merge tags ({{first_name}}, *|FNAME|*, {% if %}) are sent as placeholders and
+ * restored byte-for-byte; if the model loses one the request is retried, then
+ * it throws rather than return a draft with broken personalization.
+ * Returns both the rewritten draft and a mapping for UI diff, with the
+ * provider and model that wrote it.
+ * With `onDelta` the draft is streamed as it is written; `onReset` means the
+ * streamed text is void (a fallback provider or a merge-tag retry starts
+ * over) and `signal` cancels the request.
  */
 export async function rewriteWithLlama31({
   originalText,
   analysis = {},
   suggestions = [],
   toneKey = "friendly",
+  language = "en",
   options = {},
+  llm,
+  onDelta,
+  onReset,
+  signal,
 }) {
-  if (!process.env.GROQ_API_KEY) throw new Error("Missing GROQ_API_KEY.");
   if (!originalText?.trim()) throw new Error("originalText is required.");
 
   const {
@@ -83,28 +128,70 @@ export async function rewriteWithLlama31({
     targetGradeLow = 6,
     targetGradeHigh = 9,
   } = options;
+  if (!llm?.isConfigured()) throw new Error("No LLM provider configured.");
 
   const systemPrompt = buildEditorSystemPrompt({
     toneLabel: TONES[toneKey] || TONES.friendly,
     targetGradeLow,
     targetGradeHigh,
+    languageName: LANGUAGE_NAMES[language] || LANGUAGE_NAMES.en,
   });
 
-  const userPrompt = buildUserPrompt({ originalText, analysis, suggestions });
-
-  const completion = await groq.chat.completions.create({
-    model,
-    temperature,
-    max_tokens: maxTokens,
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt },
-    ],
+  const { text: protectedText, tokens } = protectMergeTags(originalText);
+  const userPrompt = buildUserPrompt({
+    originalText: protectedText,
+    analysis,
+    suggestions,
+    mergeTagCount: tokens.length,
   });
+  const messages = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt },
+  ];
+
+  const stream = onDelta ? mergeTagStream(tokens, onDelta) : null;
+  const restart = () => {
+    stream?.reset();
+    onReset?.();
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    const completion = await llm.chat(messages, {
+      task: "rewrite",
+      models: { groq: model },
+      temperature,
+      maxTokens,
+      signal,
+      ...(stream ? { onDelta: (delta) => stream.push(delta), onReset: restart } : {}),
+    });
 
-  const rewritten = completion?.choices?.[0]?.message?.content?.trim() || "";
-  const mappings = mapDrafts(originalText, rewritten);
-  return { rewritten, mappings };
+    const draft = completion.content.trim();
+    const { text: rewritten, missing, unknown } = restoreMergeTags(draft, tokens);
+    if (!missing.length && !unknown.length) {
+      const mappings = mapDrafts(originalText, rewritten);
+      return {
+        rewritten,
+        mappings,
+        mergeTags: tokens.length,
+        provider: completion.provider,
+        model: completion.model,
+      };
+    }
+
+    if (attempt >= MERGE_TAG_RETRIES) {
+      throw new Error(`Rewrite did not keep merge tags intact: ${[...missing, ...unknown].join(", ")}`);
+    }
+    // Show the model its draft and ask again with the placeholders it lost
+    if (stream) restart();
+    const lost = tokens.flatMap((raw, i) => (missing.includes(raw) ? [`⟦T${i}⟧`] : []));
+    messages.push(
+      { role: "assistant", content: draft },
+      {
+        role: "user",
+        content: `Your draft lost or changed these placeholders: ${[...lost, ...unknown].join(", ")}. Return the full draft again with every placeholder ⟦T0⟧…⟦T${tokens.length - 1}⟧ exactly once.`,
+      }
+    );
+  }
 }
 
 // For your tone selector
@@ -112,9 +199,19 @@ export function getToneOptions() {
   return Object.entries(TONES).map(([key, label]) => ({ key, label }));
 }
 
-// Optional CLI demo
+// Optional CLI demo (plain Node has no LLMRouter, so it talks to Groq directly)
 if (import.meta.main) {
   (async () => {
+    const { default: Groq } = await import("groq-sdk");
+    const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+    const llm = {
+      isConfigured: () => Boolean(process.env.GROQ_API_KEY),
+      async chat(messages, { models, temperature, maxTokens }) {
+        const model = models.groq;
+        const completion = await groq.chat.completions.create({ model, temperature, max_tokens: maxTokens, messages });
+        return { content: completion.choices[0]?.message?.content || "", provider: "groq", model };
+      },
+    };
     const demoText = `
 Nvidia launched NeMo microservices for enterprises to build and customize AI agents.
 Early adopters reported faster support response and a 50% jump in first-call resolution.
@@ -140,6 +237,7 @@ These agents support knowledge workers and automate routine workflows at scale.
       suggestions: demoSuggestions,
       toneKey: "friendly",
       options: { temperature: 0.6, targetGradeLow: 6, targetGradeHigh: 9 },
+      llm,
     });
 
     console.log("\n--- REWRITTEN ---\n", rewritten);
@@ -0,0 +1,222 @@
+/**
+ * Team grading rubrics
+ * A rubric is a JSON or YAML document that sets which dimensions count toward
+ * the overall grade, their weights, the A–D score cutoffs and whether
+ * informational tags (cta, ...) count as writing issues. Rubrics are stored
+ * per workspace on disk (RUBRICS_DIR/<workspaceId>/*.json|yaml), validated
+ * when they are loaded, and selected by id with the `rubric` field of an
+ * analysis request. The built-in DEFAULT_RUBRIC is always available.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { ValidationError } from '../error-handler.js';
+import { DEFAULT_RUBRIC, RUBRIC_DIMENSIONS, type GradingRubric, type RubricDimensionKey } from './grading-rubric.js';
+
+const RUBRICS_DIR = process.env.RUBRICS_DIR || path.join(process.cwd(), 'server', 'rubrics');
+const WORKSPACE_ID_RE = /^[\w-]{1,64}$/;
+const RUBRIC_ID_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const RUBRIC_FILE_RE = /\.(json|ya?ml)$/i;
+const GRADES = ['A', 'B', 'C', 'D'] as const;
+
+const LIMITS = {
+  nameLength: 100,
+  labelLength: 40,
+  maxWeight: 100,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDimensionKey = (key: unknown): key is RubricDimensionKey =>
+  typeof key === 'string' && Object.prototype.hasOwnProperty.call(RUBRIC_DIMENSIONS, key);
+
+/**
+ * Check a parsed rubric against the schema and fill in dimension labels and
+ * directions. Throws a ValidationError listing every problem.
+ */
+export function validateRubric(raw: unknown, origin = 'rubric'): GradingRubric {
+  const errors: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    throw new ValidationError(`Invalid ${origin}: expected an object`, { origin });
+  }
+
+  if (typeof raw.id !== 'string' || !RUBRIC_ID_RE.test(raw.id)) {
+    errors.push('id must be lowercase letters, digits, - or _ (at most 64 characters)');
+  } else if (raw.id === DEFAULT_RUBRIC.id) {
+    errors.push(`id "${DEFAULT_RUBRIC.id}" is reserved for the built-in rubric`);
+  }
+  if (typeof raw.name !== 'string' || !raw.name.trim() || raw.name.length > LIMITS.nameLength) {
+    errors.push(`name must be a non-empty string of at most ${LIMITS.nameLength} characters`);
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  const dimensions: GradingRubric['dimensions'] = [];
+  if (!Array.isArray(raw.dimensions) || raw.dimensions.length === 0) {
+    errors.push('dimensions must be a non-empty array');
+  } else {
+    const seen = new Set<string>();
+    raw.dimensions.forEach((dimension: unknown, i: number) => {
+      const where = `dimensions[${i}]`;
+      if (!isPlainObject(dimension)) {
+        errors.push(`${where} must be an object with key and weight`);
+        return;
+      }
+      if (!isDimensionKey(dimension.key)) {
+        errors.push(`${where}.key must be one of: ${Object.keys(RUBRIC_DIMENSIONS).join(', ')}`);
+        return;
+      }
+      if (seen.has(dimension.key)) {
+        errors.push(`${where}.key "${dimension.key}" is listed twice`);
+      }
+      seen.add(dimension.key);
+      if (typeof dimension.weight !== 'number' || !(dimension.weight > 0 && dimension.weight <= LIMITS.maxWeight)) {
+        errors.push(`${where}.weight must be a number above 0 and at most ${LIMITS.maxWeight}`);
+      }
+      if (dimension.label !== undefined && (typeof dimension.label !== 'string' || !dimension.label.trim() || dimension.label.length > LIMITS.labelLength)) {
+        errors.push(`${where}.label must be a non-empty string of at most ${LIMITS.labelLength} characters`);
+      }
+      const known = RUBRIC_DIMENSIONS[dimension.key];
+      dimensions.push({
+        key: dimension.key,
+        label: typeof dimension.label === 'string' ? dimension.label : known.label,
+        weight: Number(dimension.weight),
+        ...(known.inverted ? { inverted: true } : {}),
+      });
+    });
+  }
+
+  let gradeCutoffs = DEFAULT_RUBRIC.gradeCutoffs;
+  if (raw.gradeCutoffs !== undefined) {
+    if (!isPlainObject(raw.gradeCutoffs)) {
+      errors.push('gradeCutoffs must be an object with A, B, C and D');
+    } else {
+      const cutoffs = raw.gradeCutoffs;
+      for (const grade of GRADES) {
+        const cutoff = cutoffs[grade];
+        if (typeof cutoff !== 'number' || cutoff < 0 || cutoff > 100) {
+          errors.push(`gradeCutoffs.${grade} must be a number between 0 and 100`);
+        }
+      }
+      const { A, B, C, D } = cutoffs;
+      if (typeof A === 'number' && typeof B === 'number' && typeof C === 'number' && typeof D === 'number') {
+        if (!(A > B && B > C && C > D)) {
+          errors.push('gradeCutoffs must decrease from A to D');
+        }
+        gradeCutoffs = { A, B, C, D };
+      }
+    }
+  }
+
+  if (raw.countInformationalTags !== undefined && typeof raw.countInformationalTags !== 'boolean') {
+    errors.push('countInformationalTags must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(
+      `Invalid ${origin}: ${errors[0]}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''}`,
+      { origin, errors },
+      errors.slice(0, 10)
+    );
+  }
+
+  return {
+    id: String(raw.id),
+    name: String(raw.name),
+    ...(typeof raw.description === 'string' && raw.description ? { description: raw.description } : {}),
+    dimensions,
+    gradeCutoffs,
+    countInformationalTags: raw.countInformationalTags === true,
+  };
+}
+
+/**
+ * Parse a rubric from a JSON/YAML string and validate it.
+ */
+export function parseRubric(source: string, origin = 'rubric'): GradingRubric {
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(source);
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid ${origin}: could not parse as JSON or YAML`,
+      { origin, parseError: (error as Error).message }
+    );
+  }
+  return validateRubric(parsed, origin);
+}
+
+// Workspace rubrics are read once per file modification
+const workspaceCache = new Map<string, { signature: string; rubrics: GradingRubric[] }>();
+
+/**
+ * Load every rubric stored for a workspace. Invalid files are reported and
+ * skipped; when two files use the same id the later file (by name) wins.
+ */
+export function loadWorkspaceRubrics(workspaceId: unknown): GradingRubric[] {
+  if (workspaceId === undefined || workspaceId === null || workspaceId === '') return [];
+  if (typeof workspaceId !== 'string' || !WORKSPACE_ID_RE.test(workspaceId)) {
+    throw new ValidationError('Invalid workspaceId', { workspaceId });
+  }
+
+  const dir = path.join(RUBRICS_DIR, workspaceId);
+  if (!fs.existsSync(dir)) return [];
+
+  const files = fs.readdirSync(dir).filter(file => RUBRIC_FILE_RE.test(file)).sort();
+  const signature = files
+    .map(file => `${file}:${fs.statSync(path.join(dir, file)).mtimeMs}`)
+    .join('|');
+
+  const cached = workspaceCache.get(workspaceId);
+  if (cached && cached.signature === signature) return cached.rubrics;
+
+  const byId = new Map<string, GradingRubric>();
+  for (const file of files) {
+    try {
+      const rubric = parseRubric(fs.readFileSync(path.join(dir, file), 'utf8'), `${workspaceId}/${file}`);
+      byId.set(rubric.id, rubric);
+    } catch (error) {
+      console.error(`❌ Skipping rubric ${workspaceId}/${file}:`, (error as ValidationError).context?.errors || (error as Error).message);
+    }
+  }
+
+  const rubrics = Array.from(byId.values());
+  workspaceCache.set(workspaceId, { signature, rubrics });
+  console.log(`📏 Loaded ${rubrics.length} rubric(s) for workspace ${workspaceId}`);
+  return rubrics;
+}
+
+/**
+ * The built-in rubric followed by the workspace's own.
+ */
+export function listRubrics(workspaceId: unknown): GradingRubric[] {
+  return [DEFAULT_RUBRIC, ...loadWorkspaceRubrics(workspaceId)];
+}
+
+/**
+ * Resolve the `rubric` field of a request (a rubric id) for a workspace.
+ * No id selects the built-in rubric.
+ */
+export function resolveRubric(workspaceId: unknown, rubricId: unknown): GradingRubric {
+  if (rubricId === undefined || rubricId === null || rubricId === '' || rubricId === DEFAULT_RUBRIC.id) {
+    return DEFAULT_RUBRIC;
+  }
+  if (typeof rubricId !== 'string') {
+    throw new ValidationError('rubric must be a rubric id', { rubric: typeof rubricId });
+  }
+
+  const available = listRubrics(workspaceId);
+  const rubric = available.find(candidate => candidate.id === rubricId);
+  if (!rubric) {
+    throw new ValidationError(
+      `Unknown rubric "${rubricId}"`,
+      { rubric: rubricId, workspaceId },
+      [`Available rubrics: ${available.map(candidate => candidate.id).join(', ')}`]
+    );
+  }
+  return rubric;
+}
@@ -0,0 +1,353 @@
+/**
+ * Declarative rule packs for the content tagger
+ * A pack is a JSON or YAML document that can:
+ * - add terms to the built-in word lists (spam words, fluff, jargon, ...)
+ * - define new highlight types with their priority and tooltip copy
+ * - add term and regex rules that tag sentences with any known type
+ * Packs are sent with a request or stored per workspace on disk, and are
+ * validated when they are loaded. A pack may name a `language`; it then only
+ * applies to content in that language.
+ * Regex rules run against every sentence on the server, so only workspace
+ * packs (written by the operator) may use them; packs sent with a request
+ * are limited to literal terms, which are escaped before matching.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { ValidationError } from '../error-handler.js';
+import { TAG_PRIORITY } from './content-tagger.engine.js';
+import { SUPPORTED_LANGUAGES, type SupportedLanguage } from './languages.js';
+
+export type HighlightPriority = 'high' | 'medium' | 'low' | 'info';
+
+export interface HighlightTypeDefinition {
+  priority: HighlightPriority;
+  message: string;
+  suggestion: string;
+}
+
+/** Built-in word lists a pack may extend, keyed by the name used in pack files */
+export const EXTENSIBLE_TERM_LISTS = [
+  'spam_words',
+  'fluff',
+  'intensifiers',
+  'jargon_mild',
+  'jargon_heavy',
+  'cta',
+  'hedging',
+  'vague_date',
+  'claim_without_evidence',
+] as const;
+
+export type TermListName = typeof EXTENSIBLE_TERM_LISTS[number];
+
+export interface RulePackRule {
+  /** Highlight type to tag matching sentences with (built-in or defined by the pack) */
+  type: string;
+  /** Phrases matched case-insensitively as whole words */
+  terms?: string[];
+  /** Regular expression sources; case-insensitive unless caseSensitive is set. Workspace packs only */
+  patterns?: string[];
+  caseSensitive?: boolean;
+  /** Matches needed in one sentence before it is tagged (default 1) */
+  minMatches?: number;
+}
+
+export interface RulePack {
+  name: string;
+  version?: string | number;
+  description?: string;
+  /** Only apply to content in this language (any language when omitted) */
+  language?: SupportedLanguage;
+  terms?: Partial<Record<TermListName, string[]>>;
+  types?: Record<string, HighlightTypeDefinition>;
+  rules?: RulePackRule[];
+}
+
+/** Engine-ready form of a rule */
+export interface CompiledRule {
+  type: string;
+  terms: string[];
+  patterns: RegExp[];
+  minMatches: number;
+}
+
+const PRIORITIES: HighlightPriority[] = ['high', 'medium', 'low', 'info'];
+
+// Type names become tag names in annotated HTML; requiring an underscore
+// keeps them from ever colliding with real HTML elements
+const TYPE_NAME_RE = /^[a-z][a-z0-9]*(?:_[a-z0-9]+)+$/;
+
+const LIMITS = {
+  termsPerList: 500,
+  termLength: 100,
+  rulesPerPack: 100,
+  patternLength: 200,
+  textLength: 300,
+};
+
+const RULE_PACKS_DIR = process.env.RULE_PACKS_DIR || path.join(process.cwd(), 'server', 'rule-packs');
+const WORKSPACE_ID_RE = /^[\w-]{1,64}$/;
+const PACK_FILE_RE = /\.(json|ya?ml)$/i;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateTermList(value: unknown, where: string, errors: string[]): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${where} must be an array of strings`);
+    return;
+  }
+  if (value.length > LIMITS.termsPerList) {
+    errors.push(`${where} has more than ${LIMITS.termsPerList} entries`);
+  }
+  value.forEach((term, i) => {
+    if (typeof term !== 'string' || !term.trim()) {
+      errors.push(`${where}[${i}] must be a non-empty string`);
+    } else if (term.length > LIMITS.termLength) {
+      errors.push(`${where}[${i}] is longer than ${LIMITS.termLength} characters`);
+    }
+  });
+}
+
+function validateText(value: unknown, where: string, errors: string[]): void {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${where} must be a non-empty string`);
+  } else if (value.length > LIMITS.textLength) {
+    errors.push(`${where} is longer than ${LIMITS.textLength} characters`);
+  }
+}
+
+export interface RulePackSource {
+  /** Allow regex `patterns` in rules; false for packs from untrusted sources */
+  allowPatterns?: boolean;
+}
+
+/**
+ * Check a parsed pack against the schema. Throws a ValidationError listing
+ * every problem so authors can fix a pack in one pass.
+ */
+export function validateRulePack(raw: unknown, origin = 'rule pack', { allowPatterns = true }: RulePackSource = {}): RulePack {
+  const errors: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    throw new ValidationError(`Invalid ${origin}: expected an object`, { origin });
+  }
+
+  validateText(raw.name, 'name', errors);
+
+  if (raw.version !== undefined && !['string', 'number'].includes(typeof raw.version)) {
+    errors.push('version must be a string or number');
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (raw.language !== undefined && !(SUPPORTED_LANGUAGES as readonly unknown[]).includes(raw.language)) {
+    errors.push(`language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`);
+  }
+
+  if (raw.terms !== undefined) {
+    if (!isPlainObject(raw.terms)) {
+      errors.push('terms must be an object of term lists');
+    } else {
+      for (const [list, value] of Object.entries(raw.terms)) {
+        if (!(EXTENSIBLE_TERM_LISTS as readonly string[]).includes(list)) {
+          errors.push(`terms.${list} is not an extensible list (use one of: ${EXTENSIBLE_TERM_LISTS.join(', ')})`);
+        } else {
+          validateTermList(value, `terms.${list}`, errors);
+        }
+      }
+    }
+  }
+
+  if (raw.types !== undefined) {
+    if (!isPlainObject(raw.types)) {
+      errors.push('types must be an object keyed by highlight type');
+    } else {
+      for (const [type, definition] of Object.entries(raw.types)) {
+        if (!TYPE_NAME_RE.test(type)) {
+          errors.push(`types.${type}: name must be snake_case with at least one underscore`);
+        }
+        if (!isPlainObject(definition)) {
+          errors.push(`types.${type} must be an object with priority, message and suggestion`);
+          continue;
+        }
+        if (!(PRIORITIES as readonly unknown[]).includes(definition.priority)) {
+          errors.push(`types.${type}.priority must be one of: ${PRIORITIES.join(', ')}`);
+        }
+        validateText(definition.message, `types.${type}.message`, errors);
+        validateText(definition.suggestion, `types.${type}.suggestion`, errors);
+      }
+    }
+  }
+
+  if (raw.rules !== undefined) {
+    if (!Array.isArray(raw.rules)) {
+      errors.push('rules must be an array');
+    } else {
+      if (raw.rules.length > LIMITS.rulesPerPack) {
+        errors.push(`rules has more than ${LIMITS.rulesPerPack} entries`);
+      }
+      const packTypes = isPlainObject(raw.types) ? Object.keys(raw.types) : [];
+
+      raw.rules.forEach((rule: unknown, i: number) => {
+        const where = `rules[${i}]`;
+        if (!isPlainObject(rule)) {
+          errors.push(`${where} must be an object`);
+          return;
+        }
+        if (typeof rule.type !== 'string' || !(TAG_PRIORITY.includes(rule.type) || packTypes.includes(rule.type))) {
+          errors.push(`${where}.type must be a built-in highlight type or one defined under types`);
+        }
+        if (rule.terms === undefined && rule.patterns === undefined) {
+          errors.push(`${where} needs terms or patterns`);
+        }
+        if (rule.terms !== undefined) {
+          validateTermList(rule.terms, `${where}.terms`, errors);
+        }
+        if (rule.patterns !== undefined && !allowPatterns) {
+          errors.push(`${where}.patterns is only allowed in workspace packs; use terms instead`);
+        } else if (rule.patterns !== undefined) {
+          validateTermList(rule.patterns, `${where}.patterns`, errors);
+          (Array.isArray(rule.patterns) ? rule.patterns : []).forEach((pattern: unknown, j: number) => {
+            if (typeof pattern !== 'string') return;
+            if (pattern.length > LIMITS.patternLength) {
+              errors.push(`${where}.patterns[${j}] is longer than ${LIMITS.patternLength} characters`);
+              return;
+            }
+            try {
+              new RegExp(pattern);
+            } catch (error) {
+              errors.push(`${where}.patterns[${j}] is not a valid regular expression: ${(error as Error).message}`);
+            }
+          });
+        }
+        if (rule.caseSensitive !== undefined && typeof rule.caseSensitive !== 'boolean') {
+          errors.push(`${where}.caseSensitive must be a boolean`);
+        }
+        if (rule.minMatches !== undefined && !(typeof rule.minMatches === 'number' && Number.isInteger(rule.minMatches) && rule.minMatches >= 1)) {
+          errors.push(`${where}.minMatches must be a positive integer`);
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(
+      `Invalid ${origin}: ${errors[0]}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''}`,
+      { origin, errors },
+      // Suggestions reach the client in every environment, unlike context
+      errors.slice(0, 10)
+    );
+  }
+
+  // Every field has been checked above
+  return raw as unknown as RulePack;
+}
+
+/**
+ * Parse a pack from a JSON/YAML string (or an already-parsed object) and validate it.
+ */
+export function parseRulePack(source: unknown, origin = 'rule pack', options: RulePackSource = {}): RulePack {
+  if (typeof source !== 'string') {
+    return validateRulePack(source, origin, options);
+  }
+
+  let parsed: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser handles both formats
+    parsed = YAML.parse(source);
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid ${origin}: could not parse as JSON or YAML`,
+      { origin, parseError: (error as Error).message }
+    );
+  }
+  return validateRulePack(parsed, origin, options);
+}
+
+/**
+ * Validate the `rulePacks` field of a request body (a pack or an array of packs).
+ * Request packs may not use regex patterns: a catastrophic-backtracking
+ * pattern would block the server for every request.
+ */
+export function parseRequestRulePacks(value: unknown): RulePack[] {
+  if (value === undefined || value === null) return [];
+  const packs = Array.isArray(value) ? value : [value];
+  return packs.map((pack, i) => parseRulePack(pack, `rulePacks[${i}]`, { allowPatterns: false }));
+}
+
+// Workspace packs are read once per file modification
+const workspaceCache = new Map<string, { signature: string; packs: RulePack[] }>();
+
+/**
+ * Load every pack stored for a workspace (RULE_PACKS_DIR/<workspaceId>/*.json|yaml).
+ * Invalid files are reported and skipped so one bad pack can't take the
+ * workspace's analysis down.
+ */
+export function loadWorkspaceRulePacks(workspaceId: unknown): RulePack[] {
+  if (workspaceId === undefined || workspaceId === null || workspaceId === '') return [];
+  if (typeof workspaceId !== 'string' || !WORKSPACE_ID_RE.test(workspaceId)) {
+    throw new ValidationError('Invalid workspaceId', { workspaceId });
+  }
+
+  const dir = path.join(RULE_PACKS_DIR, workspaceId);
+  if (!fs.existsSync(dir)) return [];
+
+  const files = fs.readdirSync(dir).filter(file => PACK_FILE_RE.test(file)).sort();
+  const signature = files
+    .map(file => `${file}:${fs.statSync(path.join(dir, file)).mtimeMs}`)
+    .join('|');
+
+  const cached = workspaceCache.get(workspaceId);
+  if (cached && cached.signature === signature) return cached.packs;
+
+  const packs: RulePack[] = [];
+  for (const file of files) {
+    try {
+      packs.push(parseRulePack(fs.readFileSync(path.join(dir, file), 'utf8'), `${workspaceId}/${file}`));
+    } catch (error) {
+      console.error(`❌ Skipping rule pack ${workspaceId}/${file}:`, (error as ValidationError).context?.errors || (error as Error).message);
+    }
+  }
+
+  workspaceCache.set(workspaceId, { signature, packs });
+  console.log(`📦 Loaded ${packs.length} rule pack(s) for workspace ${workspaceId}`);
+  return packs;
+}
+
+/**
+ * Keep the packs that apply to content in `language`.
+ */
+export function packsForLanguage(packs: RulePack[], language: SupportedLanguage): RulePack[] {
+  return packs.filter(pack => pack.language === undefined || pack.language === language);
+}
+
+/**
+ * Combine packs into the extra terms, rules and types the tagger needs.
+ * Later packs win when they redefine the same type.
+ */
+export function compileRulePacks(packs: RulePack[]) {
+  const terms: Partial<Record<TermListName, string[]>> = {};
+  const types: Record<string, HighlightTypeDefinition> = {};
+  const rules: CompiledRule[] = [];
+
+  for (const pack of packs) {
+    for (const [list, values] of Object.entries(pack.terms || {})) {
+      const name = list as TermListName;
+      terms[name] = [...(terms[name] || []), ...(values || [])];
+    }
+    Object.assign(types, pack.types || {});
+    for (const rule of pack.rules || []) {
+      rules.push({
+        type: rule.type,
+        terms: rule.terms || [],
+        patterns: (rule.patterns || []).map(p => new RegExp(p, rule.caseSensitive ? 'g' : 'gi')),
+        minMatches: rule.minMatches ?? 1,
+      });
+    }
+  }
+
+  return { terms, types, rules };
+}
@@ -0,0 +1,173 @@
+/**
+ * Structured output for the scoring model
+ * The model is asked for one JSON object matching SCORING_JSON_SCHEMA. Replies
+ * are validated on receipt; a reply that fails gets one repair round with the
+ * validation errors, and fields that are still invalid are filled with
+ * defaults and listed in `defaulted` so callers can report them as
+ * unavailable instead of passing the default off as a score.
+ */
+
+export const SCORE_FIELDS = ['audienceFit', 'tone', 'clarity', 'engagement', 'spamRisk'] as const;
+
+export type ScoreField = typeof SCORE_FIELDS[number];
+export type ScoringField = ScoreField | 'summary' | 'improvements';
+
+export interface ScoringOutput {
+  audienceFit: number;
+  tone: number;
+  clarity: number;
+  engagement: number;
+  spamRisk: number;
+  summary: string[];
+  improvements: string[];
+}
+
+export interface ScoringValidation {
+  /** Fields that passed validation */
+  value: Partial<ScoringOutput>;
+  /** One message per problem, worded for the model's repair prompt */
+  errors: string[];
+}
+
+const LIMITS = {
+  summary: { min: 1, max: 3 },
+  improvements: { min: 1, max: 5 },
+  itemLength: 500,
+};
+
+// Stand-ins for fields the model never got right; never shown as real scores
+const DEFAULTS: ScoringOutput = {
+  audienceFit: 50,
+  tone: 50,
+  clarity: 50,
+  engagement: 50,
+  spamRisk: 50,
+  summary: [],
+  improvements: [],
+};
+
+const scoreSchema = (description: string) => ({ type: 'integer', minimum: 0, maximum: 100, description });
+const listSchema = (min: number, max: number, description: string) => ({
+  type: 'array',
+  minItems: min,
+  maxItems: max,
+  items: { type: 'string', minLength: 1, maxLength: LIMITS.itemLength },
+  description,
+});
+
+export const SCORING_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: [...SCORE_FIELDS, 'summary', 'improvements'],
+  properties: {
+    audienceFit: scoreSchema('How well the content serves the intended audience, 0–100'),
+    tone: scoreSchema('Appropriate and consistent voice, 0–100'),
+    clarity: scoreSchema('First-pass readability and logical flow, 0–100'),
+    engagement: scoreSchema('Hook, specificity, story and examples, 0–100'),
+    spamRisk: scoreSchema('Hype, claims and trigger terms; higher = more spammy, 0–100'),
+    summary: listSchema(LIMITS.summary.min, LIMITS.summary.max, 'One sentence on strengths, one on weaknesses'),
+    improvements: listSchema(LIMITS.improvements.min, LIMITS.improvements.max, 'Specific actions, most important first'),
+  },
+} as const;
+
+/** Appended to the system prompt so the schema has one source */
+export const SCORING_OUTPUT_INSTRUCTIONS = [
+  'Output format',
+  'Reply with a single JSON object and nothing else (no prose, no code fences).',
+  'It must match this JSON Schema:',
+  JSON.stringify(SCORING_JSON_SCHEMA),
+].join('\n');
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Pull the JSON object out of a model reply, tolerating code fences and
+ * text around it.
+ */
+function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+function validateList(value: unknown, field: 'summary' | 'improvements', errors: string[]): string[] | undefined {
+  const { min, max } = LIMITS[field];
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array of strings`);
+    return undefined;
+  }
+  const items = value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0);
+  if (items.length !== value.length) {
+    errors.push(`${field} must only contain non-empty strings`);
+  }
+  if (items.length < min) {
+    errors.push(`${field} must have at least ${min} item${min === 1 ? '' : 's'}`);
+    return undefined;
+  }
+  if (items.length > max) {
+    errors.push(`${field} must have at most ${max} items`);
+  }
+  return items.slice(0, max).map(item => item.trim().slice(0, LIMITS.itemLength));
+}
+
+/**
+ * Validate a model reply against SCORING_JSON_SCHEMA. Fields that pass are
+ * kept even when others fail, so a repair only has to fix what was wrong;
+ * extra properties are ignored rather than worth a repair round.
+ */
+export function validateScoringOutput(text: string): ScoringValidation {
+  const parsed = extractJson(text);
+  if (!isPlainObject(parsed)) {
+    return { value: {}, errors: ['the reply must be a single JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const value: Partial<ScoringOutput> = {};
+
+  for (const field of SCORE_FIELDS) {
+    const score = parsed[field];
+    if (typeof score !== 'number' || !Number.isFinite(score)) {
+      errors.push(`${field} must be an integer between 0 and 100`);
+    } else if (score < 0 || score > 100) {
+      errors.push(`${field} must be between 0 and 100 (got ${score})`);
+    } else {
+      value[field] = Math.round(score);
+    }
+  }
+
+  const summary = validateList(parsed.summary, 'summary', errors);
+  if (summary) value.summary = summary;
+  const improvements = validateList(parsed.improvements, 'improvements', errors);
+  if (improvements) value.improvements = improvements;
+
+  return { value, errors };
+}
+
+/**
+ * The user message for a repair round.
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return [
+    'Your reply did not match the required JSON Schema:',
+    ...errors.map(error => `- ${error}`),
+    'Reply again with the corrected JSON object only.',
+  ].join('\n');
+}
+
+/**
+ * Merge validated fields from every attempt (later attempts win) and fill
+ * the rest with defaults, listing which fields were defaulted.
+ */
+export function completeScoringOutput(attempts: Array<Partial<ScoringOutput>>): { output: ScoringOutput; defaulted: ScoringField[] } {
+  const merged: Partial<ScoringOutput> = Object.assign({}, ...attempts);
+  const fields = [...SCORE_FIELDS, 'summary', 'improvements'] as ScoringField[];
+  const defaulted = fields.filter(field => merged[field] === undefined);
+  return { output: { ...DEFAULTS, ...merged }, defaulted };
+}
@@ -0,0 +1,23 @@
+/**
+ * Type declarations for the shared HTML → plain text source map
+ */
+
+export interface SourceMap {
+  /** Plain text the tagger analyzes */
+  text: string;
+  /** HTML offset where each plain-text character starts */
+  starts: number[];
+  /** HTML offset where each plain-text character ends (equal to start for synthetic line breaks) */
+  ends: number[];
+}
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export function buildSourceMap(html?: string): SourceMap;
+export function textToSource(map: SourceMap, start: number, end: number): SourceRange | null;
+export function sourceToText(map: SourceMap, offset: number): number;
+export function sourceSegments(map: SourceMap, start: number, end: number): SourceRange[];
+export function locateSentences(text: string, sentences: string[]): number[];
@@ -0,0 +1,200 @@
+// source-map.js
+
+/**
+ * HTML → plain text source map
+ * - Converts newsletter HTML into the plain text the tagger analyzes
+ * - Records, for every plain-text character, the [start, end) range of the
+ *   HTML it came from (entities map to the whole `&amp;`, collapsed
+ *   whitespace to the whole run, synthetic line breaks to an empty range)
+ * - Shared by the server tagger and the client highlight mapper so both
+ *   agree on offsets, including for repeated sentences
+ */
+
+// Closing (or void) tags that end a block of text
+const BLOCK_BREAKS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'li', 'ul', 'ol', 'table', 'tr', 'blockquote', 'section', 'article', 'header', 'footer'
+]);
+
+// Elements whose content is never prose
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'head', 'title']);
+
+const NAMED_ENTITIES = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’',
+  ldquo: '“', rdquo: '”', copy: '©', reg: '®', trade: '™'
+};
+
+const TAG_RE = /<(\/?)([a-zA-Z][\w:-]*)\b[^>]*>/y;
+const COMMENT_RE = /<!--[\s\S]*?-->|<![^>]*>/y;
+const ENTITY_RE = /&(#\d+|#x[0-9a-fA-F]+|[a-zA-Z]+);/y;
+
+function decodeEntity(body) {
+  if (body[0] !== '#') return NAMED_ENTITIES[body.toLowerCase()] ?? null;
+  const code = body[1] === 'x' || body[1] === 'X'
+    ? parseInt(body.slice(2), 16)
+    : parseInt(body.slice(1), 10);
+  try {
+    return String.fromCodePoint(code);
+  } catch {
+    return null;
+  }
+}
+
+const matchAt = (re, s, i) => {
+  re.lastIndex = i;
+  return re.exec(s);
+};
+
+// Pass 1: drop markup, decode entities, insert block breaks
+function tokenize(html) {
+  const raw = { chars: [], starts: [], ends: [] };
+  const emit = (ch, start, end) => {
+    for (const unit of ch.split('')) {
+      raw.chars.push(unit);
+      raw.starts.push(start);
+      raw.ends.push(end);
+    }
+  };
+
+  let i = 0;
+  while (i < html.length) {
+    const ch = html[i];
+
+    if (ch === '<') {
+      const comment = matchAt(COMMENT_RE, html, i);
+      if (comment) { i += comment[0].length; continue; }
+
+      const tag = matchAt(TAG_RE, html, i);
+      if (tag) {
+        const [whole, closing, rawName] = tag;
+        const name = rawName.toLowerCase();
+        const end = i + whole.length;
+
+        if (!closing && RAW_TEXT_TAGS.has(name)) {
+          const close = html.toLowerCase().indexOf(`</${name}`, end);
+          const after = close === -1 ? html.length : html.indexOf('>', close) + 1 || html.length;
+          i = after;
+          continue;
+        }
+
+        if (name === 'br') emit('\n', i, i);
+        else if (closing && BLOCK_BREAKS.has(name)) emit('\n\n', i, i);
+        i = end;
+        continue;
+      }
+    }
+
+    if (ch === '&') {
+      const entity = matchAt(ENTITY_RE, html, i);
+      const decoded = entity && decodeEntity(entity[1]);
+      if (decoded) {
+        emit(decoded, i, i + entity[0].length);
+        i += entity[0].length;
+        continue;
+      }
+    }
+
+    emit(ch, i, i + 1);
+    i += 1;
+  }
+
+  return raw;
+}
+
+/**
+ * Build the plain text for `html` together with per-character source offsets.
+ * `text` matches what the tagger analyzes: tags removed, entities decoded,
+ * blank lines capped at one, runs of spaces collapsed, and the ends trimmed.
+ */
+export function buildSourceMap(html = '') {
+  const raw = tokenize(html);
+  const chars = [];
+  const starts = [];
+  const ends = [];
+  const last = () => chars[chars.length - 1];
+
+  raw.chars.forEach((ch, k) => {
+    if (ch === ' ' || ch === '\t') {
+      if (last() === ' ') { ends[ends.length - 1] = raw.ends[k]; return; }
+      if (last() === '\n') return;
+      ch = ' ';
+    } else if (ch === '\n') {
+      if (last() === '\n' && chars[chars.length - 2] === '\n') return;
+    }
+    chars.push(ch);
+    starts.push(raw.starts[k]);
+    ends.push(raw.ends[k]);
+  });
+
+  let from = 0;
+  let to = chars.length;
+  while (from < to && /\s/.test(chars[from])) from++;
+  while (to > from && /\s/.test(chars[to - 1])) to--;
+
+  return {
+    text: chars.slice(from, to).join(''),
+    starts: starts.slice(from, to),
+    ends: ends.slice(from, to)
+  };
+}
+
+/**
+ * Map a [start, end) plain-text range to the [start, end) HTML range that
+ * produced it. Returns null for an empty or out-of-bounds range.
+ */
+export function textToSource(map, start, end) {
+  const from = Math.max(0, start);
+  const to = Math.min(map.text.length, end);
+  if (from >= to) return null;
+  return { start: map.starts[from], end: map.ends[to - 1] };
+}
+
+/**
+ * Map an HTML offset to the first plain-text offset at or after it.
+ */
+export function sourceToText(map, offset) {
+  let lo = 0;
+  let hi = map.starts.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (map.starts[mid] < offset) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Split a plain-text range into the contiguous HTML runs it covers. Each run
+ * contains only text and entities, so wrapping it in an element never
+ * crosses a tag boundary.
+ */
+export function sourceSegments(map, start, end) {
+  const segments = [];
+  const to = Math.min(map.text.length, end);
+
+  for (let k = Math.max(0, start); k < to; k++) {
+    if (map.starts[k] === map.ends[k]) continue; // synthetic line break
+    const current = segments[segments.length - 1];
+    if (current && current.end === map.starts[k]) {
+      current.end = map.ends[k];
+    } else {
+      segments.push({ start: map.starts[k], end: map.ends[k] });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Locate each sentence in `text`, in order, so repeated sentences resolve to
+ * their own occurrence instead of the first one. Missing sentences get -1.
+ */
+export function locateSentences(text, sentences) {
+  let cursor = 0;
+  return sentences.map((sentence) => {
+    const at = sentence ? text.indexOf(sentence, cursor) : -1;
+    if (at !== -1) cursor = at + sentence.length;
+    return at;
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Type declarations for the weighted spam-risk model
+ */
+
+import type { LinkAudit } from './link-auditor.js';
+import type { DeliverabilityReport } from './deliverability.js';
+
+export type SpamRuleId =
+  | 'SPAM_PHRASE'
+  | 'ALL_CAPS'
+  | 'EXCLAMATION_RUN'
+  | 'EXCLAMATION_DENSITY'
+  | 'MONEY_AMOUNTS'
+  | 'MONEY_SIGN_RUN'
+  | 'LINK_DENSITY'
+  | 'URL_SHORTENER'
+  | 'IMAGE_ONLY'
+  | 'IMAGE_HEAVY'
+  | 'HTML_DELIVERABILITY'
+  | 'SUBJ_FAKE_REPLY'
+  | 'SUBJ_URGENT_PREFIX'
+  | 'SUBJ_ALL_CAPS'
+  | 'SUBJ_EXCLAMATION'
+  | 'SUBJ_SPAM_PHRASE';
+
+export interface SpamRule {
+  id: SpamRuleId;
+  description: string;
+  suggestion: string;
+  /** Points this rule added to the score */
+  points: number;
+  /** What triggered the rule (phrases, words, hosts, counts), at most 10 entries */
+  evidence: string[];
+}
+
+export interface SpamReport {
+  /** Sum of the fired rules' points */
+  score: number;
+  /** Score at which the email reads as spam (5.0) */
+  requiredScore: number;
+  isSpam: boolean;
+  /** min(100, round(score × 10)) */
+  spamRisk: number;
+  /** Fired rules, most points first */
+  rules: SpamRule[];
+}
+
+export interface SpamScoreOptions {
+  subject?: string;
+  spamWords?: string[];
+  linkAudit?: LinkAudit;
+  deliverability?: DeliverabilityReport;
+}
+
+export const REQUIRED_SCORE: number;
+export function scoreSpamRisk(content?: string, options?: SpamScoreOptions): SpamReport;
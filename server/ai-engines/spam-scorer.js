@@ -0,0 +1,203 @@
+// spam-scorer.js
+
+/**
+ * Weighted spam-risk model, in the style of SpamAssassin
+ * Every rule that fires adds points; the points add up to a score and a
+ * score of REQUIRED_SCORE (5.0, SpamAssassin's default) or more reads as spam.
+ *   spamRisk = min(100, round(score × 10))
+ * so 5 points is a 50% spam risk.
+ *
+ * Rules look at the body text (merge tags masked), the links, the HTML
+ * deliverability findings (image ratio, hidden text, ...) and, when given,
+ * the subject line. The fired rules are returned with their points, highest
+ * first, so the score can be explained rule by rule.
+ */
+
+import { buildSourceMap } from './source-map.js';
+import { auditLinks } from './link-auditor.js';
+import { inspectDeliverability } from './deliverability.js';
+import { maskMergeTags } from './merge-tags.js';
+import { SPAM_WORDS } from './content-tagger.engine.js';
+
+export const REQUIRED_SCORE = 5.0;
+// Deliverability weights are spam-risk percentages; the HTML rules together
+// stay under the same 60% cap as the deliverability penalty
+const MAX_HTML_POINTS = 6.0;
+
+const CAPS_WORD = /\b[A-Z][A-Z'’]{2,}\b/g;
+const EXCLAMATION_RUN = /(?=[!?]*!)[!?]{2,}/g;
+const MONEY = /[$€£¥]\s?\d(?:[\d,.]*\d)?|\b\d(?:[\d,.]*\d)?\s?(?:[$€£¥]|USD|EUR|GBP|dollars?|euros?)(?!\w)/gi;
+const MONEY_SIGN_RUN = /[$€£¥]{2,}/g;
+// Prefixes that make a campaign look like a reply, a forward or an alert
+const FAKE_REPLY_PREFIX = /^\s*(?:re|fw|fwd|aw|wg|sv|vs|tr|rv|enc|rif)\s*(?:\[\d+\])?\s*:/i;
+const URGENT_PREFIX = /^\s*[[(]?\s*(?:urgent|important|action required|final (?:notice|warning|reminder)|alert|attention|warning|notice)\s*(?:[\])]\s*:?|[!:])/i;
+
+const wordsOf = (text) => text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || [];
+const escapeRegex = (t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const round2 = (n) => Math.round(n * 100) / 100;
+
+// Description and suggestion for each rule; points are set where the rule fires
+const RULES = {
+  SPAM_PHRASE: {
+    description: 'Spam trigger phrases in the body',
+    suggestion: 'Reword sales clichés like "act now" or "risk-free" in plain language',
+  },
+  ALL_CAPS: {
+    description: 'Words in ALL CAPS',
+    suggestion: 'Use sentence case; save capitals for acronyms',
+  },
+  EXCLAMATION_RUN: {
+    description: 'Runs of exclamation marks (!!, ?!)',
+    suggestion: 'Use a single punctuation mark',
+  },
+  EXCLAMATION_DENSITY: {
+    description: 'Many exclamation marks for the length of the email',
+    suggestion: 'Keep exclamation marks to one or two per email',
+  },
+  MONEY_AMOUNTS: {
+    description: 'Many money amounts',
+    suggestion: 'Mention the price once, near the offer',
+  },
+  MONEY_SIGN_RUN: {
+    description: 'Repeated currency symbols ($$$)',
+    suggestion: 'Remove the repeated currency symbols',
+  },
+  LINK_DENSITY: {
+    description: 'Many links for the amount of text',
+    suggestion: 'Link fewer places, or add more text around the links',
+  },
+  URL_SHORTENER: {
+    description: 'Links through URL shorteners',
+    suggestion: 'Link to the full destination; filters distrust shortened links',
+  },
+  IMAGE_ONLY: {
+    description: 'Almost all images, almost no text',
+    suggestion: 'Put the message in live text',
+  },
+  IMAGE_HEAVY: {
+    description: 'Few words per image',
+    suggestion: 'Add text or remove images',
+  },
+  HTML_DELIVERABILITY: {
+    description: 'HTML deliverability problems',
+    suggestion: 'Fix the deliverability findings (hidden text, forms, scripts, size)',
+  },
+  SUBJ_FAKE_REPLY: {
+    description: 'Subject pretends to be a reply or forward (Re:, Fwd:)',
+    suggestion: 'Drop the Re:/Fwd: prefix; it misleads readers and filters penalize it',
+  },
+  SUBJ_URGENT_PREFIX: {
+    description: 'Subject opens with an alarm word (URGENT, Action required)',
+    suggestion: 'Lead with what the email is about instead of an alarm',
+  },
+  SUBJ_ALL_CAPS: {
+    description: 'Subject is mostly capitals',
+    suggestion: 'Write the subject in sentence case',
+  },
+  SUBJ_EXCLAMATION: {
+    description: 'Exclamation marks in the subject',
+    suggestion: 'End the subject without an exclamation mark',
+  },
+  SUBJ_SPAM_PHRASE: {
+    description: 'Spam trigger phrases in the subject',
+    suggestion: 'Keep trigger phrases out of the subject line',
+  },
+};
+
+function findSpamPhrases(text, spamWords) {
+  const found = [];
+  for (const phrase of spamWords) {
+    const re = new RegExp(`(?<![\\w'’-])${escapeRegex(phrase)}(?![\\w'’-])`, 'i');
+    if (re.test(text)) found.push(phrase.toLowerCase());
+  }
+  return [...new Set(found)];
+}
+
+/**
+ * Score content (HTML or plain text) for spam risk.
+ * options.subject adds the subject-line rules; options.spamWords replaces the
+ * trigger list (rule packs and languages extend it); options.linkAudit and
+ * options.deliverability reuse reports the caller already has.
+ */
+export function scoreSpamRisk(content = '', options = {}) {
+  const {
+    subject = '',
+    spamWords = SPAM_WORDS,
+    linkAudit = auditLinks(content),
+    deliverability = inspectDeliverability(content),
+  } = options;
+
+  const text = maskMergeTags(buildSourceMap(content).text);
+  const words = wordsOf(text);
+  const wordCount = Math.max(words.length, 1);
+  const rules = [];
+  const fire = (id, points, evidence = []) => {
+    if (points <= 0) return;
+    rules.push({ id, ...RULES[id], points: round2(points), evidence: evidence.slice(0, 10) });
+  };
+
+  // Body text
+  const phrases = findSpamPhrases(text, spamWords);
+  fire('SPAM_PHRASE', Math.min(4.0, 0.8 * phrases.length), phrases);
+
+  // Three-letter words are usually acronyms (CEO, API) unless they are trigger phrases
+  const caps = (text.match(CAPS_WORD) || []).filter(w => w.length > 3 || phrases.includes(w.toLowerCase()));
+  const capsShare = caps.length / wordCount;
+  fire('ALL_CAPS', capsShare > 0.15 ? 2.5 : capsShare > 0.05 ? 1.2 : caps.length >= 3 ? 0.5 : 0, [...new Set(caps)]);
+
+  const runs = text.match(EXCLAMATION_RUN) || [];
+  fire('EXCLAMATION_RUN', Math.min(2.4, 0.6 * runs.length), runs);
+  const exclamations = (text.match(/!/g) || []).length;
+  fire('EXCLAMATION_DENSITY', exclamations > 3 && exclamations / wordCount > 1 / 50 ? 0.8 : 0, [`${exclamations} in ${words.length} words`]);
+
+  const amounts = text.match(MONEY) || [];
+  fire('MONEY_AMOUNTS', amounts.length >= 3 ? Math.min(2.0, 0.5 + 0.25 * (amounts.length - 3)) : 0, amounts);
+  const signRuns = text.match(MONEY_SIGN_RUN) || [];
+  fire('MONEY_SIGN_RUN', signRuns.length ? 1.5 : 0, signRuns);
+
+  // Links
+  const linksPer100 = (linkAudit.summary.total / wordCount) * 100;
+  fire('LINK_DENSITY', linksPer100 > 10 ? 2.0 : linksPer100 > 5 ? 1.0 : 0, [`${linkAudit.summary.total} links in ${words.length} words`]);
+  const shortened = linkAudit.findings.filter(f => f.code === 'url_shortener');
+  // The shortener hosts, not the anchor text: that is what filters look at
+  const shortenerHosts = shortened.map(f => linkAudit.links[f.linkIndex].host);
+  fire('URL_SHORTENER', shortened.length ? Math.min(2.0, 1.0 + 0.5 * (shortened.length - 1)) : 0, [...new Set(shortenerHosts)]);
+
+  // Image ratio, then the rest of the HTML checks at their deliverability weights
+  const images = `${deliverability.images.content} images, ${deliverability.wordsPerImage ?? '—'} words per image`;
+  fire('IMAGE_ONLY', deliverability.issueCounts.image_only ? 2.5 : 0, [images]);
+  fire('IMAGE_HEAVY', !deliverability.issueCounts.image_only && deliverability.issueCounts.image_heavy ? 1.0 : 0, [images]);
+  const seen = new Set();
+  let htmlPoints = 0;
+  for (const finding of deliverability.findings) {
+    if (finding.code === 'image_only' || finding.code === 'image_heavy') continue;
+    htmlPoints += (seen.has(finding.code) ? finding.weight / 3 : finding.weight) / 10;
+    seen.add(finding.code);
+  }
+  fire('HTML_DELIVERABILITY', Math.min(MAX_HTML_POINTS, htmlPoints), [...seen]);
+
+  // Subject line
+  const subjectText = maskMergeTags(subject);
+  if (subjectText.trim()) {
+    fire('SUBJ_FAKE_REPLY', FAKE_REPLY_PREFIX.test(subjectText) ? 2.0 : 0, [subjectText.match(FAKE_REPLY_PREFIX)?.[0].trim()].filter(Boolean));
+    fire('SUBJ_URGENT_PREFIX', URGENT_PREFIX.test(subjectText) ? 1.0 : 0, [subjectText.match(URGENT_PREFIX)?.[0].trim()].filter(Boolean));
+    const letters = subjectText.match(/\p{L}/gu) || [];
+    const upper = letters.filter(c => c !== c.toLowerCase()).length;
+    fire('SUBJ_ALL_CAPS', letters.length >= 8 && upper / letters.length >= 0.7 ? 1.5 : 0, [subject]);
+    const subjectBangs = (subjectText.match(/!/g) || []).length;
+    fire('SUBJ_EXCLAMATION', subjectBangs > 1 ? 1.0 : subjectBangs ? 0.5 : 0, [subject]);
+    const subjectPhrases = findSpamPhrases(subjectText, spamWords);
+    fire('SUBJ_SPAM_PHRASE', Math.min(2.0, 1.0 * subjectPhrases.length), subjectPhrases);
+  }
+
+  rules.sort((a, b) => b.points - a.points);
+  const score = round2(rules.reduce((total, rule) => total + rule.points, 0));
+
+  return {
+    score,
+    requiredScore: REQUIRED_SCORE,
+    isSpam: score >= REQUIRED_SCORE,
+    spamRisk: Math.min(100, Math.round(score * 10)),
+    rules,
+  };
+}
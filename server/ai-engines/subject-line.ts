@@ -0,0 +1,275 @@
+/**
+ * Subject line and preheader analyzer
+ * Deterministic checks for what the inbox shows before the email is opened:
+ * length and truncation, spam triggers, ALL CAPS and punctuation, emoji,
+ * personalization tokens and whether the subject matches the body.
+ */
+
+import * as contentTaggerJsModule from './content-tagger.engine.js';
+import { buildSourceMap } from './source-map.js';
+import { LANGUAGE_PROFILES, type SupportedLanguage } from './languages.js';
+
+export type SubjectCheckStatus = 'pass' | 'warning' | 'fail';
+
+export interface SubjectLineCheck {
+  id: string;
+  label: string;
+  status: SubjectCheckStatus;
+  message: string;
+  suggestion?: string;
+  /** Points taken off the score (0 for passing checks) */
+  penalty: number;
+}
+
+export interface InboxPreview {
+  text: string;
+  /** Length as the inbox shows it, with personalization tokens filled in */
+  length: number;
+  wordCount: number;
+  /** What a typical mobile inbox shows before cutting the line off */
+  mobilePreview: string;
+  mobileTruncated: boolean;
+  desktopTruncated: boolean;
+}
+
+export interface SubjectLineReport {
+  score: number;
+  grade: 'A' | 'B' | 'C' | 'D' | 'F';
+  subject: InboxPreview;
+  preheader: InboxPreview | null;
+  spamWords: string[];
+  emojiCount: number;
+  personalizationTokens: string[];
+  /** Share of the subject's keywords that appear in the body; null without a body */
+  bodyMatch: { score: number; matchedTerms: string[]; missingTerms: string[] } | null;
+  checks: SubjectLineCheck[];
+}
+
+export interface SubjectLineInput {
+  subject: string;
+  preheader?: string;
+  /** Newsletter body (HTML or plain text), used for the subject/body match */
+  content?: string;
+  language?: SupportedLanguage;
+}
+
+// Characters shown before truncation (iOS Mail / Gmail app portrait, Gmail web)
+const SUBJECT_LIMITS = { ideal: 50, mobile: 41, desktop: 70, min: 15 };
+const PREHEADER_LIMITS = { min: 40, mobile: 90, desktop: 140 };
+
+// {{first_name}}, {{ contact.name | default: "there" }}, *|FNAME|*, %%FirstName%%, {$name}
+const PERSONALIZATION_TOKEN = /\{\{[^{}]+\}\}|\*\|[A-Z0-9_:]+\|\*|%%[^%\s]+%%|\{\$[\w.]+\}/g;
+// Opening delimiters left without their closing half, e.g. "Hi {{first_name,"
+const BROKEN_TOKEN = /\{\{(?![^{}]*\}\})|\*\|(?![A-Z0-9_:]+\|\*)/;
+// A token is filled with a name-sized value when measuring length
+const TOKEN_PLACEHOLDER = 'Alexandra';
+
+const EMOJI = /\p{Extended_Pictographic}/gu;
+const CAPS_WORD = /\b\p{Lu}{4,}\b/gu;
+const MAX_EMOJI = 1;
+const MAX_CAPS_WORDS = 0;
+
+// Short words that say nothing about the topic
+const MIN_KEYWORD_LENGTH = 4;
+const KEYWORD_STOPWORDS = new Set([
+  'this', 'that', 'these', 'those', 'with', 'from', 'your', 'yours', 'have', 'here', 'there',
+  'what', 'when', 'where', 'which', 'will', 'just', 'about', 'into', 'more', 'most', 'some',
+  'than', 'then', 'they', 'them', 'their', 'were', 'been', 'only', 'over', 'also', 'every',
+  'should', 'would', 'could', 'know', 'need',
+  'week', 'weekly', 'month', 'monthly', 'today', 'issue', 'edition', 'newsletter', 'update', 'news',
+]);
+
+const escapeRegex = (t: string) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function findSpamTerms(text: string, list: string[]): string[] {
+  return list.filter(phrase =>
+    new RegExp(`(?<![\\w'’-])${escapeRegex(phrase)}(?![\\w'’-])`, 'i').test(text)
+  );
+}
+
+function preview(text: string, limits: { mobile: number; desktop: number }): InboxPreview {
+  const rendered = text.replace(PERSONALIZATION_TOKEN, TOKEN_PLACEHOLDER);
+  const chars = Array.from(rendered);
+  return {
+    text,
+    length: chars.length,
+    wordCount: (rendered.match(/[\p{L}\p{N}]+/gu) || []).length,
+    mobilePreview: chars.length > limits.mobile ? `${chars.slice(0, limits.mobile - 1).join('').trimEnd()}…` : rendered,
+    mobileTruncated: chars.length > limits.mobile,
+    desktopTruncated: chars.length > limits.desktop,
+  };
+}
+
+const keywordsOf = (text: string) =>
+  Array.from(new Set(
+    (text.replace(PERSONALIZATION_TOKEN, ' ').toLowerCase().match(/\p{L}[\p{L}'’-]*/gu) || [])
+      .filter(word => word.length >= MIN_KEYWORD_LENGTH && !KEYWORD_STOPWORDS.has(word))
+  ));
+
+// A keyword matches when the body has a word sharing its first five letters
+// ("gardening" finds "gardens"), which is enough to tolerate plurals and tenses
+function matchBody(subject: string, content: string): SubjectLineReport['bodyMatch'] {
+  const keywords = keywordsOf(subject);
+  if (keywords.length === 0) return null;
+  const bodyStems = new Set(keywordsOf(buildSourceMap(content).text).map(word => word.slice(0, 5)));
+  const matchedTerms = keywords.filter(word => bodyStems.has(word.slice(0, 5)));
+  return {
+    score: Math.round((matchedTerms.length / keywords.length) * 100),
+    matchedTerms,
+    missingTerms: keywords.filter(word => !matchedTerms.includes(word)),
+  };
+}
+
+const scoreToGrade = (score: number): SubjectLineReport['grade'] => {
+  if (score >= 90) return 'A';
+  if (score >= 80) return 'B';
+  if (score >= 70) return 'C';
+  if (score >= 60) return 'D';
+  return 'F';
+};
+
+const pass = (id: string, label: string, message: string): SubjectLineCheck =>
+  ({ id, label, status: 'pass', message, penalty: 0 });
+
+/**
+ * Score a subject line (and optional preheader) out of 100.
+ * Every check reports pass/warning/fail with the points it cost.
+ */
+export function analyzeSubjectLine({ subject, preheader, content, language = 'en' }: SubjectLineInput): SubjectLineReport {
+  const subjectText = subject.trim();
+  const preheaderText = preheader?.trim() || '';
+  const checks: SubjectLineCheck[] = [];
+
+  // Length and truncation
+  const subjectPreview = preview(subjectText, SUBJECT_LIMITS);
+  if (subjectPreview.length < SUBJECT_LIMITS.min) {
+    checks.push({ id: 'subject_length', label: 'Length', status: 'warning', penalty: 10,
+      message: `Subject is only ${subjectPreview.length} characters`,
+      suggestion: 'Say what the email is about; 30–50 characters works best' });
+  } else if (subjectPreview.desktopTruncated) {
+    checks.push({ id: 'subject_length', label: 'Length', status: 'fail', penalty: 20,
+      message: `Subject is ${subjectPreview.length} characters and is cut off on desktop and mobile`,
+      suggestion: `Keep it under ${SUBJECT_LIMITS.ideal} characters and put the key words first` });
+  } else if (subjectPreview.mobileTruncated) {
+    checks.push({ id: 'subject_length', label: 'Length', status: 'warning', penalty: subjectPreview.length > SUBJECT_LIMITS.ideal ? 10 : 5,
+      message: `Mobile inboxes show about ${SUBJECT_LIMITS.mobile} characters: “${subjectPreview.mobilePreview}”`,
+      suggestion: 'Make sure the first 40 characters carry the message' });
+  } else {
+    checks.push(pass('subject_length', 'Length', `${subjectPreview.length} characters fits on mobile and desktop`));
+  }
+
+  // Spam triggers
+  const spamList = language === 'en'
+    ? contentTaggerJsModule.SPAM_WORDS as string[]
+    : [...contentTaggerJsModule.SPAM_WORDS as string[], ...LANGUAGE_PROFILES[language].spamWords];
+  const spamWords = Array.from(new Set([...findSpamTerms(subjectText, spamList), ...findSpamTerms(preheaderText, spamList)]));
+  if (spamWords.length > 0) {
+    checks.push({ id: 'spam_words', label: 'Spam triggers', status: spamWords.length > 1 ? 'fail' : 'warning',
+      penalty: Math.min(30, spamWords.length * 12),
+      message: `Spam trigger${spamWords.length > 1 ? 's' : ''}: ${spamWords.map(w => `“${w}”`).join(', ')}`,
+      suggestion: 'Describe the actual benefit instead of sales language filters look for' });
+  } else {
+    checks.push(pass('spam_words', 'Spam triggers', 'No common spam trigger phrases'));
+  }
+
+  // ALL CAPS and punctuation
+  const subjectWithoutTokens = subjectText.replace(PERSONALIZATION_TOKEN, ' ');
+  const capsWords = subjectWithoutTokens.match(CAPS_WORD) || [];
+  const letters = subjectWithoutTokens.match(/\p{L}/gu) || [];
+  const allCaps = letters.length >= 8 && letters.every(ch => ch === ch.toUpperCase());
+  if (allCaps || capsWords.length > MAX_CAPS_WORDS) {
+    checks.push({ id: 'all_caps', label: 'Capitalization', status: allCaps ? 'fail' : 'warning', penalty: allCaps ? 20 : 8,
+      message: allCaps ? 'The whole subject is in capitals' : `Shouted words: ${capsWords.join(', ')}`,
+      suggestion: 'Use sentence case; capitals read as shouting and trip spam filters' });
+  } else {
+    checks.push(pass('all_caps', 'Capitalization', 'No shouted words'));
+  }
+
+  const exclamations = (subjectText.match(/!/g) || []).length;
+  const repeatedPunctuation = /[!?]{2,}|\.{4,}|[$€£]{2,}/.test(subjectText);
+  if (exclamations > 1 || repeatedPunctuation) {
+    checks.push({ id: 'punctuation', label: 'Punctuation', status: 'warning', penalty: 10,
+      message: repeatedPunctuation ? 'Repeated punctuation (!!, ?!, $$)' : `${exclamations} exclamation marks`,
+      suggestion: 'Use at most one exclamation mark' });
+  } else {
+    checks.push(pass('punctuation', 'Punctuation', 'Punctuation is restrained'));
+  }
+
+  // Emoji
+  const emojiCount = (subjectText.match(EMOJI) || []).length;
+  const emojiOnly = emojiCount > 0 && !/[\p{L}\p{N}]/u.test(subjectWithoutTokens);
+  if (emojiOnly || emojiCount > MAX_EMOJI) {
+    checks.push({ id: 'emoji', label: 'Emoji', status: 'warning', penalty: emojiOnly ? 15 : 5,
+      message: emojiOnly ? 'Subject is only emoji' : `${emojiCount} emoji`,
+      suggestion: 'One emoji can add personality; more looks promotional and renders inconsistently' });
+  } else {
+    checks.push(pass('emoji', 'Emoji', emojiCount === 1 ? 'One emoji' : 'No emoji'));
+  }
+
+  // Personalization tokens
+  const personalizationTokens = Array.from(new Set([
+    ...(subjectText.match(PERSONALIZATION_TOKEN) || []),
+    ...(preheaderText.match(PERSONALIZATION_TOKEN) || []),
+  ]));
+  if (BROKEN_TOKEN.test(subjectText) || BROKEN_TOKEN.test(preheaderText)) {
+    checks.push({ id: 'personalization', label: 'Personalization', status: 'fail', penalty: 25,
+      message: 'A merge tag is not closed and will be sent as raw text',
+      suggestion: 'Close the tag ({{first_name}}, *|FNAME|*) and test with a contact that has no name' });
+  } else if (personalizationTokens.length > 0) {
+    checks.push(pass('personalization', 'Personalization', `Personalized with ${personalizationTokens.join(', ')}; make sure it has a fallback value`));
+  } else {
+    checks.push(pass('personalization', 'Personalization', 'No personalization tokens'));
+  }
+
+  // Preheader
+  let preheaderPreview: InboxPreview | null = null;
+  if (!preheaderText) {
+    checks.push({ id: 'preheader', label: 'Preheader', status: 'warning', penalty: 10,
+      message: 'No preheader; inboxes will show the first text of the body instead',
+      suggestion: `Add ${PREHEADER_LIMITS.min}–${PREHEADER_LIMITS.mobile} characters that complete the subject` });
+  } else {
+    preheaderPreview = preview(preheaderText, PREHEADER_LIMITS);
+    if (preheaderText.toLowerCase() === subjectText.toLowerCase()) {
+      checks.push({ id: 'preheader', label: 'Preheader', status: 'warning', penalty: 8,
+        message: 'Preheader repeats the subject',
+        suggestion: 'Use the preheader to add a detail the subject leaves out' });
+    } else if (preheaderPreview.length < PREHEADER_LIMITS.min) {
+      checks.push({ id: 'preheader', label: 'Preheader', status: 'warning', penalty: 4,
+        message: `Preheader is ${preheaderPreview.length} characters; the rest of the line fills with body text`,
+        suggestion: `Aim for ${PREHEADER_LIMITS.min}–${PREHEADER_LIMITS.mobile} characters` });
+    } else if (preheaderPreview.desktopTruncated) {
+      checks.push({ id: 'preheader', label: 'Preheader', status: 'warning', penalty: 3,
+        message: `Preheader is ${preheaderPreview.length} characters and will be cut off`,
+        suggestion: `Put the point in the first ${PREHEADER_LIMITS.mobile} characters` });
+    } else {
+      checks.push(pass('preheader', 'Preheader', `${preheaderPreview.length} characters complements the subject`));
+    }
+  }
+
+  // Subject/body match
+  const bodyMatch = content?.trim() ? matchBody(subjectText, content) : null;
+  if (bodyMatch) {
+    if (bodyMatch.score < 50) {
+      checks.push({ id: 'body_match', label: 'Matches content', status: bodyMatch.score === 0 ? 'fail' : 'warning',
+        penalty: bodyMatch.score === 0 ? 20 : 10,
+        message: `The body never mentions ${bodyMatch.missingTerms.slice(0, 3).map(t => `“${t}”`).join(', ')}`,
+        suggestion: 'Subjects that promise something the email doesn’t deliver hurt trust and open rates' });
+    } else {
+      checks.push(pass('body_match', 'Matches content', `Body covers ${bodyMatch.matchedTerms.slice(0, 3).map(t => `“${t}”`).join(', ')}`));
+    }
+  }
+
+  const score = Math.max(0, 100 - checks.reduce((sum, check) => sum + check.penalty, 0));
+
+  return {
+    score,
+    grade: scoreToGrade(score),
+    subject: subjectPreview,
+    preheader: preheaderPreview,
+    spamWords,
+    emojiCount,
+    personalizationTokens,
+    bodyMatch,
+    checks,
+  };
+}
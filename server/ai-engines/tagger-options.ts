@@ -0,0 +1,121 @@
+/**
+ * Per-request tuning for the content tagger
+ * Callers can adjust thresholds (sentence length, readability grade, grammar
+ * strictness, link density, ...) through the `options` field of a request.
+ * Only numeric/boolean knobs are accepted here; word lists and new rules go
+ * through rule packs.
+ */
+
+import { ValidationError } from '../error-handler.js';
+import type { ContentTaggerOptions } from './content-tagger.js';
+
+type FieldSpec =
+  | { kind: 'boolean' }
+  | { kind: 'integer' | 'number'; min: number; max: number };
+
+// Accepted options and their bounds, grouped the same way as ContentTaggerOptions
+const OPTION_SCHEMA: Record<string, FieldSpec | Record<string, FieldSpec>> = {
+  sentenceLength: {
+    maxLength: { kind: 'integer', min: 5, max: 100 },
+  },
+  allCaps: {
+    maxAllowed: { kind: 'integer', min: 0, max: 50 },
+  },
+  excessivePunctuation: {
+    maxExclamations: { kind: 'integer', min: 0, max: 20 },
+  },
+  passiveVoice: {
+    enabled: { kind: 'boolean' },
+  },
+  thresholds: {
+    fluffPhrases: { kind: 'integer', min: 1, max: 20 },
+    mildJargon: { kind: 'integer', min: 1, max: 20 },
+    heavyJargon: { kind: 'integer', min: 1, max: 20 },
+    spamWords: { kind: 'integer', min: 1, max: 20 },
+  },
+  maxEmojiPerSentence: { kind: 'integer', min: 0, max: 50 },
+  maxLinksPer100Words: { kind: 'number', min: 0, max: 100 },
+  redundancy: {
+    similarityThreshold: { kind: 'number', min: 0, max: 1 },
+    minSentenceWords: { kind: 'integer', min: 1, max: 100 },
+  },
+  readability: {
+    gradeThreshold: { kind: 'number', min: 1, max: 20 },
+  },
+  compliance: {
+    enabled: { kind: 'boolean' },
+  },
+  grammar: {
+    enabled: { kind: 'boolean' },
+    minWordLength: { kind: 'integer', min: 1, max: 30 },
+    skipProperNouns: { kind: 'boolean' },
+    skipNonLexical: { kind: 'boolean' },
+    maxMisspellingsListed: { kind: 'integer', min: 0, max: 20 },
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFieldSpec = (spec: FieldSpec | Record<string, FieldSpec>): spec is FieldSpec =>
+  typeof spec.kind === 'string';
+
+function validateField(value: unknown, spec: FieldSpec, where: string, errors: string[]): void {
+  if (spec.kind === 'boolean') {
+    if (typeof value !== 'boolean') errors.push(`${where} must be a boolean`);
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || (spec.kind === 'integer' && !Number.isInteger(value))) {
+    errors.push(`${where} must be ${spec.kind === 'integer' ? 'an integer' : 'a number'}`);
+  } else if (value < spec.min || value > spec.max) {
+    errors.push(`${where} must be between ${spec.min} and ${spec.max}`);
+  }
+}
+
+/**
+ * Validate the `options` field of a request body. Returns the overrides
+ * unchanged (they are merged later by ContentTagger.withOptions) or throws a
+ * ValidationError listing every problem.
+ */
+export function parseRequestTaggerOptions(value: unknown): Partial<ContentTaggerOptions> {
+  if (value === undefined || value === null) return {};
+  if (!isPlainObject(value)) {
+    throw new ValidationError('Invalid options: expected an object', { options: value });
+  }
+
+  const errors: string[] = [];
+
+  for (const [key, raw] of Object.entries(value)) {
+    const spec = OPTION_SCHEMA[key];
+    if (!spec) {
+      errors.push(`options.${key} is not a supported option (use one of: ${Object.keys(OPTION_SCHEMA).join(', ')})`);
+      continue;
+    }
+    if (isFieldSpec(spec)) {
+      validateField(raw, spec, `options.${key}`, errors);
+      continue;
+    }
+    if (!isPlainObject(raw)) {
+      errors.push(`options.${key} must be an object`);
+      continue;
+    }
+    for (const [field, fieldValue] of Object.entries(raw)) {
+      const fieldSpec = spec[field];
+      if (!fieldSpec) {
+        errors.push(`options.${key}.${field} is not a supported option (use one of: ${Object.keys(spec).join(', ')})`);
+      } else {
+        validateField(fieldValue, fieldSpec, `options.${key}.${field}`, errors);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(
+      `Invalid options: ${errors[0]}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''}`,
+      { errors },
+      errors.slice(0, 10)
+    );
+  }
+
+  return value as Partial<ContentTaggerOptions>;
+}
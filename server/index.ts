@@ -17,11 +17,22 @@ import {
   healthCheckHandler,
   metricsHandler
 } from './monitoring.js';
-import { withRetry, RETRY_CONFIGS } from './retry-logic.js';
+import { withRetry, RETRY_CONFIGS, circuitBreakers } from './retry-logic.js';
+import { JobQueue, type JobType } from './job-queue.js';
 
 // Import GroqGemma content tagger and Gemma API service
-import { contentTagger, type ContentAnalysisResult } from './ai-engines/content-tagger.js';
-import { gemmaAPIService, type NewsletterAnalysis } from './ai-engines/gemma-api.js';
+import { contentTagger, resolveContentLanguage, type ContentAnalysisResult, type ContentTagger, type ContentTaggerOptions } from './ai-engines/content-tagger.js';
+import { gemmaAPIService, calculateOverallGrade, type NewsletterAnalysis } from './ai-engines/gemma-api.js';
+import { scoreNewsletterLocally, type LocalScore } from './ai-engines/local-scorer.js';
+import type { SupportedLanguage } from './ai-engines/languages.js';
+import { loadWorkspaceRulePacks, packsForLanguage, parseRequestRulePacks, type RulePack } from './ai-engines/rule-packs.js';
+import { parseRequestTaggerOptions } from './ai-engines/tagger-options.js';
+import { analyzeSubjectLine } from './ai-engines/subject-line.js';
+import { scoreSpamRisk, type SpamReport } from './ai-engines/spam-scorer.js';
+import { DEFAULT_RUBRIC, gradeNewsletter, writingIssuesScore, type GradingRubric } from './ai-engines/grading-rubric.js';
+import { listRubrics, resolveRubric } from './ai-engines/rubrics.js';
+import { protectMergeTags, restoreMergeTags } from './ai-engines/merge-tags.js';
+import { llmRouter } from './ai-engines/llm-providers.js';
 
 // Import GMMeditor functions for Fix My Mail
 import { rewriteWithLlama31, getToneOptions, TONES } from './ai-engines/rewriteWithLlama31.js';
@@ -57,6 +68,8 @@ interface GMMeditorRequest {
     spamRisk?: number;
   };
   suggestions?: string[];
+  /** Language code of the draft, or 'auto' (default) to detect it */
+  language?: string;
   options?: {
     model?: string;
     temperature?: number;
@@ -80,10 +93,16 @@ interface GMMeditorResponse {
   }>;
   metadata: {
     model: string;
+    /** LLM provider that wrote the rewrite (see llm-providers.ts) */
+    provider?: string;
     processingTime: number;
     toneUsed: string;
     originalLength: number;
     rewrittenLength: number;
+    language?: string;
+    /** Merge tags carried through the rewrite unchanged */
+    mergeTags?: number;
+    systemHealth?: { circuitBreakers: ReturnType<typeof aiBreakerStates> };
   };
 }
 
@@ -109,6 +128,10 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// When the timing middleware saw the request
+const requestStartTime = (req: Request): number =>
+  (req as Request & { startTime?: number }).startTime || Date.now();
+
 // Add request ID middleware first
 app.use(requestIdMiddleware);
 
@@ -267,31 +290,35 @@ app.use(express.urlencoded({
 }));
 
 // Request validation middleware
-const validateRequest = (requiredFields: string[]) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    try {
-      const missingFields = requiredFields.filter(field => {
-        const value = req.body[field];
-        return value === undefined || value === null || value === '';
-      });
+// Required fields and the content size limit; also applied to job inputs
+const checkRequestBody = (body: Record<string, unknown> | undefined, requiredFields: string[], endpoint: string) => {
+  const missingFields = requiredFields.filter(field => {
+    const value = body?.[field];
+    return value === undefined || value === null || value === '';
+  });
 
-      if (missingFields.length > 0) {
-        throw new ValidationError(
-          `Missing required fields: ${missingFields.join(', ')}`,
-          { missingFields, endpoint: req.path }
-        );
-      }
+  if (missingFields.length > 0) {
+    throw new ValidationError(
+      `Missing required fields: ${missingFields.join(', ')}`,
+      { missingFields, endpoint }
+    );
+  }
 
-      const contentField = req.body.message || req.body.content;
-      if (contentField && typeof contentField === 'string') {
-        if (contentField.length > 50000) {
-          throw new ValidationError(
-            'Content too large. Maximum 50,000 characters allowed.',
-            { contentLength: contentField.length, maxLength: 50000 }
-          );
-        }
-      }
+  const contentField = body?.message || body?.content;
+  if (contentField && typeof contentField === 'string') {
+    if (contentField.length > 50000) {
+      throw new ValidationError(
+        'Content too large. Maximum 50,000 characters allowed.',
+        { contentLength: contentField.length, maxLength: 50000 }
+      );
+    }
+  }
+};
 
+const validateRequest = (requiredFields: string[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      checkRequestBody(req.body, requiredFields, req.path);
       next();
     } catch (error) {
       next(error);
@@ -310,6 +337,9 @@ const sanitizeInput = (req: Request, res: Response, next: NextFunction) => {
             .replace(/javascript:/gi, '')
             .replace(/on\w+\s*=/gi, '');
         }
+        if (Array.isArray(obj)) {
+          return obj.map(sanitize);
+        }
         if (typeof obj === 'object' && obj !== null) {
           const sanitized: any = {};
           for (const [key, value] of Object.entries(obj)) {
@@ -343,6 +373,14 @@ app.get('/api/cache/stats', generalRateLimit, (req: Request, res: Response) => {
   });
 });
 
+// States of the AI breakers, reported in health checks and response metadata
+function aiBreakerStates() {
+  return {
+    scoring: circuitBreakers.scoring.getState().state,
+    rewriting: circuitBreakers.rewriting.getState().state
+  };
+}
+
 // Simple health checks
 app.get('/api/health/simple', (_req: Request, res: Response) => {
   res.status(200).json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -361,7 +399,14 @@ app.get('/api/health/ready', async (req: Request, res: Response) => {
       services: {
         gemmaAPI: gemmaHealth,
         contentTagger: { status: 'healthy', model: 'rule-based' }
-      }
+      },
+      // OPEN: requests go straight to the fallback; HALF_OPEN: the next call is a trial
+      circuitBreakers: {
+        scoring: circuitBreakers.scoring.getState(),
+        rewriting: circuitBreakers.rewriting.getState()
+      },
+      // Background job counts by status
+      jobs: jobQueue.getStats()
     });
   } catch (error) {
     res.status(503).json({
@@ -543,18 +588,20 @@ setInterval(() => {
 }, 10 * 60 * 1000);
 
 // Grade My Mail intelligent fallback for GMMeditor failures
-async function gradeMyMailIntelligentFallback(originalText: string): Promise<GMMeditorResponse> {
+async function gradeMyMailIntelligentFallback(originalText: string, language: SupportedLanguage = 'en'): Promise<GMMeditorResponse> {
   console.log('🔄 Using Grade My Mail intelligent fallback for content improvement');
 
   try {
     // Use Grade My Mail's analysis systems to provide intelligent improvements
     const [highlightingResult, scoringResult] = await Promise.allSettled([
-      contentTagger.analyzeNewsletter(originalText),
-      gemmaAPIService.analyzeNewsletter(originalText)
+      contentTagger.forLanguage(language).analyzeNewsletter(originalText),
+      circuitBreakers.scoring.execute(() => gemmaAPIService.analyzeNewsletter(originalText, undefined, language))
     ]);
 
     let improvements: string[] = [];
-    let rewrittenText = originalText;
+    // Word swaps run with merge tags swapped out, so every tag comes back unchanged
+    const protectedText = protectMergeTags(originalText);
+    let rewrittenText = protectedText.text;
 
     // Extract improvement suggestions from Grade My Mail analysis
     if (highlightingResult.status === 'fulfilled') {
@@ -584,6 +631,8 @@ async function gradeMyMailIntelligentFallback(originalText: string): Promise<GMM
       }
     }
 
+    rewrittenText = restoreMergeTags(rewrittenText, protectedText.tokens).text;
+
     // Create simple diff mappings for fallback
     const mappings = [{
       type: 'changed' as const,
@@ -600,7 +649,8 @@ async function gradeMyMailIntelligentFallback(originalText: string): Promise<GMM
         processingTime: Date.now(),
         toneUsed: 'friendly',
         originalLength: originalText.length,
-        rewrittenLength: rewrittenText.length
+        rewrittenLength: rewrittenText.length,
+        language
       }
     };
   } catch (error) {
@@ -619,130 +669,351 @@ async function gradeMyMailIntelligentFallback(originalText: string): Promise<GMM
         processingTime: Date.now(),
         toneUsed: 'friendly',
         originalLength: originalText.length,
-        rewrittenLength: originalText.length
+        rewrittenLength: originalText.length,
+        language
       }
     };
   }
 }
 
+// Server-sent events on an Express response; `signal` aborts when the client disconnects
+interface EventStream {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+  signal: AbortSignal;
+}
+
+function openEventStream(res: Response): EventStream {
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  // no-transform keeps compression from buffering the stream
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+  return {
+    send: (event, data) => {
+      if (!abort.signal.aborted) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close: () => {
+      clearInterval(heartbeat);
+      res.end();
+    },
+    signal: abort.signal
+  };
+}
+
 // API Routes - Using GroqGemma rule-based system
 
-// Unified newsletter analysis endpoint with dual-system approach
-app.post('/api/analyze', aiRateLimit, validateRequest(['content']), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  try {
-    const { content, context } = req.body;
-    const startTime = (req as any).startTime || Date.now();
-
-    console.log(`🔍 Starting unified dual-system analysis (${content.length} characters)...`);
-
-    // Check cache first for performance optimization
-    const cachedResult = analysisCache.get(content);
-    if (cachedResult) {
-      console.log('💾 Returning cached analysis result');
-      // Update processing time for cached result
-      cachedResult.metadata.processingTime = Date.now() - startTime;
-      cachedResult.metadata.cached = true;
-      res.json(cachedResult);
-      return;
-    }
+// Body of /api/analyze and its streaming variant; planAnalysis validates the rest
+interface AnalysisRequestBody {
+  content: string;
+  context?: Parameters<typeof gemmaAPIService.analyzeNewsletter>[1];
+  subject?: string;
+  language?: unknown;
+  workspaceId?: unknown;
+  rubric?: unknown;
+  rulePacks?: unknown;
+  options?: unknown;
+}
 
-    // Run both systems in parallel for optimal performance
-    const [highlightingResult, scoringResult] = await Promise.allSettled([
-      // Rule-based highlighting system for immediate visual feedback
-      withRetry(
-        async () => contentTagger.analyzeNewsletter(content),
-        { ...RETRY_CONFIGS.AI_MODEL, maxRetries: 1 }
-      ),
-      // Groq Gemma AI for comprehensive scoring and analysis
-      withRetry(
-        async () => gemmaAPIService.analyzeNewsletter(content, context),
-        { ...RETRY_CONFIGS.AI_MODEL, maxRetries: 2 }
-      )
-    ]);
+// What /api/analyze and its streaming variant resolve from the request body
+interface AnalysisPlan {
+  content: string;
+  context: AnalysisRequestBody['context'];
+  subject?: string;
+  language: ReturnType<typeof resolveContentLanguage>;
+  rulePacks: RulePack[];
+  taggerOptions: Partial<ContentTaggerOptions>;
+  tagger: ContentTagger;
+  rubric: GradingRubric;
+  cacheKey: string;
+}
 
-    // Process rule-based highlighting results
-    let analysisResult: any, summary: any, ranges: any[] = [];
-    if (highlightingResult.status === 'fulfilled') {
-      analysisResult = highlightingResult.value;
-      summary = contentTagger.getAnalysisSummary(analysisResult);
-      ranges = contentTagger.extractHighlightRanges(content, analysisResult);
-      console.log('✅ Rule-based highlighting completed successfully');
-    } else {
-      console.warn('⚠️ Rule-based highlighting failed:', highlightingResult.reason);
-      // Provide fallback highlighting
-      analysisResult = { annotated: content, report: { perSentence: [], global: { wordCount: content.split(/\s+/).length } } };
-      summary = { score: 75, grade: 'C', issueCounts: { high: 0, medium: 0, low: 0, info: 0 } };
-      ranges = [];
-    }
+// Rule-based half of an analysis: everything the editor needs to highlight
+type AnalysisHighlights = Awaited<ReturnType<typeof highlightAnalysis>>;
 
-    // Process Gemma AI scoring results
-    let metrics;
-    if (scoringResult.status === 'fulfilled') {
-      const analysis = scoringResult.value;
-      const wordCount = content.split(/\s+/).filter((word: string) => word.length > 0).length;
-      const readingTime = Math.ceil(wordCount / 200);
-
-      metrics = {
-        overallGrade: analysis.overallGrade,
-        audienceFit: analysis.audienceFit,
-        tone: analysis.tone,
-        clarity: analysis.clarity,
-        engagement: analysis.engagement,
-        spamRisk: analysis.spamRisk,
-        wordCount,
-        readingTime,
-        summary: analysis.summary,
-        improvements: analysis.improvements
-      };
-      console.log('✅ Gemma AI scoring completed successfully');
-    } else {
-      console.warn('⚠️ Gemma AI scoring failed:', scoringResult.reason);
-      // Provide fallback metrics
-      const wordCount = content.split(/\s+/).filter((word: string) => word.length > 0).length;
-      metrics = {
-        overallGrade: 'C' as const,
-        audienceFit: 70,
-        tone: 70,
-        clarity: 70,
-        engagement: 70,
-        spamRisk: 30,
-        wordCount,
-        readingTime: Math.ceil(wordCount / 200),
-        summary: ['Analysis completed with limited AI functionality'],
-        improvements: ['AI scoring temporarily unavailable - using rule-based analysis']
-      };
-    }
+// A promise's outcome without throwing, like one entry of Promise.allSettled
+function settle<T>(promise: Promise<T>): Promise<PromiseSettledResult<T>> {
+  return promise.then(
+    value => ({ status: 'fulfilled', value }),
+    reason => ({ status: 'rejected', reason })
+  );
+}
 
-    // Create unified response
-    const unifiedResponse = {
-      // Rule-based highlighting data
-      analysisResult,
-      summary,
-      ranges,
-      // Gemma AI scoring data
-      metrics,
-      // Unified metadata
-      metadata: {
-        model: 'groq-gemma-dual-system',
-        systems: {
-          highlighting: highlightingResult.status === 'fulfilled' ? 'groq-gemma-rule-based' : 'fallback',
-          scoring: scoringResult.status === 'fulfilled' ? 'groq-gemma-2-9b-it' : 'fallback'
-        },
-        timestamp: new Date().toISOString(),
-        processingTime: Date.now() - startTime,
-        cached: false,
-        systemHealth: {
-          ruleBased: highlightingResult.status === 'fulfilled',
-          gemmaAI: scoringResult.status === 'fulfilled'
-        }
-      }
+function planAnalysis(body: AnalysisRequestBody): AnalysisPlan {
+  const { content, context, workspaceId, subject } = body;
+
+  // Team rubric for the overall grade (the built-in one when none is named)
+  const rubric = resolveRubric(workspaceId, body.rubric);
+
+  // Optional subject line for the spam model's subject rules
+  if (subject !== undefined && (typeof subject !== 'string' || subject.length > 500)) {
+    throw new ValidationError('subject must be a string of at most 500 characters', { subject: typeof subject });
+  }
+
+  // Requested language, or the one detected from the content
+  const language = resolveContentLanguage(body.language, content);
+
+  // Workspace packs first, then packs sent with this request (validated on load);
+  // packs scoped to another language are left out
+  const rulePacks = packsForLanguage([
+    ...loadWorkspaceRulePacks(workspaceId),
+    ...parseRequestRulePacks(body.rulePacks)
+  ], language.code);
+  // Per-request option overrides; the shared tagger is never mutated
+  const taggerOptions = parseRequestTaggerOptions(body.options);
+  const tagger = contentTagger
+    .forLanguage(language.code)
+    .withRulePacks(rulePacks)
+    .withOptions(taggerOptions);
+  const hasTaggerOptions = Object.keys(taggerOptions).length > 0;
+
+  console.log(`🔍 Starting unified dual-system analysis (${content.length} characters, ${language.name}, ${rulePacks.length} rule packs${hasTaggerOptions ? ', custom options' : ''})...`);
+
+  const customRubric = rubric.id !== DEFAULT_RUBRIC.id;
+  const cacheKey = rulePacks.length || hasTaggerOptions || language.source === 'request' || subject || customRubric
+    ? `${content}\u0000${language.code}\u0000${JSON.stringify(rulePacks)}\u0000${JSON.stringify(taggerOptions)}\u0000${subject ?? ''}\u0000${customRubric ? JSON.stringify(rubric) : ''}`
+    : content;
+
+  return { content, context, subject, language, rulePacks, taggerOptions, tagger, rubric, cacheKey };
+}
+
+// Gemma AI (or the next configured LLM provider) for comprehensive scoring and analysis,
+// behind the scoring breaker: while it is open this rejects at once and the offline scorer takes over
+function scoreAnalysis(plan: AnalysisPlan, signal?: AbortSignal): Promise<NewsletterAnalysis> {
+  return circuitBreakers.scoring.execute(() => withRetry(
+    async () => gemmaAPIService.analyzeNewsletter(plan.content, plan.context, plan.language.code, signal),
+    { ...RETRY_CONFIGS.AI_MODEL, maxRetries: 2 }
+  ), signal);
+}
+
+// Rule-based highlighting system for immediate visual feedback
+async function highlightAnalysis(plan: AnalysisPlan, signal?: AbortSignal) {
+  const { content, tagger, subject } = plan;
+  const highlightingResult = await settle(withRetry(
+    async () => tagger.analyzeNewsletter(content, { signal }),
+    { ...RETRY_CONFIGS.AI_MODEL, maxRetries: 1 }
+  ));
+
+  // Process rule-based highlighting results
+  let analysisResult: any, summary: any, ranges: any[] = [];
+  if (highlightingResult.status === 'fulfilled') {
+    analysisResult = highlightingResult.value;
+    summary = tagger.getAnalysisSummary(analysisResult);
+    ranges = tagger.extractHighlightRanges(content, analysisResult);
+    console.log('✅ Rule-based highlighting completed successfully');
+  } else {
+    console.warn('⚠️ Rule-based highlighting failed:', highlightingResult.reason);
+    // Provide fallback highlighting
+    analysisResult = { annotated: content, report: { perSentence: [], global: { wordCount: content.split(/\s+/).length } } };
+    summary = { score: 75, grade: 'C', issueCounts: { high: 0, medium: 0, low: 0, info: 0 } };
+    ranges = [];
+  }
+
+  // Deterministic HTML checks; the spam model counts them as rules
+  const deliverability = analysisResult.report?.deliverability ?? null;
+
+  // Weighted spam model: metrics.spamRisk is its score, explained by the fired rules
+  const spam: SpamReport = scoreSpamRisk(content, {
+    subject,
+    spamWords: tagger.getOptions().spamWords,
+    linkAudit: analysisResult.report?.links,
+    deliverability: deliverability ?? undefined
+  });
+
+  // ok is false when the tagger failed and the payload is a placeholder
+  return { ok: highlightingResult.status === 'fulfilled', analysisResult, summary, ranges, deliverability, spam };
+}
+
+// The highlighting fields of the unified response, also the first event of the stream
+function highlightingPayload({ analysisResult, summary, ranges, deliverability, spam }: AnalysisHighlights) {
+  return {
+    // Rule-based highlighting data
+    analysisResult,
+    summary,
+    ranges,
+    // Link audit (its findings are also in ranges as link_issue)
+    links: analysisResult.report?.links ?? null,
+    // Deliverability inspection (its findings are rules of the spam model)
+    deliverability,
+    // Weighted spam model; metrics.spamRisk is spam.spamRisk
+    spam,
+    // Accessibility audit (located findings are also in ranges as accessibility)
+    accessibility: analysisResult.report?.accessibility ?? null,
+    // Merge tags the prose checks skipped (findings are also in ranges as merge_tag)
+    mergeTags: analysisResult.report?.mergeTags ?? null
+  };
+}
+
+// Combine both systems into the unified /api/analyze response
+function completeAnalysis(
+  plan: AnalysisPlan,
+  highlights: AnalysisHighlights,
+  scoringResult: PromiseSettledResult<NewsletterAnalysis>,
+  startTime: number
+) {
+  const { content, rubric, rulePacks, taggerOptions, language } = plan;
+  const { summary, spam } = highlights;
+
+  // Process Gemma AI scoring results
+  let metrics;
+  let localScore: LocalScore | null = null;
+  // Fields Gemma never returned validly: their values are stand-ins, kept out of the grade
+  let scoreUnavailable: string[] = [];
+  if (scoringResult.status === 'fulfilled') {
+    const analysis = scoringResult.value;
+    // Spam risk comes from the spam model, whatever Gemma returned
+    scoreUnavailable = (analysis.defaulted ?? []).filter(field => field !== 'spamRisk');
+    const wordCount = content.split(/\s+/).filter((word: string) => word.length > 0).length;
+    const readingTime = Math.ceil(wordCount / 200);
+
+    metrics = {
+      overallGrade: calculateOverallGrade(analysis.audienceFit, analysis.tone, analysis.clarity, analysis.engagement, spam.spamRisk),
+      audienceFit: analysis.audienceFit,
+      tone: analysis.tone,
+      clarity: analysis.clarity,
+      engagement: analysis.engagement,
+      spamRisk: spam.spamRisk,
+      wordCount,
+      readingTime,
+      summary: analysis.summary,
+      improvements: analysis.improvements
     };
+    console.log('✅ Gemma AI scoring completed successfully');
+  } else {
+    console.warn('⚠️ Gemma AI scoring failed:', scoringResult.reason);
+    // Deterministic scores from the rule-based report (see local-scorer.ts for the formulas)
+    const wordCount = content.split(/\s+/).filter((word: string) => word.length > 0).length;
+    localScore = scoreNewsletterLocally(highlights.analysisResult, { spam });
+    // Without a rule-based report only spam risk can be scored; the rest are stand-ins
+    scoreUnavailable = localScore.unavailable;
+    metrics = {
+      overallGrade: localScore.overallGrade,
+      audienceFit: localScore.audienceFit,
+      tone: localScore.tone,
+      clarity: localScore.clarity,
+      engagement: localScore.engagement,
+      spamRisk: localScore.spamRisk,
+      wordCount,
+      readingTime: Math.ceil(wordCount / 200),
+      summary: localScore.summary,
+      improvements: localScore.improvements
+    };
+  }
 
-    // Cache the result for future requests
-    analysisCache.set(content, unifiedResponse);
+  // One grade for both systems: the rubric weighs the AI (or offline) scores
+  // together with the rule-based writing score, so summary.grade and
+  // metrics.overallGrade agree; summary.score stays the writing score
+  const available = (field: string, score: number) => (scoreUnavailable.includes(field) ? undefined : score);
+  const grading = gradeNewsletter({
+    audienceFit: available('audienceFit', metrics.audienceFit),
+    tone: available('tone', metrics.tone),
+    clarity: available('clarity', metrics.clarity),
+    engagement: available('engagement', metrics.engagement),
+    spamRisk: metrics.spamRisk,
+    writingIssues: highlights.ok
+      ? writingIssuesScore(summary.issueCounts, summary.metrics.wordCount, rubric)
+      : undefined
+  }, rubric);
+  metrics.overallGrade = grading.grade;
+  summary.grade = grading.grade;
+
+  // Create unified response
+  return {
+    ...highlightingPayload(highlights),
+    // Gemma AI scoring data
+    metrics,
+    // How each dimension moved the overall grade
+    grading,
+    // Unified metadata
+    metadata: {
+      model: 'groq-gemma-dual-system',
+      systems: {
+        highlighting: highlights.ok ? 'groq-gemma-rule-based' : 'fallback',
+        scoring: scoringResult.status === 'fulfilled'
+          ? `${scoringResult.value.provider}/${scoringResult.value.model}`
+          : 'fallback'
+      },
+      timestamp: new Date().toISOString(),
+      processingTime: Date.now() - startTime,
+      cached: false,
+      rulePacks: rulePacks.map(pack => ({ name: pack.name, version: pack.version })),
+      options: taggerOptions,
+      language,
+      // How each fallback score was computed, when Gemma was unavailable
+      ...(localScore ? { scoreBreakdown: localScore.breakdown } : {}),
+      // Metrics fields holding a default because Gemma's reply never validated
+      scoreUnavailable,
+      systemHealth: {
+        ruleBased: highlights.ok,
+        gemmaAI: scoringResult.status === 'fulfilled',
+        circuitBreakers: aiBreakerStates()
+      }
+    }
+  };
+}
+
+// Cached analysis with this request's timing, or null
+function cachedAnalysis(plan: AnalysisPlan, startTime: number) {
+  const cachedResult = analysisCache.get(plan.cacheKey);
+  if (!cachedResult) return null;
+  console.log('💾 Returning cached analysis result');
+  // Update processing time for cached result
+  cachedResult.metadata.processingTime = Date.now() - startTime;
+  cachedResult.metadata.cached = true;
+  return cachedResult;
+}
+
+/**
+ * The unified analysis for a plan, from the cache when possible. Both
+ * systems run in parallel; onHighlights gets the rule-based half as soon as
+ * it is ready, while scoring is still running.
+ */
+async function runAnalysis(
+  plan: AnalysisPlan,
+  startTime: number,
+  onHighlights?: (payload: ReturnType<typeof highlightingPayload>) => void,
+  signal?: AbortSignal
+) {
+  // Check cache first for performance optimization
+  const cachedResult = cachedAnalysis(plan, startTime);
+  if (cachedResult) {
+    onHighlights?.(highlightingPayload({ ok: cachedResult.metadata.systemHealth.ruleBased, ...cachedResult }));
+    return cachedResult;
+  }
+
+  // Scoring starts at once and runs while the highlights are worked out
+  const scoring = settle(scoreAnalysis(plan, signal));
+  const highlights = await highlightAnalysis(plan, signal);
+  // Once cancelled, the fallbacks the aborts led to are neither returned nor cached
+  signal?.throwIfAborted();
+  onHighlights?.(highlightingPayload(highlights));
+
+  const scoringResult = await scoring;
+  signal?.throwIfAborted();
+  const unifiedResponse = completeAnalysis(plan, highlights, scoringResult, startTime);
+
+  // Cache the result for future requests
+  analysisCache.set(plan.cacheKey, unifiedResponse);
+  return unifiedResponse;
+}
+
+// Unified newsletter analysis endpoint with dual-system approach
+app.post('/api/analyze', aiRateLimit, validateRequest(['content']), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const startTime = requestStartTime(req);
+    const plan = planAnalysis(req.body);
 
     // Return unified response
-    res.json(unifiedResponse);
+    res.json(await runAnalysis(plan, startTime));
 
     console.log(`🎉 Unified dual-system analysis completed in ${Date.now() - startTime}ms`);
   } catch (error) {
@@ -751,6 +1022,43 @@ app.post('/api/analyze', aiRateLimit, validateRequest(['content']), async (req:
   }
 });
 
+/**
+ * Streaming variant of /api/analyze, as server-sent events, so the
+ * rule-based highlights are not held back by the scoring model:
+ *   highlights  { analysisResult, summary, ranges, links, deliverability, spam, accessibility, mergeTags }
+ *   metrics     { metrics, grading } once scoring completes (summary.grade is then grading.grade)
+ *   done        the full /api/analyze response
+ *   error       { message }
+ */
+app.post('/api/analyze/stream', aiRateLimit, validateRequest(['content']), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const startTime = requestStartTime(req);
+  let plan: AnalysisPlan;
+  try {
+    plan = planAnalysis(req.body);
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  const { send, close, signal } = openEventStream(res);
+  try {
+    const unifiedResponse = await runAnalysis(plan, startTime, payload => send('highlights', payload), signal);
+
+    send('metrics', { metrics: unifiedResponse.metrics, grading: unifiedResponse.grading });
+    send('done', unifiedResponse);
+    console.log(`🎉 Streamed dual-system analysis completed in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    if (signal.aborted) {
+      console.log('🛑 Streaming analysis closed by the client');
+    } else {
+      console.error('❌ Streaming analysis failed:', error);
+      send('error', { message: error instanceof Error ? error.message : 'Analysis failed' });
+    }
+  } finally {
+    close();
+  }
+});
+
 // Legacy newsletter analysis endpoint (backward compatibility)
 app.post('/api/newsletter/analyze', aiRateLimit, validateRequest(['message']), async (req: Request<{}, {}, AnalyzeRequest>, res: Response, next: NextFunction) => {
   try {
@@ -780,67 +1088,139 @@ app.post('/api/newsletter/analyze', aiRateLimit, validateRequest(['message']), a
 });
 
 // Newsletter comprehensive analysis endpoint with Gemma API scoring
+// Scores for /api/newsletter/score and score jobs
+async function scoreNewsletter(
+  content: string,
+  language: ReturnType<typeof resolveContentLanguage>,
+  startTime: number,
+  signal?: AbortSignal
+) {
+  console.log(`🎯 Scoring newsletter content (${content.length} characters, ${language.name}) - using Groq Gemma API`);
+
+  // No offline fallback here: an open breaker answers 503 without calling the model
+  const analysis = await circuitBreakers.scoring.execute(() => withRetry(
+    async () => gemmaAPIService.analyzeNewsletter(content, undefined, language.code, signal),
+    { ...RETRY_CONFIGS.AI_MODEL, maxRetries: 2 }
+  ), signal);
+
+  // Spam risk comes from the weighted spam model, as in /api/analyze
+  const spam = scoreSpamRisk(content, { spamWords: contentTagger.forLanguage(language.code).getOptions().spamWords });
+
+  // Calculate additional metrics
+  const wordCount = content.split(/\s+/).filter((word: string) => word.length > 0).length;
+  const readingTime = Math.ceil(wordCount / 200); // Average reading speed
+
+  return {
+    metrics: {
+      overallGrade: calculateOverallGrade(analysis.audienceFit, analysis.tone, analysis.clarity, analysis.engagement, spam.spamRisk),
+      audienceFit: analysis.audienceFit,
+      tone: analysis.tone,
+      clarity: analysis.clarity,
+      engagement: analysis.engagement,
+      spamRisk: spam.spamRisk,
+      wordCount,
+      readingTime,
+      summary: analysis.summary,
+      improvements: analysis.improvements
+    },
+    // The fired rules behind metrics.spamRisk
+    spam,
+    metadata: {
+      model: analysis.model ?? 'groq-gemma-2-9b-it',
+      provider: analysis.provider,
+      timestamp: new Date().toISOString(),
+      processingTime: Date.now() - startTime,
+      language,
+      // Metrics fields holding a default because the reply never validated
+      scoreUnavailable: (analysis.defaulted ?? []).filter(field => field !== 'spamRisk')
+    }
+  };
+}
+
 app.post('/api/newsletter/score', aiRateLimit, validateRequest(['content']), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { content } = req.body;
+    const language = resolveContentLanguage(req.body.language, content);
+    res.json(await scoreNewsletter(content, language, requestStartTime(req)));
+  } catch (error) {
+    console.error('Gemma scoring failed:', error);
+    next(error);
+  }
+});
 
-    console.log(`🎯 Scoring newsletter content (${content.length} characters) - using Groq Gemma API`);
+// Subject line and preheader scoring (rule-based, no AI call)
+app.post('/api/newsletter/subject', generalRateLimit, validateRequest(['subject']), (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { subject, preheader, content } = req.body;
 
-    const analysis = await withRetry(
-      async () => gemmaAPIService.analyzeNewsletter(content),
-      { ...RETRY_CONFIGS.AI_MODEL, maxRetries: 2 }
-    );
+    if (typeof subject !== 'string' || (preheader !== undefined && typeof preheader !== 'string') || (content !== undefined && typeof content !== 'string')) {
+      throw new ValidationError('subject, preheader and content must be strings', { subject: typeof subject, preheader: typeof preheader });
+    }
+    if (subject.length > 500 || (preheader?.length ?? 0) > 500) {
+      throw new ValidationError('Subject and preheader are limited to 500 characters each', {
+        subjectLength: subject.length,
+        preheaderLength: preheader?.length ?? 0
+      });
+    }
 
-    // Calculate additional metrics
-    const wordCount = content.split(/\s+/).filter((word: string) => word.length > 0).length;
-    const readingTime = Math.ceil(wordCount / 200); // Average reading speed
+    const language = resolveContentLanguage(req.body.language, content?.trim() ? content : `${subject} ${preheader ?? ''}`);
+    const report = analyzeSubjectLine({ subject, preheader, content, language: language.code });
 
     res.json({
-      metrics: {
-        overallGrade: analysis.overallGrade,
-        audienceFit: analysis.audienceFit,
-        tone: analysis.tone,
-        clarity: analysis.clarity,
-        engagement: analysis.engagement,
-        spamRisk: analysis.spamRisk,
-        wordCount,
-        readingTime,
-        summary: analysis.summary,
-        improvements: analysis.improvements
-      },
+      ...report,
       metadata: {
-        model: 'groq-gemma-2-9b-it',
+        model: 'rule-based',
         timestamp: new Date().toISOString(),
-        processingTime: Date.now() - ((req as any).startTime || Date.now())
+        processingTime: Date.now() - ((req as any).startTime || Date.now()),
+        language
       }
     });
   } catch (error) {
-    console.error('Gemma scoring failed:', error);
     next(error);
   }
 });
 
-// GMMeditor newsletter improvement endpoint (replaces old /api/fix)
-app.post('/api/newsletter/improve', aiRateLimit, validateRequest(['originalText']), async (req: Request<{}, {}, GMMeditorRequest>, res: Response, next: NextFunction) => {
-  try {
-    const { originalText, toneKey = 'friendly', analysis = {}, suggestions = [], options = {} } = req.body;
-    const startTime = Date.now();
+// Streaming hooks for the rewrite (see rewriteWithLlama31)
+interface RewriteStream {
+  onDelta?: (text: string) => void;
+  onReset?: () => void;
+  signal?: AbortSignal;
+}
 
-    console.log(`🔧 [DEBUG] Improving newsletter content with GMMeditor`);
-    console.log(`📝 [DEBUG] Original text length: ${originalText.length} characters`);
-    console.log(`🎨 [DEBUG] Tone: ${toneKey}`);
-    console.log(`📊 [DEBUG] Analysis data:`, analysis);
-    console.log(`💡 [DEBUG] Suggestions:`, suggestions);
+/**
+ * Rewrite a draft for /api/newsletter/improve and its streaming variant.
+ * Falls back to Grade My Mail's rule-based edits when the rewrite fails,
+ * unless the request was cancelled.
+ */
+async function improveNewsletter(
+  body: GMMeditorRequest,
+  language: ReturnType<typeof resolveContentLanguage>,
+  stream: RewriteStream = {}
+): Promise<GMMeditorResponse> {
+  const { originalText, toneKey = 'friendly', analysis = {}, suggestions = [], options = {} } = body;
+  const startTime = Date.now();
+
+  console.log(`🔧 [DEBUG] Improving newsletter content with GMMeditor${stream.onDelta ? ' (streaming)' : ''}`);
+  console.log(`📝 [DEBUG] Original text length: ${originalText.length} characters`);
+  console.log(`🎨 [DEBUG] Tone: ${toneKey}`);
+  console.log(`🌐 [DEBUG] Language: ${language.name} (${language.source})`);
+  console.log(`📊 [DEBUG] Analysis data:`, analysis);
+  console.log(`💡 [DEBUG] Suggestions:`, suggestions);
 
-    try {
-      // Use GMMeditor's rewriteWithLlama31 function
-      console.log(`🚀 [DEBUG] Calling rewriteWithLlama31...`);
-      const result = await withRetry(
-        async () => rewriteWithLlama31({
+  try {
+    // Use GMMeditor's rewriteWithLlama31 function
+    console.log(`🚀 [DEBUG] Calling rewriteWithLlama31...`);
+    // While the rewriting breaker is open this throws at once and the fallback below runs
+    const result = await circuitBreakers.rewriting.execute(() => withRetry(
+      async () => {
+        // A retry starts the draft over
+        stream.onReset?.();
+        return rewriteWithLlama31({
           originalText,
           analysis,
           suggestions,
           toneKey,
+          language: language.code,
           options: {
             model: 'llama-3.1-8b-instant',
             temperature: 0.65,
@@ -848,45 +1228,124 @@ app.post('/api/newsletter/improve', aiRateLimit, validateRequest(['originalText'
             targetGradeLow: 6,
             targetGradeHigh: 9,
             ...options
-          }
-        }),
-        { ...RETRY_CONFIGS.AI_MODEL, maxRetries: 2 }
-      );
+          },
+          llm: llmRouter,
+          ...stream
+        });
+      },
+      { ...RETRY_CONFIGS.AI_MODEL, maxRetries: 2 }
+    ), stream.signal);
 
-      const processingTime = Date.now() - startTime;
-
-      const response: GMMeditorResponse = {
-        rewritten: result.rewritten,
-        mappings: result.mappings,
-        metadata: {
-          model: 'llama-3.1-8b-instant',
-          processingTime,
-          toneUsed: toneKey,
-          originalLength: originalText.length,
-          rewrittenLength: result.rewritten.length
-        }
-      };
+    const processingTime = Date.now() - startTime;
 
-      console.log(`✅ [DEBUG] GMMeditor improvement completed in ${processingTime}ms`);
-      console.log(`📤 [DEBUG] Sending response:`, {
-        rewrittenLength: response.rewritten.length,
-        mappingsCount: response.mappings.length,
-        metadata: response.metadata
-      });
-      res.json(response);
+    const response: GMMeditorResponse = {
+      rewritten: result.rewritten,
+      mappings: result.mappings,
+      metadata: {
+        model: result.model,
+        provider: result.provider,
+        processingTime,
+        toneUsed: toneKey,
+        originalLength: originalText.length,
+        rewrittenLength: result.rewritten.length,
+        language: language.code,
+        mergeTags: result.mergeTags,
+        systemHealth: { circuitBreakers: aiBreakerStates() }
+      }
+    };
+
+    console.log(`✅ [DEBUG] GMMeditor improvement completed in ${processingTime}ms`);
+    console.log(`📤 [DEBUG] Sending response:`, {
+      rewrittenLength: response.rewritten.length,
+      mappingsCount: response.mappings.length,
+      metadata: response.metadata
+    });
+    return response;
+
+  } catch (gmmError) {
+    if (stream.signal?.aborted) throw gmmError;
+    console.warn('⚠️ GMMeditor failed, using Grade My Mail intelligent fallback:', gmmError);
+    stream.onReset?.();
+
+    // Fallback to Grade My Mail's intelligent analysis (not mock)
+    const fallbackResult = await gradeMyMailIntelligentFallback(originalText, language.code);
+    fallbackResult.metadata.processingTime = Date.now() - startTime;
+    fallbackResult.metadata.systemHealth = { circuitBreakers: aiBreakerStates() };
+    return fallbackResult;
+  }
+}
 
-    } catch (gmmError) {
-      console.warn('⚠️ GMMeditor failed, using Grade My Mail intelligent fallback:', gmmError);
+// GMMeditor newsletter improvement endpoint (replaces old /api/fix)
+app.post('/api/newsletter/improve', aiRateLimit, validateRequest(['originalText']), async (req: Request<{}, {}, GMMeditorRequest>, res: Response, next: NextFunction) => {
+  try {
+    const language = resolveContentLanguage(req.body.language, req.body.originalText);
+    res.json(await improveNewsletter(req.body, language));
+  } catch (error) {
+    console.error('❌ Newsletter improvement failed:', error);
+    next(error);
+  }
+});
 
-      // Fallback to Grade My Mail's intelligent analysis (not mock)
-      const fallbackResult = await gradeMyMailIntelligentFallback(originalText);
-      fallbackResult.metadata.processingTime = Date.now() - startTime;
+/**
+ * Streaming variant of /api/newsletter/improve, as server-sent events:
+ *   start  { language, toneUsed }
+ *   delta  { text }      the next piece of the rewrite
+ *   reset  {}            drop the text so far; the rewrite starts over
+ *   done   GMMeditorResponse, with the mappings for the diff view
+ *   error  { message }
+ * Closing the connection cancels the rewrite.
+ */
+app.post('/api/newsletter/improve/stream', aiRateLimit, validateRequest(['originalText']), async (req: Request<Record<string, never>, unknown, GMMeditorRequest>, res: Response, next: NextFunction) => {
+  let language: ReturnType<typeof resolveContentLanguage>;
+  try {
+    language = resolveContentLanguage(req.body.language, req.body.originalText);
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  const { send, close, signal } = openEventStream(res);
 
-      res.json(fallbackResult);
+  // Only tell the client to reset when it has text to drop
+  let streamed = false;
+  try {
+    send('start', { language: language.code, toneUsed: req.body.toneKey ?? 'friendly' });
+    const response = await improveNewsletter(req.body, language, {
+      onDelta: text => {
+        streamed = true;
+        send('delta', { text });
+      },
+      onReset: () => {
+        if (!streamed) return;
+        streamed = false;
+        send('reset', {});
+      },
+      signal
+    });
+    send('done', response);
+  } catch (error) {
+    if (signal.aborted) {
+      console.log('🛑 Streaming rewrite cancelled by the client');
+    } else {
+      console.error('❌ Streaming newsletter improvement failed:', error);
+      send('error', { message: error instanceof Error ? error.message : 'Newsletter improvement failed' });
     }
+  } finally {
+    close();
+  }
+});
 
+// Grading rubrics a workspace can select with the `rubric` field of /api/analyze
+app.get('/api/rubrics', generalRateLimit, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      rubrics: listRubrics(req.query.workspaceId),
+      default: DEFAULT_RUBRIC.id,
+      metadata: {
+        timestamp: new Date().toISOString()
+      }
+    });
   } catch (error) {
-    console.error('❌ Newsletter improvement failed:', error);
     next(error);
   }
 });
@@ -934,6 +1393,118 @@ app.post('/api/analyze-legacy', aiRateLimit, validateRequest(['message']), async
 
 
 
+// Background jobs: analyses and rewrites that would outlive an HTTP request.
+// JOB_CONCURRENCY bounds how many run at once; finished jobs are kept for
+// JOB_TTL_MS; JOB_STORE=database also writes job records to the database manager
+const jobQueue = new JobQueue({
+  concurrency: parseInt(process.env.JOB_CONCURRENCY || '2', 10),
+  ttlMs: parseInt(process.env.JOB_TTL_MS || String(DATA_TTL), 10),
+  store: process.env.JOB_STORE === 'database' ? databaseManager : null
+});
+if (process.env.JOB_STORE === 'database') {
+  void databaseManager.connect();
+}
+
+// Body fields each job type needs in `input`, as for its synchronous endpoint
+const JOB_REQUIRED_FIELDS: Record<JobType, string[]> = {
+  analyze: ['content'],
+  score: ['content'],
+  improve: ['originalText']
+};
+
+// What POST /api/jobs submits for each job type
+interface ScoreJobInput {
+  content: string;
+  language: ReturnType<typeof resolveContentLanguage>;
+}
+
+interface ImproveJobInput {
+  body: GMMeditorRequest;
+  language: ReturnType<typeof resolveContentLanguage>;
+}
+
+// Inputs are resolved when the job is submitted, so bad requests fail with a 400 rather than a failed job
+jobQueue
+  .register('analyze', async (input, { progress, signal }) => {
+    progress(10, 'Highlighting');
+    return runAnalysis(input as AnalysisPlan, Date.now(), () => progress(50, 'Scoring'), signal);
+  })
+  .register('score', async (input, { progress, signal }) => {
+    const { content, language } = input as ScoreJobInput;
+    progress(10, 'Scoring');
+    return scoreNewsletter(content, language, Date.now(), signal);
+  })
+  .register('improve', async (input, { progress, signal }) => {
+    const { body, language } = input as ImproveJobInput;
+    // The rewrite is about as long as the original, so its length so far is the progress
+    let written = 0;
+    progress(5, 'Rewriting');
+    return improveNewsletter(body, language, {
+      onDelta: text => {
+        written += text.length;
+        progress(5 + 90 * Math.min(1, written / body.originalText.length));
+      },
+      onReset: () => {
+        written = 0;
+      },
+      signal
+    });
+  });
+
+/**
+ * Submit a job: { type: 'analyze' | 'score' | 'improve', input } where input
+ * is the body of /api/analyze, /api/newsletter/score or
+ * /api/newsletter/improve. Answers 202 with the job; poll GET /api/jobs/:id.
+ */
+app.post('/api/jobs', aiRateLimit, validateRequest(['type', 'input']), (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { type, input } = req.body;
+    if (!jobQueue.supports(type)) {
+      throw new ValidationError(`Unknown job type. Expected one of: ${Object.keys(JOB_REQUIRED_FIELDS).join(', ')}`, { type });
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      throw new ValidationError('input must be an object', { input: typeof input });
+    }
+    checkRequestBody(input, JOB_REQUIRED_FIELDS[type], `${req.path} (${type})`);
+
+    const job = type === 'analyze'
+      ? jobQueue.submit(type, planAnalysis(input))
+      : type === 'score'
+        ? jobQueue.submit(type, { content: input.content, language: resolveContentLanguage(input.language, input.content) } satisfies ScoreJobInput)
+        : jobQueue.submit(type, { body: input, language: resolveContentLanguage(input.language, input.originalText) } satisfies ImproveJobInput);
+
+    res.status(202).location(`/api/jobs/${job.id}`).json({ job });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Job status, progress and, once completed, result
+app.get('/api/jobs/:id', generalRateLimit, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const job = await jobQueue.get(String(req.params.id));
+    if (!job) {
+      throw new NotFoundError('Job not found or has expired', { jobId: req.params.id });
+    }
+    res.json({ job });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Cancel a queued or running job; finished jobs are returned unchanged
+app.delete('/api/jobs/:id', generalRateLimit, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const job = jobQueue.cancel(String(req.params.id));
+    if (!job) {
+      throw new NotFoundError('Job not found, has expired or runs on another server', { jobId: req.params.id });
+    }
+    res.json({ job });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Data storage endpoints
 app.post('/api/store', validateRequest(['payload']), async (req: Request<{}, {}, StoreRequest>, res: Response, next: NextFunction) => {
   try {
@@ -1057,22 +1628,28 @@ app.post('/api/monitoring', generalRateLimit, (req: Request, res: Response, next
 // Global error handler
 app.use(errorHandler);
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔗 API server available at: http://localhost:${PORT}`);
-  console.log(`🌐 Frontend should be running on: http://localhost:5173`);
-  console.log(`🔧 GMMeditor system active with Grade My Mail fallback`);
-});
+// Start server (tests import the app and listen on their own port)
+if (process.env.NODE_ENV !== 'test') {
+  app.listen(PORT, () => {
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
+    console.log(`🔗 API server available at: http://localhost:${PORT}`);
+    console.log(`🌐 Frontend should be running on: http://localhost:5173`);
+    console.log(`🔧 GMMeditor system active with Grade My Mail fallback`);
+  });
+}
+
+export { app };
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('🛑 SIGTERM received, shutting down gracefully...');
+  jobQueue.shutdown();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('🛑 SIGINT received, shutting down gracefully...');
+  jobQueue.shutdown();
   process.exit(0);
 });
\ No newline at end of file
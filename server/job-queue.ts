@@ -0,0 +1,267 @@
+import { v4 as uuidv4 } from 'uuid';
+import { classifyError } from './error-handler.js';
+
+/**
+ * In-process job queue for analyses and rewrites that may outlive an HTTP
+ * request. Jobs run in submission order, at most `concurrency` at a time;
+ * finished jobs are kept for `ttlMs` and then swept. With a store the job
+ * records (not their inputs) are also written through to it, so status
+ * lookups keep working for other server instances and across restarts.
+ */
+
+export type JobType = 'analyze' | 'score' | 'improve';
+// Same statuses as GMMeditorService.getProcessingStatus on the client, plus cancelled
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  /** 0–100 */
+  progress: number;
+  message?: string;
+  result?: unknown;
+  error?: { type: string; message: string; retryable: boolean };
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** When a finished job is swept; unset while it is queued or running */
+  expiresAt?: string;
+}
+
+export interface JobContext {
+  /** Aborted when the job is cancelled */
+  signal: AbortSignal;
+  /** Report progress (0–100) with an optional status message */
+  progress: (percent: number, message?: string) => void;
+}
+
+// Inputs are whatever was submitted for the type; handlers narrow them
+export type JobHandler = (input: unknown, context: JobContext) => Promise<unknown>;
+
+// Key-value store with TTL, as provided by the database manager
+export interface JobStore {
+  set(key: string, value: unknown, ttl?: number): Promise<unknown>;
+  get(key: string): Promise<unknown>;
+}
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  ttlMs?: number;
+  store?: JobStore | null;
+  cleanupIntervalMs?: number;
+}
+
+interface QueuedJob {
+  job: Job;
+  input: unknown;
+  abort: AbortController;
+}
+
+const FINISHED: JobStatus[] = ['completed', 'failed', 'cancelled'];
+const STORE_PREFIX = 'job:';
+
+export class JobQueue {
+  private jobs = new Map<string, QueuedJob>();
+  private waiting: string[] = [];
+  private running = 0;
+  private handlers = new Map<JobType, JobHandler>();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  readonly concurrency: number;
+  readonly ttlMs: number;
+  private readonly store: JobStore | null;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.ttlMs = options.ttlMs ?? 30 * 60 * 1000; // 30 minutes
+    this.store = options.store ?? null;
+
+    const cleanupIntervalMs = options.cleanupIntervalMs ?? 60 * 1000;
+    if (cleanupIntervalMs > 0) {
+      this.cleanupTimer = setInterval(() => this.cleanup(), cleanupIntervalMs);
+      // Never keep the process alive just to sweep jobs
+      this.cleanupTimer.unref();
+    }
+  }
+
+  register(type: JobType, handler: JobHandler): this {
+    this.handlers.set(type, handler);
+    return this;
+  }
+
+  supports(type: unknown): type is JobType {
+    return typeof type === 'string' && this.handlers.has(type as JobType);
+  }
+
+  /**
+   * Queue a job and return its record straight away; the handler runs once
+   * a slot is free.
+   */
+  submit(type: JobType, input: unknown): Job {
+    if (!this.supports(type)) {
+      throw new Error(`No handler registered for job type ${type}`);
+    }
+
+    const job: Job = {
+      id: uuidv4(),
+      type,
+      status: 'pending',
+      progress: 0,
+      message: 'Queued',
+      createdAt: new Date().toISOString()
+    };
+    this.jobs.set(job.id, { job, input, abort: new AbortController() });
+    this.waiting.push(job.id);
+    this.persist(job);
+
+    console.log(`📥 Job ${job.id} (${type}) queued (${this.waiting.length} waiting, ${this.running} running)`);
+    this.pump();
+    return { ...job };
+  }
+
+  /**
+   * A job by id: this process's copy, or the store's for jobs queued
+   * elsewhere. Null when unknown or swept.
+   */
+  async get(id: string): Promise<Job | null> {
+    const entry = this.jobs.get(id);
+    if (entry) return { ...entry.job };
+    if (!this.store) return null;
+
+    try {
+      return (await this.store.get(STORE_PREFIX + id) as Job | null) ?? null;
+    } catch (error) {
+      console.warn(`⚠️ Job store lookup failed for ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a queued or running job. A running handler is sent an abort and
+   * whatever it returns afterwards is dropped; it keeps its slot until it
+   * settles, so cancelling never lets more than `concurrency` handlers run.
+   * Finished jobs are returned unchanged; null when the job is not in this
+   * process.
+   */
+  cancel(id: string): Job | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+    if (FINISHED.includes(entry.job.status)) return { ...entry.job };
+
+    const wasRunning = entry.job.status === 'processing';
+    this.waiting = this.waiting.filter(waitingId => waitingId !== id);
+    entry.abort.abort();
+    this.finish(entry, { status: 'cancelled', message: 'Cancelled' });
+
+    console.log(`🛑 Job ${id} cancelled${wasRunning ? ' while running' : ''}`);
+    return { ...entry.job };
+  }
+
+  // Sweep finished jobs past their TTL (the store expires its copies itself)
+  cleanup(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [id, { job }] of this.jobs) {
+      if (job.expiresAt && Date.parse(job.expiresAt) <= now) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      console.log(`🧹 Swept ${removed} expired jobs`);
+    }
+    return removed;
+  }
+
+  getStats() {
+    const byStatus: Record<JobStatus, number> = { pending: 0, processing: 0, completed: 0, failed: 0, cancelled: 0 };
+    for (const { job } of this.jobs.values()) {
+      byStatus[job.status]++;
+    }
+    return {
+      concurrency: this.concurrency,
+      ttlMs: this.ttlMs,
+      persistent: this.store !== null,
+      jobs: byStatus
+    };
+  }
+
+  // Stop the cleanup timer and cancel everything still queued or running
+  shutdown(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    for (const [id, { job }] of this.jobs) {
+      if (!FINISHED.includes(job.status)) this.cancel(id);
+    }
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      const entry = this.jobs.get(this.waiting.shift()!);
+      if (entry) void this.run(entry);
+    }
+  }
+
+  private async run(entry: QueuedJob): Promise<void> {
+    const { job, input, abort } = entry;
+    const handler = this.handlers.get(job.type)!;
+
+    this.running++;
+    Object.assign(job, { status: 'processing', message: 'Started', startedAt: new Date().toISOString() });
+    this.persist(job);
+
+    const context: JobContext = {
+      signal: abort.signal,
+      progress: (percent, message) => {
+        if (job.status !== 'processing') return;
+        // Progress only moves forward and stays below 100 until the job completes
+        job.progress = Math.max(job.progress, Math.min(99, Math.round(percent)));
+        if (message) job.message = message;
+        this.persist(job);
+      }
+    };
+
+    try {
+      const result = await handler(input, context);
+      if (abort.signal.aborted) return;
+      this.finish(entry, { status: 'completed', progress: 100, message: 'Completed', result });
+      console.log(`✅ Job ${job.id} (${job.type}) completed`);
+    } catch (error) {
+      if (abort.signal.aborted) return;
+      const structured = classifyError(error);
+      this.finish(entry, {
+        status: 'failed',
+        message: 'Failed',
+        error: { type: structured.type, message: structured.message, retryable: structured.retryable }
+      });
+      console.error(`❌ Job ${job.id} (${job.type}) failed:`, structured.message);
+    } finally {
+      // Cancelled or not, the slot is free only once the handler has settled
+      this.running--;
+      this.pump();
+    }
+  }
+
+  private finish(entry: QueuedJob, update: Partial<Job>): void {
+    const finishedAt = new Date();
+    Object.assign(entry.job, update, {
+      finishedAt: finishedAt.toISOString(),
+      expiresAt: new Date(finishedAt.getTime() + this.ttlMs).toISOString()
+    });
+    // The input is not needed once the job is done
+    entry.input = undefined;
+    this.persist(entry.job);
+  }
+
+  // Write-through to the store; a failing store never fails the job
+  private persist(job: Job): void {
+    if (!this.store) return;
+    // Unfinished jobs are kept for a TTL too, so a crashed process leaves nothing behind forever
+    this.store.set(STORE_PREFIX + job.id, { ...job }, this.ttlMs).catch((error: unknown) => {
+      console.warn(`⚠️ Job store write failed for ${job.id}:`, error);
+    });
+  }
+}
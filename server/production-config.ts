@@ -11,9 +11,10 @@ export interface ProductionConfig {
   aiServices: {
     // Primary AI provider
     primary: {
-      provider: 'groq' | 'openai' | 'anthropic';
+      provider: 'groq' | 'openai' | 'anthropic' | 'local';
       apiKey: string;
       model: string;
+      baseURL?: string; // OpenAI-compatible endpoint
       maxRequestsPerMinute: number;
       maxRequestsPerDay: number;
     };
@@ -23,6 +24,7 @@ export interface ProductionConfig {
       provider: string;
       apiKey: string;
       model: string;
+      baseURL?: string;
       priority: number; // Lower number = higher priority
     }>;
     
@@ -1,3 +1,5 @@
+import { AIModelError } from './error-handler.js';
+
 // Retry configuration interface
 export interface RetryConfig {
   maxRetries: number;
@@ -315,25 +317,38 @@ export const RETRY_CONFIGS = {
   }
 };
 
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
 // Circuit breaker pattern for preventing cascading failures
 export class CircuitBreaker {
   private failures = 0;
   private lastFailureTime: Date | null = null;
-  private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED';
+  private state: CircuitState = 'CLOSED';
 
   constructor(
     private failureThreshold: number = 5,
     private recoveryTimeout: number = 60000, // 1 minute
-    private successThreshold: number = 2
+    private successThreshold: number = 2,
+    readonly name: string = 'default'
   ) { }
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  /**
+   * Run fn unless the breaker is open. An open breaker throws an
+   * AIModelError (503) straight away, without calling fn, so callers go to
+   * their fallback; after recoveryTimeout one trial call is let through.
+   * A call that fails because `signal` was aborted is not counted against
+   * the service.
+   */
+  async execute<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     if (this.state === 'OPEN') {
       if (this.shouldAttemptReset()) {
         this.state = 'HALF_OPEN';
-        console.log('🔄 Circuit breaker: Attempting reset (HALF_OPEN)');
+        console.log(`🔄 Circuit breaker ${this.name}: Attempting reset (HALF_OPEN)`);
       } else {
-        throw new Error('Circuit breaker is OPEN - service unavailable');
+        throw new AIModelError(`Circuit breaker ${this.name} is OPEN - service unavailable`, {
+          breaker: this.name,
+          nextAttemptTime: this.nextAttemptTime()?.toISOString()
+        });
       }
     }
 
@@ -342,7 +357,7 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (!signal?.aborted) this.onFailure();
       throw error;
     }
   }
@@ -352,34 +367,48 @@ export class CircuitBreaker {
       Date.now() - this.lastFailureTime.getTime() > this.recoveryTimeout;
   }
 
+  private nextAttemptTime(): Date | null {
+    return this.state === 'OPEN' && this.lastFailureTime
+      ? new Date(this.lastFailureTime.getTime() + this.recoveryTimeout)
+      : null;
+  }
+
   private onSuccess(): void {
+    if (this.state !== 'CLOSED') {
+      console.log(`✅ Circuit breaker ${this.name}: Reset to CLOSED state`);
+    }
     this.failures = 0;
     this.state = 'CLOSED';
-    console.log('✅ Circuit breaker: Reset to CLOSED state');
   }
 
   private onFailure(): void {
     this.failures++;
     this.lastFailureTime = new Date();
 
+    // A failed trial call in HALF_OPEN reopens the breaker for another recoveryTimeout
     if (this.failures >= this.failureThreshold) {
       this.state = 'OPEN';
-      console.log(`🚨 Circuit breaker: OPEN due to ${this.failures} failures`);
+      console.log(`🚨 Circuit breaker ${this.name}: OPEN due to ${this.failures} failures`);
     }
   }
 
-  getState(): { state: string; failures: number; lastFailureTime: Date | null } {
+  getState(): { name: string; state: CircuitState; failures: number; lastFailureTime: Date | null; nextAttemptTime: Date | null } {
     return {
+      name: this.name,
       state: this.state,
       failures: this.failures,
-      lastFailureTime: this.lastFailureTime
+      lastFailureTime: this.lastFailureTime,
+      nextAttemptTime: this.nextAttemptTime()
     };
   }
 }
 
 // Global circuit breakers for different services
 export const circuitBreakers = {
-  aiModel: new CircuitBreaker(3, 30000, 1), // 3 failures, 30s timeout
-  network: new CircuitBreaker(5, 60000, 2), // 5 failures, 1min timeout
-  storage: new CircuitBreaker(10, 10000, 1) // 10 failures, 10s timeout
+  aiModel: new CircuitBreaker(3, 30000, 1, 'aiModel'), // 3 failures, 30s timeout
+  network: new CircuitBreaker(5, 60000, 2, 'network'), // 5 failures, 1min timeout
+  storage: new CircuitBreaker(10, 10000, 1, 'storage'), // 10 failures, 10s timeout
+  // LLM scoring (/api/analyze, /api/newsletter/score) and rewriting (/api/newsletter/improve)
+  scoring: new CircuitBreaker(3, 30000, 1, 'scoring'),
+  rewriting: new CircuitBreaker(3, 30000, 1, 'rewriting')
 };
\ No newline at end of file
@@ -0,0 +1,78 @@
+import React from 'react';
+import type { ErrorSeverity } from '../../store';
+import type { AccessibilityReport } from '../../services/api';
+
+export interface AccessibilityPanelProps {
+  report: AccessibilityReport;
+  className?: string;
+}
+
+const SEVERITY_STYLES: Record<ErrorSeverity, { icon: string; className: string }> = {
+  critical: { icon: '✕', className: 'text-red-700 dark:text-[#FF453A]' },
+  high: { icon: '!', className: 'text-red-600 dark:text-[#FF6961]' },
+  medium: { icon: '!', className: 'text-orange-600 dark:text-[#FF9F0A]' },
+  low: { icon: '•', className: 'text-yellow-600 dark:text-[#FFD60A]' },
+};
+
+const SEVERITY_ORDER: ErrorSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+// Findings of the same kind are listed once with a count
+const MAX_LISTED = 6;
+
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ report, className = '' }) => {
+  const grouped = Object.values(
+    report.findings.reduce<Record<string, { finding: AccessibilityReport['findings'][number]; count: number }>>((acc, finding) => {
+      acc[finding.code] = acc[finding.code]
+        ? { ...acc[finding.code], count: acc[finding.code].count + 1 }
+        : { finding, count: 1 };
+      return acc;
+    }, {})
+  ).sort((a, b) => SEVERITY_ORDER.indexOf(a.finding.severity) - SEVERITY_ORDER.indexOf(b.finding.severity));
+
+  return (
+    <div className={`bg-white dark:bg-[#2C2C2E] border border-gray-200 dark:border-white/5 rounded-xl p-6 space-y-5 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="text-lg">♿</span>
+          <span className="text-sm font-medium text-gray-700 dark:text-[#EBEBF5]">Accessibility</span>
+        </div>
+        {report.lang && (
+          <span className="text-xs text-gray-500 dark:text-[#8E8E93]">lang="{report.lang}"</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-xs">
+        {SEVERITY_ORDER.map(severity => (
+          <div key={severity} className="flex flex-col">
+            <span className="text-gray-500 dark:text-[#8E8E93] capitalize">{severity}</span>
+            <span className={`font-semibold ${report.severityCounts[severity] ? SEVERITY_STYLES[severity].className : 'text-gray-800 dark:text-[#EBEBF5]'}`}>
+              {report.severityCounts[severity]}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {grouped.length === 0 ? (
+        <p className="text-xs text-green-600 dark:text-[#30D158]">No accessibility problems found</p>
+      ) : (
+        <ul className="space-y-2">
+          {grouped.slice(0, MAX_LISTED).map(({ finding, count }) => (
+            <li key={finding.code} className="flex items-start space-x-2 text-xs" data-code={finding.code}>
+              <span className={`flex-shrink-0 w-4 text-center font-bold ${SEVERITY_STYLES[finding.severity].className}`}>
+                {SEVERITY_STYLES[finding.severity].icon}
+              </span>
+              <div className="min-w-0">
+                <div className="text-gray-700 dark:text-[#EBEBF5] break-words">
+                  {finding.message}{count > 1 && <span className="text-gray-500 dark:text-[#8E8E93]"> (×{count})</span>}
+                </div>
+                <div className="text-gray-500 dark:text-[#8E8E93] mt-0.5">{finding.suggestion}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AccessibilityPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import AccessibilityPanel from '../AccessibilityPanel';
+import type { AccessibilityReport } from '../../../services/api';
+
+const baseReport: AccessibilityReport = {
+  lang: 'en',
+  findings: [],
+  issueCounts: {},
+  severityCounts: { critical: 0, high: 0, medium: 0, low: 0 },
+};
+
+describe('AccessibilityPanel', () => {
+  it('shows the document language and a clean result', () => {
+    render(<AccessibilityPanel report={baseReport} />);
+
+    expect(screen.getByText('lang="en"')).toBeInTheDocument();
+    expect(screen.getByText('No accessibility problems found')).toBeInTheDocument();
+  });
+
+  it('groups repeated findings, most severe first', () => {
+    const finding = (code: AccessibilityReport['findings'][number]['code'], severity: AccessibilityReport['findings'][number]['severity'], message: string) =>
+      ({ code, severity, message, suggestion: `Fix ${code}` });
+    const { container } = render(
+      <AccessibilityPanel
+        report={{
+          ...baseReport,
+          lang: null,
+          findings: [
+            finding('layout_table_role', 'low', 'Layout table is missing role="presentation"'),
+            finding('linked_image_missing_alt', 'critical', 'Linked image has no alt text: banner.png'),
+            finding('layout_table_role', 'low', 'Layout table is missing role="presentation"'),
+          ],
+          severityCounts: { critical: 1, high: 0, medium: 0, low: 2 },
+        }}
+      />
+    );
+
+    expect(screen.getByText('(×2)')).toBeInTheDocument();
+    expect(screen.queryByText(/lang=/)).not.toBeInTheDocument();
+    const codes = Array.from(container.querySelectorAll('[data-code]')).map(el => el.getAttribute('data-code'));
+    expect(codes).toEqual(['linked_image_missing_alt', 'layout_table_role']);
+  });
+});
@@ -0,0 +1,2 @@
+export { default as AccessibilityPanel } from './AccessibilityPanel';
+export type { AccessibilityPanelProps } from './AccessibilityPanel';
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef } from 'react';
+import type { ComplianceFlag } from '../../services/api';
+import { blockingComplianceFlags } from '../../utils/complianceFlags';
+
+export interface ComplianceChecklistProps {
+  /** Compliance flags from the analysis; the dialog lists blocking items first */
+  flags: ComplianceFlag[];
+  onContinue: () => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({
+  flags,
+  onContinue,
+  onCancel,
+  className = '',
+}) => {
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const blocking = blockingComplianceFlags(flags);
+  const warnings = flags.filter(flag => flag.reasons.severity !== 'blocking');
+
+  // Focus the safe choice and let Escape close the dialog
+  useEffect(() => {
+    cancelRef.current?.focus();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const renderFlag = (flag: ComplianceFlag, blockingItem: boolean) => (
+    <li key={flag.tag} className="flex items-start space-x-2 text-sm" data-tag={flag.tag}>
+      <span className={`flex-shrink-0 w-4 text-center font-bold ${blockingItem ? 'text-red-600 dark:text-[#FF453A]' : 'text-orange-600 dark:text-[#FF9F0A]'}`}>
+        {blockingItem ? '✕' : '!'}
+      </span>
+      <div className="min-w-0">
+        <div className="text-gray-800 dark:text-[#EBEBF5]">
+          {flag.reasons.message}
+          <span className="ml-1.5 text-xs text-gray-400 dark:text-[#8E8E93]">{flag.reasons.regulations.join(' · ')}</span>
+        </div>
+        <div className="text-xs text-gray-500 dark:text-[#8E8E93] mt-0.5">{flag.reasons.suggestion}</div>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className={`fixed inset-0 z-50 flex items-center justify-center p-4 ${className}`}>
+      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" onClick={onCancel} />
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="compliance-checklist-title"
+        aria-describedby="compliance-checklist-description"
+        className="relative bg-white dark:bg-[#2C2C2E] border border-gray-200 dark:border-white/5 rounded-2xl shadow-2xl p-6 w-full max-w-md space-y-5"
+      >
+        <div className="space-y-1">
+          <h2 id="compliance-checklist-title" className="text-lg font-semibold text-gray-900 dark:text-[#EBEBF5]">
+            Fix before sending
+          </h2>
+          <p id="compliance-checklist-description" className="text-sm text-gray-500 dark:text-[#8E8E93]">
+            {blocking.length === 1 ? 'This email is missing an item' : `This email is missing ${blocking.length} items`} that anti-spam and privacy laws require.
+          </p>
+        </div>
+
+        <ul className="space-y-3">
+          {blocking.map(flag => renderFlag(flag, true))}
+        </ul>
+
+        {warnings.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-gray-500 dark:text-[#8E8E93] uppercase tracking-wide">Also worth checking</div>
+            <ul className="space-y-3">
+              {warnings.map(flag => renderFlag(flag, false))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-1">
+          <button
+            ref={cancelRef}
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded-xl text-sm font-medium text-gray-700 dark:text-[#EBEBF5] bg-gray-100 dark:bg-[#3A3A3C] hover:bg-gray-200 dark:hover:bg-[#48484A] transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+          >
+            Go back
+          </button>
+          <button
+            type="button"
+            onClick={onContinue}
+            className="px-4 py-2 rounded-xl text-sm font-medium text-white bg-orange-500 hover:bg-orange-600 transition-colors focus:outline-none focus:ring-2 focus:ring-orange-500/50"
+          >
+            Improve anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComplianceChecklist;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ComplianceChecklist from '../ComplianceChecklist';
+import type { ComplianceFlag } from '../../../services/api';
+
+const flag = (tag: ComplianceFlag['tag'], severity: 'blocking' | 'warning', message: string): ComplianceFlag => ({
+  tag,
+  reasons: { category: 'compliance', severity, regulations: ['CAN-SPAM'], message, suggestion: `Fix ${tag}` },
+});
+
+const flags = [
+  flag('missing_disclosure', 'warning', 'Promotional claims have no disclosure or terms text'),
+  flag('missing_unsubscribe', 'blocking', 'No unsubscribe link or unsubscribe merge tag'),
+];
+
+describe('ComplianceChecklist', () => {
+  it('lists blocking items before warnings', () => {
+    const { container } = render(<ComplianceChecklist flags={flags} onContinue={vi.fn()} onCancel={vi.fn()} />);
+
+    expect(screen.getByRole('alertdialog')).toBeInTheDocument();
+    expect(screen.getByText('This email is missing an item', { exact: false })).toBeInTheDocument();
+    const tags = Array.from(container.querySelectorAll('[data-tag]')).map(el => el.getAttribute('data-tag'));
+    expect(tags).toEqual(['missing_unsubscribe', 'missing_disclosure']);
+  });
+
+  it('continues or cancels', () => {
+    const onContinue = vi.fn();
+    const onCancel = vi.fn();
+    render(<ComplianceChecklist flags={flags} onContinue={onContinue} onCancel={onCancel} />);
+
+    fireEvent.click(screen.getByText('Improve anyway'));
+    expect(onContinue).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
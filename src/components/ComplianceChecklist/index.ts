@@ -0,0 +1,2 @@
+export { default as ComplianceChecklist } from './ComplianceChecklist';
+export type { ComplianceChecklistProps } from './ComplianceChecklist';
@@ -0,0 +1,104 @@
+import React from 'react';
+import type { DeliverabilityReport } from '../../services/api';
+
+export interface DeliverabilityPanelProps {
+  report: DeliverabilityReport;
+  className?: string;
+}
+
+type Severity = DeliverabilityReport['findings'][number]['severity'];
+
+const SEVERITY_STYLES: Record<Severity, { icon: string; className: string }> = {
+  high: { icon: '✕', className: 'text-red-600 dark:text-[#FF453A]' },
+  medium: { icon: '!', className: 'text-orange-600 dark:text-[#FF9F0A]' },
+  low: { icon: '•', className: 'text-yellow-600 dark:text-[#FFD60A]' },
+  info: { icon: 'i', className: 'text-gray-500 dark:text-[#8E8E93]' },
+};
+
+const SEVERITY_ORDER: Record<Severity, number> = { high: 0, medium: 1, low: 2, info: 3 };
+
+// Findings of the same kind are listed once with a count
+const MAX_LISTED = 6;
+
+const DeliverabilityPanel: React.FC<DeliverabilityPanelProps> = ({ report, className = '' }) => {
+  const sizeShare = Math.min(100, (report.sizeBytes / report.clipThresholdBytes) * 100);
+  const sizeColor = report.clipped
+    ? 'bg-red-100 dark:bg-[#FF453A]'
+    : sizeShare > 75 ? 'bg-yellow-100 dark:bg-[#FFD60A]' : 'bg-green-100 dark:bg-[#30D158]';
+
+  const grouped = Object.values(
+    report.findings.reduce<Record<string, { finding: DeliverabilityReport['findings'][number]; count: number }>>((acc, finding) => {
+      acc[finding.code] = acc[finding.code]
+        ? { ...acc[finding.code], count: acc[finding.code].count + 1 }
+        : { finding, count: 1 };
+      return acc;
+    }, {})
+  ).sort((a, b) => SEVERITY_ORDER[a.finding.severity] - SEVERITY_ORDER[b.finding.severity]);
+
+  return (
+    <div className={`bg-white dark:bg-[#2C2C2E] border border-gray-200 dark:border-white/5 rounded-xl p-6 space-y-5 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="text-lg">📬</span>
+          <span className="text-sm font-medium text-gray-700 dark:text-[#EBEBF5]">Deliverability</span>
+        </div>
+        {report.spamRiskPenalty > 0 && (
+          <span
+            className="text-xs font-medium text-red-600 dark:text-[#FF453A]"
+            title="Added to the spam risk score"
+          >
+            +{report.spamRiskPenalty} spam risk
+          </span>
+        )}
+      </div>
+
+      {/* Size against Gmail's clipping limit */}
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-gray-500 dark:text-[#8E8E93]">HTML size (Gmail clips at {(report.clipThresholdBytes / 1024).toFixed(0)}KB)</span>
+          <span className="font-semibold text-gray-800 dark:text-[#EBEBF5]">{(report.sizeBytes / 1024).toFixed(1)}KB</span>
+        </div>
+        <div className="w-full bg-gray-100 dark:bg-[#3A3A3C] rounded-full h-2 overflow-hidden">
+          <div className={`h-full rounded-full ${sizeColor}`} style={{ width: `${sizeShare}%` }} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div className="flex flex-col">
+          <span className="text-gray-500 dark:text-[#8E8E93]">Images</span>
+          <span className="font-semibold text-gray-800 dark:text-[#EBEBF5]">{report.images.content}</span>
+        </div>
+        <div className="flex flex-col">
+          <span className="text-gray-500 dark:text-[#8E8E93]">Words / image</span>
+          <span className="font-semibold text-gray-800 dark:text-[#EBEBF5]">{report.wordsPerImage ?? '—'}</span>
+        </div>
+        <div className="flex flex-col">
+          <span className="text-gray-500 dark:text-[#8E8E93]">Tracking pixels</span>
+          <span className="font-semibold text-gray-800 dark:text-[#EBEBF5]">{report.images.trackingPixels}</span>
+        </div>
+      </div>
+
+      {grouped.length === 0 ? (
+        <p className="text-xs text-green-600 dark:text-[#30D158]">No technical deliverability problems found</p>
+      ) : (
+        <ul className="space-y-2">
+          {grouped.slice(0, MAX_LISTED).map(({ finding, count }) => (
+            <li key={finding.code} className="flex items-start space-x-2 text-xs" data-code={finding.code}>
+              <span className={`flex-shrink-0 w-4 text-center font-bold ${SEVERITY_STYLES[finding.severity].className}`}>
+                {SEVERITY_STYLES[finding.severity].icon}
+              </span>
+              <div className="min-w-0">
+                <div className="text-gray-700 dark:text-[#EBEBF5] break-words">
+                  {finding.message}{count > 1 && <span className="text-gray-500 dark:text-[#8E8E93]"> (×{count})</span>}
+                </div>
+                <div className="text-gray-500 dark:text-[#8E8E93] mt-0.5">{finding.suggestion}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DeliverabilityPanel;
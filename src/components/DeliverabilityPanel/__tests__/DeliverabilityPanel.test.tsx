@@ -0,0 +1,52 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import DeliverabilityPanel from '../DeliverabilityPanel';
+import type { DeliverabilityReport } from '../../../services/api';
+
+const baseReport: DeliverabilityReport = {
+  sizeBytes: 20480,
+  clipThresholdBytes: 104448,
+  clipped: false,
+  wordCount: 240,
+  images: { total: 3, content: 2, trackingPixels: 1 },
+  wordsPerImage: 120,
+  preheader: null,
+  findings: [],
+  issueCounts: {},
+  spamRiskPenalty: 0,
+};
+
+describe('DeliverabilityPanel', () => {
+  it('shows size, image stats and a clean result', () => {
+    render(<DeliverabilityPanel report={baseReport} />);
+
+    expect(screen.getByText('20.0KB')).toBeInTheDocument();
+    expect(screen.getByText('120')).toBeInTheDocument();
+    expect(screen.getByText('No technical deliverability problems found')).toBeInTheDocument();
+    expect(screen.queryByText(/spam risk/)).not.toBeInTheDocument();
+  });
+
+  it('groups repeated findings, most severe first, and shows the spam risk penalty', () => {
+    const finding = (code: DeliverabilityReport['findings'][number]['code'], severity: 'high' | 'low', message: string) =>
+      ({ code, severity, weight: 5, message, suggestion: `Fix ${code}` });
+    const { container } = render(
+      <DeliverabilityPanel
+        report={{
+          ...baseReport,
+          findings: [
+            finding('tracking_pixel', 'low', 'Tracking pixel in the pasted HTML'),
+            finding('hidden_text', 'high', 'Text is hidden from readers: “a”'),
+            finding('hidden_text', 'high', 'Text is hidden from readers: “b”'),
+          ],
+          spamRiskPenalty: 32,
+        }}
+      />
+    );
+
+    expect(screen.getByText('+32 spam risk')).toBeInTheDocument();
+    expect(screen.getByText('(×2)')).toBeInTheDocument();
+    const codes = Array.from(container.querySelectorAll('[data-code]')).map(el => el.getAttribute('data-code'));
+    expect(codes).toEqual(['hidden_text', 'tracking_pixel']);
+  });
+});
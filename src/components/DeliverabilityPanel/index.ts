@@ -0,0 +1,2 @@
+export { default as DeliverabilityPanel } from './DeliverabilityPanel';
+export type { DeliverabilityPanelProps } from './DeliverabilityPanel';
@@ -0,0 +1,79 @@
+import React from 'react';
+import {
+  getHighlightColors,
+  getHighlightMessage,
+  sortHighlightTypes,
+  type HighlightType,
+  type HighlightTypeDefinitions,
+} from '../../types/highlighting';
+
+export interface HighlightFilterProps {
+  /** Number of flagged sentences per highlight type; types with no count are not shown */
+  counts: Partial<Record<HighlightType, number>>;
+  /** Priority and copy per type from the analysis summary, including rule-pack types */
+  highlightTypes?: HighlightTypeDefinitions;
+  /** Types currently filtered out of the highlighted content */
+  hiddenTypes: string[];
+  onToggleType: (type: HighlightType) => void;
+  className?: string;
+}
+
+const HighlightFilter: React.FC<HighlightFilterProps> = ({
+  counts,
+  highlightTypes,
+  hiddenTypes,
+  onToggleType,
+  className = '',
+}) => {
+  const types = sortHighlightTypes(
+    Object.keys(counts).filter(type => (counts[type] || 0) > 0),
+    highlightTypes
+  );
+
+  if (types.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={`flex flex-wrap gap-2 ${className}`}
+      role="group"
+      aria-label="Filter highlights"
+    >
+      {types.map(type => {
+        const colors = getHighlightColors(type, highlightTypes);
+        const active = !hiddenTypes.includes(type);
+
+        return (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onToggleType(type)}
+            aria-pressed={active}
+            title={getHighlightMessage(type, highlightTypes).message}
+            className={`
+              inline-flex items-center space-x-1.5 px-2.5 py-1 rounded-full text-xs font-medium
+              border transition-all duration-200
+              ${active
+                ? 'text-gray-800 dark:text-[#EBEBF5] border-gray-300 dark:border-white/20'
+                : 'text-gray-400 dark:text-[#8E8E93] border-dashed border-gray-200 dark:border-white/10 line-through'}
+            `}
+          >
+            <span
+              className="w-2.5 h-2.5 rounded-sm border"
+              style={{
+                backgroundColor: colors.background,
+                borderColor: colors.border,
+                opacity: active ? 1 : 0.4,
+              }}
+            />
+            <span className="capitalize">{type.replace(/_/g, ' ')}</span>
+            <span className="text-gray-400 dark:text-[#8E8E93]">{counts[type]}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HighlightFilter;
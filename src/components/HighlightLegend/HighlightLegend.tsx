@@ -1,9 +1,14 @@
 import React from 'react';
-import type { HighlightColors } from '../../types/highlighting';
+import {
+  HIGHLIGHT_MESSAGES,
+  type BuiltInHighlightType,
+  type HighlightColors,
+  type HighlightType,
+} from '../../types/highlighting';
 import { Tooltip } from '../Tooltip';
 
 interface LegendItem {
-  type: 'fluff' | 'spam_words' | 'hard_to_read';
+  type: BuiltInHighlightType;
   label: string;
   description: string;
   icon: string;
@@ -11,14 +16,14 @@ interface LegendItem {
 
 interface HighlightLegendProps {
   visible?: boolean;
-  colors?: HighlightColors;
+  colors?: Partial<Record<HighlightType, HighlightColors>>;
   className?: string;
   position?: 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left';
   animated?: boolean;
   onClose?: () => void;
 }
 
-const DEFAULT_COLORS: HighlightColors = {
+const DEFAULT_COLORS: Partial<Record<HighlightType, HighlightColors>> = {
   fluff: {
     background: 'rgba(6, 182, 212, 0.2)',
     border: 'rgba(6, 182, 212, 0.4)',
@@ -34,6 +39,41 @@ const DEFAULT_COLORS: HighlightColors = {
     border: 'rgba(239, 68, 68, 0.4)',
     opacity: 0.8,
   },
+  jargon: {
+    background: 'rgba(168, 85, 247, 0.2)',
+    border: 'rgba(168, 85, 247, 0.4)',
+    opacity: 0.8,
+  },
+  passive_voice: {
+    background: 'rgba(59, 130, 246, 0.2)',
+    border: 'rgba(59, 130, 246, 0.4)',
+    opacity: 0.8,
+  },
+  all_caps: {
+    background: 'rgba(249, 115, 22, 0.2)',
+    border: 'rgba(249, 115, 22, 0.4)',
+    opacity: 0.8,
+  },
+  excessive_punctuation: {
+    background: 'rgba(236, 72, 153, 0.2)',
+    border: 'rgba(236, 72, 153, 0.4)',
+    opacity: 0.8,
+  },
+  link_issue: {
+    background: 'rgba(100, 210, 255, 0.2)',
+    border: 'rgba(100, 210, 255, 0.4)',
+    opacity: 0.8,
+  },
+  accessibility: {
+    background: 'rgba(191, 90, 242, 0.2)',
+    border: 'rgba(191, 90, 242, 0.4)',
+    opacity: 0.8,
+  },
+  merge_tag: {
+    background: 'rgba(255, 55, 95, 0.2)',
+    border: 'rgba(255, 55, 95, 0.4)',
+    opacity: 0.8,
+  },
 };
 
 const LEGEND_ITEMS: LegendItem[] = [
@@ -55,6 +95,48 @@ const LEGEND_ITEMS: LegendItem[] = [
     description: 'Complex sentences that need simplification',
     icon: '🔍',
   },
+  {
+    type: 'jargon',
+    label: 'Jargon',
+    description: HIGHLIGHT_MESSAGES.jargon.message,
+    icon: '🗂️',
+  },
+  {
+    type: 'passive_voice',
+    label: 'Passive Voice',
+    description: HIGHLIGHT_MESSAGES.passive_voice.message,
+    icon: '🔄',
+  },
+  {
+    type: 'all_caps',
+    label: 'All Caps',
+    description: HIGHLIGHT_MESSAGES.all_caps.message,
+    icon: '🔠',
+  },
+  {
+    type: 'excessive_punctuation',
+    label: 'Excessive Punctuation',
+    description: HIGHLIGHT_MESSAGES.excessive_punctuation.message,
+    icon: '❗',
+  },
+  {
+    type: 'link_issue',
+    label: 'Link Issues',
+    description: HIGHLIGHT_MESSAGES.link_issue.message,
+    icon: '🔗',
+  },
+  {
+    type: 'accessibility',
+    label: 'Accessibility',
+    description: HIGHLIGHT_MESSAGES.accessibility.message,
+    icon: '♿',
+  },
+  {
+    type: 'merge_tag',
+    label: 'Merge Tags',
+    description: HIGHLIGHT_MESSAGES.merge_tag.message,
+    icon: '🏷️',
+  },
 ];
 
 const POSITION_CLASSES = {
@@ -131,7 +213,7 @@ export const HighlightLegend: React.FC<HighlightLegendProps> = ({
       {/* Legend items */}
       <div className="space-y-2">
         {LEGEND_ITEMS.map((item, index) => {
-          const itemColors = colors[item.type];
+          const itemColors = colors[item.type] ?? DEFAULT_COLORS[item.type]!;
           
           return (
             <Tooltip
@@ -140,6 +222,7 @@ export const HighlightLegend: React.FC<HighlightLegendProps> = ({
                 <div className="text-center">
                   <div className="font-medium mb-1">{item.label}</div>
                   <div className="text-xs opacity-90">{item.description}</div>
+                  <div className="text-xs opacity-90 mt-1">{HIGHLIGHT_MESSAGES[item.type].suggestion}</div>
                   <div className="text-xs opacity-75 mt-1">
                     Click to highlight all {item.label.toLowerCase()} instances
                   </div>
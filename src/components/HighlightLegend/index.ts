@@ -1 +1,3 @@
-export { default as HighlightLegend } from './HighlightLegend';
\ No newline at end of file
+export { default as HighlightLegend } from './HighlightLegend';
+export { default as HighlightFilter } from './HighlightFilter';
+export type { HighlightFilterProps } from './HighlightFilter';
@@ -5,11 +5,15 @@
 
 import React, { useEffect, useRef, useCallback, useMemo } from 'react';
 import { createHighlightingEngine } from '../../utils/highlightingEngine';
-import type { 
-  HighlightRange, 
-  HighlightingConfig, 
-  HighlightingEngine,
-  ContentAnalysisResult 
+import {
+  getHighlightMessage,
+  getHighlightPriority,
+  isValidHighlightType,
+  type HighlightRange, 
+  type HighlightingConfig, 
+  type HighlightingEngine,
+  type ContentAnalysisResult,
+  type HighlightTypeDefinitions,
 } from '../../types/highlighting';
 
 export interface HighlightOverlayProps {
@@ -25,6 +29,9 @@ export interface HighlightOverlayProps {
   /** Analysis result for extracting ranges */
   analysisResult?: ContentAnalysisResult;
   
+  /** Priority and copy for the types in the result (summary.highlightTypes), including rule-pack types */
+  highlightTypes?: HighlightTypeDefinitions;
+  
   /** Whether highlights are visible */
   visible?: boolean;
   
@@ -52,6 +59,7 @@ const HighlightOverlay: React.FC<HighlightOverlayProps> = ({
   ranges = [],
   taggedContent,
   analysisResult,
+  highlightTypes,
   visible = true,
   config = {},
   className = '',
@@ -76,17 +84,17 @@ const HighlightOverlay: React.FC<HighlightOverlayProps> = ({
     if (analysisResult && containerRef.current) {
       // Extract ranges from analysis result
       const content = containerRef.current.textContent || '';
-      return extractRangesFromAnalysis(content, analysisResult);
+      return extractRangesFromAnalysis(content, analysisResult, highlightTypes);
     }
     
     if (taggedContent && containerRef.current) {
       // Extract ranges from tagged content
       const content = containerRef.current.textContent || '';
-      return extractRangesFromTaggedContent(content, taggedContent);
+      return extractRangesFromTaggedContent(content, taggedContent, highlightTypes);
     }
     
     return [];
-  }, [ranges, analysisResult, taggedContent, containerRef]);
+  }, [ranges, analysisResult, taggedContent, highlightTypes, containerRef]);
 
   // Initialize highlighting engine
   useEffect(() => {
@@ -175,9 +183,11 @@ const HighlightOverlay: React.FC<HighlightOverlayProps> = ({
  */
 function extractRangesFromAnalysis(
   content: string, 
-  analysisResult: ContentAnalysisResult
+  analysisResult: ContentAnalysisResult,
+  definitions?: HighlightTypeDefinitions
 ): HighlightRange[] {
   const ranges: HighlightRange[] = [];
+  let searchFrom = 0;
   
   for (const sentenceData of analysisResult.report.perSentence) {
     if (sentenceData.tags.length === 0) continue;
@@ -185,22 +195,35 @@ function extractRangesFromAnalysis(
     const sentence = sentenceData.sentence.trim();
     if (!sentence) continue;
 
-    const sentenceStart = content.indexOf(sentence);
+    // Locate the sentence by its offset in the analyzed text, so a sentence
+    // that appears twice maps to its own occurrence rather than the first.
+    // Where the rendered text differs from the analyzed text (block breaks),
+    // search on from the previous sentence instead
+    const offset = sentenceData.offset ?? -1;
+    const atOffset = offset + sentenceData.sentence.indexOf(sentence);
+    const sentenceStart = offset >= 0 && content.startsWith(sentence, atOffset)
+      ? atOffset
+      : content.indexOf(sentence, searchFrom);
     if (sentenceStart === -1) continue;
+    searchFrom = sentenceStart + sentence.length;
 
-    const sentenceEnd = sentenceStart + sentence.length;
-
-    // Create ranges for each tag
+    // Create ranges for each matched term (whole sentence when a tag has no spans)
     for (const tag of sentenceData.tags) {
-      if (isValidHighlightType(tag)) {
-        ranges.push({
-          start: sentenceStart,
-          end: sentenceEnd,
-          type: tag,
-          priority: getHighlightPriority(tag),
-          message: getHighlightMessage(tag),
-          suggestion: getHighlightSuggestion(tag),
-        });
+      if (isValidHighlightType(tag, definitions)) {
+        const spans = sentenceData.spans?.[tag]?.length
+          ? sentenceData.spans[tag]!
+          : [{ start: 0, end: sentence.length, text: sentence }];
+
+        for (const span of spans) {
+          ranges.push({
+            start: sentenceStart + span.start,
+            end: sentenceStart + span.end,
+            type: tag,
+            priority: getHighlightPriority(tag, definitions),
+            ...getHighlightMessage(tag, definitions),
+            text: span.text,
+          });
+        }
       }
     }
   }
@@ -211,7 +234,11 @@ function extractRangesFromAnalysis(
 /**
  * Extract highlight ranges from tagged content
  */
-function extractRangesFromTaggedContent(content: string, taggedContent: string): HighlightRange[] {
+function extractRangesFromTaggedContent(
+  content: string,
+  taggedContent: string,
+  definitions?: HighlightTypeDefinitions
+): HighlightRange[] {
   const ranges: HighlightRange[] = [];
   const tagRegex = /<(\w+)>(.*?)<\/\1>/g;
   let match;
@@ -219,16 +246,15 @@ function extractRangesFromTaggedContent(content: string, taggedContent: string):
   while ((match = tagRegex.exec(taggedContent)) !== null) {
     const [fullMatch, tagType, taggedText] = match;
     
-    if (isValidHighlightType(tagType)) {
+    if (isValidHighlightType(tagType, definitions)) {
       const start = content.indexOf(taggedText);
       if (start !== -1) {
         ranges.push({
           start,
           end: start + taggedText.length,
           type: tagType,
-          priority: getHighlightPriority(tagType),
-          message: getHighlightMessage(tagType),
-          suggestion: getHighlightSuggestion(tagType),
+          priority: getHighlightPriority(tagType, definitions),
+          ...getHighlightMessage(tagType, definitions),
         });
       }
     }
@@ -237,71 +263,4 @@ function extractRangesFromTaggedContent(content: string, taggedContent: string):
   return ranges;
 }
 
-// Helper functions
-function isValidHighlightType(tag: string): tag is import('../../types/highlighting').HighlightType {
-  return [
-    'spam_words',
-    'grammar_spelling', 
-    'hard_to_read',
-    'fluff',
-    'emoji_excess',
-    'cta',
-    'hedging',
-    'vague_date',
-    'vague_number',
-    'claim_without_evidence'
-  ].includes(tag);
-}
-
-function getHighlightPriority(type: string): import('../../types/highlighting').HighlightPriority {
-  const priorities = {
-    spam_words: 'high',
-    grammar_spelling: 'high',
-    claim_without_evidence: 'high',
-    hard_to_read: 'medium',
-    fluff: 'medium',
-    hedging: 'medium',
-    vague_date: 'medium',
-    vague_number: 'medium',
-    emoji_excess: 'low',
-    cta: 'info',
-  } as const;
-  
-  return priorities[type as keyof typeof priorities] || 'medium';
-}
-
-function getHighlightMessage(type: string): string {
-  const messages = {
-    spam_words: 'Contains spam-like language that may trigger email filters',
-    grammar_spelling: 'Grammar or spelling issue detected',
-    hard_to_read: 'This sentence is complex and may be hard to read',
-    fluff: 'Contains unnecessary filler words or phrases',
-    emoji_excess: 'Too many emojis may appear unprofessional',
-    cta: 'Call-to-action detected',
-    hedging: 'Uncertain language weakens your message',
-    vague_date: 'Vague time reference may confuse readers',
-    vague_number: 'Number lacks context or units',
-    claim_without_evidence: 'Strong claim without supporting evidence',
-  };
-  
-  return messages[type as keyof typeof messages] || 'Issue detected';
-}
-
-function getHighlightSuggestion(type: string): string {
-  const suggestions = {
-    spam_words: 'Use more natural, conversational language',
-    grammar_spelling: 'Review and correct the grammar or spelling',
-    hard_to_read: 'Break into shorter sentences or simplify the language',
-    fluff: 'Remove filler words to make the message more direct',
-    emoji_excess: 'Use emojis sparingly for better impact',
-    cta: 'Ensure your CTA is clear and compelling',
-    hedging: 'Use more confident, direct language',
-    vague_date: 'Use specific dates or timeframes',
-    vague_number: 'Add units, percentages, or context to numbers',
-    claim_without_evidence: 'Add data, sources, or examples to support your claim',
-  };
-  
-  return suggestions[type as keyof typeof suggestions] || 'Consider revising this content';
-}
-
 export default HighlightOverlay;
\ No newline at end of file
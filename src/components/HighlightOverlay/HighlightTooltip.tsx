@@ -135,6 +135,20 @@ const HighlightTooltip: React.FC<HighlightTooltipProps> = ({
         {range.type.replace(/_/g, ' ')}
       </div>
 
+      {/* Matched term */}
+      {range.text && (
+        <div
+          style={{
+            fontSize: '12px',
+            fontStyle: 'italic',
+            color: '#444',
+            marginBottom: '6px',
+          }}
+        >
+          “{range.text}”
+        </div>
+      )}
+
       {/* Message */}
       {range.message && (
         <div
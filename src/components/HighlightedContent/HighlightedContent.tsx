@@ -1,11 +1,23 @@
 import React from 'react';
 import './HighlightedContent.css';
 import { extractHighlights, applyHighlightsToHTML, processTaggedContent } from '../../utils/highlightMapper';
+import {
+  ANALYSIS_TAG_PATTERN,
+  HIGHLIGHT_PRIORITIES,
+  getHighlightMessage,
+  getHighlightPriority,
+  isValidHighlightType,
+  sortHighlightTypes,
+  type HighlightPriority,
+  type HighlightTypeDefinitions,
+} from '../../types/highlighting';
 
 interface HighlightedContentProps {
   content: string;
   originalHTML?: string; // Original HTML content to preserve formatting
   className?: string;
+  hiddenTypes?: string[]; // Highlight types filtered out of the rendering
+  highlightTypes?: HighlightTypeDefinitions; // Priority and copy per type from the analysis summary
 }
 
 // Apple-inspired highlight styles optimized for both light and dark modes
@@ -47,7 +59,57 @@ const highlightStyles = {
     WebkitBoxDecorationBreak: 'clone',
     boxShadow: '0 0 0 1px rgba(255, 69, 58, 0.1)',
   },
+  // Accessibility findings (purple) - images, headings, low contrast and color-only links
+  accessibility: {
+    backgroundColor: 'rgba(191, 90, 242, 0.18)',
+    borderRadius: '4px',
+    padding: '2px 4px',
+    margin: '0 1px',
+    border: '1px dashed rgba(191, 90, 242, 0.5)',
+    transition: 'all 0.2s ease',
+    display: 'inline',
+    boxDecorationBreak: 'clone',
+    WebkitBoxDecorationBreak: 'clone',
+    boxShadow: '0 0 0 1px rgba(191, 90, 242, 0.1)',
+  },
+  // Merge-tag findings (pink) - broken template syntax and fields without a fallback
+  merge_tag: {
+    backgroundColor: 'rgba(255, 55, 95, 0.18)',
+    borderRadius: '4px',
+    padding: '2px 4px',
+    margin: '0 1px',
+    border: '1px dashed rgba(255, 55, 95, 0.5)',
+    transition: 'all 0.2s ease',
+    display: 'inline',
+    boxDecorationBreak: 'clone',
+    WebkitBoxDecorationBreak: 'clone',
+    boxShadow: '0 0 0 1px rgba(255, 55, 95, 0.1)',
+  },
   // Medium priority issues (orange/amber) - Better visibility in dark mode
+  all_caps: {
+    backgroundColor: 'rgba(255, 159, 10, 0.18)', // Warmer orange with higher opacity
+    borderRadius: '4px',
+    padding: '2px 4px',
+    margin: '0 1px',
+    border: '1px solid rgba(255, 159, 10, 0.35)',
+    transition: 'all 0.2s ease',
+    display: 'inline',
+    boxDecorationBreak: 'clone',
+    WebkitBoxDecorationBreak: 'clone',
+    boxShadow: '0 0 0 1px rgba(255, 159, 10, 0.1)',
+  },
+  excessive_punctuation: {
+    backgroundColor: 'rgba(255, 159, 10, 0.18)', // Warmer orange with higher opacity
+    borderRadius: '4px',
+    padding: '2px 4px',
+    margin: '0 1px',
+    border: '1px solid rgba(255, 159, 10, 0.35)',
+    transition: 'all 0.2s ease',
+    display: 'inline',
+    boxDecorationBreak: 'clone',
+    WebkitBoxDecorationBreak: 'clone',
+    boxShadow: '0 0 0 1px rgba(255, 159, 10, 0.1)',
+  },
   hard_to_read: {
     backgroundColor: 'rgba(255, 159, 10, 0.18)', // Warmer orange with higher opacity
     borderRadius: '4px',
@@ -60,6 +122,18 @@ const highlightStyles = {
     WebkitBoxDecorationBreak: 'clone',
     boxShadow: '0 0 0 1px rgba(255, 159, 10, 0.1)',
   },
+  jargon: {
+    backgroundColor: 'rgba(255, 159, 10, 0.18)', // Warmer orange with higher opacity
+    borderRadius: '4px',
+    padding: '2px 4px',
+    margin: '0 1px',
+    border: '1px solid rgba(255, 159, 10, 0.35)',
+    transition: 'all 0.2s ease',
+    display: 'inline',
+    boxDecorationBreak: 'clone',
+    WebkitBoxDecorationBreak: 'clone',
+    boxShadow: '0 0 0 1px rgba(255, 159, 10, 0.1)',
+  },
   fluff: {
     backgroundColor: 'rgba(255, 159, 10, 0.18)', // Warmer orange with higher opacity
     borderRadius: '4px',
@@ -108,7 +182,32 @@ const highlightStyles = {
     WebkitBoxDecorationBreak: 'clone',
     boxShadow: '0 0 0 1px rgba(255, 159, 10, 0.1)',
   },
+  // Link findings (teal) - vague text, bare URLs, shorteners, duplicates and tracking
+  link_issue: {
+    backgroundColor: 'rgba(100, 210, 255, 0.18)',
+    borderRadius: '4px',
+    padding: '2px 4px',
+    margin: '0 1px',
+    border: '1px solid rgba(100, 210, 255, 0.45)',
+    transition: 'all 0.2s ease',
+    display: 'inline',
+    boxDecorationBreak: 'clone',
+    WebkitBoxDecorationBreak: 'clone',
+    boxShadow: '0 0 0 1px rgba(100, 210, 255, 0.1)',
+  },
   // Low priority issues (blue) - Enhanced for dark mode
+  passive_voice: {
+    backgroundColor: 'rgba(10, 132, 255, 0.15)', // Brighter blue with higher opacity
+    borderRadius: '4px',
+    padding: '2px 4px',
+    margin: '0 1px',
+    border: '1px solid rgba(10, 132, 255, 0.3)',
+    transition: 'all 0.2s ease',
+    display: 'inline',
+    boxDecorationBreak: 'clone',
+    WebkitBoxDecorationBreak: 'clone',
+    boxShadow: '0 0 0 1px rgba(10, 132, 255, 0.1)',
+  },
   emoji_excess: {
     backgroundColor: 'rgba(10, 132, 255, 0.15)', // Brighter blue with higher opacity
     borderRadius: '4px',
@@ -142,73 +241,132 @@ const tooltipContent = {
   spam_words: 'Contains spam-like language that may trigger email filters',
   grammar_spelling: 'Grammar or spelling issue detected',
   claim_without_evidence: 'Strong claim without supporting evidence',
+  accessibility: 'Accessibility problem: missing alt text, skipped heading, low contrast or a color-only link',
+  merge_tag: 'Merge tag problem: unclosed tag or block, stray delimiter, or a personal field without a fallback',
   // Medium priority issues
+  all_caps: 'Words in ALL CAPS read as shouting and can trigger spam filters',
+  excessive_punctuation: 'Repeated exclamation or question marks look spammy',
   hard_to_read: 'This sentence is complex and may be hard to read',
+  jargon: 'Business jargon makes the message vague and impersonal',
   fluff: 'Contains unnecessary filler words or phrases',
   hedging: 'Uncertain language weakens your message',
   vague_date: 'Vague time reference may confuse readers',
   vague_number: 'Number lacks context or units',
+  link_issue: 'Link problem: vague text, bare URL, shortener, duplicate destination or missing tracking',
   // Low priority issues
+  passive_voice: 'Passive voice hides who is doing what',
   emoji_excess: 'Too many emojis may appear unprofessional',
   // Informational
   cta: 'Call-to-action detected',
 } as const;
 
+type HighlightTag = keyof typeof highlightStyles;
+
+// Types without a style of their own (rule-pack types) look like built-ins of their priority
+const priorityStyles: Record<HighlightPriority, (typeof highlightStyles)[HighlightTag]> = {
+  high: highlightStyles.spam_words,
+  medium: highlightStyles.hard_to_read,
+  low: highlightStyles.emoji_excess,
+  info: highlightStyles.cta,
+};
+
+const hasStyle = (type: string): type is HighlightTag =>
+  Object.prototype.hasOwnProperty.call(highlightStyles, type);
+
+// A run of directly nested tags around plain text: <spam_words><hedging>text</hedging></spam_words>
+const STACK_REGEX = new RegExp(
+  `((?:<${ANALYSIS_TAG_PATTERN}>){2,})([^<]*)((?:</${ANALYSIS_TAG_PATTERN}>){2,})`,
+  'g'
+);
+
+const tagNames = (run: string): string[] =>
+  Array.from(run.matchAll(/<\/?(\w+)>/g), m => m[1]);
+
 export const HighlightedContent: React.FC<HighlightedContentProps> = ({
   content,
   originalHTML,
   className = '',
+  hiddenTypes = [],
+  highlightTypes,
 }) => {
   console.log('🎨 HighlightedContent Debug:');
   console.log('📝 Tagged content:', content.substring(0, 200) + '...');
   console.log('🏷️ Original HTML:', originalHTML?.substring(0, 200) + '...');
 
+  // The server's copy for the type, else the built-in tooltip
+  const tooltipFor = (type: string): string =>
+    highlightTypes?.[type]?.message ?? (hasStyle(type) ? tooltipContent[type] : getHighlightMessage(type).message);
+
+  // Built-in and rule-pack tags in display priority order (highest first)
+  const highlightTags = sortHighlightTypes(
+    Array.from(new Set([...Object.keys(HIGHLIGHT_PRIORITIES), ...Object.keys(highlightTypes ?? {})])),
+    highlightTypes
+  );
+
+  // Wrap text in one highlight span covering every visible finding on it
+  const renderHighlight = (types: string[], taggedText: string): string => {
+    const visibleTypes = sortHighlightTypes(
+      types.filter(type => isValidHighlightType(type, highlightTypes) && !hiddenTypes.includes(type)),
+      highlightTypes
+    );
+
+    if (visibleTypes.length === 0) {
+      return taggedText; // Every finding on this text is filtered out
+    }
+
+    // Images have no text but are still worth marking (e.g. missing alt text)
+    const hasImage = /<img\b/i.test(taggedText);
+
+    // HARD RULE: Do not highlight if content is only whitespace or empty
+    const textContent = taggedText.replace(/<[^>]*>/g, '').trim();
+    if (!hasImage && (!textContent || textContent.length === 0)) {
+      console.warn(`⚠️ Skipping ${visibleTypes.join('+')} - no text content found`);
+      return taggedText; // Return original without highlighting
+    }
+    
+    // HARD RULE: Do not highlight if content is only HTML tags
+    if (!hasImage && textContent.length < 3) {
+      console.warn(`⚠️ Skipping ${visibleTypes.join('+')} - content too short: "${textContent}"`);
+      return taggedText; // Return original without highlighting
+    }
+
+    // The highest-priority finding decides the colour; the tooltip lists them all
+    const [topType] = visibleTypes;
+    const style = hasStyle(topType) ? highlightStyles[topType] : priorityStyles[getHighlightPriority(topType, highlightTypes)];
+    const tooltip = visibleTypes.map(tooltipFor).join(' • ');
+    const classNames = visibleTypes.map(type => `highlight-${type}`).join(' ');
+    
+    const styleString = Object.entries(style)
+      .map(([key, value]) => {
+        const cssKey = key.replace(/([A-Z])/g, '-$1').toLowerCase();
+        return `${cssKey}: ${value}`;
+      })
+      .join('; ');
+    
+    // Create highlight span with proper styling
+    return `<span class="highlight-span ${classNames}" style="${styleString}" title="${tooltip}" data-highlight-types="${visibleTypes.join(' ')}">${taggedText}</span>`;
+  };
+
   // CLEAN TAG APPROACH: Process highlight tags with whitespace protection
   const createHighlightedContent = (): string => {
     console.log('🎯 Processing highlight tags with whitespace protection');
     
-    let result = content;
-    
-    // Process each tag type individually (one tag per sentence approach)
-    const tagTypes = ['spam_words', 'grammar_spelling', 'claim_without_evidence', 'hard_to_read', 'fluff', 'hedging', 'vague_date', 'vague_number', 'emoji_excess', 'cta'];
+    // Collapse stacked findings (several tags on one sentence) into a single span
+    let result = content.replace(STACK_REGEX, (match, openRun, taggedText, closeRun) => {
+      const opened = tagNames(openRun);
+      const closed = tagNames(closeRun);
+      const wellNested = opened.length === closed.length &&
+        opened.every((tag, i) => tag === closed[closed.length - 1 - i]);
+      return wellNested ? renderHighlight(opened, taggedText) : match;
+    });
     
-    tagTypes.forEach(tagType => {
+    // Process any remaining single tags individually
+    highlightTags.forEach(tagType => {
       const regex = new RegExp(`<${tagType}>(.*?)<\/${tagType}>`, 'gs');
       
-      result = result.replace(regex, (match, taggedText) => {
+      result = result.replace(regex, (_match, taggedText) => {
         console.log(`🎯 Processing ${tagType}: "${taggedText.substring(0, 50)}..."`);
-        
-        // HARD RULE: Do not highlight if content is only whitespace or empty
-        const textContent = taggedText.replace(/<[^>]*>/g, '').trim();
-        if (!textContent || textContent.length === 0) {
-          console.warn(`⚠️ Skipping ${tagType} - no text content found`);
-          return taggedText; // Return original without highlighting
-        }
-        
-        // HARD RULE: Do not highlight if content is only HTML tags
-        if (textContent.length < 3) {
-          console.warn(`⚠️ Skipping ${tagType} - content too short: "${textContent}"`);
-          return taggedText; // Return original without highlighting
-        }
-        
-        const highlightType = tagType as keyof typeof highlightStyles;
-        const style = highlightStyles[highlightType];
-        const tooltip = tooltipContent[highlightType];
-        
-        if (!style || !tooltip) {
-          console.warn(`⚠️ Unknown highlight type: ${tagType}`);
-          return taggedText;
-        }
-        
-        const styleString = Object.entries(style)
-          .map(([key, value]) => {
-            const cssKey = key.replace(/([A-Z])/g, '-$1').toLowerCase();
-            return `${cssKey}: ${value}`;
-          })
-          .join('; ');
-        
-        // Create highlight span with proper styling
-        return `<span class="highlight-span highlight-${tagType}" style="${styleString}" title="${tooltip}">${taggedText}</span>`;
+        return renderHighlight([tagType], taggedText);
       });
     });
     
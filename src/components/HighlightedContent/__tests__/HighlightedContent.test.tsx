@@ -57,4 +57,76 @@ describe('HighlightedContent', () => {
     
     expect(screen.getByRole('generic')).toHaveClass('highlighted-content', customClass);
   });
-});
\ No newline at end of file
+
+  it('renders stacked tags as a single span carrying every type', () => {
+    const taggedContent = '<spam_words><grammar_spelling>Act now and recieve a free gift!!!!</grammar_spelling></spam_words> Thanks.';
+    const { container } = render(<HighlightedContent content={taggedContent} />);
+
+    const spans = container.querySelectorAll('.highlight-span');
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toHaveAttribute('data-highlight-types', 'spam_words grammar_spelling');
+    expect(spans[0]).toHaveClass('highlight-spam_words', 'highlight-grammar_spelling');
+    expect(spans[0]).toHaveTextContent('Act now and recieve a free gift!!!!');
+  });
+
+  it('drops hidden types from stacked and single highlights', () => {
+    const taggedContent = '<spam_words><grammar_spelling>Act now and recieve a free gift!!!!</grammar_spelling></spam_words> This is <fluff>very</fluff> good.';
+    const { container } = render(
+      <HighlightedContent content={taggedContent} hiddenTypes={['spam_words', 'fluff']} />
+    );
+
+    const spans = container.querySelectorAll('.highlight-span');
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toHaveAttribute('data-highlight-types', 'grammar_spelling');
+    expect(container).toHaveTextContent('This is very good.');
+  });
+
+  it('renders jargon, passive voice, all-caps and punctuation findings with their own tooltips', () => {
+    const taggedContent = '<all_caps><excessive_punctuation>BUY NOW!!!</excessive_punctuation></all_caps> <jargon>We leverage our roadmap.</jargon> <passive_voice>It was decided.</passive_voice>';
+    const { container } = render(<HighlightedContent content={taggedContent} />);
+
+    const spans = Array.from(container.querySelectorAll('.highlight-span'));
+    expect(spans.map(span => span.getAttribute('data-highlight-types'))).toEqual([
+      'all_caps excessive_punctuation',
+      'jargon',
+      'passive_voice',
+    ]);
+    expect(spans[1]).toHaveAttribute('title', 'Business jargon makes the message vague and impersonal');
+    expect(spans[2]).toHaveAttribute('title', 'Passive voice hides who is doing what');
+  });
+
+  it('renders rule-pack types with the priority and copy from the analysis summary', () => {
+    const taggedContent = '<house_term><fluff>Please reply to this e-mail soon.</fluff></house_term> Thanks.';
+    const highlightTypes = {
+      house_term: { priority: 'high', message: 'House style term', suggestion: 'Use the house spelling.' },
+      fluff: { priority: 'medium', message: 'Contains unnecessary filler words or phrases', suggestion: 'Remove filler words' },
+    };
+    const { container } = render(<HighlightedContent content={taggedContent} highlightTypes={highlightTypes} />);
+
+    const spans = container.querySelectorAll('.highlight-span');
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toHaveAttribute('data-highlight-types', 'house_term fluff');
+    expect(spans[0]).toHaveAttribute('title', 'House style term • Contains unnecessary filler words or phrases');
+    // A high-priority custom type takes the high-priority colour
+    expect(spans[0].getAttribute('style')).toContain('rgba(255, 69, 58, 0.2)');
+    expect(container.innerHTML).not.toContain('<house_term>');
+  });
+
+  it('renders link findings with their own tooltip', () => {
+    const taggedContent = 'Read it <a href="https://bit.ly/x"><link_issue>over here</link_issue></a>.';
+    const { container } = render(<HighlightedContent content={taggedContent} />);
+
+    const span = container.querySelector('.highlight-link_issue');
+    expect(span).toHaveTextContent('over here');
+    expect(span!.getAttribute('title')).toMatch(/^Link problem/);
+  });
+
+  it('renders merge-tag findings with their own tooltip', () => {
+    const taggedContent = 'Thanks, <merge_tag>{{ first_name }}</merge_tag>';
+    const { container } = render(<HighlightedContent content={taggedContent} />);
+
+    const span = container.querySelector('.highlight-merge_tag');
+    expect(span).toHaveTextContent('{{ first_name }}');
+    expect(span!.getAttribute('title')).toMatch(/^Merge tag problem/);
+  });
+});
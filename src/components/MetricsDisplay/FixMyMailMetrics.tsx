@@ -1,6 +1,7 @@
 import React from 'react';
 import MetricsDisplay, { type NewsletterMetrics } from './MetricsDisplay';
 import type { GMMeditorMetadata } from '../../types/gmmeditor';
+import { gradeNewsletter, rubricFromGrade } from '../../utils/grading';
 
 export interface FixMyMailMetricsProps {
   originalMetrics?: NewsletterMetrics;
@@ -41,8 +42,17 @@ const calculateEstimatedMetrics = (
   const spamRiskReduction = Math.max(0, originalMetrics.spamRisk - spamReductionAmount);
   
   // Calculate new overall grade (remember: lower spam risk = better quality)
-  const averageScore = Math.round((audienceFitImprovement + toneImprovement + clarityImprovement + engagementImprovement + (100 - spamRiskReduction)) / 5);
-  const newGrade = averageScore >= 90 ? 'A' : averageScore >= 80 ? 'B' : averageScore >= 70 ? 'C' : averageScore >= 60 ? 'D' : 'F';
+  // Grade the estimate on the rubric the original was graded with
+  const originalWritingIssues = originalMetrics.grading?.breakdown.find(item => item.key === 'writingIssues')?.value;
+  const grading = gradeNewsletter({
+    audienceFit: audienceFitImprovement,
+    tone: toneImprovement,
+    clarity: clarityImprovement,
+    engagement: engagementImprovement,
+    spamRisk: spamRiskReduction,
+    writingIssues: originalWritingIssues === undefined ? undefined : Math.min(100, originalWritingIssues + clarityBoost),
+  }, originalMetrics.grading ? rubricFromGrade(originalMetrics.grading) : undefined);
+  const newGrade = grading.grade;
   
   // Estimate reading time based on new word count
   const estimatedWordCount = Math.round(originalMetrics.wordCount * lengthRatio);
@@ -65,7 +75,8 @@ const calculateEstimatedMetrics = (
   if (audienceFitBoost >= 5) improvements.push('Better aligned content with target audience expectations');
   
   return {
-    overallGrade: newGrade as 'A' | 'B' | 'C' | 'D' | 'F',
+    overallGrade: newGrade,
+    grading,
     audienceFit: Math.round(audienceFitImprovement),
     tone: Math.round(toneImprovement),
     clarity: Math.round(clarityImprovement),
@@ -1,18 +1,24 @@
 import React from 'react';
+import type { ParagraphReadability, ReadabilityReport } from '../../types/highlighting';
+import { RUBRIC_DIMENSIONS, gradeNewsletter, type GradeBreakdownItem, type GradeResult, type RubricDimensionKey } from '../../utils/grading';
 
+// The rubric decides which of the scores count and are shown
 export interface NewsletterMetrics {
   overallGrade: 'A' | 'B' | 'C' | 'D' | 'F';
-  audienceFit: number;  // 0-100
-  tone: number;         // 0-100
-  clarity: number;      // 0-100
-  engagement: number;   // 0-100
-  spamRisk: number;     // 0-100 (higher = more spammy)
+  audienceFit?: number;  // 0-100
+  tone?: number;         // 0-100
+  clarity?: number;      // 0-100
+  engagement?: number;   // 0-100
+  spamRisk?: number;     // 0-100 (higher = more spammy)
   wordCount?: number;
   readingTime?: number;
   summary?: string[];
   improvements?: string[];
   readabilityGrade?: number;  // Flesch-Kincaid grade level
   linkDensity?: number;       // Links per 100 words
+  readability?: ReadabilityReport; // All indices, document-wide and per paragraph
+  grading?: GradeResult;      // How the overall grade was computed (from /api/analyze)
+  unavailable?: string[];     // Scores the model never returned; their values are stand-ins
 }
 
 export interface MetricsDisplayProps {
@@ -46,18 +52,27 @@ const getGradeBgColor = (grade: string): string => {
   }
 };
 
-// Helper function to convert score to grade
-const scoreToGrade = (score: number): 'A' | 'B' | 'C' | 'D' | 'F' => {
-  if (score >= 90) return 'A';
-  if (score >= 80) return 'B';
-  if (score >= 70) return 'C';
-  if (score >= 60) return 'D';
-  return 'F';
+const DIMENSION_ICONS: Record<string, string> = {
+  audienceFit: '👥',
+  tone: '🎭',
+  clarity: '🎯',
+  engagement: '⚡',
+  spamRisk: '🛡️',
+  writingIssues: '✍️',
 };
 
+// Dimension scores for the default rubric; missing scores are left out of the grade
+const rubricScores = (metrics: NewsletterMetrics) => ({
+  audienceFit: metrics.audienceFit,
+  tone: metrics.tone,
+  clarity: metrics.clarity,
+  engagement: metrics.engagement,
+  spamRisk: metrics.spamRisk,
+});
+
 // Helper function to get metric color based on score (inverted for spam risk)
-const getMetricColor = (score: number, isSpamRisk = false): string => {
-  const effectiveScore = isSpamRisk ? 100 - score : score; // Invert spam risk (lower is better)
+const getMetricColor = (score: number, inverted = false): string => {
+  const effectiveScore = inverted ? 100 - score : score; // Invert spam risk (lower is better)
   if (effectiveScore >= 80) return 'text-green-600 dark:text-[#30D158]';
   if (effectiveScore >= 60) return 'text-yellow-600 dark:text-[#FFD60A]';
   return 'text-red-600 dark:text-[#FF453A]';
@@ -99,10 +114,11 @@ const MetricItem: React.FC<{
   previousScore?: number;
   showComparison?: boolean;
   icon: string;
-  isSpamRisk?: boolean;
-}> = ({ label, score, previousScore, showComparison, icon, isSpamRisk = false }) => {
-  const colorClass = getMetricColor(score, isSpamRisk);
-  const effectiveScore = isSpamRisk ? 100 - score : score; // Invert spam risk for display
+  inverted?: boolean;
+  breakdown?: GradeBreakdownItem;
+}> = ({ label, score, previousScore, showComparison, icon, inverted = false, breakdown }) => {
+  const colorClass = getMetricColor(score, inverted);
+  const effectiveScore = inverted ? 100 - score : score; // Invert spam risk for display
   const bgColorClass = effectiveScore >= 80 ? 'bg-green-100 dark:bg-[#30D158]' : effectiveScore >= 60 ? 'bg-yellow-100 dark:bg-[#FFD60A]' : 'bg-red-100 dark:bg-[#FF453A]';
   
   return (
@@ -113,6 +129,15 @@ const MetricItem: React.FC<{
           <span className="text-sm font-medium text-gray-700 dark:text-[#EBEBF5]">{label}</span>
         </div>
         <div className="flex items-center space-x-2">
+          {breakdown && breakdown.pointsLost >= 0.5 && (
+            <span
+              className="text-xs text-gray-400 dark:text-[#8E8E93]"
+              title={`Costs ${breakdown.pointsLost} points of the overall score (${breakdown.weight}% of the grade)`}
+              data-points-lost={breakdown.key}
+            >
+              −{breakdown.pointsLost.toFixed(1)} pts
+            </span>
+          )}
           <span className={`text-lg font-semibold ${colorClass}`}>
             {score}
           </span>
@@ -130,21 +155,104 @@ const MetricItem: React.FC<{
   );
 };
 
+// Paragraphs shorter than this give unstable scores and are not singled out
+const MIN_PARAGRAPH_WORDS = 10;
+
+const READABILITY_INDICES: Array<{ key: keyof ReadabilityReport; label: string }> = [
+  { key: 'fleschKincaidGrade', label: 'Flesch–Kincaid' },
+  { key: 'smogIndex', label: 'SMOG' },
+  { key: 'gunningFog', label: 'Gunning Fog' },
+  { key: 'colemanLiauIndex', label: 'Coleman–Liau' },
+  { key: 'automatedReadabilityIndex', label: 'ARI' },
+];
+
+// Paragraphs that read harder than the document as a whole, hardest first
+const getHardestParagraphs = (readability: ReadabilityReport, limit = 3): ParagraphReadability[] => {
+  const paragraphs = readability.paragraphs || [];
+  if (paragraphs.length < 2 || readability.averageGrade === undefined) return [];
+  return paragraphs
+    .filter(p => p.wordCount >= MIN_PARAGRAPH_WORDS && p.averageGrade > readability.averageGrade!)
+    .sort((a, b) => b.averageGrade - a.averageGrade)
+    .slice(0, limit);
+};
+
+// Readability indices and the sections that drag the grade up
+const ReadabilityBreakdown: React.FC<{ readability: ReadabilityReport }> = ({ readability }) => {
+  const hardest = getHardestParagraphs(readability);
+
+  return (
+    <div className="pt-4 border-t border-gray-100 dark:border-white/10 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="text-lg">📖</span>
+          <span className="text-sm font-medium text-gray-700 dark:text-[#EBEBF5]">Readability</span>
+        </div>
+        <span className="text-sm font-semibold text-gray-900 dark:text-[#FFFFFF]">
+          Grade {readability.averageGrade!.toFixed(1)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        {readability.fleschReadingEase !== undefined && (
+          <div className="flex flex-col" title={`${readability.readingEaseFormula ?? 'Flesch'} Reading Ease: higher is easier, 60+ suits most newsletters`}>
+            <span className="text-gray-500 dark:text-[#8E8E93]">Reading Ease</span>
+            <span className="font-semibold text-gray-800 dark:text-[#EBEBF5]">{readability.fleschReadingEase.toFixed(0)}</span>
+          </div>
+        )}
+        {READABILITY_INDICES.map(({ key, label }) => {
+          const value = readability[key];
+          return typeof value === 'number' ? (
+            <div key={key} className="flex flex-col">
+              <span className="text-gray-500 dark:text-[#8E8E93]">{label}</span>
+              <span className="font-semibold text-gray-800 dark:text-[#EBEBF5]">{value.toFixed(1)}</span>
+            </div>
+          ) : null;
+        })}
+      </div>
+
+      {hardest.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-gray-500 dark:text-[#8E8E93]">Sections raising the grade</div>
+          <ul className="space-y-1.5">
+            {hardest.map(paragraph => (
+              <li
+                key={paragraph.index}
+                className="flex items-start justify-between space-x-3 text-xs"
+                data-paragraph-index={paragraph.index}
+              >
+                <span className="text-gray-700 dark:text-[#EBEBF5] line-clamp-2">
+                  ¶{paragraph.index + 1} “{paragraph.excerpt}”
+                </span>
+                <span className="flex-shrink-0 font-semibold text-orange-600 dark:text-[#FF9F0A]">
+                  {paragraph.averageGrade.toFixed(1)} (+{(paragraph.averageGrade - readability.averageGrade!).toFixed(1)})
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const MetricsDisplay: React.FC<MetricsDisplayProps> = ({
   metrics,
   previousMetrics,
   showComparison = false,
   className = '',
 }) => {
-  // Calculate weighted average (spam risk is inverted - lower is better)
-  const invertedSpamRisk = 100 - metrics.spamRisk;
-  const averageScore = Math.round((metrics.audienceFit + metrics.tone + metrics.clarity + metrics.engagement + invertedSpamRisk) / 5);
-  const calculatedGrade = scoreToGrade(averageScore);
-  const displayGrade = metrics.overallGrade || calculatedGrade;
+  // Server metrics carry their rubric grade; locally computed metrics are graded here
+  const grading = metrics.grading ?? gradeNewsletter(rubricScores(metrics));
+  // Rubric dimensions left out of the grade because the model never scored them
+  const unavailable = grading.skipped.filter(key => metrics.unavailable?.includes(key));
+  const averageScore = grading.score;
+  const displayGrade = metrics.overallGrade || grading.grade;
   
-  const previousAverageScore = previousMetrics 
-    ? Math.round((previousMetrics.audienceFit + previousMetrics.tone + previousMetrics.clarity + previousMetrics.engagement + (100 - previousMetrics.spamRisk)) / 5)
+  const previousGrading = previousMetrics
+    ? previousMetrics.grading ?? gradeNewsletter(rubricScores(previousMetrics))
     : undefined;
+  const previousAverageScore = previousGrading?.score;
+  const previousScore = (key: string) => previousGrading?.breakdown.find(item => item.key === key)?.value;
   
   const gradeImprovement = previousMetrics && previousAverageScore 
     ? averageScore - previousAverageScore 
@@ -182,50 +290,42 @@ const MetricsDisplay: React.FC<MetricsDisplayProps> = ({
         </div>
       </div>
 
-      {/* Individual Metrics */}
+      {/* One row per rubric dimension that was scored */}
       <div className="space-y-4">
-        <MetricItem
-          label="Audience Fit"
-          score={metrics.audienceFit}
-          previousScore={showComparison ? previousMetrics?.audienceFit : undefined}
-          showComparison={showComparison}
-          icon="👥"
-        />
-        
-        <MetricItem
-          label="Tone"
-          score={metrics.tone}
-          previousScore={showComparison ? previousMetrics?.tone : undefined}
-          showComparison={showComparison}
-          icon="🎭"
-        />
-        
-        <MetricItem
-          label="Clarity"
-          score={metrics.clarity}
-          previousScore={showComparison ? previousMetrics?.clarity : undefined}
-          showComparison={showComparison}
-          icon="🎯"
-        />
-        
-        <MetricItem
-          label="Engagement"
-          score={metrics.engagement}
-          previousScore={showComparison ? previousMetrics?.engagement : undefined}
-          showComparison={showComparison}
-          icon="⚡"
-        />
-        
-        <MetricItem
-          label="Spam Risk"
-          score={metrics.spamRisk}
-          previousScore={showComparison ? previousMetrics?.spamRisk : undefined}
-          showComparison={showComparison}
-          icon="🛡️"
-          isSpamRisk={true}
-        />
+        {grading.breakdown.map(item => (
+          <MetricItem
+            key={item.key}
+            label={item.label}
+            score={item.value}
+            previousScore={showComparison ? previousScore(item.key) : undefined}
+            showComparison={showComparison}
+            breakdown={item}
+            icon={DIMENSION_ICONS[item.key] ?? '📊'}
+            inverted={item.inverted}
+          />
+        ))}
+        {unavailable.map(key => (
+          <div key={key} className="flex items-center justify-between" data-unavailable={key}>
+            <div className="flex items-center space-x-2">
+              <span className="text-lg">{DIMENSION_ICONS[key] ?? '📊'}</span>
+              <span className="text-sm font-medium text-gray-700 dark:text-[#EBEBF5]">
+                {RUBRIC_DIMENSIONS[key as RubricDimensionKey]?.label ?? key}
+              </span>
+            </div>
+            <span
+              className="text-xs text-gray-500 dark:text-[#8E8E93]"
+              title="The scoring model did not return this score; it is left out of the grade"
+            >
+              Score unavailable
+            </span>
+          </div>
+        ))}
       </div>
 
+      {metrics.readability?.averageGrade !== undefined && (
+        <ReadabilityBreakdown readability={metrics.readability} />
+      )}
+
       {/* Additional Stats */}
       {(metrics.wordCount || metrics.readingTime) && (
         <div className="pt-4 border-t border-gray-100 dark:border-white/10">
@@ -2,6 +2,7 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import { describe, it, expect } from 'vitest';
 import MetricsDisplay, { type NewsletterMetrics } from '../MetricsDisplay';
+import { gradeNewsletter } from '../../../utils/grading';
 
 const mockMetrics: NewsletterMetrics = {
   overallGrade: 'B',
@@ -101,6 +102,52 @@ describe('MetricsDisplay', () => {
     expect(screen.getByText('80/100')).toBeInTheDocument();
   });
 
+  it('shows how many points each dimension costs the overall grade', () => {
+    const { container } = render(
+      <MetricsDisplay
+        metrics={{ ...mockMetrics, audienceFit: 100, spamRisk: 40 }}
+      />
+    );
+
+    // Spam risk 40 on an equal five-way rubric costs 40 / 5 = 8 points; a perfect score costs none
+    expect(container.querySelector('[data-points-lost="spamRisk"]')).toHaveTextContent('−8.0 pts');
+    expect(container.querySelector('[data-points-lost="audienceFit"]')).toBeNull();
+  });
+
+  it('renders the dimensions of the rubric the metrics were graded with', () => {
+    const rubric = {
+      id: 'deliverability-first',
+      name: 'Deliverability first',
+      dimensions: [
+        { key: 'spamRisk', label: 'Spam Risk', weight: 3, inverted: true },
+        { key: 'writingIssues', label: 'House style', weight: 1 },
+      ],
+      gradeCutoffs: { A: 92, B: 85, C: 75, D: 65 },
+    };
+    const grading = gradeNewsletter({ clarity: 85, spamRisk: 10, writingIssues: 64 }, rubric);
+
+    const { container } = render(<MetricsDisplay metrics={{ ...mockMetrics, spamRisk: 10, grading }} />);
+
+    // (3 × 90 + 64) / 4 = 83.5 → 84
+    expect(screen.getByText('84/100')).toBeInTheDocument();
+    expect(screen.getByText('House style')).toBeInTheDocument();
+    expect(screen.getByText('64')).toBeInTheDocument();
+    // Clarity is scored but not part of this rubric
+    expect(screen.queryByText('Clarity')).not.toBeInTheDocument();
+    expect(container.querySelectorAll('.bg-gray-100.rounded-full.h-2')).toHaveLength(2);
+  });
+
+  it('shows scores the model never returned as unavailable instead of a number', () => {
+    const grading = gradeNewsletter({ clarity: 85, engagement: 72, tone: undefined, spamRisk: 10 });
+
+    const { container } = render(
+      <MetricsDisplay metrics={{ ...mockMetrics, tone: 50, spamRisk: 10, grading, unavailable: ['tone'] }} />
+    );
+
+    expect(container.querySelector('[data-unavailable="tone"]')).toHaveTextContent('Score unavailable');
+    expect(screen.queryByText('50')).not.toBeInTheDocument();
+  });
+
   it('shows progress bars for each metric', () => {
     render(<MetricsDisplay metrics={mockMetrics} />);
 
@@ -116,4 +163,51 @@ describe('MetricsDisplay', () => {
 
     expect(container.firstChild).toHaveClass('custom-class');
   });
-});
\ No newline at end of file
+
+  it('lists the paragraphs that raise the readability grade', () => {
+    const paragraph = (index: number, averageGrade: number, excerpt: string) => ({
+      index,
+      offset: index * 100,
+      excerpt,
+      wordCount: 40,
+      sentenceCount: 2,
+      fleschReadingEase: 60,
+      fleschKincaidGrade: averageGrade,
+      smogIndex: averageGrade,
+      gunningFog: averageGrade,
+      colemanLiauIndex: averageGrade,
+      automatedReadabilityIndex: averageGrade,
+      averageGrade,
+    });
+
+    render(
+      <MetricsDisplay
+        metrics={{
+          ...mockMetrics,
+          readability: {
+            fleschKincaidGrade: 9,
+            fleschReadingEase: 58,
+            smogIndex: 10,
+            gunningFog: 11,
+            colemanLiauIndex: 9.5,
+            automatedReadabilityIndex: 8.5,
+            averageGrade: 9.6,
+            threshold: 9,
+            paragraphs: [
+              paragraph(0, 6, 'Welcome to the update.'),
+              paragraph(1, 14.2, 'Our quarterly infrastructure consolidation initiative'),
+              paragraph(2, 8.6, 'See you next week.'),
+            ],
+          },
+        }}
+      />
+    );
+
+    expect(screen.getByText('Grade 9.6')).toBeInTheDocument();
+    expect(screen.getByText('SMOG')).toBeInTheDocument();
+    expect(screen.getByText('Sections raising the grade')).toBeInTheDocument();
+    expect(screen.getByText(/Our quarterly infrastructure/)).toBeInTheDocument();
+    expect(screen.getByText('14.2 (+4.6)')).toBeInTheDocument();
+    expect(screen.queryByText(/Welcome to the update/)).not.toBeInTheDocument();
+  });
+});
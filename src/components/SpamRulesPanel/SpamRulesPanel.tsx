@@ -0,0 +1,62 @@
+import React from 'react';
+import type { SpamReport } from '../../services/api';
+
+export interface SpamRulesPanelProps {
+  report: SpamReport;
+  className?: string;
+}
+
+const SpamRulesPanel: React.FC<SpamRulesPanelProps> = ({ report, className = '' }) => {
+  const share = Math.min(100, (report.score / (report.requiredScore * 2)) * 100);
+  const scoreColor = report.isSpam
+    ? 'text-red-600 dark:text-[#FF453A]'
+    : report.score >= report.requiredScore / 2 ? 'text-orange-600 dark:text-[#FF9F0A]' : 'text-green-600 dark:text-[#30D158]';
+  const barColor = report.isSpam
+    ? 'bg-red-100 dark:bg-[#FF453A]'
+    : report.score >= report.requiredScore / 2 ? 'bg-yellow-100 dark:bg-[#FFD60A]' : 'bg-green-100 dark:bg-[#30D158]';
+
+  return (
+    <div className={`bg-white dark:bg-[#2C2C2E] border border-gray-200 dark:border-white/5 rounded-xl p-6 space-y-5 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="text-lg">🛡️</span>
+          <span className="text-sm font-medium text-gray-700 dark:text-[#EBEBF5]">Spam score</span>
+        </div>
+        <span className={`text-xs font-semibold ${scoreColor}`} title={`Mail scoring ${report.requiredScore} or more reads as spam`}>
+          {report.score.toFixed(1)} / {report.requiredScore.toFixed(1)}
+        </span>
+      </div>
+
+      {/* Score against the spam threshold, which sits in the middle of the bar */}
+      <div className="relative w-full bg-gray-100 dark:bg-[#3A3A3C] rounded-full h-2 overflow-hidden">
+        <div className={`h-full rounded-full ${barColor}`} style={{ width: `${share}%` }} />
+        <div className="absolute inset-y-0 left-1/2 w-px bg-gray-400 dark:bg-[#8E8E93]" />
+      </div>
+
+      {report.rules.length === 0 ? (
+        <p className="text-xs text-green-600 dark:text-[#30D158]">No spam rules fired</p>
+      ) : (
+        <ul className="space-y-2">
+          {report.rules.map(rule => (
+            <li key={rule.id} className="flex items-start space-x-2 text-xs" data-rule={rule.id}>
+              <span className="flex-shrink-0 w-10 text-right font-mono font-semibold text-red-600 dark:text-[#FF453A]">
+                +{rule.points.toFixed(1)}
+              </span>
+              <div className="min-w-0">
+                <div className="text-gray-700 dark:text-[#EBEBF5] break-words">
+                  {rule.description}
+                  {rule.evidence.length > 0 && (
+                    <span className="text-gray-500 dark:text-[#8E8E93]">: {rule.evidence.join(', ')}</span>
+                  )}
+                </div>
+                <div className="text-gray-500 dark:text-[#8E8E93] mt-0.5">{rule.suggestion}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SpamRulesPanel;
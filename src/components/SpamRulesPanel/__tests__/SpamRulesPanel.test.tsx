@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import SpamRulesPanel from '../SpamRulesPanel';
+import type { SpamReport } from '../../../services/api';
+
+const baseReport: SpamReport = {
+  score: 0,
+  requiredScore: 5,
+  isSpam: false,
+  spamRisk: 0,
+  rules: [],
+};
+
+describe('SpamRulesPanel', () => {
+  it('shows the score against the threshold and a clean result', () => {
+    render(<SpamRulesPanel report={baseReport} />);
+
+    expect(screen.getByText('0.0 / 5.0')).toBeInTheDocument();
+    expect(screen.getByText('No spam rules fired')).toBeInTheDocument();
+  });
+
+  it('lists the fired rules with their points and evidence', () => {
+    const { container } = render(
+      <SpamRulesPanel
+        report={{
+          score: 5.2,
+          requiredScore: 5,
+          isSpam: true,
+          spamRisk: 52,
+          rules: [
+            { id: 'SPAM_PHRASE', description: 'Spam trigger phrases in the body', suggestion: 'Reword them', points: 3.2, evidence: ['act now', 'risk-free'] },
+            { id: 'SUBJ_FAKE_REPLY', description: 'Subject pretends to be a reply or forward (Re:, Fwd:)', suggestion: 'Drop the prefix', points: 2, evidence: ['RE:'] },
+          ],
+        }}
+      />
+    );
+
+    expect(screen.getByText('5.2 / 5.0')).toBeInTheDocument();
+    expect(screen.getByText('+3.2')).toBeInTheDocument();
+    expect(screen.getByText(': act now, risk-free')).toBeInTheDocument();
+    const rules = Array.from(container.querySelectorAll('[data-rule]')).map(el => el.getAttribute('data-rule'));
+    expect(rules).toEqual(['SPAM_PHRASE', 'SUBJ_FAKE_REPLY']);
+  });
+});
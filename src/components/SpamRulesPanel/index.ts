@@ -0,0 +1,2 @@
+export { default as SpamRulesPanel } from './SpamRulesPanel';
+export type { SpamRulesPanelProps } from './SpamRulesPanel';
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+
+export interface SubjectLineDraft {
+  subject: string;
+  preheader: string;
+}
+
+export interface SubjectLineInputsProps {
+  value: SubjectLineDraft;
+  onChange: (value: SubjectLineDraft) => void;
+  className?: string;
+}
+
+// Characters a typical mobile inbox shows (matches the server's limits)
+const MOBILE_SUBJECT_CHARS = 41;
+const MOBILE_PREHEADER_CHARS = 90;
+
+const CharacterCount: React.FC<{ length: number; limit: number }> = ({ length, limit }) => (
+  <span className={`text-xs tabular-nums ${length > limit ? 'text-orange-600 dark:text-[#FF9F0A]' : 'text-gray-400 dark:text-[#8E8E93]'}`}>
+    {length}/{limit}
+  </span>
+);
+
+const SubjectLineInputs: React.FC<SubjectLineInputsProps> = ({
+  value,
+  onChange,
+  className = '',
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const handleInputChange = (field: keyof SubjectLineDraft, fieldValue: string) => {
+    onChange({
+      ...value,
+      [field]: fieldValue,
+    });
+  };
+
+  const hasSubject = value.subject.trim().length > 0;
+
+  return (
+    <div className={`${className}`}>
+      <div className="bg-white dark:bg-[#2C2C2E] border border-gray-300 dark:border-white/10 rounded-xl shadow-md dark:shadow-[0_4px_20px_rgba(0,0,0,0.4)] overflow-hidden transition-all duration-300 hover:shadow-lg dark:hover:shadow-[0_6px_24px_rgba(0,0,0,0.5)]">
+        {/* Header */}
+        <div
+          className="p-4 cursor-pointer group"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2.5">
+              <div className="w-5 h-5 flex items-center justify-center">
+                <svg
+                  className="w-4 h-4 text-gray-400 dark:text-[#8E8E93]"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  strokeWidth={1.5}
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M21.75 6.75v10.5a2.25 2.25 0 0 1-2.25 2.25h-15a2.25 2.25 0 0 1-2.25-2.25V6.75m19.5 0A2.25 2.25 0 0 0 19.5 4.5h-15a2.25 2.25 0 0 0-2.25 2.25m19.5 0v.243a2.25 2.25 0 0 1-1.07 1.916l-7.5 4.615a2.25 2.25 0 0 1-2.36 0L3.32 8.91a2.25 2.25 0 0 1-1.07-1.916V6.75"
+                  />
+                </svg>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white transition-colors">
+                  Subject Line
+                </h3>
+                <p className="text-xs text-gray-500 dark:text-[#8E8E93] mt-0.5">
+                  {hasSubject ? 'Scored with the newsletter' : 'Score what the inbox shows'}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              {hasSubject && (
+                <div className="w-1.5 h-1.5 bg-gray-400 dark:bg-gray-500 rounded-full"></div>
+              )}
+              <svg
+                className={`w-3.5 h-3.5 text-gray-400 dark:text-[#8E8E93] transition-all duration-300 group-hover:text-gray-600 dark:group-hover:text-gray-300 ${isExpanded ? 'rotate-180' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 9l-7 7-7-7" />
+              </svg>
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className={`transition-all duration-300 ease-out ${isExpanded ? 'max-h-96 opacity-100' : 'max-h-0 opacity-0'} overflow-hidden`}>
+          <div className="px-4 pb-4 space-y-4">
+            {/* Subject */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label htmlFor="subject-line-subject" className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+                  Subject
+                </label>
+                <CharacterCount length={Array.from(value.subject).length} limit={MOBILE_SUBJECT_CHARS} />
+              </div>
+              <input
+                id="subject-line-subject"
+                type="text"
+                value={value.subject}
+                onChange={(e) => handleInputChange('subject', e.target.value)}
+                placeholder="What's new in cloud pricing this month"
+                maxLength={500}
+                className="w-full px-3 py-2 text-sm border border-gray-200 dark:border-white/10 rounded-lg bg-white dark:bg-[#3A3A3C] text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-[#8E8E93] focus:outline-none focus:ring-1 focus:ring-gray-300 dark:focus:ring-white/20 focus:border-gray-300 dark:focus:border-white/20 transition-all duration-200"
+              />
+            </div>
+
+            {/* Preheader */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label htmlFor="subject-line-preheader" className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+                  Preheader
+                </label>
+                <CharacterCount length={Array.from(value.preheader).length} limit={MOBILE_PREHEADER_CHARS} />
+              </div>
+              <input
+                id="subject-line-preheader"
+                type="text"
+                value={value.preheader}
+                onChange={(e) => handleInputChange('preheader', e.target.value)}
+                placeholder="The preview text shown after the subject"
+                maxLength={500}
+                className="w-full px-3 py-2 text-sm border border-gray-200 dark:border-white/10 rounded-lg bg-white dark:bg-[#3A3A3C] text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-[#8E8E93] focus:outline-none focus:ring-1 focus:ring-gray-300 dark:focus:ring-white/20 focus:border-gray-300 dark:focus:border-white/20 transition-all duration-200"
+              />
+            </div>
+
+            {/* Clear Button */}
+            {(hasSubject || value.preheader.trim()) && (
+              <div className="pt-3 border-t border-gray-100 dark:border-white/5">
+                <button
+                  onClick={() => onChange({ subject: '', preheader: '' })}
+                  className="text-xs text-gray-500 dark:text-[#8E8E93] hover:text-red-500 dark:hover:text-red-400 transition-colors duration-200 font-medium"
+                >
+                  Clear subject line
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubjectLineInputs;
@@ -0,0 +1,71 @@
+import React from 'react';
+import type { SubjectLineAnalysisResponse, SubjectLineCheck } from '../../services/api';
+
+export interface SubjectLineScoreProps {
+  report: SubjectLineAnalysisResponse;
+  className?: string;
+}
+
+const getScoreColor = (score: number): string => {
+  if (score >= 80) return 'text-green-600 dark:text-[#30D158]';
+  if (score >= 60) return 'text-yellow-600 dark:text-[#FFD60A]';
+  return 'text-red-600 dark:text-[#FF453A]';
+};
+
+const STATUS_STYLES: Record<SubjectLineCheck['status'], { icon: string; className: string }> = {
+  fail: { icon: '✕', className: 'text-red-600 dark:text-[#FF453A]' },
+  warning: { icon: '!', className: 'text-orange-600 dark:text-[#FF9F0A]' },
+  pass: { icon: '✓', className: 'text-green-600 dark:text-[#30D158]' },
+};
+
+const STATUS_ORDER: Record<SubjectLineCheck['status'], number> = { fail: 0, warning: 1, pass: 2 };
+
+const SubjectLineScore: React.FC<SubjectLineScoreProps> = ({ report, className = '' }) => {
+  // Problems first, biggest penalty first
+  const checks = [...report.checks].sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || b.penalty - a.penalty
+  );
+
+  return (
+    <div className={`bg-white dark:bg-[#2C2C2E] border border-gray-200 dark:border-white/5 rounded-xl p-6 space-y-5 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="text-lg">✉️</span>
+          <span className="text-sm font-medium text-gray-700 dark:text-[#EBEBF5]">Subject Line</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className={`text-lg font-semibold ${getScoreColor(report.score)}`}>{report.score}</span>
+          <span className="text-xs text-gray-500 dark:text-[#8E8E93]">/ 100</span>
+        </div>
+      </div>
+
+      {/* Inbox preview as a phone shows it */}
+      <div className="rounded-lg bg-gray-50 dark:bg-[#3A3A3C] px-3 py-2 text-sm" aria-label="Mobile inbox preview">
+        <div className="font-semibold text-gray-900 dark:text-white truncate">{report.subject.mobilePreview}</div>
+        <div className="text-gray-500 dark:text-[#8E8E93] truncate">
+          {report.preheader ? report.preheader.mobilePreview : 'No preheader'}
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {checks.map(check => (
+          <li key={check.id} className="flex items-start space-x-2 text-xs" data-check-id={check.id} data-status={check.status}>
+            <span className={`flex-shrink-0 w-4 text-center font-bold ${STATUS_STYLES[check.status].className}`}>
+              {STATUS_STYLES[check.status].icon}
+            </span>
+            <div className="min-w-0">
+              <div className="text-gray-700 dark:text-[#EBEBF5]">
+                <span className="font-medium">{check.label}:</span> {check.message}
+              </div>
+              {check.status !== 'pass' && check.suggestion && (
+                <div className="text-gray-500 dark:text-[#8E8E93] mt-0.5">{check.suggestion}</div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SubjectLineScore;
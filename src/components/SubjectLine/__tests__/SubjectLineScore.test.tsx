@@ -0,0 +1,47 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import SubjectLineScore from '../SubjectLineScore';
+import type { SubjectLineAnalysisResponse } from '../../../services/api';
+
+const mockReport: SubjectLineAnalysisResponse = {
+  score: 78,
+  grade: 'C',
+  subject: {
+    text: 'New cloud pricing: what small teams should know',
+    length: 47,
+    wordCount: 8,
+    mobilePreview: 'New cloud pricing: what small teams shou…',
+    mobileTruncated: true,
+    desktopTruncated: false,
+  },
+  preheader: null,
+  spamWords: [],
+  emojiCount: 0,
+  personalizationTokens: [],
+  bodyMatch: null,
+  checks: [
+    { id: 'emoji', label: 'Emoji', status: 'pass', message: 'No emoji', penalty: 0 },
+    { id: 'subject_length', label: 'Length', status: 'warning', message: 'Mobile inboxes show about 41 characters', suggestion: 'Make sure the first 40 characters carry the message', penalty: 5 },
+    { id: 'personalization', label: 'Personalization', status: 'fail', message: 'A merge tag is not closed', suggestion: 'Close the tag', penalty: 25 },
+  ],
+  metadata: { model: 'rule-based', timestamp: '2025-01-01T00:00:00.000Z', processingTime: 1 },
+};
+
+describe('SubjectLineScore', () => {
+  it('shows the score and the mobile inbox preview', () => {
+    render(<SubjectLineScore report={mockReport} />);
+
+    expect(screen.getByText('78')).toBeInTheDocument();
+    expect(screen.getByText('New cloud pricing: what small teams shou…')).toBeInTheDocument();
+    expect(screen.getByText('No preheader')).toBeInTheDocument();
+  });
+
+  it('lists failed checks first with their suggestions', () => {
+    const { container } = render(<SubjectLineScore report={mockReport} />);
+
+    const ids = Array.from(container.querySelectorAll('[data-check-id]')).map(el => el.getAttribute('data-check-id'));
+    expect(ids).toEqual(['personalization', 'subject_length', 'emoji']);
+    expect(screen.getByText('Close the tag')).toBeInTheDocument();
+  });
+});
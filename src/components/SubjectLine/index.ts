@@ -0,0 +1,4 @@
+export { default as SubjectLineInputs } from './SubjectLineInputs';
+export { default as SubjectLineScore } from './SubjectLineScore';
+export type { SubjectLineDraft, SubjectLineInputsProps } from './SubjectLineInputs';
+export type { SubjectLineScoreProps } from './SubjectLineScore';
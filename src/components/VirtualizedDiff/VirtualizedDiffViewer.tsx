@@ -1,6 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import type { DiffViewerProps, DiffMapping, WordDiff } from '../../types/diff';
 import { cleanHtmlForDisplay } from '../../utils/sanitization';
+import { ANALYSIS_TAG_PATTERN } from '../../types/highlighting';
 import './DiffViewer.css';
 
 // Helper function to determine why content was changed
@@ -132,7 +133,9 @@ const VirtualizedDiffViewer: React.FC<DiffViewerProps> = ({
   modifiedContent,
   gmmEditorData,
   height = 600,
-  className = ''
+  className = '',
+  isStreaming = false,
+  onCancel
 }) => {
   const [copiedState, setCopiedState] = useState<'idle' | 'copying' | 'copied'>('idle');
 
@@ -144,7 +147,7 @@ const VirtualizedDiffViewer: React.FC<DiffViewerProps> = ({
     hasGMMeditorData: !!gmmEditorData,
     mappingsCount: gmmEditorData?.mappings?.length || 0,
     hasHtmlTagsInOriginal: /<[^>]*>/.test(originalContent),
-    hasAnalysisTagsInOriginal: /<(fluff|spam_words|hard_to_read)>/.test(originalContent)
+    hasAnalysisTagsInOriginal: new RegExp(`<${ANALYSIS_TAG_PATTERN}>`).test(originalContent)
   });
 
   // Use GMMeditor mappings if available, otherwise fallback to the old parsing
@@ -155,10 +158,14 @@ const VirtualizedDiffViewer: React.FC<DiffViewerProps> = ({
       return cleanHtmlForDisplay(gmmEditorData.rewritten);
     }
     
+    // While streaming, the draft so far (it may still be empty)
+    if (isStreaming) {
+      return cleanHtmlForDisplay(modifiedContent);
+    }
     // Fallback to the modified content if no mappings
     console.log('⚠️ No GMMeditor mappings available, using modified content');
     return cleanHtmlForDisplay(modifiedContent) || 'No improvements available';
-  }, [gmmEditorData, modifiedContent]);
+  }, [gmmEditorData, modifiedContent, isStreaming]);
 
   // Copy improved content to clipboard with enhanced UX
   const handleCopyImproved = async () => {
@@ -233,21 +240,34 @@ const VirtualizedDiffViewer: React.FC<DiffViewerProps> = ({
           <div className="improved-title-section">
             <h2 className="section-title">Improved</h2>
             <div className="section-subtitle">
-              {gmmEditorData?.mappings ? 
+              {isStreaming ? 'Writing…' :
+                gmmEditorData?.mappings ? 
                 `${gmmEditorData.mappings.filter(m => m.type === 'changed').length} improvements applied` : 
                 'Enhanced version'
               }
             </div>
           </div>
           
-          <button
-            onClick={handleCopyImproved}
-            disabled={copiedState !== 'idle'}
-            className={`copy-button ${copiedState}`}
-            title="Copy improved content to clipboard"
-          >
-            {getCopyButtonContent()}
-          </button>
+          {isStreaming ? (
+            onCancel && (
+              <button
+                onClick={onCancel}
+                className="copy-button cancel-button"
+                title="Stop writing the improved version"
+              >
+                Cancel
+              </button>
+            )
+          ) : (
+            <button
+              onClick={handleCopyImproved}
+              disabled={copiedState !== 'idle'}
+              className={`copy-button ${copiedState}`}
+              title="Copy improved content to clipboard"
+            >
+              {getCopyButtonContent()}
+            </button>
+          )}
         </div>
       </div>
 
@@ -283,8 +303,14 @@ const VirtualizedDiffViewer: React.FC<DiffViewerProps> = ({
                 mappings={gmmEditorData.mappings}
               />
             ) : (
-              <div className="premium-text improved-text" style={{ whiteSpace: 'pre-wrap' }}>
+              <div
+                className="premium-text improved-text"
+                style={{ whiteSpace: 'pre-wrap' }}
+                aria-live={isStreaming ? 'polite' : undefined}
+                aria-busy={isStreaming || undefined}
+              >
                 {improvedText}
+                {isStreaming && <span className="streaming-caret" aria-hidden="true" />}
               </div>
             )}
           </div>
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import VirtualizedDiffViewer from '../VirtualizedDiffViewer';
+
+describe('VirtualizedDiffViewer streaming', () => {
+  const props = {
+    originalContent: 'Hello team, this is REALLY urgent!!!',
+    modifiedContent: 'Hello team, this is',
+  };
+
+  it('shows the draft so far with a caret while the rewrite is arriving', () => {
+    const { container } = render(<VirtualizedDiffViewer {...props} isStreaming />);
+
+    expect(screen.getByText('Writing…')).toBeInTheDocument();
+    const improved = container.querySelector('.improved-text');
+    expect(improved).toHaveTextContent('Hello team, this is');
+    expect(improved).toHaveAttribute('aria-busy', 'true');
+    expect(container.querySelector('.streaming-caret')).toBeInTheDocument();
+  });
+
+  it('replaces Copy with Cancel while streaming', () => {
+    const onCancel = vi.fn();
+    render(<VirtualizedDiffViewer {...props} isStreaming onCancel={onCancel} />);
+
+    expect(screen.queryByTitle('Copy improved content to clipboard')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('goes back to the finished view when streaming ends', () => {
+    const { container, rerender } = render(<VirtualizedDiffViewer {...props} isStreaming onCancel={vi.fn()} />);
+
+    rerender(<VirtualizedDiffViewer {...props} modifiedContent="Hello team, this is urgent!" />);
+
+    expect(screen.queryByText('Writing…')).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Cancel' })).not.toBeInTheDocument();
+    expect(screen.getByTitle('Copy improved content to clipboard')).toBeInTheDocument();
+    expect(container.querySelector('.streaming-caret')).not.toBeInTheDocument();
+  });
+});
@@ -41,6 +41,9 @@ export interface UseRealTimeAnalysisReturn {
   // Get last analysis result
   lastResult: any | null;
   
+  // Get the highlights, which arrive ahead of the result when streaming
+  lastHighlights: AnalysisState['highlights'];
+  
   // Get last error
   lastError: any | null;
   
@@ -83,6 +86,7 @@ export const useRealTimeAnalysis = (options: UseRealTimeAnalysisOptions = {}): U
     isAnalyzing: false,
     content: null,
     result: null,
+    highlights: null,
     error: null,
     lastAnalyzedAt: null,
     requestId: null,
@@ -233,6 +237,7 @@ export const useRealTimeAnalysis = (options: UseRealTimeAnalysisOptions = {}): U
     analyzeContent,
     isAnalyzing: state.isAnalyzing,
     lastResult: state.result,
+    lastHighlights: state.highlights,
     lastError: state.error,
     clearAnalysis,
     cancelRequests,
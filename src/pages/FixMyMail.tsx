@@ -14,6 +14,8 @@ import { useAppStore } from '../store';
 import { apiService } from '../services/api';
 import { useLoading } from '../contexts/LoadingContext';
 import { cleanHtmlForDisplay } from '../utils/sanitization';
+import { gradeNewsletter } from '../utils/grading';
+import { ANALYSIS_TAG_PATTERN } from '../types/highlighting';
 
 import Logo from '../components/ui/Logo';
 import ThemeResponsiveLogo from '../components/ui/ThemeResponsiveLogo';
@@ -113,8 +115,14 @@ interface FixMyMailState {
   loadingProgress: number;
   selectedTone: ToneKey;
   isRegenerating: boolean;
+  isStreaming: boolean; // improvedContent is a rewrite still arriving
 }
 
+// requestManager key of the streaming rewrite, used to cancel it
+const REWRITE_REQUEST_KEY = 'fix-my-mail-rewrite';
+
+const isCancelled = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
 // Helper function to estimate original metrics from tagged content
 const estimateOriginalMetrics = (emailData: EmailData): NewsletterMetrics => {
   const { originalText, taggedContent } = emailData;
@@ -142,11 +150,11 @@ const estimateOriginalMetrics = (emailData: EmailData): NewsletterMetrics => {
   const audienceFit = Math.max(40, Math.round(80 - ((fluffDensity + readabilityDensity) * 100))); // General fit
   
   // Calculate overall grade
-  const averageScore = Math.round((audienceFit + tone + clarity + engagement + (100 - spamRisk)) / 5);
-  const overallGrade = averageScore >= 90 ? 'A' : averageScore >= 80 ? 'B' : averageScore >= 70 ? 'C' : averageScore >= 60 ? 'D' : 'F';
+  const grading = gradeNewsletter({ audienceFit, tone, clarity, engagement, spamRisk });
   
   return {
-    overallGrade: overallGrade as 'A' | 'B' | 'C' | 'D' | 'F',
+    overallGrade: grading.grade,
+    grading,
     audienceFit,
     tone,
     clarity,
@@ -183,6 +191,7 @@ const FixMyMail: React.FC = () => {
     loadingProgress: 0,
     selectedTone: null, // No tone selected initially
     isRegenerating: false,
+    isStreaming: false,
   });
 
   const [showAnalytics, setShowAnalytics] = useState(true);
@@ -207,6 +216,36 @@ const FixMyMail: React.FC = () => {
   // Loading state management
   const { startLoading, updateProgress, stopLoading } = useLoading();
 
+  // Rewrite over SSE: the diff viewer shows the draft as it is written and the
+  // word-level mappings once it is complete
+  const streamRewrite = useCallback((taggedContent: string, tone?: string) => {
+    let firstDelta = true;
+    return apiService.improveNewsletterStream(taggedContent, { tone }, {
+      onDelta: (_text, draft) => {
+        if (!isMountedRef.current) return;
+        if (firstDelta) {
+          firstDelta = false;
+          stopLoading();
+        }
+        setState(prev => ({
+          ...prev,
+          improvedContent: draft,
+          gmmEditorData: null,
+          isLoading: false,
+          isStreaming: true,
+        }));
+      },
+      onReset: () => {
+        if (!isMountedRef.current) return;
+        setState(prev => ({ ...prev, improvedContent: '' }));
+      }
+    }, REWRITE_REQUEST_KEY);
+  }, [stopLoading]);
+
+  const handleCancelRewrite = useCallback(() => {
+    apiService.cancelRequest(REWRITE_REQUEST_KEY);
+  }, []);
+
   // Enhanced data hydration and validation
   useEffect(() => {
     console.log('🚀 [DEBUG] FixMyMail useEffect triggered');
@@ -269,7 +308,7 @@ const FixMyMail: React.FC = () => {
           taggedContentLength: emailData.taggedContent.length,
           hasOriginalHTML: !!emailData.originalHTML,
           originalTextPreview: emailData.originalText.substring(0, 200) + '...',
-          hasTagsInOriginal: /<(fluff|spam_words|hard_to_read)>/.test(emailData.originalText)
+          hasTagsInOriginal: new RegExp(`<${ANALYSIS_TAG_PATTERN}>`).test(emailData.originalText)
         });
 
         console.log('📝 [DEBUG] Setting email data in state...');
@@ -403,7 +442,12 @@ const FixMyMail: React.FC = () => {
       // Store the real analyzed metrics
       setState(prev => ({
         ...prev,
-        improvedMetrics: analysisResponse.metrics,
+        // The grading lists the rubric dimensions MetricsDisplay renders
+        improvedMetrics: {
+          ...analysisResponse.metrics,
+          grading: 'grading' in analysisResponse ? analysisResponse.grading : undefined,
+          unavailable: analysisResponse.metadata?.scoreUnavailable,
+        },
         isAnalyzingImprovedContent: false,
       }));
       
@@ -447,7 +491,7 @@ const FixMyMail: React.FC = () => {
 
       console.log('🔍 [DEBUG] Validating tagged content...');
       // Validate that tagged content has valid tags
-      const tagRegex = /<(fluff|spam_words|hard_to_read)>.*?<\/\1>/g;
+      const tagRegex = new RegExp(`<(${ANALYSIS_TAG_PATTERN})>.*?<\\/\\1>`);
       const hasValidTags = tagRegex.test(emailData.taggedContent);
       console.log('🏷️ [DEBUG] Tag validation result:', hasValidTags);
       
@@ -473,14 +517,12 @@ const FixMyMail: React.FC = () => {
       updateProgress(60);
       setState(prev => ({ ...prev, loadingProgress: 80 }));
 
-      console.log('🔧 [DEBUG] Calling apiService.fixEmail...');
+      console.log('🔧 [DEBUG] Calling apiService.improveNewsletterStream...');
       console.log('📝 [DEBUG] Tagged content preview:', emailData.taggedContent.substring(0, 200) + '...');
       
-      // Call the fix API with the full tagged content and selected tone
+      // Stream the rewrite of the full tagged content with the selected tone
       // If no tone is selected, pass undefined to preserve original tone
-      const result = await apiService.fixEmail(emailData.taggedContent, {
-        tone: state.selectedTone || undefined
-      });
+      const result = await streamRewrite(emailData.taggedContent, state.selectedTone || undefined);
       
       console.log('✅ [DEBUG] API call completed successfully');
       console.log('📤 [DEBUG] API response structure:', {
@@ -503,6 +545,7 @@ const FixMyMail: React.FC = () => {
         improvedContent: result.message.content,
         gmmEditorData: result.gmmEditor, // Store the rich mapping data
         isLoading: false,
+        isStreaming: false,
         loadingProgress: 100,
       }));
 
@@ -521,6 +564,20 @@ const FixMyMail: React.FC = () => {
       console.log('🎉 [DEBUG] generateImprovedContent completed successfully');
 
     } catch (error) {
+      if (isCancelled(error)) {
+        // Cancelled by the user: show the original rather than a half-written draft
+        stopLoading();
+        setState(prev => ({
+          ...prev,
+          improvedContent: emailData.originalText,
+          gmmEditorData: null,
+          isLoading: false,
+          isStreaming: false,
+          loadingProgress: 100,
+        }));
+        return;
+      }
+
       console.error('❌ [DEBUG] generateImprovedContent error occurred:', error);
       console.error('❌ [DEBUG] Error details:', {
         name: error instanceof Error ? error.name : 'Unknown',
@@ -563,6 +620,7 @@ const FixMyMail: React.FC = () => {
             improvedContent: emailData.originalText,
             gmmEditorData: null,
             isLoading: false,
+            isStreaming: false,
             loadingProgress: 100,
           }));
           enableFallbackMode(true);
@@ -573,6 +631,7 @@ const FixMyMail: React.FC = () => {
       setState(prev => ({
         ...prev,
         isLoading: false,
+        isStreaming: false,
         error: errorMessage,
       }));
     }
@@ -650,6 +709,9 @@ const FixMyMail: React.FC = () => {
     if (!state.emailData || state.isRegenerating) return;
 
     console.log('🎨 [DEBUG] Tone change requested:', newTone);
+
+    // Restored if the user cancels the new rewrite
+    const previous = { improvedContent: state.improvedContent, gmmEditorData: state.gmmEditorData };
     
     setState(prev => ({ 
       ...prev, 
@@ -663,10 +725,8 @@ const FixMyMail: React.FC = () => {
       startLoading('analysis', `Regenerating with ${newTone} tone...`);
       updateProgress(20);
 
-      // Call the fix API with the new tone
-      const result = await apiService.fixEmail(state.emailData.taggedContent, {
-        tone: newTone
-      });
+      // Stream the rewrite with the new tone
+      const result = await streamRewrite(state.emailData.taggedContent, newTone);
       
       console.log('✅ [DEBUG] Content regenerated successfully with new tone');
       
@@ -677,6 +737,7 @@ const FixMyMail: React.FC = () => {
         improvedContent: result.message.content,
         gmmEditorData: result.gmmEditor,
         isRegenerating: false,
+        isStreaming: false,
       }));
 
       updateProgress(100);
@@ -686,9 +747,14 @@ const FixMyMail: React.FC = () => {
       }, 500);
 
     } catch (error) {
-      console.error('❌ [DEBUG] Tone change regeneration error:', error);
-      
       stopLoading();
+
+      if (isCancelled(error)) {
+        setState(prev => ({ ...prev, ...previous, isRegenerating: false, isStreaming: false }));
+        return;
+      }
+
+      console.error('❌ [DEBUG] Tone change regeneration error:', error);
       
       // Check if it's a rate limiting error
       const isRateLimitError = error instanceof Error && 
@@ -716,10 +782,11 @@ const FixMyMail: React.FC = () => {
       setState(prev => ({
         ...prev,
         isRegenerating: false,
+        isStreaming: false,
         error: errorMessage,
       }));
     }
-  }, [state.emailData, state.isRegenerating, handleAsyncError, startLoading, updateProgress, stopLoading]);
+  }, [state.emailData, state.isRegenerating, state.improvedContent, state.gmmEditorData, handleAsyncError, startLoading, updateProgress, stopLoading, streamRewrite]);
 
   // Render loading state
   if (state.isLoading) {
@@ -884,7 +951,7 @@ const FixMyMail: React.FC = () => {
       {/* Clean Main Content */}
       <main className="premium-main-content">
         <div className="max-w-6xl mx-auto px-6 pb-16">
-          {state.emailData && state.improvedContent && (
+          {state.emailData && (state.improvedContent || state.isStreaming) && (
             <div className="space-y-6">
               {/* Tone Change Button */}
               <div className="mb-6 flex justify-center">
@@ -930,7 +997,7 @@ const FixMyMail: React.FC = () => {
                         cleanedPreview: cleanedContent.substring(0, 200) + '...',
                         hasHtmlTagsInSource: /<[^>]*>/.test(sourceContent),
                         hasHtmlTagsAfterCleaning: /<[^>]*>/.test(cleanedContent),
-                        hasAnalysisTagsInSource: /<(fluff|spam_words|hard_to_read)>/.test(sourceContent)
+                        hasAnalysisTagsInSource: new RegExp(`<${ANALYSIS_TAG_PATTERN}>`).test(sourceContent)
                       });
                       
                       // Fallback to a message if content is empty after cleaning
@@ -941,8 +1008,10 @@ const FixMyMail: React.FC = () => {
                       return 'Error processing content for display';
                     }
                   })()}
-                  modifiedContent={state.improvedContent}
+                  modifiedContent={state.improvedContent ?? ''}
                   gmmEditorData={state.gmmEditorData}
+                  isStreaming={state.isStreaming}
+                  onCancel={handleCancelRewrite}
                   height={window.innerHeight - 400}
                   className="premium-diff-container"
                 />
@@ -1,7 +1,8 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import RichTextEditor from '../components/RichTextEditor/RichTextEditor';
 import { HighlightedContent } from '../components/HighlightedContent';
+import { HighlightFilter } from '../components/HighlightLegend';
 import { NavigationManager, type NavigationState } from '../utils/navigationUtils';
 import { type EmailData } from '../utils/stateTransfer';
 import { useErrorHandler } from '../hooks/useErrorHandler';
@@ -14,10 +15,17 @@ import { ThemeToggle } from '../components/ThemeToggle';
 import { MetricsDisplay, type NewsletterMetrics } from '../components/MetricsDisplay';
 import { AnalysisInsights } from '../components/AnalysisInsights';
 import { ContextPanel, type NewsletterContext } from '../components/ContextPanel';
+import { SubjectLineInputs, SubjectLineScore, type SubjectLineDraft } from '../components/SubjectLine';
+import { DeliverabilityPanel } from '../components/DeliverabilityPanel';
+import { AccessibilityPanel } from '../components/AccessibilityPanel';
+import { SpamRulesPanel } from '../components/SpamRulesPanel';
+import { ComplianceChecklist } from '../components/ComplianceChecklist';
 import { calculateNewsletterMetrics } from '../utils/metricsCalculator';
-import { apiService } from '../services/api';
+import { blockingComplianceFlags, isComplianceFlag } from '../utils/complianceFlags';
+import { apiService, type SubjectLineAnalysisResponse } from '../services/api';
 import ToneSelector from '../components/ToneSelector';
 import type { ToneKey } from '../types/gmmeditor';
+import type { HighlightType } from '../types/highlighting';
 
 
 
@@ -29,8 +37,12 @@ const GradeMyMail: React.FC = () => {
   const [htmlContent, setHtmlContent] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<any>(null);
+  const [hiddenHighlightTypes, setHiddenHighlightTypes] = useState<HighlightType[]>([]);
   const [hasContentChanged, setHasContentChanged] = useState(false);
   const [metrics, setMetrics] = useState<NewsletterMetrics | null>(null);
+  const [subjectLine, setSubjectLine] = useState<SubjectLineDraft>({ subject: '', preheader: '' });
+  const [subjectReport, setSubjectReport] = useState<SubjectLineAnalysisResponse | null>(null);
+  const [showComplianceChecklist, setShowComplianceChecklist] = useState(false);
   const [context, setContext] = useState<NewsletterContext>({
     intendedAudience: '',
     goal: '',
@@ -229,12 +241,30 @@ const GradeMyMail: React.FC = () => {
       console.log('🔍 Starting newsletter analysis with GroqGemma dual-system approach...');
       console.log(`📊 Content stats: ${content.length} chars, ${content.split(/\s+/).length} words`);
 
-      // Use unified dual-system analysis endpoint with context
+      // Subject line scoring runs alongside the body analysis and never blocks it
+      const subjectRequest = subjectLine.subject.trim()
+        ? apiService.analyzeSubjectLine({ ...subjectLine, content }).catch(error => {
+          console.warn('⚠️ Subject line analysis failed:', error);
+          return null;
+        })
+        : Promise.resolve(null);
+
+      // Stream the unified dual-system analysis: highlights are shown as soon as
+      // they arrive, the metrics once scoring completes
       const hasContext = context.intendedAudience.trim() || context.goal.trim();
-      const unifiedResponse = await apiService.analyzeNewsletter(
-        content, 
+      const unifiedResponse = await apiService.analyzeNewsletterStream(
+        content,
+        {
+          onHighlights: highlights => {
+            console.log('🖍️ Rule-based highlights received, scoring continues...');
+            setAnalysisResult(highlights);
+            setHasContentChanged(false);
+          },
+        },
         'newsletter-unified',
-        hasContext ? context : undefined
+        hasContext ? context : undefined,
+        undefined,
+        subjectLine.subject.trim() || undefined
       );
 
       console.log('✅ Unified dual-system analysis completed successfully');
@@ -257,12 +287,17 @@ const GradeMyMail: React.FC = () => {
         // Add readability and link density from rule-based analysis
         readabilityGrade: unifiedResponse.analysisResult?.report?.global?.readability?.fleschKincaidGrade,
         linkDensity: unifiedResponse.analysisResult?.report?.global?.linkDensityPer100Words,
+        readability: unifiedResponse.analysisResult?.report?.global?.readability,
+        // Rubric grade and how each dimension moved it
+        grading: unifiedResponse.grading,
+        unavailable: unifiedResponse.metadata?.scoreUnavailable,
         // Ensure Gemma AI summary and improvements are included
         summary: unifiedResponse.metrics.summary || [],
         improvements: unifiedResponse.metrics.improvements || [],
       };
 
       setMetrics(combinedMetrics);
+      setSubjectReport(await subjectRequest);
 
       setHasContentChanged(false); // Reset the changed flag after analysis
 
@@ -333,7 +368,7 @@ const GradeMyMail: React.FC = () => {
     } finally {
       setIsAnalyzing(false);
     }
-  }, [content, htmlContent, context, handleAsyncError, enableFallbackMode]);
+  }, [content, htmlContent, context, subjectLine, handleAsyncError, enableFallbackMode]);
 
   const handleContentChange = useCallback((newContent: string, newHtmlContent: string) => {
     setContent(newContent);
@@ -347,6 +382,23 @@ const GradeMyMail: React.FC = () => {
     }
   }, [analysisResult]);
 
+  const handleSubjectLineChange = useCallback((newSubjectLine: SubjectLineDraft) => {
+    setSubjectLine(newSubjectLine);
+    setSubjectReport(null);
+
+    // A new subject needs a new analysis, same as a body edit
+    if (analysisResult) {
+      setHasContentChanged(true);
+      setMetrics(null);
+    }
+  }, [analysisResult]);
+
+  const toggleHighlightType = useCallback((type: HighlightType) => {
+    setHiddenHighlightTypes(prev =>
+      prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]
+    );
+  }, []);
+
   const handleSampleEmailClick = useCallback(() => {
     const sampleEmail = `Subject: Quarterly Sales Meeting
 
@@ -430,6 +482,27 @@ John`;
     }
   }, [navigate, content, htmlContent, analysisResult, metrics, handleAsyncError]);
 
+  // CAN-SPAM / GDPR flags from the analysis; blocking ones are shown before Fix My Mail
+  const complianceFlags = useMemo(
+    () => (analysisResult?.analysisResult?.report?.global?.flags || []).filter(isComplianceFlag),
+    [analysisResult]
+  );
+
+  const handleImproveClick = useCallback(() => {
+    if (blockingComplianceFlags(complianceFlags).length > 0) {
+      setShowComplianceChecklist(true);
+      return;
+    }
+    handleFixMyMailClick();
+  }, [complianceFlags, handleFixMyMailClick]);
+
+  const handleComplianceContinue = useCallback(() => {
+    setShowComplianceChecklist(false);
+    handleFixMyMailClick();
+  }, [handleFixMyMailClick]);
+
+  const handleComplianceCancel = useCallback(() => setShowComplianceChecklist(false), []);
+
   return (
     <div className="min-h-screen bg-white dark:bg-[#1C1C1E] transition-colors duration-300">
 
@@ -437,6 +510,15 @@ John`;
       {/* Instructions Popup */}
       <InstructionsPopup />
 
+      {/* Compliance items to fix before going to Fix My Mail */}
+      {showComplianceChecklist && (
+        <ComplianceChecklist
+          flags={complianceFlags}
+          onContinue={handleComplianceContinue}
+          onCancel={handleComplianceCancel}
+        />
+      )}
+
       {/* Minimal Header */}
       <header className="relative">
         <div className="flex items-center justify-center py-16 px-6">
@@ -484,7 +566,12 @@ John`;
             {analysisResult && !hasContentChanged && (
               <div className="absolute inset-0 bg-white/95 dark:bg-[#3A3A3C]/95 backdrop-blur-sm rounded-lg border border-gray-200 dark:border-white/5 p-4 overflow-auto">
                 <div className="flex items-center justify-between mb-3">
-                  <h3 className="text-sm font-medium text-gray-700 dark:text-[#EBEBF5]">Analysis Results</h3>
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-[#EBEBF5]">
+                    Analysis Results
+                    {isAnalyzing && (
+                      <span className="ml-2 text-xs font-normal text-gray-400 dark:text-[#8E8E93] animate-pulse">Scoring…</span>
+                    )}
+                  </h3>
                   <button
                     onClick={() => setAnalysisResult(null)}
                     className="text-gray-400 hover:text-gray-600 dark:text-[#8E8E93] dark:hover:text-[#EBEBF5] transition-colors"
@@ -495,9 +582,18 @@ John`;
                     </svg>
                   </button>
                 </div>
+                <HighlightFilter
+                  counts={analysisResult.summary?.issueCountsByType || {}}
+                  highlightTypes={analysisResult.summary?.highlightTypes}
+                  hiddenTypes={hiddenHighlightTypes}
+                  onToggleType={toggleHighlightType}
+                  className="mb-3"
+                />
                 <HighlightedContent
                   content={analysisResult.analysisResult?.annotated || analysisResult.message?.content || content}
                   originalHTML={htmlContent}
+                  hiddenTypes={hiddenHighlightTypes}
+                  highlightTypes={analysisResult.summary?.highlightTypes}
                   className="text-sm"
                 />
               </div>
@@ -505,13 +601,18 @@ John`;
           </div>
         </div>
 
-        {/* Context Panel - Fixed position, moved down */}
-        <div className="hidden xl:block absolute right-0 top-8 -mr-80">
+        {/* Context Panel and subject line inputs - Fixed position, moved down */}
+        <div className="hidden xl:block absolute right-0 top-8 -mr-80 space-y-4">
           <ContextPanel
             context={context}
             onChange={setContext}
             className="animate-fade-in-right w-72"
           />
+          <SubjectLineInputs
+            value={subjectLine}
+            onChange={handleSubjectLineChange}
+            className="animate-fade-in-right w-72"
+          />
         </div>
 
         {/* Action Buttons */}
@@ -541,7 +642,7 @@ John`;
           {/* Improve Button - Only after analysis and content hasn't changed */}
           {analysisResult && !hasContentChanged && (
             <button
-              onClick={handleFixMyMailClick}
+              onClick={handleImproveClick}
               disabled={isAnalyzing || navigationState.isLoading}
               className="bg-orange-500 hover:bg-orange-600 dark:bg-orange-500 dark:hover:bg-orange-600 disabled:bg-orange-300 dark:disabled:bg-orange-700 text-white px-8 py-3 rounded-xl font-medium transition-all duration-300 cubic-bezier(0.4, 0, 0.2, 1) transform hover:scale-105 hover:-translate-y-1 hover:shadow-xl disabled:transform-none disabled:shadow-none animate-fade-in-up relative overflow-hidden focus:outline-none focus:ring-2 focus:ring-orange-500/50 focus:ring-offset-2 min-w-[120px]"
               style={{ animationDelay: '0.2s' }}
@@ -667,21 +768,45 @@ John`;
             <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-5 gap-12 items-start">
               {/* Metrics Display - Takes 2 columns, positioned left */}
               <div className="lg:col-span-2 animate-fade-in-up" style={{ animationDelay: '0.4s' }}>
-                <div className="sticky top-8">
+                <div className="sticky top-8 space-y-6">
                   <MetricsDisplay
                     metrics={metrics}
                     className="shadow-lg"
                   />
+                  {subjectReport && (
+                    <SubjectLineScore
+                      report={subjectReport}
+                      className="shadow-lg"
+                    />
+                  )}
                 </div>
               </div>
 
               {/* Analysis Insights - Takes 3 columns, positioned right */}
               <div className="lg:col-span-3 animate-fade-in-up" style={{ animationDelay: '0.6s' }}>
-                <div className="pl-4 lg:pl-8">
+                <div className="pl-4 lg:pl-8 space-y-8">
                   <AnalysisInsights
                     metrics={metrics}
                     className=""
                   />
+                  {analysisResult?.spam && (
+                    <SpamRulesPanel
+                      report={analysisResult.spam}
+                      className="shadow-lg"
+                    />
+                  )}
+                  {analysisResult?.deliverability && (
+                    <DeliverabilityPanel
+                      report={analysisResult.deliverability}
+                      className="shadow-lg"
+                    />
+                  )}
+                  {analysisResult?.accessibility && (
+                    <AccessibilityPanel
+                      report={analysisResult.accessibility}
+                      className="shadow-lg"
+                    />
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,82 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { vi, describe, test, expect } from 'vitest';
+import { ThemeProvider } from '../../components/ThemeProvider';
+import GradeMyMail from '../GradeMyMail';
+import { apiService, type AnalysisHighlights, type AnalysisStreamHandlers, type UnifiedAnalysisResponse } from '../../services/api';
+
+vi.mock('../../components/RichTextEditor/RichTextEditor', () => ({
+  default: ({ onChange, placeholder }: { onChange: (html: string, text: string) => void; placeholder?: string }) => (
+    <textarea
+      data-testid="rich-text-editor"
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value, e.target.value)}
+    />
+  ),
+}));
+
+vi.mock('../../hooks/useErrorHandler', () => ({
+  useErrorHandler: () => ({
+    handleAsyncError: vi.fn(),
+    enableFallbackMode: vi.fn(),
+  }),
+}));
+
+vi.mock('../../utils/errorRecovery', () => ({
+  StatePreservation: {
+    restoreState: () => ({ success: false, data: null }),
+    preserveState: vi.fn(),
+    clearRecoveryData: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/api', () => ({
+  apiService: {
+    getModelsStatus: vi.fn().mockResolvedValue({ status: 'healthy' }),
+    analyzeNewsletter: vi.fn(),
+    analyzeNewsletterStream: vi.fn(),
+  },
+}));
+
+const draft = 'This is an amazing opportunity for our whole team this week.';
+const highlights = {
+  analysisResult: { annotated: 'This is an <fluff>amazing</fluff> opportunity for our whole team this week.' },
+  summary: { issueCountsByType: { fluff: 1 } },
+  ranges: [],
+};
+
+describe('GradeMyMail streaming analysis', () => {
+  test('shows highlights before scoring completes', async () => {
+    let finish: (response: UnifiedAnalysisResponse) => void = () => {};
+    vi.mocked(apiService.analyzeNewsletterStream).mockImplementation(
+      (_content: string, handlers: AnalysisStreamHandlers = {}) => new Promise(resolve => {
+        handlers.onHighlights?.(highlights as unknown as AnalysisHighlights);
+        finish = resolve;
+      })
+    );
+
+    render(
+      <BrowserRouter>
+        <ThemeProvider>
+          <GradeMyMail />
+        </ThemeProvider>
+      </BrowserRouter>
+    );
+    fireEvent.change(screen.getByTestId('rich-text-editor'), { target: { value: draft } });
+    fireEvent.click(screen.getByText('Analyze'));
+
+    await waitFor(() => expect(screen.getByText('Analysis Results')).toBeInTheDocument());
+    expect(screen.getByText('Scoring…')).toBeInTheDocument();
+    expect(screen.getByText('amazing')).toBeInTheDocument();
+    expect(apiService.analyzeNewsletter).not.toHaveBeenCalled();
+
+    finish({
+      ...highlights,
+      metrics: { overallGrade: 'B', audienceFit: 80, tone: 80, clarity: 80, engagement: 80, spamRisk: 10, wordCount: 11, readingTime: 1, summary: [], improvements: [] },
+      metadata: {},
+    } as unknown as UnifiedAnalysisResponse);
+
+    await waitFor(() => expect(screen.queryByText('Scoring…')).not.toBeInTheDocument());
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { RealTimeAnalysisEngine, extractContent, createAnalysisEngine } from '../analysisEngine';
+import { apiService, type AnalysisHighlights, type AnalysisStreamHandlers, type UnifiedAnalysisResponse } from '../api';
 import { mockFetch, mockAIResponses, setupTestEnvironment, cleanupTestEnvironment } from '../../test-utils/mocks';
 
 describe('Analysis Engine', () => {
@@ -132,6 +133,54 @@ describe('Analysis Engine', () => {
     });
   });
 
+  describe('Streaming analysis', () => {
+    const highlights = {
+      analysisResult: { annotated: 'Act <spam_words>now</spam_words>', report: {} },
+      summary: { score: 80, grade: 'B' },
+      ranges: [{ start: 4, end: 7, type: 'spam_words', priority: 'high' }],
+    };
+    const result = { ...highlights, metrics: { overallGrade: 'C' } } as unknown as UnifiedAnalysisResponse;
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('publishes highlights before the scores arrive', async () => {
+      let finish: (value: UnifiedAnalysisResponse) => void = () => {};
+      vi.spyOn(apiService, 'analyzeNewsletterStream').mockImplementation((_content, handlers: AnalysisStreamHandlers = {}) => {
+        handlers.onHighlights?.(highlights as unknown as AnalysisHighlights);
+        return new Promise(resolve => { finish = resolve; });
+      });
+      const streaming = createAnalysisEngine({ debounceMs: 0, enableCaching: false });
+
+      streaming.analyzeContent('<p>Act now for results</p>', 'Act now for results');
+
+      await vi.waitFor(() => expect(streaming.getCurrentState().highlights).toEqual(highlights));
+      expect(streaming.getCurrentState().isAnalyzing).toBe(true);
+      expect(streaming.getCurrentState().result).toBeNull();
+
+      finish(result);
+
+      await vi.waitFor(() => expect(streaming.getCurrentState().isAnalyzing).toBe(false));
+      expect(streaming.getCurrentState().result).toBe(result);
+      streaming.destroy();
+    });
+
+    it('uses the single-response endpoint when streaming is off', async () => {
+      const stream = vi.spyOn(apiService, 'analyzeNewsletterStream');
+      const single = vi.spyOn(apiService, 'analyzeNewsletter').mockResolvedValue(result);
+      const buffered = createAnalysisEngine({ debounceMs: 0, enableCaching: false, enableStreaming: false });
+
+      buffered.analyzeContent('<p>Act now for results</p>', 'Act now for results');
+
+      await vi.waitFor(() => expect(buffered.getCurrentState().result).toBe(result));
+      expect(single).toHaveBeenCalledTimes(1);
+      expect(stream).not.toHaveBeenCalled();
+      expect(buffered.getCurrentState().highlights).toBe(result);
+      buffered.destroy();
+    });
+  });
+
   describe('Engine Management', () => {
     it('should provide engine statistics', () => {
       const stats = engine.getStats();
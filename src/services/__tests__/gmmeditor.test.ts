@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GMMeditorService } from '../gmmeditor';
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 404 ? 'Not Found' : 'OK',
+  json: () => Promise.resolve(body),
+});
+
+describe('GMMeditorService jobs', () => {
+  const service = new GMMeditorService('http://api.test');
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('submits a rewrite as an improve job and returns its id', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ job: { id: 'job-1', status: 'pending', progress: 0 } }, 202));
+
+    const id = await service.submitRewriteJob({ originalText: 'Hello team', toneKey: 'professional' });
+
+    expect(id).toBe('job-1');
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe('http://api.test/api/jobs');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toMatchObject({
+      type: 'improve',
+      input: { originalText: 'Hello team', toneKey: 'professional', options: { model: 'llama-3.1-8b-instant' } },
+    });
+  });
+
+  it('throws the server message when a job is rejected', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: { message: 'Too many requests' } }, 429));
+
+    await expect(service.submitRewriteJob({ originalText: 'Hello team' })).rejects.toThrow('Too many requests');
+  });
+
+  it('refuses to submit an empty draft', async () => {
+    await expect(service.submitRewriteJob({ originalText: '  ' })).rejects.toThrow('Original text is required');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reads the status, progress and result of a job', async () => {
+    const result = { rewritten: 'Hi team', mappings: [], metadata: {} };
+    fetchMock.mockResolvedValue(jsonResponse({ job: { id: 'job 1', status: 'completed', progress: 100, message: 'Completed', result } }));
+
+    const status = await service.getProcessingStatus('job 1');
+
+    expect(fetchMock.mock.calls[0]![0]).toBe('http://api.test/api/jobs/job%201');
+    expect(status).toEqual({ status: 'completed', progress: 100, message: 'Completed', result });
+  });
+
+  it('reports the error message of a failed job', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      job: { id: 'job-1', status: 'failed', progress: 40, message: 'Failed', error: { type: 'AI_MODEL', message: 'All LLM providers failed', retryable: true } },
+    }));
+
+    expect(await service.getProcessingStatus('job-1')).toMatchObject({ status: 'failed', message: 'All LLM providers failed' });
+  });
+
+  it('treats an unknown or expired job as failed', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: { message: 'Job not found or has expired' } }, 404));
+
+    expect(await service.getProcessingStatus('gone')).toEqual({ status: 'failed', message: 'Failed to get status' });
+  });
+
+  it('cancels a job with DELETE', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ job: { id: 'job-1', status: 'cancelled' } }));
+
+    expect(await service.cancelProcessing('job-1')).toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith('http://api.test/api/jobs/job-1', { method: 'DELETE' });
+  });
+
+  it('reports a failed cancel as false', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 404)).mockRejectedValueOnce(new Error('offline'));
+
+    expect(await service.cancelProcessing('gone')).toBe(false);
+    expect(await service.cancelProcessing('job-1')).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HighlightingService } from '../highlightingService';
+
+const content = '<p>Act now!</p><p>We mean it.</p><p>Act now!</p>';
+
+describe('HighlightingService', () => {
+  beforeEach(() => {
+    vi.mocked(global.fetch).mockReset();
+  });
+
+  it('places a repeated sentence at its own position in the content', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        annotated: content,
+        report: {
+          perSentence: [
+            { sentence: 'Act now!', tags: [], reasons: {}, offset: 0, source: { start: 3, end: 11 } },
+            { sentence: 'We mean it.', tags: [], reasons: {}, offset: 9, source: { start: 18, end: 29 } },
+            { sentence: 'Act now!', tags: ['spam_words'], reasons: {}, offset: 21, source: { start: 36, end: 44 } },
+          ],
+          global: { wordCount: 7, sentenceCount: 3, linkCount: 0, linkDensityPer100Words: 0, longParagraphs: [], readability: { fleschKincaidGrade: 1, threshold: 9 }, flags: [] },
+        },
+      }),
+    } as Response);
+
+    const { ranges } = await new HighlightingService().analyzeContent(content);
+
+    expect(ranges).toHaveLength(1);
+    expect(ranges[0]).toMatchObject({ start: 36, end: 44, type: 'spam_words' });
+    expect(content.slice(ranges[0]!.start, ranges[0]!.end)).toBe('Act now!');
+  });
+
+  it('keeps rule-pack types with the priority and copy the server defined', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        annotated: 'Send the e-mail today.',
+        report: {
+          perSentence: [
+            { sentence: 'Send the e-mail today.', tags: ['house_term'], reasons: {}, offset: 0, source: { start: 0, end: 22 } },
+          ],
+          global: { wordCount: 4, sentenceCount: 1, linkCount: 0, linkDensityPer100Words: 0, longParagraphs: [], readability: { fleschKincaidGrade: 1, threshold: 9 }, flags: [] },
+        },
+        summary: {
+          highlightTypes: { house_term: { priority: 'low', message: 'House style term', suggestion: 'Use the house spelling.' } },
+        },
+      }),
+    } as Response);
+
+    const { ranges, summary } = await new HighlightingService().analyzeContent('Send the e-mail today.');
+
+    expect(ranges).toEqual([
+      { start: 0, end: 22, type: 'house_term', priority: 'low', message: 'House style term', suggestion: 'Use the house spelling.' },
+    ]);
+    expect(summary.issueCounts.low).toBe(1);
+  });
+});
@@ -20,7 +20,7 @@ import {
   takeUntil
 } from 'rxjs/operators';
 import { apiService, APIError } from './api';
-import type { AnalyzeResponse, UnifiedAnalysisResponse } from './api';
+import type { AnalyzeResponse, AnalysisHighlights, UnifiedAnalysisResponse } from './api';
 
 // Content extraction interface
 export interface ExtractedContent {
@@ -37,6 +37,8 @@ export interface AnalysisState {
   isAnalyzing: boolean;
   content: ExtractedContent | null;
   result: UnifiedAnalysisResponse | null;
+  // Rule-based highlights; with streaming they arrive while scoring is still running
+  highlights: AnalysisHighlights | null;
   error: APIError | null;
   lastAnalyzedAt: Date | null;
   requestId: string | null;
@@ -51,6 +53,7 @@ export interface AnalysisConfig {
   enableDeduplication: boolean;
   enableCaching: boolean;
   cacheExpiryMs: number;
+  enableStreaming: boolean;
 }
 
 // Default configuration
@@ -62,6 +65,7 @@ const DEFAULT_CONFIG: AnalysisConfig = {
   enableDeduplication: true,
   enableCaching: true,
   cacheExpiryMs: 5 * 60 * 1000, // 5 minutes cache
+  enableStreaming: true, // Highlights before scores via /api/analyze/stream
 };
 
 // Cache entry interface
@@ -217,6 +221,7 @@ export class RealTimeAnalysisEngine {
     isAnalyzing: false,
     content: null,
     result: null,
+    highlights: null,
     error: null,
     lastAnalyzedAt: null,
     requestId: null,
@@ -250,7 +255,8 @@ export class RealTimeAnalysisEngine {
       // Log content changes
       tap(content => {
         console.log(`📝 Content changed: ${content.wordCount} words, ${content.characterCount} chars, hash: ${content.contentHash}`);
-        this.updateState({ content, isAnalyzing: true, error: null });
+        // Highlights of the previous draft no longer line up with the text
+        this.updateState({ content, isAnalyzing: true, error: null, highlights: null });
       }),
       
       // Switch to analysis request (cancels previous requests)
@@ -281,6 +287,7 @@ export class RealTimeAnalysisEngine {
         this.updateState({
           isAnalyzing: false,
           result,
+          highlights: result, // The full result carries the highlights too
           error: null,
           lastAnalyzedAt: new Date(),
         });
@@ -315,7 +322,9 @@ export class RealTimeAnalysisEngine {
       return timer(0).pipe(
         switchMap(() => {
           console.log(`🔍 Starting GroqGemma unified analysis request: ${requestId}`);
-          return apiService.analyzeNewsletter(content.plainText, requestId);
+          return this.config.enableStreaming
+            ? this.streamAnalysis(content.plainText, requestId)
+            : apiService.analyzeNewsletter(content.plainText, requestId);
         }),
         retry({
           count: this.config.maxRetries,
@@ -338,6 +347,29 @@ export class RealTimeAnalysisEngine {
     }
   }
 
+  // Streaming analysis: highlights are published as soon as the rule-based pass is back,
+  // the result once scoring completes; unsubscribing (newer content) aborts the request
+  private streamAnalysis(plainText: string, requestId: string): Observable<UnifiedAnalysisResponse> {
+    return new Observable<UnifiedAnalysisResponse>(subscriber => {
+      apiService.analyzeNewsletterStream(plainText, {
+        onHighlights: (highlights) => {
+          if (!subscriber.closed) {
+            console.log(`🖍️ Highlights ready for ${requestId}, waiting for scores`);
+            this.updateState({ highlights });
+          }
+        }
+      }, requestId).then(
+        (result) => {
+          subscriber.next(result);
+          subscriber.complete();
+        },
+        (error) => subscriber.error(error)
+      );
+
+      return () => apiService.cancelRequest(requestId);
+    });
+  }
+
   // Update internal state
   private updateState(updates: Partial<AnalysisState>): void {
     const currentState = this.stateSubject.value;
@@ -382,6 +414,7 @@ export class RealTimeAnalysisEngine {
     this.updateState({
       content: null,
       result: null,
+      highlights: null,
       error: null,
       lastAnalyzedAt: null,
       requestId: null,
@@ -1,4 +1,8 @@
 import axios, { type AxiosInstance, type AxiosResponse, type AxiosError } from 'axios';
+import { ANALYSIS_TAG_PATTERN, type HighlightTypeDefinitions, type ReadabilityReport } from '../types/highlighting';
+import type { ErrorSeverity } from '../store';
+import type { GradeResult, GradingRubric } from '../utils/grading';
+import { readServerSentEvents } from '../utils/serverSentEvents';
 
 // ValidationError class for client-side validation
 export class ValidationError extends Error {
@@ -35,6 +39,13 @@ export interface FixResponse {
   };
 }
 
+// Callbacks for a streaming rewrite: onDelta gets each new piece and the draft so far;
+// onReset means the draft so far is void and the rewrite starts over
+export interface RewriteStreamHandlers {
+  onDelta?: (text: string, draft: string) => void;
+  onReset?: () => void;
+}
+
 export interface StoreResponse {
   id: string; // UUID for temporary storage
 }
@@ -57,6 +68,7 @@ export interface UnifiedAnalysisResponse {
         sentence: string;
         tags: string[];
         reasons: Record<string, any>;
+        spans?: Record<string, Array<{ start: number; end: number; text: string }>>;
       }>;
       global: {
         wordCount: number;
@@ -64,10 +76,7 @@ export interface UnifiedAnalysisResponse {
         linkCount: number;
         linkDensityPer100Words: number;
         longParagraphs: number[];
-        readability: {
-          fleschKincaidGrade: number;
-          threshold: number;
-        };
+        readability: ReadabilityReport;
         flags: Array<{
           tag: string;
           reasons: Record<string, any>;
@@ -84,7 +93,10 @@ export interface UnifiedAnalysisResponse {
       low: number;
       info: number;
     };
+    issueCountsByType?: Record<string, number>;
     issueTypes: string[];
+    // Priority and tooltip copy for each type found, including rule-pack types
+    highlightTypes?: HighlightTypeDefinitions;
     metrics: {
       wordCount: number;
       sentenceCount: number;
@@ -103,7 +115,19 @@ export interface UnifiedAnalysisResponse {
     priority: string;
     message?: string;
     suggestion?: string;
+    text?: string;
+    layer?: number;
   }>;
+  // Link audit; each finding is also returned in ranges as a link_issue
+  links?: LinkAudit | null;
+  // Technical checks on the HTML; the spam model counts them as rules
+  deliverability?: DeliverabilityReport | null;
+  // Weighted spam model; the rules explain metrics.spamRisk
+  spam?: SpamReport | null;
+  // Accessibility audit; located findings are also returned in ranges as accessibility
+  accessibility?: AccessibilityReport | null;
+  // Merge tags skipped by the prose checks; findings are also returned in ranges as merge_tag
+  mergeTags?: MergeTagReport | null;
   // Gemma AI scoring data
   metrics: {
     overallGrade: 'A' | 'B' | 'C' | 'D' | 'F';
@@ -117,6 +141,8 @@ export interface UnifiedAnalysisResponse {
     summary: string[];
     improvements: string[];
   };
+  // Rubric grade over the AI scores and the rule-based writing score; metrics.overallGrade is grading.grade
+  grading?: GradeResult;
   // Unified metadata
   metadata: {
     model: string;
@@ -127,13 +153,330 @@ export interface UnifiedAnalysisResponse {
     timestamp: string;
     processingTime: number;
     cached: boolean;
+    rulePacks?: Array<{ name: string; version?: string | number }>;
+    options?: TaggerOptionOverrides;
+    language?: ContentLanguage;
+    // Offline score formulas, present when Gemma scoring was unavailable
+    scoreBreakdown?: Record<
+      'audienceFit' | 'tone' | 'clarity' | 'engagement' | 'spamRisk',
+      { base: number; adjustments: Array<{ label: string; points: number; improvement?: string }> }
+    >;
+    // Metrics fields holding a stand-in value because the scoring model's reply never validated
+    scoreUnavailable?: Array<'audienceFit' | 'tone' | 'clarity' | 'engagement' | 'spamRisk' | 'summary' | 'improvements'>;
     systemHealth: {
       ruleBased: boolean;
       gemmaAI: boolean;
+      // AI circuit breakers; OPEN means the fallback answered without trying the model
+      circuitBreakers?: Record<'scoring' | 'rewriting', 'CLOSED' | 'OPEN' | 'HALF_OPEN'>;
     };
   };
 }
 
+// Rule-based part of a unified analysis, the first event of a streaming analysis
+export type AnalysisHighlights = Pick<
+  UnifiedAnalysisResponse,
+  'analysisResult' | 'summary' | 'ranges' | 'links' | 'deliverability' | 'spam' | 'accessibility' | 'mergeTags'
+>;
+
+// Callbacks for a streaming analysis: the highlights arrive first, the scores once the model is done
+export interface AnalysisStreamHandlers {
+  onHighlights?: (highlights: AnalysisHighlights) => void;
+  onMetrics?: (scores: Pick<UnifiedAnalysisResponse, 'metrics' | 'grading'>) => void;
+}
+
+// Language the newsletter was analyzed in; `source` says whether it was requested or detected
+export interface ContentLanguage {
+  code: string;
+  name: string;
+  source: 'request' | 'detected';
+  confidence: number;
+}
+
+// Per-request tagger thresholds; grouped fields are merged with the server defaults
+export interface TaggerOptionOverrides {
+  sentenceLength?: { maxLength?: number };
+  allCaps?: { maxAllowed?: number };
+  excessivePunctuation?: { maxExclamations?: number };
+  passiveVoice?: { enabled?: boolean };
+  thresholds?: { fluffPhrases?: number; mildJargon?: number; heavyJargon?: number; spamWords?: number };
+  maxEmojiPerSentence?: number;
+  maxLinksPer100Words?: number;
+  redundancy?: { similarityThreshold?: number; minSentenceWords?: number };
+  readability?: { gradeThreshold?: number };
+  grammar?: {
+    enabled?: boolean;
+    minWordLength?: number;
+    skipProperNouns?: boolean;
+    skipNonLexical?: boolean;
+    maxMisspellingsListed?: number;
+  };
+}
+
+// Link audit returned with /api/analyze
+export type LinkIssueCode =
+  | 'missing_href'
+  | 'empty_link_text'
+  | 'non_descriptive_text'
+  | 'bare_url'
+  | 'url_shortener'
+  | 'duplicate_destination'
+  | 'utm_missing'
+  | 'utm_incomplete'
+  | 'utm_inconsistent'
+  | 'invalid_mailto'
+  | 'invalid_tel'
+  | 'tel_without_country_code';
+
+export interface AuditedLink {
+  index: number;
+  kind: 'anchor' | 'text'; // 'text' = URL pasted as plain text
+  href: string;
+  text: string; // Visible text, or image alt text for image links
+  image: boolean;
+  scheme: 'http' | 'https' | 'mailto' | 'tel' | 'relative' | 'other' | 'none';
+  host: string | null;
+  destination: string | null; // Without fragment and UTM parameters
+  utm: Record<string, string> | null;
+  source: { start: number; end: number };
+  issues: LinkIssueCode[];
+}
+
+export interface LinkAudit {
+  links: AuditedLink[];
+  findings: Array<{
+    code: LinkIssueCode;
+    severity: 'high' | 'medium' | 'low' | 'info';
+    message: string;
+    suggestion: string;
+    linkIndex: number;
+    start: number;
+    end: number;
+    text: string;
+  }>;
+  summary: {
+    total: number;
+    anchors: number;
+    bareUrls: number;
+    uniqueDestinations: number;
+    duplicates: Array<{ destination: string; count: number; linkIndexes: number[] }>;
+    utm: { tracked: number; untracked: number; expected: Record<string, string> };
+    issueCounts: Partial<Record<LinkIssueCode, number>>;
+  };
+}
+
+// Deliverability inspection returned with /api/analyze
+export type DeliverabilityIssueCode =
+  | 'gmail_clipping'
+  | 'near_gmail_clipping'
+  | 'image_only'
+  | 'image_heavy'
+  | 'hidden_text'
+  | 'tiny_font'
+  | 'invisible_text'
+  | 'external_css'
+  | 'form'
+  | 'active_content'
+  | 'tracking_pixel';
+
+export interface DeliverabilityReport {
+  sizeBytes: number;
+  clipThresholdBytes: number;
+  clipped: boolean;
+  wordCount: number;
+  images: { total: number; content: number; trackingPixels: number };
+  wordsPerImage: number | null;
+  preheader: string | null; // Hidden preview text, which is not flagged
+  findings: Array<{
+    code: DeliverabilityIssueCode;
+    severity: 'high' | 'medium' | 'low' | 'info';
+    weight: number; // Spam-risk points
+    message: string;
+    suggestion: string;
+    start?: number;
+    end?: number;
+  }>;
+  issueCounts: Partial<Record<DeliverabilityIssueCode, number>>;
+  spamRiskPenalty: number;
+}
+
+// Weighted spam model returned with /api/analyze; metrics.spamRisk is its spamRisk
+export type SpamRuleId =
+  | 'SPAM_PHRASE'
+  | 'ALL_CAPS'
+  | 'EXCLAMATION_RUN'
+  | 'EXCLAMATION_DENSITY'
+  | 'MONEY_AMOUNTS'
+  | 'MONEY_SIGN_RUN'
+  | 'LINK_DENSITY'
+  | 'URL_SHORTENER'
+  | 'IMAGE_ONLY'
+  | 'IMAGE_HEAVY'
+  | 'HTML_DELIVERABILITY'
+  | 'SUBJ_FAKE_REPLY'
+  | 'SUBJ_URGENT_PREFIX'
+  | 'SUBJ_ALL_CAPS'
+  | 'SUBJ_EXCLAMATION'
+  | 'SUBJ_SPAM_PHRASE';
+
+export interface SpamReport {
+  score: number; // Sum of the fired rules' points
+  requiredScore: number; // Spam at or above this score (5.0)
+  isSpam: boolean;
+  spamRisk: number; // min(100, score × 10)
+  rules: Array<{
+    id: SpamRuleId;
+    description: string;
+    suggestion: string;
+    points: number;
+    evidence: string[];
+  }>; // Most points first
+}
+
+// CAN-SPAM / GDPR flags, returned in analysisResult.report.global.flags
+export type ComplianceFlagTag =
+  | 'missing_unsubscribe'
+  | 'missing_postal_address'
+  | 'unclear_sender'
+  | 'missing_disclosure'
+  | 'unlabeled_sponsored';
+
+export interface ComplianceFlag {
+  tag: ComplianceFlagTag;
+  reasons: {
+    category: 'compliance';
+    severity: 'blocking' | 'warning'; // Blocking items are legal requirements
+    regulations: string[];
+    message: string;
+    suggestion: string;
+    [key: string]: unknown;
+  };
+}
+
+// Accessibility audit returned with /api/analyze
+export type AccessibilityIssueCode =
+  | 'missing_alt'
+  | 'linked_image_missing_alt'
+  | 'skipped_heading_level'
+  | 'low_contrast'
+  | 'color_only_link'
+  | 'layout_table_role'
+  | 'missing_lang';
+
+export interface AccessibilityReport {
+  lang: string | null; // lang attribute of <html>, if any
+  findings: Array<{
+    code: AccessibilityIssueCode;
+    severity: ErrorSeverity;
+    message: string;
+    suggestion: string;
+    start?: number;
+    end?: number;
+    text?: string;
+  }>; // Most severe first
+  issueCounts: Partial<Record<AccessibilityIssueCode, number>>;
+  severityCounts: Record<ErrorSeverity, number>;
+}
+
+// ESP merge tags found by /api/analyze; findings are also returned in ranges as merge_tag
+export type MergeTagIssueCode =
+  | 'unclosed_tag'
+  | 'stray_delimiter'
+  | 'empty_tag'
+  | 'unclosed_block'
+  | 'unexpected_block_end'
+  | 'mismatched_block'
+  | 'orphan_branch'
+  | 'missing_fallback';
+
+export interface MergeTagReport {
+  tokens: Array<{
+    syntax: 'mustache' | 'liquid' | 'mailchimp' | 'ampscript' | 'activecampaign' | 'campaign_monitor';
+    kind: 'variable' | 'open' | 'branch' | 'close' | 'statement' | 'expression' | 'comment' | 'raw' | 'empty';
+    name: string;
+    raw: string; // Exactly as written
+    start: number;
+    end: number;
+    fallback: boolean;
+    system: boolean; // Filled in by the ESP (unsubscribe URL, list address, ...)
+    guarded: boolean; // Inside a conditional or loop block
+  }>;
+  findings: Array<{
+    code: MergeTagIssueCode;
+    severity: 'high' | 'medium' | 'low';
+    message: string;
+    suggestion: string;
+    start: number;
+    end: number;
+    text: string;
+  }>;
+  summary: {
+    total: number;
+    bySyntax: Record<string, number>;
+    variables: number;
+    blocks: number;
+    missingFallbacks: number;
+    errors: number; // The template will not render as written
+  };
+}
+
+// Subject line / preheader report from /api/newsletter/subject
+export interface SubjectLineCheck {
+  id: string;
+  label: string;
+  status: 'pass' | 'warning' | 'fail';
+  message: string;
+  suggestion?: string;
+  penalty: number;
+}
+
+export interface InboxPreview {
+  text: string;
+  length: number;
+  wordCount: number;
+  mobilePreview: string;
+  mobileTruncated: boolean;
+  desktopTruncated: boolean;
+}
+
+export interface SubjectLineAnalysisResponse {
+  score: number;
+  grade: 'A' | 'B' | 'C' | 'D' | 'F';
+  subject: InboxPreview;
+  preheader: InboxPreview | null;
+  spamWords: string[];
+  emojiCount: number;
+  personalizationTokens: string[];
+  bodyMatch: { score: number; matchedTerms: string[]; missingTerms: string[] } | null;
+  checks: SubjectLineCheck[];
+  metadata: {
+    model: string;
+    timestamp: string;
+    processingTime: number;
+    language?: ContentLanguage;
+  };
+}
+
+// Rule packs, option overrides and content language to apply on top of the built-in tagger rules,
+// and the grading rubric for the overall grade
+export interface RulePackSelection {
+  workspaceId?: string;
+  rulePacks?: Array<string | Record<string, unknown>>; // JSON/YAML text or parsed packs; terms only, no regex patterns
+  options?: TaggerOptionOverrides;
+  language?: string; // 'auto' (default) or en, es, de, fr
+  rubric?: string; // Rubric id: 'default' or one stored for the workspace (see getRubrics)
+}
+
+export interface RubricListResponse {
+  rubrics: GradingRubric[];
+  default: string;
+  metadata: {
+    timestamp: string;
+  };
+}
+
+// Matches every opening/closing analysis tag the tagger can emit
+const ANALYSIS_TAG_REGEX = new RegExp(`</?${ANALYSIS_TAG_PATTERN}>`, 'g');
+
 // Error types for classification
 export type APIErrorType = 'network' | 'validation' | 'ai' | 'client' | 'server' | 'storage';
 
@@ -475,10 +818,9 @@ export const apiService = {
       }
 
       // For GMMeditor, we need to extract the original text from tagged content
-      // Remove XML tags to get clean text for GMMeditor
+      // Remove XML tags (including stacked ones) to get clean text for GMMeditor
       const originalText = taggedContent
-        .replace(/<(fluff|spam_words|hard_to_read)>/g, '')
-        .replace(/<\/(fluff|spam_words|hard_to_read)>/g, '')
+        .replace(ANALYSIS_TAG_REGEX, '')
         .trim();
 
       console.log(`🔧 [DEBUG] Extracted original text length: ${originalText.length}`);
@@ -552,6 +894,100 @@ export const apiService = {
     }
   },
 
+  // Rewrite with GMMeditor over server-sent events, so the draft can be shown as it is written.
+  // Cancel with cancelRequest(requestKey); resolves like fixEmail once the mappings arrive
+  async improveNewsletterStream(
+    taggedContent: string,
+    options: { tone?: string } = {},
+    handlers: RewriteStreamHandlers = {},
+    requestKey = 'fix-stream'
+  ): Promise<FixResponse> {
+    const controller = requestManager.createController(requestKey);
+
+    try {
+      if (!taggedContent || taggedContent.trim().length === 0) {
+        throw new APIError('Tagged content cannot be empty', 'validation', 400);
+      }
+
+      const originalText = taggedContent.replace(ANALYSIS_TAG_REGEX, '').trim();
+
+      const response = await fetch(`${apiClient.defaults.baseURL}/newsletter/improve/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({
+          originalText,
+          toneKey: options.tone || 'friendly',
+          analysis: {},
+          suggestions: [],
+          options: {}
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        const message = body?.error?.message || `Rewrite stream failed (${response.status})`;
+        throw new APIError(message, response.status >= 500 ? 'server' : 'client', response.status);
+      }
+
+      let draft = '';
+      let result: FixResponse['gmmEditor'] | null = null;
+      let streamError: string | null = null;
+
+      await readServerSentEvents(response.body, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        switch (event) {
+          case 'delta':
+            draft += payload.text;
+            handlers.onDelta?.(payload.text, draft);
+            break;
+          case 'reset':
+            draft = '';
+            handlers.onReset?.();
+            break;
+          case 'done':
+            result = payload;
+            break;
+          case 'error':
+            streamError = payload.message;
+            break;
+        }
+      });
+
+      requestManager.cleanup(requestKey);
+
+      if (streamError) {
+        throw new APIError(streamError, 'ai', 502);
+      }
+      const final = result as FixResponse['gmmEditor'] | null;
+      if (!final?.rewritten) {
+        throw new APIError('Rewrite stream ended without a result', 'ai', 502);
+      }
+
+      return {
+        message: { content: final.rewritten },
+        gmmEditor: {
+          rewritten: final.rewritten,
+          mappings: final.mappings || [],
+          metadata: final.metadata
+        }
+      };
+    } catch (error) {
+      requestManager.cleanup(requestKey);
+
+      if (error instanceof APIError) {
+        error.context = {
+          ...error.context,
+          taggedContentLength: taggedContent.length,
+          requestKey,
+          operation: 'improveNewsletterStream'
+        };
+      }
+
+      throw error;
+    }
+  },
+
   // Store temporary data with enhanced error handling
   async storeData(payload: {
     fullOriginalText: string;
@@ -673,8 +1109,9 @@ export const apiService = {
   // Service status check
   getServiceStatus,
 
-  // Unified newsletter analysis with GroqGemma dual-system approach (highlighting + scoring)
-  async analyzeNewsletter(content: string, requestKey = 'newsletter-analyze', context?: { intendedAudience?: string; goal?: string }): Promise<UnifiedAnalysisResponse> {
+  // Unified newsletter analysis with GroqGemma dual-system approach (highlighting + scoring);
+  // `subject` adds the spam model's subject-line rules
+  async analyzeNewsletter(content: string, requestKey = 'newsletter-analyze', context?: { intendedAudience?: string; goal?: string }, rules?: RulePackSelection, subject?: string): Promise<UnifiedAnalysisResponse> {
     const controller = requestManager.createController(requestKey);
     
     try {
@@ -690,7 +1127,7 @@ export const apiService = {
       const response = await withRetry(
         () => apiClient.post<UnifiedAnalysisResponse>(
           '/analyze',
-          { content, context },
+          { content, context, subject, ...rules },
           { signal: controller.signal }
         ),
         {
@@ -727,6 +1164,164 @@ export const apiService = {
     }
   },
 
+  // Unified analysis over server-sent events: highlights are handed over before scoring
+  // completes; resolves with the same response as analyzeNewsletter
+  async analyzeNewsletterStream(
+    content: string,
+    handlers: AnalysisStreamHandlers = {},
+    requestKey = 'newsletter-analyze-stream',
+    context?: { intendedAudience?: string; goal?: string },
+    rules?: RulePackSelection,
+    subject?: string
+  ): Promise<UnifiedAnalysisResponse> {
+    const controller = requestManager.createController(requestKey);
+
+    try {
+      if (!content || content.trim().length === 0) {
+        throw new APIError('Content cannot be empty', 'validation', 400);
+      }
+
+      if (content.length > 50000) {
+        throw new APIError('Content too large. Please reduce the size and try again.', 'validation', 400);
+      }
+
+      const response = await fetch(`${apiClient.defaults.baseURL}/analyze/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({ content, context, subject, ...rules }),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        const message = body?.error?.message || `Analysis stream failed (${response.status})`;
+        throw new APIError(message, response.status >= 500 ? 'server' : 'client', response.status);
+      }
+
+      let result: UnifiedAnalysisResponse | null = null;
+      let streamError: string | null = null;
+
+      await readServerSentEvents(response.body, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        switch (event) {
+          case 'highlights':
+            handlers.onHighlights?.(payload);
+            break;
+          case 'metrics':
+            handlers.onMetrics?.(payload);
+            break;
+          case 'done':
+            result = payload;
+            break;
+          case 'error':
+            streamError = payload.message;
+            break;
+        }
+      });
+
+      requestManager.cleanup(requestKey);
+
+      if (streamError) {
+        throw new APIError(streamError, 'ai', 502);
+      }
+      const final = result as UnifiedAnalysisResponse | null;
+      if (!final?.analysisResult || !final?.metrics) {
+        throw new APIError('Invalid response from unified analysis service', 'ai', 502);
+      }
+
+      return final;
+    } catch (error) {
+      requestManager.cleanup(requestKey);
+
+      if (error instanceof APIError) {
+        error.context = {
+          ...error.context,
+          contentLength: content.length,
+          requestKey,
+          operation: 'analyzeNewsletterStream'
+        };
+      }
+
+      throw error;
+    }
+  },
+
+  // Subject line and preheader scoring; `content` enables the subject/body match check
+  async analyzeSubjectLine(
+    input: { subject: string; preheader?: string; content?: string; language?: string },
+    requestKey = 'newsletter-subject'
+  ): Promise<SubjectLineAnalysisResponse> {
+    const controller = requestManager.createController(requestKey);
+
+    try {
+      if (!input.subject || input.subject.trim().length === 0) {
+        throw new APIError('Subject line cannot be empty', 'validation', 400);
+      }
+
+      const response = await withRetry(
+        () => apiClient.post<SubjectLineAnalysisResponse>(
+          '/newsletter/subject',
+          input,
+          { signal: controller.signal }
+        ),
+        {
+          ...defaultRetryConfig,
+          retryCondition: (error: AxiosError) => {
+            if (error.response?.status === 400) return false;
+            return defaultRetryConfig.retryCondition(error);
+          }
+        }
+      );
+
+      requestManager.cleanup(requestKey);
+      return response.data;
+    } catch (error) {
+      requestManager.cleanup(requestKey);
+
+      if (error instanceof APIError) {
+        error.context = {
+          ...error.context,
+          subjectLength: input.subject.length,
+          requestKey,
+          operation: 'analyzeSubjectLine'
+        };
+      }
+
+      throw error;
+    }
+  },
+
+  // Grading rubrics available to a workspace (the built-in one first)
+  async getRubrics(workspaceId?: string, requestKey = 'rubrics'): Promise<RubricListResponse> {
+    const controller = requestManager.createController(requestKey);
+
+    try {
+      const response = await withRetry(
+        () => apiClient.get<RubricListResponse>(
+          workspaceId ? `/rubrics?workspaceId=${encodeURIComponent(workspaceId)}` : '/rubrics',
+          { signal: controller.signal }
+        ),
+        defaultRetryConfig
+      );
+
+      requestManager.cleanup(requestKey);
+      return response.data;
+    } catch (error) {
+      requestManager.cleanup(requestKey);
+
+      if (error instanceof APIError) {
+        error.context = {
+          ...error.context,
+          workspaceId,
+          requestKey,
+          operation: 'getRubrics'
+        };
+      }
+
+      throw error;
+    }
+  },
+
   // Legacy newsletter scoring endpoint (kept for backward compatibility)
   async scoreNewsletter(content: string, requestKey = 'newsletter-score'): Promise<{
     metrics: {
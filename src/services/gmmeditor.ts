@@ -7,11 +7,21 @@ import type {
   ToneKey,
   GMMeditorAnalysis,
   GMMeditorOptions,
+  ProcessingJob,
+  ProcessingStatus,
 } from '../types/gmmeditor';
 import { TONES } from '../types/gmmeditor';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
+interface RewriteParams {
+  originalText: string;
+  toneKey?: ToneKey;
+  analysis?: GMMeditorAnalysis;
+  suggestions?: string[];
+  options?: GMMeditorOptions;
+}
+
 export class GMMeditorService {
   private baseUrl: string;
 
@@ -20,15 +30,9 @@ export class GMMeditorService {
   }
 
   /**
-   * Rewrite content using GMMeditor's Llama 3.1 AI capabilities
+   * Build the improve request, with GMMeditor's default model options
    */
-  async rewriteContent(params: {
-    originalText: string;
-    toneKey?: ToneKey;
-    analysis?: GMMeditorAnalysis;
-    suggestions?: string[];
-    options?: GMMeditorOptions;
-  }): Promise<GMMeditorResult> {
+  private buildRequest(params: RewriteParams): GMMeditorRequest {
     const {
       originalText,
       toneKey = 'friendly',
@@ -41,7 +45,7 @@ export class GMMeditorService {
       throw new Error('Original text is required');
     }
 
-    const request: GMMeditorRequest = {
+    return {
       originalText,
       toneKey,
       analysis,
@@ -55,6 +59,14 @@ export class GMMeditorService {
         ...options,
       },
     };
+  }
+
+  /**
+   * Rewrite content using GMMeditor's Llama 3.1 AI capabilities
+   */
+  async rewriteContent(params: RewriteParams): Promise<GMMeditorResult> {
+    const { originalText, toneKey = 'friendly', options = {} } = params;
+    const request = this.buildRequest(params);
 
     try {
       const startTime = Date.now();
@@ -141,17 +153,42 @@ export class GMMeditorService {
     }
   }
 
+  /**
+   * Queue a rewrite as a background job, for drafts too long to wait on;
+   * returns the job id to poll with getProcessingStatus
+   */
+  async submitRewriteJob(params: RewriteParams): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/jobs`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ type: 'improve', input: this.buildRequest(params) }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.error?.message || `HTTP ${response.status}: ${response.statusText}`
+      );
+    }
+
+    const { job }: { job: ProcessingJob } = await response.json();
+    return job.id;
+  }
+
   /**
    * Get processing status for long-running operations
    */
   async getProcessingStatus(requestId: string): Promise<{
-    status: 'pending' | 'processing' | 'completed' | 'failed';
+    status: ProcessingStatus;
     progress?: number;
     message?: string;
+    result?: GMMeditorResponse;
   }> {
     try {
       const response = await fetch(
-        `${this.baseUrl}/api/newsletter/improve/status/${requestId}`,
+        `${this.baseUrl}/api/jobs/${encodeURIComponent(requestId)}`,
         {
           method: 'GET',
         }
@@ -161,12 +198,37 @@ export class GMMeditorService {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      return await response.json();
+      const { job }: { job: ProcessingJob<GMMeditorResponse> } = await response.json();
+      return {
+        status: job.status,
+        progress: job.progress,
+        message: job.error?.message ?? job.message,
+        result: job.result,
+      };
     } catch (error) {
       console.error('Failed to get processing status:', error);
       return { status: 'failed', message: 'Failed to get status' };
     }
   }
+
+  /**
+   * Cancel a queued or running job
+   */
+  async cancelProcessing(requestId: string): Promise<boolean> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/api/jobs/${encodeURIComponent(requestId)}`,
+        {
+          method: 'DELETE',
+        }
+      );
+
+      return response.ok;
+    } catch (error) {
+      console.warn('Failed to cancel processing:', error);
+      return false;
+    }
+  }
 }
 
 // Create singleton instance
@@ -3,11 +3,15 @@
  * Integrates rule-based content analysis with the highlighting system
  */
 
-import type { 
-  HighlightRange, 
-  ContentAnalysisResult,
-  HighlightType,
-  HighlightPriority 
+import {
+  getHighlightMessage,
+  getHighlightPriority,
+  isValidHighlightType,
+  type HighlightRange, 
+  type ContentAnalysisResult,
+  type HighlightType,
+  type HighlightTypeDefinitions,
+  type HighlightPriority 
 } from '../types/highlighting';
 
 export interface HighlightingServiceConfig {
@@ -55,8 +59,10 @@ export class HighlightingService {
         throw new Error(`Analysis failed: ${response.statusText}`);
       }
 
-      const analysisResult: ContentAnalysisResult = await response.json();
-      const ranges = this.extractHighlightRanges(content, analysisResult);
+      const analysisResult: ContentAnalysisResult & {
+        summary?: { highlightTypes?: HighlightTypeDefinitions };
+      } = await response.json();
+      const ranges = this.extractHighlightRanges(content, analysisResult, analysisResult.summary?.highlightTypes);
       const summary = this.generateSummary(ranges, analysisResult);
 
       return {
@@ -117,31 +123,32 @@ export class HighlightingService {
   /**
    * Extract highlight ranges from analysis result
    */
-  private extractHighlightRanges(content: string, analysisResult: ContentAnalysisResult): HighlightRange[] {
+  private extractHighlightRanges(
+    content: string,
+    analysisResult: ContentAnalysisResult,
+    definitions?: HighlightTypeDefinitions
+  ): HighlightRange[] {
     const ranges: HighlightRange[] = [];
     
     for (const sentenceData of analysisResult.report.perSentence) {
       if (sentenceData.tags.length === 0) continue;
 
       const sentence = sentenceData.sentence.trim();
-      if (!sentence) continue;
-
-      // Find sentence position in content
-      const sentenceStart = content.indexOf(sentence);
-      if (sentenceStart === -1) continue;
+      if (!sentence || !sentenceData.source) continue;
 
-      const sentenceEnd = sentenceStart + sentence.length;
+      // The report gives each sentence's range in the submitted content, so
+      // a repeated sentence keeps its own position
+      const { start: sentenceStart, end: sentenceEnd } = sentenceData.source;
 
       // Create ranges for each tag type
       for (const tag of sentenceData.tags) {
-        if (this.isValidHighlightType(tag)) {
+        if (isValidHighlightType(tag, definitions)) {
           ranges.push({
             start: sentenceStart,
             end: sentenceEnd,
             type: tag,
-            priority: this.getHighlightPriority(tag),
-            message: this.getHighlightMessage(tag),
-            suggestion: this.getHighlightSuggestion(tag),
+            priority: getHighlightPriority(tag, definitions),
+            ...getHighlightMessage(tag, definitions),
           });
         }
       }
@@ -205,84 +212,6 @@ export class HighlightingService {
     return 'F';
   }
 
-  /**
-   * Check if tag is a valid highlight type
-   */
-  private isValidHighlightType(tag: string): tag is HighlightType {
-    return [
-      'spam_words',
-      'grammar_spelling', 
-      'hard_to_read',
-      'fluff',
-      'emoji_excess',
-      'cta',
-      'hedging',
-      'vague_date',
-      'vague_number',
-      'claim_without_evidence'
-    ].includes(tag);
-  }
-
-  /**
-   * Get priority for highlight type
-   */
-  private getHighlightPriority(type: HighlightType): HighlightPriority {
-    const priorities: Record<HighlightType, HighlightPriority> = {
-      spam_words: 'high',
-      grammar_spelling: 'high',
-      claim_without_evidence: 'high',
-      hard_to_read: 'medium',
-      fluff: 'medium',
-      hedging: 'medium',
-      vague_date: 'medium',
-      vague_number: 'medium',
-      emoji_excess: 'low',
-      cta: 'info',
-    };
-    
-    return priorities[type];
-  }
-
-  /**
-   * Get message for highlight type
-   */
-  private getHighlightMessage(type: HighlightType): string {
-    const messages: Record<HighlightType, string> = {
-      spam_words: 'Contains spam-like language that may trigger email filters',
-      grammar_spelling: 'Grammar or spelling issue detected',
-      hard_to_read: 'This sentence is complex and may be hard to read',
-      fluff: 'Contains unnecessary filler words or phrases',
-      emoji_excess: 'Too many emojis may appear unprofessional',
-      cta: 'Call-to-action detected',
-      hedging: 'Uncertain language weakens your message',
-      vague_date: 'Vague time reference may confuse readers',
-      vague_number: 'Number lacks context or units',
-      claim_without_evidence: 'Strong claim without supporting evidence',
-    };
-    
-    return messages[type];
-  }
-
-  /**
-   * Get suggestion for highlight type
-   */
-  private getHighlightSuggestion(type: HighlightType): string {
-    const suggestions: Record<HighlightType, string> = {
-      spam_words: 'Use more natural, conversational language',
-      grammar_spelling: 'Review and correct the grammar or spelling',
-      hard_to_read: 'Break into shorter sentences or simplify the language',
-      fluff: 'Remove filler words to make the message more direct',
-      emoji_excess: 'Use emojis sparingly for better impact',
-      cta: 'Ensure your CTA is clear and compelling',
-      hedging: 'Use more confident, direct language',
-      vague_date: 'Use specific dates or timeframes',
-      vague_number: 'Add units, percentages, or context to numbers',
-      claim_without_evidence: 'Add data, sources, or examples to support your claim',
-    };
-    
-    return suggestions[type];
-  }
-
   /**
    * Clean up resources
    */
@@ -62,4 +62,8 @@ export interface DiffViewerProps extends VirtualizedDiffProps {
   itemSize?: number;
   overscanCount?: number;
   gmmEditorData?: GMMeditorData | null;
+  /** The rewrite is still arriving; modifiedContent is the draft so far */
+  isStreaming?: boolean;
+  /** Stop a streaming rewrite */
+  onCancel?: () => void;
 }
\ No newline at end of file
@@ -52,12 +52,34 @@ export interface GMMeditorMetadata {
   toneUsed: string;
   originalLength: number;
   rewrittenLength: number;
+  /** Merge tags ({{first_name}}, *|FNAME|*) kept byte-for-byte by the rewrite */
+  mergeTags?: number;
 }
 
 export interface GMMeditorResult extends GMMeditorResponse {
   metadata: GMMeditorMetadata;
 }
 
+// Server-side background job (POST /api/jobs), polled for status and progress
+export type ProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProcessingJob<T = unknown> {
+  id: string;
+  type: 'analyze' | 'score' | 'improve';
+  status: ProcessingStatus;
+  /** 0–100 */
+  progress: number;
+  message?: string;
+  /** Set once the job has completed */
+  result?: T;
+  error?: { type: string; message: string; retryable: boolean };
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** When a finished job is removed from the server */
+  expiresAt?: string;
+}
+
 // Constants from GMMeditor
 export const TONES = {
   professional: "Professional & formal",
@@ -7,6 +7,8 @@ export interface HighlightRange {
   priority: HighlightPriority;
   message?: string;
   suggestion?: string;
+  text?: string; // The matched term or phrase this range covers
+  layer?: number; // Stack position among findings on the same sentence (0 = highest priority)
 }
 
 export interface HighlightPosition {
@@ -30,7 +32,7 @@ export interface AnimationState {
 }
 
 export interface HighlightingConfig {
-  colors: Record<HighlightType, HighlightColors>;
+  colors: Record<string, HighlightColors>; // By highlight type; other types are colored by priority
   animationDuration: number;
   animationEasing: string;
   showTooltips: boolean;
@@ -52,17 +54,28 @@ export interface HighlightingEngine {
 }
 
 // Newsletter-specific highlight types based on content-tagger.js
-export type HighlightType = 
+export type BuiltInHighlightType =
   | 'spam_words'
   | 'grammar_spelling'
+  | 'all_caps'
+  | 'excessive_punctuation'
   | 'hard_to_read'
+  | 'jargon'
+  | 'passive_voice'
   | 'fluff'
   | 'emoji_excess'
   | 'cta'
   | 'hedging'
   | 'vague_date'
   | 'vague_number'
-  | 'claim_without_evidence';
+  | 'claim_without_evidence'
+  | 'link_issue'
+  | 'accessibility'
+  | 'merge_tag';
+
+// Rule packs define further types, so any type the server reports is a
+// highlight type; summary.highlightTypes carries their priority and copy
+export type HighlightType = BuiltInHighlightType | (string & {});
 
 export type HighlightPriority = 'high' | 'medium' | 'low' | 'info';
 
@@ -77,8 +90,51 @@ export interface ContentAnalysisResult {
 
 export interface SentenceAnalysis {
   sentence: string;
-  tags: HighlightType[];
+  tags: HighlightType[]; // Every finding on the sentence, highest priority first
   reasons: Record<string, any>;
+  spans?: Partial<Record<HighlightType, TextSpan[]>>; // Offsets relative to `sentence`
+  offset?: number; // Offset of the sentence in the analyzed plain text (-1 if it could not be located)
+  source?: TextRange | null; // Range of the sentence in the submitted content, markup included
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Readability indices for a block of text; grade levels are US school grades */
+export interface ReadabilityScores {
+  wordCount: number;
+  sentenceCount: number;
+  fleschReadingEase: number;
+  /** Reading-ease adaptation used for the content language (Flesch, Fernández-Huerta, ...) */
+  readingEaseFormula?: string;
+  fleschKincaidGrade: number;
+  smogIndex: number;
+  gunningFog: number;
+  colemanLiauIndex: number;
+  automatedReadabilityIndex: number;
+  /** Mean of the five grade-level indices */
+  averageGrade: number;
+}
+
+export interface ParagraphReadability extends ReadabilityScores {
+  index: number;
+  /** Offset of the paragraph in the analyzed plain text */
+  offset: number;
+  excerpt: string;
+}
+
+export interface ReadabilityReport extends Partial<ReadabilityScores> {
+  fleschKincaidGrade: number;
+  threshold: number;
+  paragraphs?: ParagraphReadability[];
 }
 
 export interface GlobalAnalysis {
@@ -87,10 +143,7 @@ export interface GlobalAnalysis {
   linkCount: number;
   linkDensityPer100Words: number;
   longParagraphs: number[];
-  readability: {
-    fleschKincaidGrade: number;
-    threshold: number;
-  };
+  readability: ReadabilityReport;
   flags: Array<{
     tag: string;
     reasons: Record<string, any>;
@@ -98,34 +151,59 @@ export interface GlobalAnalysis {
 }
 
 // Priority mapping for highlight types
-export const HIGHLIGHT_PRIORITIES: Record<HighlightType, HighlightPriority> = {
+export const HIGHLIGHT_PRIORITIES: Record<BuiltInHighlightType, HighlightPriority> = {
   spam_words: 'high',
   grammar_spelling: 'high',
   claim_without_evidence: 'high',
+  accessibility: 'high',
+  merge_tag: 'high',
+  all_caps: 'medium',
+  excessive_punctuation: 'medium',
   hard_to_read: 'medium',
+  jargon: 'medium',
   fluff: 'medium',
   hedging: 'medium',
   vague_date: 'medium',
   vague_number: 'medium',
+  link_issue: 'medium',
+  passive_voice: 'low',
   emoji_excess: 'low',
   cta: 'info',
 };
 
+// Regex source matching the name of any analysis tag in annotated content:
+// the built-in types, plus rule-pack types (snake_case with an underscore,
+// so they can never be mistaken for an HTML element)
+export const ANALYSIS_TAG_PATTERN = `(?:${Object.keys(HIGHLIGHT_PRIORITIES).join('|')}|[a-z][a-z0-9]*(?:_[a-z0-9]+)+)`;
+
 // Color scheme for different highlight types and priorities
-export const DEFAULT_HIGHLIGHT_COLORS: Record<HighlightType, HighlightColors> = {
+export const DEFAULT_HIGHLIGHT_COLORS: Record<BuiltInHighlightType, HighlightColors> = {
   // High priority - Red
   spam_words: { background: '#FF6B6B', border: '#FF5252', opacity: 0.3 },
   grammar_spelling: { background: '#FF6B6B', border: '#FF5252', opacity: 0.3 },
   claim_without_evidence: { background: '#FF6B6B', border: '#FF5252', opacity: 0.3 },
   
+  // Accessibility findings (images, headings, contrast, links) - Purple
+  accessibility: { background: '#BF5AF2', border: '#AF52DE', opacity: 0.3 },
+  
+  // Broken merge tags and personal fields without a fallback - Pink
+  merge_tag: { background: '#FF375F', border: '#FF2D55', opacity: 0.3 },
+  
   // Medium priority - Yellow
+  all_caps: { background: '#FFD93D', border: '#FFC107', opacity: 0.3 },
+  excessive_punctuation: { background: '#FFD93D', border: '#FFC107', opacity: 0.3 },
   hard_to_read: { background: '#FFD93D', border: '#FFC107', opacity: 0.3 },
+  jargon: { background: '#FFD93D', border: '#FFC107', opacity: 0.3 },
   fluff: { background: '#FFD93D', border: '#FFC107', opacity: 0.3 },
   hedging: { background: '#FFD93D', border: '#FFC107', opacity: 0.3 },
   vague_date: { background: '#FFD93D', border: '#FFC107', opacity: 0.3 },
   vague_number: { background: '#FFD93D', border: '#FFC107', opacity: 0.3 },
   
+  // Link findings (text, shorteners, duplicates, tracking) - Teal
+  link_issue: { background: '#64D2FF', border: '#5AC8FA', opacity: 0.3 },
+  
   // Low priority - Blue
+  passive_voice: { background: '#6BCF7F', border: '#4CAF50', opacity: 0.3 },
   emoji_excess: { background: '#6BCF7F', border: '#4CAF50', opacity: 0.3 },
   
   // Informational - Blue
@@ -133,7 +211,7 @@ export const DEFAULT_HIGHLIGHT_COLORS: Record<HighlightType, HighlightColors> =
 };
 
 // Tooltip messages for each highlight type
-export const HIGHLIGHT_MESSAGES: Record<HighlightType, { message: string; suggestion: string }> = {
+export const HIGHLIGHT_MESSAGES: Record<BuiltInHighlightType, { message: string; suggestion: string }> = {
   spam_words: {
     message: 'Contains spam-like language that may trigger email filters',
     suggestion: 'Use more natural, conversational language'
@@ -142,10 +220,26 @@ export const HIGHLIGHT_MESSAGES: Record<HighlightType, { message: string; sugges
     message: 'Grammar or spelling issue detected',
     suggestion: 'Review and correct the grammar or spelling'
   },
+  all_caps: {
+    message: 'Words in ALL CAPS read as shouting and can trigger spam filters',
+    suggestion: 'Use sentence case and save emphasis for a word or two'
+  },
+  excessive_punctuation: {
+    message: 'Repeated exclamation or question marks look spammy',
+    suggestion: 'Use a single punctuation mark and let the words carry the emphasis'
+  },
   hard_to_read: {
     message: 'This sentence is complex and may be hard to read',
     suggestion: 'Break into shorter sentences or simplify the language'
   },
+  jargon: {
+    message: 'Business jargon makes the message vague and impersonal',
+    suggestion: 'Replace jargon with plain, concrete words'
+  },
+  passive_voice: {
+    message: 'Passive voice hides who is doing what',
+    suggestion: 'Rewrite in active voice so the subject performs the action'
+  },
   fluff: {
     message: 'Contains unnecessary filler words or phrases',
     suggestion: 'Remove filler words to make the message more direct'
@@ -174,4 +268,76 @@ export const HIGHLIGHT_MESSAGES: Record<HighlightType, { message: string; sugges
     message: 'Strong claim without supporting evidence',
     suggestion: 'Add data, sources, or examples to support your claim'
   },
-};
\ No newline at end of file
+  link_issue: {
+    message: 'Problem with this link',
+    suggestion: 'Check the link text and destination'
+  },
+  accessibility: {
+    message: 'Accessibility problem for screen reader or low-vision readers',
+    suggestion: 'Add alt text, fix the heading order, raise the contrast or underline the link'
+  },
+  merge_tag: {
+    message: 'Broken merge tag or personal field without a fallback',
+    suggestion: 'Close every tag and block, and give personal fields a default value'
+  },
+};
+
+// Priority and tooltip copy per type, as /api/analyze reports them in summary.highlightTypes
+export type HighlightTypeDefinitions = Record<string, { priority: string; message: string; suggestion: string }>;
+
+// Colors for types without their own (rule-pack types), by priority
+export const PRIORITY_HIGHLIGHT_COLORS: Record<HighlightPriority, HighlightColors> = {
+  high: { background: '#FF6B6B', border: '#FF5252', opacity: 0.3 },
+  medium: { background: '#FFD93D', border: '#FFC107', opacity: 0.3 },
+  low: { background: '#6BCF7F', border: '#4CAF50', opacity: 0.3 },
+  info: { background: '#6BCF7F', border: '#4CAF50', opacity: 0.3 },
+};
+
+const PRIORITY_RANK: Record<HighlightPriority, number> = { high: 0, medium: 1, low: 2, info: 3 };
+const BUILT_IN_TYPES = Object.keys(HIGHLIGHT_PRIORITIES);
+
+const isBuiltInHighlightType = (type: string): type is BuiltInHighlightType =>
+  Object.prototype.hasOwnProperty.call(HIGHLIGHT_PRIORITIES, type);
+
+const isHighlightPriority = (priority: string | undefined): priority is HighlightPriority =>
+  priority !== undefined && Object.prototype.hasOwnProperty.call(PRIORITY_RANK, priority);
+
+// The lookups below prefer the definitions the server sent with a result and
+// fall back to the built-in tables, so rule-pack types render like built-ins
+
+export function isValidHighlightType(type: string, definitions?: HighlightTypeDefinitions): type is HighlightType {
+  return isBuiltInHighlightType(type) || Boolean(definitions?.[type]);
+}
+
+export function getHighlightPriority(type: string, definitions?: HighlightTypeDefinitions): HighlightPriority {
+  const priority = definitions?.[type]?.priority;
+  if (isHighlightPriority(priority)) return priority;
+  return isBuiltInHighlightType(type) ? HIGHLIGHT_PRIORITIES[type] : 'medium';
+}
+
+export function getHighlightMessage(
+  type: string,
+  definitions?: HighlightTypeDefinitions
+): { message: string; suggestion: string } {
+  const definition = definitions?.[type];
+  if (definition) return { message: definition.message, suggestion: definition.suggestion };
+  return isBuiltInHighlightType(type)
+    ? HIGHLIGHT_MESSAGES[type]
+    : { message: 'Issue detected', suggestion: 'Consider revising this content' };
+}
+
+export function getHighlightColors(type: string, definitions?: HighlightTypeDefinitions): HighlightColors {
+  return isBuiltInHighlightType(type)
+    ? DEFAULT_HIGHLIGHT_COLORS[type]
+    : PRIORITY_HIGHLIGHT_COLORS[getHighlightPriority(type, definitions)];
+}
+
+// Highest priority first; built-ins keep their listed order and rule-pack types follow by name
+export function sortHighlightTypes<T extends string>(types: T[], definitions?: HighlightTypeDefinitions): T[] {
+  const rank = (type: string) => PRIORITY_RANK[getHighlightPriority(type, definitions)];
+  const order = (type: string) => {
+    const index = BUILT_IN_TYPES.indexOf(type);
+    return index === -1 ? BUILT_IN_TYPES.length : index;
+  };
+  return [...types].sort((a, b) => rank(a) - rank(b) || order(a) - order(b) || a.localeCompare(b));
+}
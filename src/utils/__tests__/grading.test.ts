@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RUBRIC, gradeNewsletter, issueDensityScore, rubricFromGrade, scoreToGrade, writingIssuesScore } from '../grading';
+
+describe('grading rubric', () => {
+  it('weighs every dimension equally on the default rubric, with spam risk inverted', () => {
+    const result = gradeNewsletter({
+      audienceFit: 90,
+      tone: 80,
+      clarity: 70,
+      engagement: 60,
+      spamRisk: 20,
+      writingIssues: 100,
+    });
+
+    // (90 + 80 + 70 + 60 + 80 + 100) / 6 = 80
+    expect(result.score).toBe(80);
+    expect(result.grade).toBe('B');
+    expect(result.rubric).toBe(DEFAULT_RUBRIC.id);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('explains the score: points lost add up to the gap from 100', () => {
+    const result = gradeNewsletter({ clarity: 70, engagement: 90, spamRisk: 40 });
+    const lost = result.breakdown.reduce((total, item) => total + item.pointsLost, 0);
+
+    expect(result.score).toBe(73);
+    expect(lost).toBeCloseTo(100 - 73.3, 0);
+    expect(result.breakdown.find(item => item.key === 'spamRisk')).toMatchObject({
+      inverted: true,
+      weight: 33.3,
+      contribution: 20,
+      pointsLost: 13.3,
+    });
+  });
+
+  it('leaves dimensions without a score out of the grade', () => {
+    const result = gradeNewsletter({ clarity: 80, engagement: 70, tone: 90 });
+
+    expect(result.score).toBe(80);
+    expect(result.skipped).toEqual(['audienceFit', 'spamRisk', 'writingIssues']);
+    expect(result.breakdown.map(item => item.key)).toEqual(['tone', 'clarity', 'engagement']);
+  });
+
+  it('applies custom weights and cutoffs', () => {
+    const rubric = {
+      id: 'strict',
+      name: 'Strict',
+      dimensions: [
+        { key: 'clarity', label: 'Clarity', weight: 3 },
+        { key: 'tone', label: 'Tone', weight: 1 },
+      ],
+      gradeCutoffs: { A: 95, B: 85, C: 75, D: 65 },
+    };
+
+    const result = gradeNewsletter({ clarity: 90, tone: 70 }, rubric);
+    expect(result.score).toBe(85);
+    expect(result.grade).toBe('B');
+    expect(scoreToGrade(90, rubric.gradeCutoffs)).toBe('B');
+  });
+
+  it('scores rule-based issues per 100 words', () => {
+    expect(issueDensityScore(0, 200)).toBe(100);
+    expect(issueDensityScore(6, 200)).toBe(85);
+    expect(issueDensityScore(20, 100)).toBe(36);
+  });
+
+  it('counts informational tags as writing issues only when the rubric says so', () => {
+    const issueCounts = { high: 1, medium: 1, low: 0, info: 4 };
+
+    expect(writingIssuesScore(issueCounts, 100)).toBe(90);
+    expect(writingIssuesScore(issueCounts, 100, { ...DEFAULT_RUBRIC, countInformationalTags: true })).toBe(70);
+  });
+
+  it('regrades another version of a draft on the rubric of an earlier grade', () => {
+    const rubric = {
+      id: 'strict',
+      name: 'Strict',
+      dimensions: [
+        { key: 'clarity', label: 'Clarity', weight: 3 },
+        { key: 'spamRisk', label: 'Spam Risk', weight: 1, inverted: true },
+      ],
+      gradeCutoffs: { A: 95, B: 85, C: 75, D: 65 },
+    };
+    const original = gradeNewsletter({ clarity: 70, spamRisk: 40 }, rubric);
+    const rebuilt = rubricFromGrade(original);
+
+    expect(rebuilt.gradeCutoffs).toEqual(rubric.gradeCutoffs);
+    expect(gradeNewsletter({ clarity: 90, spamRisk: 20, tone: 10 }, rebuilt)).toMatchObject({ rubric: 'strict', score: 88, grade: 'B' });
+  });
+});
@@ -0,0 +1,101 @@
+import { extractHighlights, applyHighlightsToHTML } from '../highlightMapper';
+import { buildSourceMap, textToSource } from '../../../server/ai-engines/source-map.js';
+
+const styleMap = {
+  spam_words: { backgroundColor: 'red' },
+  hedging: { backgroundColor: 'orange' },
+};
+const tooltipMap = {
+  spam_words: 'Spammy',
+  hedging: 'Hedging',
+};
+
+describe('highlightMapper', () => {
+  describe('source map', () => {
+    it('maps decoded entities back to the full entity', () => {
+      const html = '<p>Fish &amp; chips</p>';
+      const map = buildSourceMap(html);
+
+      expect(map.text).toBe('Fish & chips');
+      const range = textToSource(map, 5, 6);
+      expect(html.slice(range!.start, range!.end)).toBe('&amp;');
+    });
+
+    it('separates block elements and skips style blocks', () => {
+      const map = buildSourceMap('<style>p { color: red; }</style><p>One.</p><p>Two.</p>');
+      expect(map.text).toBe('One.\n\nTwo.');
+    });
+  });
+
+  describe('extractHighlights', () => {
+    it('reports plain-text offsets for tagged HTML', () => {
+      const tagged = '<p>Hi &amp; <spam_words>buy now</spam_words></p><p><spam_words>buy now</spam_words></p>';
+      const highlights = extractHighlights(tagged);
+
+      expect(highlights).toEqual([
+        { type: 'spam_words', text: 'buy now', start: 5, end: 12 },
+        { type: 'spam_words', text: 'buy now', start: 14, end: 21 },
+      ]);
+    });
+
+    it('handles nested tags', () => {
+      const tagged = '<spam_words><hedging>Maybe buy now</hedging></spam_words>';
+      const types = extractHighlights(tagged).map(h => h.type).sort();
+
+      expect(types).toEqual(['hedging', 'spam_words']);
+    });
+  });
+
+  describe('applyHighlightsToHTML', () => {
+    it('highlights the requested occurrence of a repeated sentence', () => {
+      const html = '<p>Buy now.</p><p>Buy now.</p>';
+      const result = applyHighlightsToHTML(
+        html,
+        [{ type: 'spam_words', text: 'Buy now.', start: 10, end: 18 }],
+        styleMap,
+        tooltipMap
+      );
+
+      expect(result.startsWith('<p>Buy now.</p><p><span')).toBe(true);
+      expect(result).toContain('>Buy now.</span></p>');
+    });
+
+    it('never wraps across tags', () => {
+      const html = '<p>Click <a href="#">here &amp; now</a> please</p>';
+      const result = applyHighlightsToHTML(
+        html,
+        [{ type: 'spam_words', text: 'Click here & now', start: 0, end: 16 }],
+        styleMap,
+        tooltipMap
+      );
+
+      const container = document.createElement('div');
+      container.innerHTML = result;
+      const spans = container.querySelectorAll('.highlight-span');
+
+      expect(Array.from(spans, span => span.textContent)).toEqual(['Click ', 'here & now']);
+      expect(container.querySelector('a')?.textContent).toBe('here & now');
+    });
+
+    it('merges overlapping findings into one span per piece', () => {
+      const html = 'Maybe buy now today';
+      const result = applyHighlightsToHTML(
+        html,
+        [
+          { type: 'hedging', text: 'Maybe buy', start: 0, end: 9 },
+          { type: 'spam_words', text: 'buy now', start: 6, end: 13 },
+        ],
+        styleMap,
+        tooltipMap
+      );
+
+      const container = document.createElement('div');
+      container.innerHTML = result;
+      const spans = Array.from(container.querySelectorAll('.highlight-span'));
+
+      expect(spans.map(span => span.textContent)).toEqual(['Maybe ', 'buy', ' now']);
+      expect(spans[1].getAttribute('data-highlight-types')).toBe('spam_words hedging');
+      expect(spans[1].getAttribute('title')).toBe('Spammy • Hedging');
+    });
+  });
+});
@@ -51,6 +51,12 @@ describe('cleanHtmlForDisplay', () => {
       const expected = 'This is really urgent content.';
       expect(cleanHtmlForDisplay(input)).toBe(expected);
     });
+
+    it('should remove annotator output split across inline elements', () => {
+      const input = '<p><spam_words><hedging>Maybe act </hedging></spam_words><a href="https://example.com"><spam_words><hedging>now</hedging></spam_words></a></p>';
+      const expected = 'Maybe act now (https://example.com)';
+      expect(cleanHtmlForDisplay(input)).toBe(expected);
+    });
   });
 
   describe('HTML Block Element Conversion', () => {
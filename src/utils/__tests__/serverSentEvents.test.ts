@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { readServerSentEvents, type ServerSentEvent } from '../serverSentEvents';
+
+const streamOf = (...chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const collect = async (...chunks: string[]) => {
+  const events: ServerSentEvent[] = [];
+  await readServerSentEvents(streamOf(...chunks), event => events.push(event));
+  return events;
+};
+
+describe('readServerSentEvents', () => {
+  it('reads named events and their data', async () => {
+    const events = await collect('event: start\ndata: {"a":1}\n\nevent: delta\ndata: {"text":"Hi"}\n\n');
+
+    expect(events).toEqual([
+      { event: 'start', data: '{"a":1}' },
+      { event: 'delta', data: '{"text":"Hi"}' },
+    ]);
+  });
+
+  it('puts events back together when they arrive in pieces', async () => {
+    const events = await collect('event: del', 'ta\ndata: {"text":', '"Hello"}\n', '\n', 'data: tail');
+
+    expect(events).toEqual([
+      { event: 'delta', data: '{"text":"Hello"}' },
+      // Flushed at the end of the stream even without a closing blank line
+      { event: 'message', data: 'tail' },
+    ]);
+  });
+
+  it('joins multi-line data and skips keep-alive comments', async () => {
+    const events = await collect(': keep-alive\n\ndata: one\ndata: two\n\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'one\ntwo' }]);
+  });
+
+  it('accepts CRLF line endings, even split between chunks', async () => {
+    const events = await collect('event: done\r', '\ndata: x\r\n', 'data: y\r\n\r\n');
+
+    expect(events).toEqual([{ event: 'done', data: 'x\ny' }]);
+  });
+
+  it('decodes multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('data: ⟦café⟧\n\n');
+    const events: ServerSentEvent[] = [];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 8));
+        controller.enqueue(bytes.slice(8));
+        controller.close();
+      },
+    });
+
+    await readServerSentEvents(body, event => events.push(event));
+
+    expect(events).toEqual([{ event: 'message', data: '⟦café⟧' }]);
+  });
+});
@@ -0,0 +1,10 @@
+// Helpers for the CAN-SPAM / GDPR flags in analysisResult.report.global.flags
+
+import type { ComplianceFlag } from '../services/api';
+
+export const isComplianceFlag = (flag: { tag: string; reasons: Record<string, unknown> }): flag is ComplianceFlag =>
+  flag.reasons?.category === 'compliance';
+
+/** Flags that must be fixed before sending (missing unsubscribe link or postal address) */
+export const blockingComplianceFlags = (flags: ComplianceFlag[]): ComplianceFlag[] =>
+  flags.filter(flag => flag.reasons.severity === 'blocking');
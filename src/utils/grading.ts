@@ -0,0 +1,19 @@
+// The grading rubric lives with the server engines so the client grades drafts
+// exactly as /api/analyze does
+export {
+  DEFAULT_RUBRIC,
+  RUBRIC_DIMENSIONS,
+  gradeNewsletter,
+  issueDensityScore,
+  rubricFromGrade,
+  scoreToGrade,
+  writingIssuesScore,
+} from '../../server/ai-engines/grading-rubric.js';
+export type {
+  GradeBreakdownItem,
+  GradeResult,
+  GradingRubric,
+  LetterGrade,
+  RubricDimension,
+  RubricDimensionKey,
+} from '../../server/ai-engines/grading-rubric.js';
@@ -1,104 +1,135 @@
 // Professional highlight mapping utility
-// Maps highlights from tagged plain text to HTML while preserving formatting
+// Maps highlights from tagged plain text to HTML while preserving formatting.
+// Offsets go through the same source map the server tagger uses, so repeated
+// sentences and entity-encoded text land on the right characters.
+
+import {
+  buildSourceMap,
+  sourceSegments,
+  sourceToText,
+} from '../../server/ai-engines/source-map.js';
+import { ANALYSIS_TAG_PATTERN, sortHighlightTypes, type HighlightType } from '../types/highlighting';
 
 interface HighlightInfo {
-  type: 'hard_to_read' | 'fluff' | 'spam_words';
+  type: HighlightType;
   text: string;
+  /** Offsets into the plain text produced by the shared source map */
   start: number;
   end: number;
 }
 
+// Built-in and rule-pack analysis tags
+const ANALYSIS_TAG_REGEX = new RegExp(`<(/?)(${ANALYSIS_TAG_PATTERN})>`, 'g');
+
+const toStyleString = (style: React.CSSProperties): string =>
+  Object.entries(style)
+    .map(([key, value]) => {
+      const cssKey = key.replace(/([A-Z])/g, '-$1').toLowerCase();
+      return `${cssKey}: ${value}`;
+    })
+    .join('; ');
+
 /**
  * Extract highlights from tagged plain text
  */
 export function extractHighlights(taggedContent: string): HighlightInfo[] {
-  const highlights: HighlightInfo[] = [];
-  const tagRegex = /<(hard_to_read|fluff|spam_words)>(.*?)<\/\1>/gs;
-  
-  // Get the plain text version for accurate position mapping
-  let plainTextOffset = 0;
-  let currentOffset = 0;
+  const tagged: Array<{ type: HighlightType; start: number; end: number }> = [];
+  const open: Array<{ type: HighlightType; start: number }> = [];
+  let html = '';
+  let lastIndex = 0;
   let match;
 
-  // Reset regex
-  tagRegex.lastIndex = 0;
-
-  while ((match = tagRegex.exec(taggedContent)) !== null) {
-    const [fullMatch, tagType, taggedText] = match;
-    const matchStart = match.index;
-
-    // Calculate position in plain text
-    const beforeMatch = taggedContent.substring(currentOffset, matchStart);
-    const plainBefore = beforeMatch.replace(/<[^>]*>/g, '');
-    
-    const startPos = plainTextOffset + plainBefore.length;
-    const endPos = startPos + taggedText.length;
-
-    highlights.push({
-      type: tagType as HighlightInfo['type'],
-      text: taggedText.trim(),
-      start: startPos,
-      end: endPos
-    });
-
-    plainTextOffset += plainBefore.length + taggedText.length;
-    currentOffset = matchStart + fullMatch.length;
-  }
+  // Strip analysis tags, remembering where each one sat in the remaining HTML
+  ANALYSIS_TAG_REGEX.lastIndex = 0;
+  while ((match = ANALYSIS_TAG_REGEX.exec(taggedContent)) !== null) {
+    const [fullMatch, closing, tagType] = match;
+    html += taggedContent.slice(lastIndex, match.index);
+    lastIndex = match.index + fullMatch.length;
 
-  return highlights;
+    if (!closing) {
+      open.push({ type: tagType, start: html.length });
+      continue;
+    }
+
+    const openIndex = open.map(o => o.type).lastIndexOf(tagType);
+    if (openIndex === -1) continue;
+    const [opened] = open.splice(openIndex, 1);
+    tagged.push({ type: opened.type, start: opened.start, end: html.length });
+  }
+  html += taggedContent.slice(lastIndex);
+
+  // Convert HTML positions to plain-text offsets
+  const map = buildSourceMap(html);
+  return tagged
+    .map(({ type, start, end }) => {
+      const textStart = sourceToText(map, start);
+      const textEnd = sourceToText(map, end);
+      return {
+        type,
+        text: map.text.slice(textStart, textEnd).trim(),
+        start: textStart,
+        end: textEnd,
+      };
+    })
+    .filter(highlight => highlight.end > highlight.start)
+    .sort((a, b) => a.start - b.start);
 }
 
 /**
  * Apply highlights to HTML content while preserving structure
  */
 export function applyHighlightsToHTML(
-  htmlContent: string, 
+  htmlContent: string,
   highlights: HighlightInfo[],
   styleMap: Record<string, React.CSSProperties>,
   tooltipMap: Record<string, string>
 ): string {
   if (highlights.length === 0) return htmlContent;
 
-  let result = htmlContent;
-
-  // Sort highlights by text length (longest first) to avoid partial replacements
-  const sortedHighlights = [...highlights].sort((a, b) => b.text.length - a.text.length);
-
-  sortedHighlights.forEach(highlight => {
-    const { type, text } = highlight;
-    
-    if (!text || text.trim().length === 0) return;
-
-    const style = styleMap[type];
-    const tooltip = tooltipMap[type];
-    
-    // Convert style object to CSS string
-    const styleString = Object.entries(style)
-      .map(([key, value]) => {
-        const cssKey = key.replace(/([A-Z])/g, '-$1').toLowerCase();
-        return `${cssKey}: ${value}`;
-      })
-      .join('; ');
-
-    // Create a more precise regex that avoids matching inside HTML tags
-    // This regex uses negative lookbehind and lookahead to avoid matching inside tags
-    const escapedText = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    
-    // Only replace text that's not inside HTML tags and not already highlighted
-    const regex = new RegExp(
-      `(?<!<[^>]*>)(?<!<span[^>]*class="highlight-span"[^>]*>)${escapedText}(?![^<]*>)(?!</span>)`,
-      'gi'
-    );
+  const map = buildSourceMap(htmlContent);
 
-    const replacement = `<span class="highlight-span" style="${styleString}" title="${tooltip}">${text}</span>`;
-    
-    // Only replace if we find matches
-    if (regex.test(result)) {
-      result = result.replace(regex, replacement);
-    }
-  });
+  // Resolve each highlight to the text-only HTML runs it covers
+  const covered = highlights
+    .filter(highlight => styleMap[highlight.type] && highlight.end > highlight.start)
+    .flatMap(highlight =>
+      sourceSegments(map, highlight.start, highlight.end).map(segment => ({
+        ...segment,
+        type: highlight.type,
+      }))
+    );
+  if (covered.length === 0) return htmlContent;
+
+  // Cut overlapping runs into pieces so every piece gets exactly one span
+  const boundaries = Array.from(
+    new Set(covered.flatMap(segment => [segment.start, segment.end]))
+  ).sort((a, b) => a - b);
+
+  let result = '';
+  let cursor = 0;
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const types = sortHighlightTypes(Array.from(
+      new Set(
+        covered
+          .filter(segment => segment.start <= start && segment.end >= end)
+          .map(segment => segment.type)
+      )
+    ));
+
+    if (types.length === 0) continue;
+
+    // The highest-priority finding decides the colour; the tooltip lists them all
+    const styleString = toStyleString(styleMap[types[0]]);
+    const tooltip = types.map(type => tooltipMap[type]).filter(Boolean).join(' • ');
+
+    result += htmlContent.slice(cursor, start);
+    result += `<span class="highlight-span" style="${styleString}" title="${tooltip}" data-highlight-types="${types.join(' ')}">${htmlContent.slice(start, end)}</span>`;
+    cursor = end;
+  }
 
-  return result;
+  return result + htmlContent.slice(cursor);
 }
 
 /**
@@ -110,21 +141,14 @@ export function processTaggedContent(
   tooltipMap: Record<string, string>
 ): string {
   return taggedContent.replace(
-    /<(hard_to_read|fluff|spam_words)>(.*?)<\/\1>/gs,
+    new RegExp(`<(${ANALYSIS_TAG_PATTERN})>(.*?)<\\/\\1>`, 'gs'),
     (match, tagType, taggedText) => {
       const style = styleMap[tagType];
       const tooltip = tooltipMap[tagType];
-      
+
       if (!style || !tooltip) return taggedText;
-      
-      const styleString = Object.entries(style)
-        .map(([key, value]) => {
-          const cssKey = key.replace(/([A-Z])/g, '-$1').toLowerCase();
-          return `${cssKey}: ${value}`;
-        })
-        .join('; ');
-      
-      return `<span class="highlight-span" style="${styleString}" title="${tooltip}">${taggedText}</span>`;
+
+      return `<span class="highlight-span" style="${toStyleString(style)}" title="${tooltip}">${taggedText}</span>`;
     }
   );
-}
\ No newline at end of file
+}
@@ -12,7 +12,7 @@ import type {
   AnimationState,
 } from '../types/highlighting';
 
-import { DEFAULT_HIGHLIGHT_COLORS } from '../types/highlighting';
+import { DEFAULT_HIGHLIGHT_COLORS, PRIORITY_HIGHLIGHT_COLORS } from '../types/highlighting';
 
 const DEFAULT_CONFIG: HighlightingConfig = {
   colors: DEFAULT_HIGHLIGHT_COLORS,
@@ -150,7 +150,7 @@ export function createHighlightingEngine(
       
       if (!position) continue;
 
-      const colors = fullConfig.colors[range.type];
+      const colors = fullConfig.colors[range.type] ?? PRIORITY_HIGHLIGHT_COLORS[range.priority];
       if (!colors) continue;
 
       // Draw background highlight
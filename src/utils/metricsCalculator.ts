@@ -1,4 +1,5 @@
 import { NewsletterMetrics } from '../components/MetricsDisplay';
+import { gradeNewsletter, scoreToGrade as rubricScoreToGrade } from './grading';
 
 export interface AnalysisIssue {
   type: 'clarity' | 'engagement' | 'tone';
@@ -148,15 +149,9 @@ export const calculateMetricScores = (
 };
 
 /**
- * Convert average score to letter grade
+ * Convert average score to letter grade (default rubric cutoffs)
  */
-export const scoreToGrade = (score: number): 'A' | 'B' | 'C' | 'D' | 'F' => {
-  if (score >= 90) return 'A';
-  if (score >= 80) return 'B';
-  if (score >= 70) return 'C';
-  if (score >= 60) return 'D';
-  return 'F';
-};
+export const scoreToGrade = (score: number): 'A' | 'B' | 'C' | 'D' | 'F' => rubricScoreToGrade(score);
 
 /**
  * Calculate complete newsletter metrics from tagged content
@@ -170,11 +165,11 @@ export const calculateNewsletterMetrics = (
   const readingTime = calculateReadingTime(wordCount);
   
   const scores = calculateMetricScores(issues, wordCount);
-  const averageScore = Math.round((scores.clarity + scores.engagement + scores.tone) / 3);
-  const overallGrade = scoreToGrade(averageScore);
+  const grading = gradeNewsletter(scores);
   
   return {
-    overallGrade,
+    overallGrade: grading.grade,
+    grading,
     clarity: scores.clarity,
     engagement: scores.engagement,
     tone: scores.tone,
@@ -191,11 +186,11 @@ export const generateSampleMetrics = (
   engagementScore: number = 68,
   toneScore: number = 82
 ): NewsletterMetrics => {
-  const averageScore = Math.round((clarityScore + engagementScore + toneScore) / 3);
-  const overallGrade = scoreToGrade(averageScore);
+  const grading = gradeNewsletter({ clarity: clarityScore, engagement: engagementScore, tone: toneScore });
   
   return {
-    overallGrade,
+    overallGrade: grading.grade,
+    grading,
     clarity: clarityScore,
     engagement: engagementScore,
     tone: toneScore,
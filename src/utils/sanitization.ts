@@ -1,4 +1,5 @@
 import DOMPurify from 'dompurify';
+import { ANALYSIS_TAG_PATTERN } from '../types/highlighting';
 
 // Configuration for DOMPurify to allow rich text formatting while preventing XSS
 const SANITIZE_CONFIG = {
@@ -177,8 +178,8 @@ export function cleanHtmlForDisplay(html: string): string {
 
   try {
     const result = html
-    // Remove analysis tags first (fluff, spam_words, hard_to_read) - both opening and closing
-    .replace(/<\/?(?:fluff|spam_words|hard_to_read)>/gi, '')
+    // Remove analysis tags first (fluff, spam_words, hard_to_read, ...) - both opening and closing
+    .replace(new RegExp(`</?${ANALYSIS_TAG_PATTERN}>`, 'gi'), '')
     
     // Convert block elements to line breaks with proper spacing
     .replace(/<\/?(p|div|h[1-6]|li|blockquote|article|section|header|footer|main|aside)[^>]*>/gi, '\n')
@@ -252,7 +253,7 @@ export function cleanHtmlForDisplay(html: string): string {
 
     // Validation of output
     const hasRemainingHtmlTags = /<[^>]*>/.test(result);
-    const hasRemainingAnalysisTags = /<(fluff|spam_words|hard_to_read)>/.test(result);
+    const hasRemainingAnalysisTags = new RegExp(`<${ANALYSIS_TAG_PATTERN}>`).test(result);
     
     if (hasRemainingHtmlTags || hasRemainingAnalysisTags) {
       console.warn('cleanHtmlForDisplay: Incomplete cleaning detected', {
@@ -0,0 +1,68 @@
+/**
+ * Server-sent events over fetch
+ * EventSource only does GET, so streaming endpoints that take a body are
+ * read from a fetch response instead. Handles `event:` and multi-line
+ * `data:` fields, CRLF line endings, comment lines (keep-alives) and events
+ * split across network chunks.
+ */
+
+export interface ServerSentEvent {
+  /** Event name; 'message' when the server sent none */
+  event: string;
+  data: string;
+}
+
+/**
+ * Read a text/event-stream body, calling onEvent for every complete event.
+ * Resolves when the stream ends; rejects when it is aborted.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+
+  const dispatch = () => {
+    if (data.length > 0) {
+      onEvent({ event: event || 'message', data: data.join('\n') });
+    }
+    event = '';
+    data = [];
+  };
+
+  const readLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    // A trailing \r may be half of a \r\n still arriving, so it only ends a line at the end of the stream
+    const lines = buffer.split(done ? /\r\n|\r|\n/ : /\r\n|\r(?!$)|\n/);
+    // The last piece may be a line still arriving
+    buffer = done ? '' : lines.pop() ?? '';
+    lines.forEach(readLine);
+
+    if (done) {
+      dispatch();
+      return;
+    }
+  }
+}
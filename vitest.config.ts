@@ -19,8 +19,6 @@ export default defineConfig({
   },
   test: {
     globals: true,
-    environment: 'jsdom',
-    setupFiles: ['./src/test-setup.ts'],
     css: true,
     coverage: {
       provider: 'v8',
@@ -64,8 +62,25 @@ export default defineConfig({
         '**/storybook-static/**',
       ],
     },
-    include: [
-      'src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}',
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'app',
+          environment: 'jsdom',
+          setupFiles: ['./src/test-setup.ts'],
+          include: ['src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}'],
+        },
+      },
+      {
+        // Server unit tests run in Node, without the browser mocks
+        extends: true,
+        test: {
+          name: 'server',
+          environment: 'node',
+          include: ['server/**/*.{test,spec}.{js,ts}'],
+        },
+      },
     ],
     exclude: [
       'node_modules',